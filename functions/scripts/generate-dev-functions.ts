@@ -166,6 +166,11 @@ function extractHelperFunctions(filePath: string, sourceCode: string): string[]
       }
     }
     
+    // Look for interface declarations (not exported) used by helper signatures
+    if (ts.isInterfaceDeclaration(node) && ts.isSourceFile(node.parent) && !node.modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword)) {
+      helpers.push(sourceCode.substring(node.getStart(), node.getEnd()));
+    }
+
     // Look for function declarations (not exported) at top level
     if (ts.isFunctionDeclaration(node) && !node.modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword)) {
       // Check if it's at the top level (not nested)
@@ -238,11 +243,11 @@ function generateOutputFile(allFunctions: Map<string, FunctionInfo[]>): string {
     const filePath = path.join(FUNCTIONS_DIR, file);
     const sourceCode = fs.readFileSync(filePath, 'utf-8');
     
-    // Extract imports from the source file
-    const importRegex = /^import\s+.*$/gm;
+    // Extract imports from the source file, imports split over several lines are joined into one
+    const importRegex = /^import\s[\s\S]*?["'];?$/gm;
     const imports = sourceCode.match(importRegex);
     if (imports) {
-      imports.forEach(imp => allImports.add(imp));
+      imports.forEach(imp => allImports.add(imp.replace(/\s+/g, ' ').replace(/,\s*\}/, ' }')));
     }
     
     // Extract helper functions
@@ -339,7 +344,7 @@ function generateOutputFile(allFunctions: Map<string, FunctionInfo[]>): string {
   const uniqueHelpersMap = new Map<string, string>();
   allHelperFunctions.forEach(helper => {
     // Extract function name to deduplicate
-    const nameMatch = helper.match(/(?:function|const|async function)\s+(\w+)/);
+    const nameMatch = helper.match(/(?:function|const|async function|interface)\s+(\w+)/);
     if (nameMatch) {
       const funcName = nameMatch[1];
       if (!uniqueHelpersMap.has(funcName)) {
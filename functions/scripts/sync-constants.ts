@@ -9,12 +9,14 @@ import * as path from 'path';
  */
 
 const PROJECT_ROOT = path.join(__dirname, '../..');
-const SOURCE_FILE = path.join(PROJECT_ROOT, 'src/constants/email-templates.ts');
+const SOURCE_DIR = path.join(PROJECT_ROOT, 'src/constants');
 const TARGET_DIR = path.join(__dirname, '../src/constants');
-const TARGET_FILE = path.join(TARGET_DIR, 'email-templates.ts');
 
-const AUTO_GENERATED_HEADER = `// AUTO-GENERATED FILE - DO NOT EDIT MANUALLY
-// This file is automatically copied from src/constants/email-templates.ts
+// Files shared by the web app and the functions
+const SYNCED_FILES = ['email-templates.ts', 'quota.ts'];
+
+const autoGeneratedHeader = (fileName: string) => `// AUTO-GENERATED FILE - DO NOT EDIT MANUALLY
+// This file is automatically copied from src/constants/${fileName}
 // Run 'npm run sync:constants' or 'npm run build' to regenerate
 
 `;
@@ -23,28 +25,33 @@ function syncConstants() {
   console.log('🔄 Syncing constants from root to functions directory...');
   
   try {
-    // Check if source file exists
-    if (!fs.existsSync(SOURCE_FILE)) {
-      console.error(`❌ Source file not found: ${SOURCE_FILE}`);
-      process.exit(1);
-    }
-
     // Ensure target directory exists
     if (!fs.existsSync(TARGET_DIR)) {
       console.log(`📁 Creating directory: ${TARGET_DIR}`);
       fs.mkdirSync(TARGET_DIR, { recursive: true });
     }
 
-    // Read source file
-    const sourceContent = fs.readFileSync(SOURCE_FILE, 'utf-8');
-    
-    // Write to target with auto-generated header
-    const targetContent = AUTO_GENERATED_HEADER + sourceContent;
-    fs.writeFileSync(TARGET_FILE, targetContent, 'utf-8');
-    
-    console.log(`✅ Successfully synced: ${path.basename(SOURCE_FILE)}`);
-    console.log(`   From: ${SOURCE_FILE}`);
-    console.log(`   To:   ${TARGET_FILE}`);
+    for (const fileName of SYNCED_FILES) {
+      const sourceFile = path.join(SOURCE_DIR, fileName);
+      const targetFile = path.join(TARGET_DIR, fileName);
+
+      // Check if source file exists
+      if (!fs.existsSync(sourceFile)) {
+        console.error(`❌ Source file not found: ${sourceFile}`);
+        process.exit(1);
+      }
+
+      // Read source file
+      const sourceContent = fs.readFileSync(sourceFile, 'utf-8');
+
+      // Write to target with auto-generated header
+      const targetContent = autoGeneratedHeader(fileName) + sourceContent;
+      fs.writeFileSync(targetFile, targetContent, 'utf-8');
+
+      console.log(`✅ Successfully synced: ${fileName}`);
+      console.log(`   From: ${sourceFile}`);
+      console.log(`   To:   ${targetFile}`);
+    }
   } catch (error) {
     console.error('❌ Error syncing constants:', error);
     process.exit(1);
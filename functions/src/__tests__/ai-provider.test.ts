@@ -0,0 +1,154 @@
+import { generateText } from '../text-generation';
+import { generateImage } from '../image-generation';
+import { OPENAI_AGENTS } from '../open-ai-agents';
+import { getAIProvider, getAIProviderName } from '../lib/ai-provider';
+import { FAKE_PNG_BASE64 } from '../lib/fake-ai-provider';
+import { createInitialCheckpoint, runStoryPipeline } from '../lib/story-pipeline';
+
+// Keep firebase-admin out of the flow: storage uploads and auth lookups are stubbed
+jest.mock('../lib/utils', () => ({
+  admin: {
+    auth: () => ({ getUser: async () => ({ email: undefined }) }),
+    remoteConfig: () => ({ getServerTemplate: async () => { throw new Error('offline'); } }),
+    firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } },
+  },
+  saveImageToStorage: jest.fn(async (_image: string, _accountId: string, _userId: string, storyId: string, _type: string, pageNum: number) =>
+    `https://storage.test/${storyId}/page_${pageNum}.png`),
+}));
+
+jest.mock('firebase-admin', () => ({
+  firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } },
+  auth: () => ({ getUser: async () => ({ email: undefined }) }),
+}));
+
+// Fail loudly if anything tries to reach the network
+global.fetch = jest.fn(() => Promise.reject(new Error('Network access is not allowed in this test')));
+
+// Story writes run in a transaction that checks the run still owns the story
+const createDbHelper = (updates: Record<string, unknown>[]) => ({
+  getStoryRef: () => ({}),
+  getDb: () => ({
+    runTransaction: async (callback: (transaction: unknown) => Promise<unknown>) => callback({
+      get: async () => ({ data: () => ({ checkpoint: { runId: 'run-1' } }) }),
+      update: (_ref: unknown, fields: Record<string, unknown>) => { updates.push(fields); },
+    }),
+  }),
+}) as any;
+
+describe('AI Provider', () => {
+  const originalProvider = process.env.AI_PROVIDER;
+
+  afterEach(() => {
+    process.env.AI_PROVIDER = originalProvider;
+  });
+
+  describe('provider selection', () => {
+    it('should default to OpenAI', () => {
+      delete process.env.AI_PROVIDER;
+      expect(getAIProviderName()).toBe('openai');
+      expect(getAIProvider().name).toBe('openai');
+    });
+
+    it('should select the fake provider from AI_PROVIDER', () => {
+      process.env.AI_PROVIDER = 'fake';
+      expect(getAIProvider().name).toBe('fake');
+    });
+
+    it('should reject unknown providers', () => {
+      process.env.AI_PROVIDER = 'unknown';
+      expect(() => getAIProvider()).toThrow('Unknown AI_PROVIDER');
+    });
+  });
+
+  describe('fake provider', () => {
+    beforeEach(() => {
+      process.env.AI_PROVIDER = 'fake';
+    });
+
+    it('should return canned titles personalized with the kid name', async () => {
+      const result = await generateText({
+        prompt: { id: OPENAI_AGENTS.STORY_TITLES_TEXT },
+        input: 'Name: Noa\nGender: female',
+      });
+
+      expect(JSON.parse(result).titles).toContain('Noa and the Brave Choice');
+    });
+
+    it('should return page JSON with choice and flow pages', async () => {
+      const result = await generateText({
+        prompt: { id: OPENAI_AGENTS.STORY_PAGES_TEXT },
+        input: 'Name: Noa\nStory Title: Noa and the Brave Choice',
+      });
+      const pageTypes = JSON.parse(result).pages.map((p: { pageType: string }) => p.pageType);
+
+      expect(pageTypes[0]).toBe('cover');
+      expect(pageTypes).toEqual(expect.arrayContaining(['normal', 'good_choice', 'bad_choice', 'good', 'bad']));
+    });
+
+    it('should be deterministic', async () => {
+      const request = { prompt: { id: OPENAI_AGENTS.STORY_IMAGE_PROMPT }, input: 'Noa opens the door' };
+      expect(await generateText(request)).toBe(await generateText(request));
+    });
+
+    it('should return a PNG image', async () => {
+      const image = await generateImage({
+        prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE },
+        input: [{ role: 'user', content: [{ type: 'input_text', text: 'A garden' }] }],
+      });
+
+      expect(image).toBe(FAKE_PNG_BASE64);
+      expect(Buffer.from(image, 'base64').subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('should run the whole story pipeline without network access', async () => {
+      const updates: Record<string, unknown>[] = [];
+      const dbHelper = createDbHelper(updates);
+
+      const result = await runStoryPipeline({
+        dbHelper,
+        environment: 'development',
+        storyId: 'story-1',
+        runId: 'run-1',
+        userId: 'user-1',
+        kid: { name: 'Noa', gender: 'female', age: 6, imageUrl: 'https://storage.test/kid.png' },
+        problemDescription: 'Afraid of the dark',
+        advantages: '',
+        disadvantages: '',
+      }, createInitialCheckpoint('run-1'));
+
+      expect(result.success).toBe(true);
+      expect(result.title).toContain('Noa');
+      expect(result.imagesGenerated).toBe(result.pagesCount);
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      const finalUpdate = updates[updates.length - 1];
+      expect(finalUpdate.status).toBe('completed');
+      expect((finalUpdate.checkpoint as { step: string }).step).toBe('completed');
+    });
+
+    it('should save the graph of a branching story', async () => {
+      const updates: Record<string, unknown>[] = [];
+      const dbHelper = createDbHelper(updates);
+
+      const result = await runStoryPipeline({
+        dbHelper,
+        environment: 'development',
+        storyId: 'story-2',
+        runId: 'run-1',
+        userId: 'user-1',
+        kid: { name: 'Noa', gender: 'female', age: 6, imageUrl: 'https://storage.test/kid.png' },
+        problemDescription: 'Afraid of the dark',
+        advantages: '',
+        disadvantages: '',
+        decisionPoints: 2,
+      }, createInitialCheckpoint('run-1'));
+
+      const pagesUpdate = updates.find(update => update.graph);
+      const graph = pagesUpdate?.graph as { nodes: Record<string, { choices?: unknown[] }> };
+
+      expect(result.success).toBe(true);
+      expect(Object.values(graph.nodes).filter(node => node.choices)).toHaveLength(2);
+      expect(result.imagesGenerated).toBe(result.pagesCount);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { calculateAICost, runWithAIUsageScope } from '../lib/ai-usage';
+import { setAIProviderForTesting } from '../lib/ai-provider';
+import { generateText } from '../text-generation';
+import { generateImage } from '../image-generation';
+import { OPENAI_AGENTS } from '../open-ai-agents';
+
+jest.mock('firebase-admin', () => ({
+  firestore: {
+    FieldValue: {
+      serverTimestamp: () => 'SERVER_TIMESTAMP',
+      increment: (value: number) => ({ increment: value }),
+    },
+  },
+}));
+
+/**
+ * Tests for the AI usage ledger
+ */
+
+const createDbHelper = () => {
+  const storyRef = { update: jest.fn(async () => undefined) };
+  return {
+    helper: {
+      addAIUsageEntry: jest.fn(async () => 'entry-1'),
+      getStoryRef: jest.fn(() => storyRef),
+    } as any,
+    storyRef,
+  };
+};
+
+describe('AI usage', () => {
+  describe('calculateAICost', () => {
+    it('should price tokens by model, including dated snapshots', () => {
+      const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000, images: 0 };
+      expect(calculateAICost({ model: 'gpt-4o', ...usage })).toBeCloseTo(12.5);
+      expect(calculateAICost({ model: 'gpt-4o-mini-2024-07-18', ...usage })).toBeCloseTo(0.75);
+      expect(calculateAICost({ model: 'unknown-model', ...usage })).toBeCloseTo(0.75);
+    });
+
+    it('should add the images by quality', () => {
+      expect(calculateAICost({ model: 'gpt-4.1', inputTokens: 0, outputTokens: 0, images: 2, imageQuality: 'high' })).toBeCloseTo(0.334);
+      expect(calculateAICost({ model: 'gpt-4.1', inputTokens: 0, outputTokens: 0, images: 1, imageQuality: 'auto' })).toBeCloseTo(0.042);
+    });
+
+    it('should not charge for the fake provider', () => {
+      expect(calculateAICost({ model: 'fake', inputTokens: 100, outputTokens: 100, images: 1 })).toBe(0);
+    });
+  });
+
+  describe('recording', () => {
+    afterEach(() => {
+      setAIProviderForTesting(null);
+    });
+
+    it('should record calls made inside a scope and roll them up onto the story', async () => {
+      setAIProviderForTesting({
+        name: 'openai',
+        generateText: async (_request, onUsage) => {
+          onUsage?.({ model: 'gpt-4o', inputTokens: 1000, outputTokens: 500, images: 0 });
+          return 'text';
+        },
+        generateImage: async (_request, onUsage) => {
+          onUsage?.({ model: 'gpt-4o', inputTokens: 0, outputTokens: 0, images: 1, imageQuality: 'low' });
+          return 'image';
+        },
+      });
+      const { helper, storyRef } = createDbHelper();
+      const scope = { dbHelper: helper, accountId: 'account-1', kidId: 'kid-1', storyId: 'story-1' };
+
+      await runWithAIUsageScope(scope, async () => {
+        await generateText({ prompt: { id: OPENAI_AGENTS.STORY_TITLES_TEXT }, input: 'Name: Noa' });
+        await generateImage({ prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE }, input: [] });
+      });
+
+      expect(helper.addAIUsageEntry).toHaveBeenCalledTimes(2);
+      expect(helper.addAIUsageEntry).toHaveBeenCalledWith(expect.objectContaining({
+        accountId: 'account-1',
+        kidId: 'kid-1',
+        storyId: 'story-1',
+        kind: 'text',
+        promptId: OPENAI_AGENTS.STORY_TITLES_TEXT,
+        model: 'gpt-4o',
+        inputTokens: 1000,
+        outputTokens: 500,
+        cost: 0.0075,
+      }));
+      expect(storyRef.update).toHaveBeenLastCalledWith(expect.objectContaining({
+        'aiUsage.calls': { increment: 1 },
+        'aiUsage.images': { increment: 1 },
+        'aiUsage.totalCost': { increment: 0.011 },
+      }));
+    });
+
+    it('should not record calls outside a scope or fail the call when recording fails', async () => {
+      setAIProviderForTesting({
+        name: 'openai',
+        generateText: async (_request, onUsage) => {
+          onUsage?.({ model: 'gpt-4o', inputTokens: 10, outputTokens: 10, images: 0 });
+          return 'text';
+        },
+        generateImage: async () => 'image',
+      });
+      const { helper } = createDbHelper();
+      helper.addAIUsageEntry.mockRejectedValueOnce(new Error('offline'));
+
+      await expect(generateText({ prompt: { id: OPENAI_AGENTS.STORY_TITLES_TEXT }, input: '' })).resolves.toBe('text');
+      expect(helper.addAIUsageEntry).not.toHaveBeenCalled();
+
+      await expect(runWithAIUsageScope({ dbHelper: helper, accountId: 'account-1' }, () =>
+        generateText({ prompt: { id: OPENAI_AGENTS.STORY_TITLES_TEXT }, input: '' })
+      )).resolves.toBe('text');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { validateAgentResponse } from '../lib/story-schemas';
+import {
+  buildCharacterBibleInput,
+  characterBibleVariables,
+  CharacterBibleResponseSchema,
+  formatCharacterBible,
+  parseCharacterBible,
+} from '../lib/character-bible';
+import { createInitialCheckpoint, runStoryPipeline } from '../lib/story-pipeline';
+import { setAIProviderForTesting } from '../lib/ai-provider';
+import { FakeAIProvider } from '../lib/fake-ai-provider';
+import { OPENAI_AGENTS } from '../open-ai-agents';
+import type { TextGenerationRequest } from '../text-generation';
+import type { ImageGenerationRequest } from '../image-generation';
+
+jest.mock('../lib/utils', () => ({
+  admin: {
+    auth: () => ({ getUser: async () => ({ email: undefined }) }),
+    remoteConfig: () => ({ getServerTemplate: async () => { throw new Error('offline'); } }),
+    firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } },
+  },
+  saveImageToStorage: jest.fn(async (_image: string, _accountId: string, _userId: string, storyId: string, _type: string, pageNum: number) =>
+    `https://storage.test/${storyId}/page_${pageNum}.png`),
+}));
+
+jest.mock('firebase-admin', () => ({
+  firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } },
+  auth: () => ({ getUser: async () => ({ email: undefined }) }),
+}));
+
+/**
+ * Tests for the per-story character bible
+ */
+
+const kid = { name: 'Noa', gender: 'female' as const, age: 6, imageUrl: 'https://storage.test/kid.png' };
+const characters = [
+  { name: 'Noa', role: 'main character', appearance: 'Curly hair and a yellow raincoat' },
+  { name: 'Dad', role: 'parent', appearance: 'Beard and round glasses' },
+];
+
+describe('Character Bible', () => {
+  describe('CharacterBibleResponseSchema', () => {
+    it('should accept the characters with or without the wrapper', () => {
+      expect(validateAgentResponse(JSON.stringify({ characters }), CharacterBibleResponseSchema).data).toEqual(characters);
+      expect(validateAgentResponse(JSON.stringify(characters), CharacterBibleResponseSchema).data).toEqual(characters);
+    });
+
+    it('should require an appearance and unique names', () => {
+      const missingAppearance = validateAgentResponse('[{"name": "Noa", "role": "main character"}]', CharacterBibleResponseSchema);
+      const duplicates = validateAgentResponse(JSON.stringify([...characters, characters[0]]), CharacterBibleResponseSchema);
+
+      expect(missingAppearance.issues).toContain('0: Character appearance is required (use the `appearance` field)');
+      expect(duplicates.issues).toContain('Character names must be unique');
+    });
+  });
+
+  describe('parseCharacterBible', () => {
+    it('should drop invalid entries instead of failing', () => {
+      expect(parseCharacterBible([characters[0], { name: '' }, 'Dad'])).toEqual([characters[0]]);
+      expect(parseCharacterBible(undefined)).toEqual([]);
+    });
+  });
+
+  describe('characterBibleVariables', () => {
+    it('should format the characters into one variable', () => {
+      expect(formatCharacterBible(characters)).toBe('Noa (main character): Curly hair and a yellow raincoat\nDad (parent): Beard and round glasses');
+      expect(characterBibleVariables(characters)).toEqual({ character_bible: formatCharacterBible(characters) });
+      expect(characterBibleVariables([])).toEqual({});
+    });
+  });
+
+  describe('buildCharacterBibleInput', () => {
+    it('should list the story pages', () => {
+      const input = buildCharacterBibleInput('Noa and the Dark Room', [{ pageType: 'cover', storyText: 'Noa and the Dark Room' }], kid);
+
+      expect(input).toContain('Character Bible: true');
+      expect(input).toContain('[0] (cover): Noa and the Dark Room');
+    });
+  });
+
+  describe('story pipeline', () => {
+    const textRequests: TextGenerationRequest[] = [];
+    const imageRequests: ImageGenerationRequest[] = [];
+    const fake = new FakeAIProvider();
+
+    // Story writes run in a transaction that checks the run still owns the story
+    const createDbHelper = (updates: Record<string, unknown>[]) => ({
+      getStoryRef: () => ({ id: 'story-1' }),
+      getDb: () => ({
+        runTransaction: async (callback: (transaction: unknown) => Promise<unknown>) => callback({
+          get: async () => ({ data: () => ({ checkpoint: { runId: 'run-1' } }) }),
+          update: (_ref: unknown, fields: Record<string, unknown>) => { updates.push(fields); },
+        }),
+      }),
+    }) as any;
+
+    const context = (dbHelper: unknown, reviewCharacters?: boolean) => ({
+      dbHelper: dbHelper as any,
+      environment: 'development',
+      storyId: 'story-1',
+      runId: 'run-1',
+      userId: 'user-1',
+      kid,
+      problemDescription: 'Afraid of the dark',
+      advantages: '',
+      disadvantages: '',
+      reviewCharacters,
+    });
+
+    beforeEach(() => {
+      textRequests.length = 0;
+      imageRequests.length = 0;
+      setAIProviderForTesting({
+        name: 'fake',
+        generateText: async (request) => { textRequests.push(request); return fake.generateText(request); },
+        generateImage: async (request) => { imageRequests.push(request); return fake.generateImage(request); },
+      });
+    });
+
+    afterAll(() => {
+      setAIProviderForTesting(null);
+    });
+
+    it('should save the bible and pass it to every prompt and image call', async () => {
+      const updates: Record<string, unknown>[] = [];
+      const result = await runStoryPipeline(context(createDbHelper(updates)), createInitialCheckpoint('run-1'));
+
+      const saved = updates.find(update => update.characterBible)?.characterBible as Array<{ name: string }>;
+      const promptRequests = textRequests.filter(r => r.prompt.id === OPENAI_AGENTS.STORY_IMAGE_PROMPT);
+
+      expect(result.success).toBe(true);
+      expect(saved.map(c => c.name)).toEqual(['Noa', 'Mom']);
+      expect(promptRequests).toHaveLength(result.pagesCount);
+      expect(promptRequests.every(r => r.prompt.variables?.character_bible)).toBe(true);
+      expect(imageRequests).toHaveLength(result.pagesCount);
+      expect(imageRequests.every(r => r.prompt.variables?.character_bible)).toBe(true);
+    });
+
+    it('should pause for review and continue with the edited bible', async () => {
+      const updates: Record<string, unknown>[] = [];
+      const dbHelper = createDbHelper(updates);
+
+      const paused = await runStoryPipeline(context(dbHelper, true), createInitialCheckpoint('run-1'));
+
+      expect(paused.awaitingCharacterReview).toBe(true);
+      expect(updates[updates.length - 1].status).toBe('awaiting_character_review');
+      expect(imageRequests).toHaveLength(0);
+
+      const lastCheckpoint = [...updates].reverse().find(update => update.checkpoint)!.checkpoint as any;
+      const pages = [...updates].reverse().find(update => update.pages)!.pages as any[];
+      const edited = [{ name: 'Noa', role: 'main character', appearance: 'Long braids and a purple dress' }];
+      textRequests.length = 0;
+
+      const resumed = await runStoryPipeline(context(dbHelper, true), lastCheckpoint, pages, edited);
+
+      expect(resumed.awaitingCharacterReview).toBeUndefined();
+      expect(resumed.imagesGenerated).toBe(resumed.pagesCount);
+      expect(textRequests.some(r => r.prompt.id === OPENAI_AGENTS.STORY_PAGES_TEXT)).toBe(false);
+      expect(imageRequests[0].prompt.variables?.character_bible).toBe('Noa (main character): Long braids and a purple dress');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { createSerialQueue, mapWithConcurrency } from '../lib/concurrency';
+
+/**
+ * Tests for the bounded-parallel helpers used by page image generation
+ */
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Concurrency Helpers', () => {
+  describe('mapWithConcurrency', () => {
+    it('should never run more workers than the limit', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(5);
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(3);
+    });
+
+    it('should keep results in input order when items finish out of order', async () => {
+      const results = await mapWithConcurrency([30, 5, 15, 1], 4, async (ms, index) => {
+        await delay(ms);
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should keep processing other items when one fails', async () => {
+      const processed: number[] = [];
+
+      await expect(mapWithConcurrency([0, 1, 2, 3], 2, async (item) => {
+        if (item === 1) {
+          throw new Error('page failed');
+        }
+        await delay(1);
+        processed.push(item);
+      })).rejects.toThrow('page failed');
+
+      expect(processed.sort()).toEqual([0, 2, 3]);
+    });
+
+    it('should treat an invalid limit as sequential', async () => {
+      let maxInFlight = 0;
+      let inFlight = 0;
+
+      await mapWithConcurrency([1, 2, 3], 0, async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(1);
+        inFlight--;
+      });
+
+      expect(maxInFlight).toBe(1);
+    });
+  });
+
+  describe('createSerialQueue', () => {
+    it('should run tasks in the order they were added', async () => {
+      const enqueue = createSerialQueue();
+      const order: string[] = [];
+
+      await Promise.all([
+        enqueue(async () => { await delay(20); order.push('first'); }),
+        enqueue(async () => { order.push('second'); }),
+      ]);
+
+      expect(order).toEqual(['first', 'second']);
+    });
+
+    it('should continue after a failing task', async () => {
+      const enqueue = createSerialQueue();
+
+      const failed = enqueue(async () => { throw new Error('write failed'); });
+      const next = enqueue(async () => 'ok');
+
+      await expect(failed).rejects.toThrow('write failed');
+      await expect(next).resolves.toBe('ok');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  consumeStoryCredit,
+  INSUFFICIENT_CREDITS,
+  parseCreditReservation,
+  refundStoryCredit,
+  reserveStoryCredit,
+  settleStoryCredit,
+  WELCOME_CREDITS,
+} from '../lib/credits';
+
+jest.mock('../lib/utils', () => ({
+  admin: {
+    firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } },
+  },
+}));
+
+/**
+ * Tests for the story credit ledger
+ * Documents live in a map keyed by path, transactions apply their writes directly
+ */
+
+type Doc = Record<string, unknown>;
+
+const createDbHelper = (account: Doc | null, docs: Record<string, Doc> = {}) => {
+  let nextId = 0;
+  const ref = (path: string) => ({
+    path,
+    id: path.split('/').pop() as string,
+    get: async () => ({ exists: !!docs[path], data: () => docs[path] }),
+  });
+  const transaction = {
+    get: async (docRef: { path: string }) => ({ exists: !!docs[docRef.path], data: () => docs[docRef.path] }),
+    set: (docRef: { path: string }, data: Doc) => { docs[docRef.path] = data; },
+    update: (docRef: { path: string }, data: Doc) => { docs[docRef.path] = { ...docs[docRef.path], ...data }; },
+  };
+  const helper = {
+    getAccountRef: () => ({ get: async () => ({ exists: !!account, data: () => account }) }),
+    getCreditBalanceRef: (accountId: string) => ref(`credits/${accountId}`),
+    getCreditLedgerEntryRef: (accountId: string, entryId?: string) => ref(`credits/${accountId}/ledger/${entryId || `entry-${++nextId}`}`),
+    getDb: () => ({ runTransaction: async (callback: (t: typeof transaction) => unknown) => callback(transaction) }),
+  } as any;
+  return { helper, docs };
+};
+
+const ledger = (docs: Record<string, Doc>, accountId: string) =>
+  Object.entries(docs)
+    .filter(([path]) => path.startsWith(`credits/${accountId}/ledger/`))
+    .map(([, entry]) => entry);
+
+describe('Credits', () => {
+  describe('reserveStoryCredit', () => {
+    it('should grant the welcome credits to a new account and reserve one', async () => {
+      const { helper, docs } = createDbHelper({});
+
+      const reservation = await reserveStoryCredit(helper, 'uid-1', 'story-1');
+
+      expect(reservation).toEqual({ accountId: 'uid-1', entryId: 'entry-1' });
+      expect(docs['credits/uid-1'].balance).toBe(WELCOME_CREDITS - 1);
+      expect(docs['credits/uid-1/ledger/welcome']).toMatchObject({ type: 'grant', amount: WELCOME_CREDITS, reason: 'welcome' });
+      expect(docs['credits/uid-1/ledger/entry-1']).toMatchObject({
+        type: 'consumption', amount: -1, balanceAfter: WELCOME_CREDITS - 1, status: 'reserved', storyId: 'story-1',
+      });
+    });
+
+    it('should throw an insufficient-credits error without writing when the balance is empty', async () => {
+      const { helper, docs } = createDbHelper({}, { 'credits/uid-1': { balance: 0 } });
+
+      await expect(reserveStoryCredit(helper, 'uid-1', 'story-1')).rejects.toMatchObject({
+        code: 'resource-exhausted',
+        details: { code: INSUFFICIENT_CREDITS, balance: 0, required: 1 },
+      });
+      expect(ledger(docs, 'uid-1')).toEqual([]);
+    });
+
+    it('should not charge accounts with a role', async () => {
+      const { helper, docs } = createDbHelper({ role: 'admin' }, { 'credits/uid-1': { balance: 0 } });
+
+      await expect(reserveStoryCredit(helper, 'uid-1', 'story-1')).resolves.toBeNull();
+      expect(docs['credits/uid-1'].balance).toBe(0);
+    });
+  });
+
+  describe('settling a reservation', () => {
+    const reserved = () => createDbHelper({}, {
+      'credits/uid-1': { balance: 4 },
+      'credits/uid-1/ledger/res-1': { type: 'consumption', amount: -1, status: 'reserved', storyId: 'story-1' },
+    });
+    const reservation = { accountId: 'uid-1', entryId: 'res-1' };
+
+    it('should keep the credit when the story is consumed', async () => {
+      const { helper, docs } = reserved();
+
+      await consumeStoryCredit(helper, reservation);
+
+      expect(docs['credits/uid-1/ledger/res-1'].status).toBe('consumed');
+      expect(docs['credits/uid-1'].balance).toBe(4);
+    });
+
+    it('should refund the credit once with a refund entry', async () => {
+      const { helper, docs } = reserved();
+
+      await refundStoryCredit(helper, reservation, 'generation_failed');
+      await refundStoryCredit(helper, reservation, 'generation_failed');
+
+      expect(docs['credits/uid-1'].balance).toBe(5);
+      expect(docs['credits/uid-1/ledger/res-1'].status).toBe('refunded');
+      expect(ledger(docs, 'uid-1').filter(entry => entry.type === 'refund')).toEqual([
+        expect.objectContaining({ amount: 1, balanceAfter: 5, storyId: 'story-1', reservationId: 'res-1', reason: 'generation_failed' }),
+      ]);
+    });
+
+    it('should not refund a consumed credit', async () => {
+      const { helper, docs } = reserved();
+
+      await consumeStoryCredit(helper, reservation);
+      await refundStoryCredit(helper, reservation, 'generation_failed');
+
+      expect(docs['credits/uid-1'].balance).toBe(4);
+      expect(docs['credits/uid-1/ledger/res-1'].status).toBe('consumed');
+    });
+
+    it('should hold the credit while the story waits for character review and refund stories held for review', async () => {
+      const paused = reserved();
+      await settleStoryCredit(paused.helper, reservation, { awaitingCharacterReview: true });
+      expect(paused.docs['credits/uid-1/ledger/res-1'].status).toBe('reserved');
+
+      const held = reserved();
+      await settleStoryCredit(held.helper, reservation, { needsReview: true });
+      expect(held.docs['credits/uid-1/ledger/res-1'].status).toBe('refunded');
+      expect(held.docs['credits/uid-1'].balance).toBe(5);
+    });
+  });
+
+  describe('parseCreditReservation', () => {
+    it('should only accept complete reservations', () => {
+      expect(parseCreditReservation({ accountId: 'uid-1', entryId: 'res-1' })).toEqual({ accountId: 'uid-1', entryId: 'res-1' });
+      expect(parseCreditReservation(null)).toBeNull();
+      expect(parseCreditReservation({ accountId: 'uid-1' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { generateFullStory } from '../functions/full-story';
+import { reserveStoryQuota } from '../lib/quota';
+import { reserveStoryCredit } from '../lib/credits';
+import { enforceRateLimit } from '../lib/rate-limit';
+
+const kids: Record<string, { accountId: string }> = { 'kid-1': { accountId: 'owner-1' } };
+const shares: Record<string, 'read' | 'write'> = {
+  'kid-1:reader@example.com': 'read',
+  'kid-1:writer@example.com': 'write',
+};
+
+jest.mock('../lib/utils', () => ({
+  admin: { firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } } },
+  getEnvironment: () => 'development',
+  getDb: jest.fn(),
+  getFirestoreHelper: () => ({
+    getKid: async (kidId: string) => ({ exists: !!kids[kidId], data: () => kids[kidId] }),
+    getKidSharePermission: async (kidId: string, email: string) => shares[`${kidId}:${email}`] || null,
+  }),
+}));
+
+jest.mock('../lib/quota', () => ({ reserveStoryQuota: jest.fn(), releaseStoryQuota: jest.fn() }));
+jest.mock('../lib/rate-limit', () => ({ enforceRateLimit: jest.fn(), getClientIp: () => null }));
+jest.mock('../lib/credits', () => ({ reserveStoryCredit: jest.fn(), refundFailedStoryCredit: jest.fn() }));
+jest.mock('../lib/moderation', () => ({ moderateStoryInput: jest.fn() }));
+jest.mock('../lib/ai-usage', () => ({ runWithAIUsageScope: jest.fn() }));
+jest.mock('../lib/character-bible', () => ({ parseCharacterBible: jest.fn() }));
+jest.mock('../lib/story-pipeline', () => ({
+  createInitialCheckpoint: () => ({ step: 'started', attempts: 0, runId: 'run-1' }),
+  StoryRunSupersededError: class StoryRunSupersededError extends Error {},
+}));
+
+/**
+ * Tests for the kid check of generateFullStory, before anything is reserved or charged
+ */
+
+const callAs = (uid: string, email?: string, kidId = 'kid-1') => (generateFullStory as any).run(
+  { userId: uid, kidId, problemDescription: 'Afraid of the dark' },
+  { auth: { uid, token: { email } } }
+);
+
+describe('generateFullStory', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Stops the run right after the checks, the pipeline is tested in story-pipeline.test.ts
+    (enforceRateLimit as jest.Mock).mockRejectedValue(Object.assign(new Error('stop'), { code: 'resource-exhausted' }));
+  });
+
+  it('should reject a kid of another account before reserving its quota or a credit', async () => {
+    await expect(callAs('stranger-1', 'stranger@example.com')).rejects.toMatchObject({ code: 'permission-denied' });
+    expect(reserveStoryQuota).not.toHaveBeenCalled();
+    expect(reserveStoryCredit).not.toHaveBeenCalled();
+  });
+
+  it('should reject a kid shared with the caller for reading only', async () => {
+    await expect(callAs('reader-1', 'reader@example.com')).rejects.toMatchObject({ code: 'permission-denied' });
+    expect(reserveStoryQuota).not.toHaveBeenCalled();
+  });
+
+  it('should reject a missing kid', async () => {
+    await expect(callAs('owner-1', undefined, 'kid-2')).rejects.toMatchObject({ code: 'permission-denied' });
+    expect(reserveStoryQuota).not.toHaveBeenCalled();
+  });
+
+  it('should go on for the owner of the kid and a write share', async () => {
+    await expect(callAs('owner-1')).rejects.not.toMatchObject({ code: 'permission-denied' });
+    await expect(callAs('writer-1', 'writer@example.com')).rejects.not.toMatchObject({ code: 'permission-denied' });
+    expect(reserveStoryQuota).toHaveBeenCalledWith(expect.anything(), 'owner-1', 'kid-1');
+    expect(reserveStoryQuota).toHaveBeenCalledWith(expect.anything(), 'writer-1', 'kid-1');
+  });
+});
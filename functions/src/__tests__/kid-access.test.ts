@@ -0,0 +1,38 @@
+import { canWriteKid } from '../lib/kid-access';
+
+/**
+ * Tests for the kid access check of the callables
+ */
+
+// Kid documents behind getKid and share permissions behind getKidSharePermission, by kid and email
+const createDbHelper = (kids: Record<string, { accountId: string }>, shares: Record<string, 'read' | 'write'> = {}) => ({
+  getKid: jest.fn(async (kidId: string) => ({ exists: !!kids[kidId], data: () => kids[kidId] })),
+  getKidSharePermission: jest.fn(async (kidId: string, email: string) => shares[`${kidId}:${email}`] || null),
+}) as any;
+
+describe('Kid access', () => {
+  const kids = { 'kid-1': { accountId: 'owner-1' } };
+
+  it('should let the owner of the kid write', async () => {
+    expect(await canWriteKid(createDbHelper(kids), 'kid-1', 'owner-1', undefined)).toBe(true);
+  });
+
+  it('should let an account the kid is shared with for writing write', async () => {
+    const helper = createDbHelper(kids, { 'kid-1:friend@example.com': 'write' });
+
+    expect(await canWriteKid(helper, 'kid-1', 'friend-1', 'friend@example.com')).toBe(true);
+  });
+
+  it('should not let an account with a read share or no share write', async () => {
+    const helper = createDbHelper(kids, { 'kid-1:reader@example.com': 'read' });
+
+    expect(await canWriteKid(helper, 'kid-1', 'reader-1', 'reader@example.com')).toBe(false);
+    expect(await canWriteKid(helper, 'kid-1', 'stranger-1', 'stranger@example.com')).toBe(false);
+    expect(await canWriteKid(helper, 'kid-1', 'stranger-1', undefined)).toBe(false);
+  });
+
+  it('should not let anyone write a missing kid', async () => {
+    expect(await canWriteKid(createDbHelper(kids), 'kid-2', 'owner-1', undefined)).toBe(false);
+    expect(await canWriteKid(createDbHelper(kids), undefined, 'owner-1', undefined)).toBe(false);
+  });
+});
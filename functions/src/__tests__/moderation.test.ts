@@ -0,0 +1,146 @@
+import {
+  buildSafetyFeedback,
+  CONTENT_FLAGGED,
+  getModerationProviderName,
+  moderateStoryInput,
+  reviewStoryPages,
+  setModerationProviderForTesting,
+} from '../lib/moderation';
+import { checkRules, CHILD_SAFETY_RULES, INPUT_RULES } from '../lib/moderation-rules';
+import { buildFakeBranchingPages, buildFakePages } from '../lib/fake-ai-provider';
+import { regeneratePageText } from '../lib/page-regeneration';
+import { setAIProviderForTesting } from '../lib/ai-provider';
+import { OPENAI_AGENTS } from '../open-ai-agents';
+
+/**
+ * Tests for input and output content moderation
+ */
+
+describe('Moderation', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.MODERATION_PROVIDER = 'rules';
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setModerationProviderForTesting(null);
+    setAIProviderForTesting(null);
+  });
+
+  describe('getModerationProviderName', () => {
+    it('should follow AI_PROVIDER when MODERATION_PROVIDER is not set', () => {
+      delete process.env.MODERATION_PROVIDER;
+      process.env.AI_PROVIDER = 'fake';
+      expect(getModerationProviderName()).toBe('rules');
+      process.env.AI_PROVIDER = 'openai';
+      expect(getModerationProviderName()).toBe('openai');
+    });
+
+    it('should reject an unknown provider', () => {
+      process.env.MODERATION_PROVIDER = 'other';
+      expect(() => getModerationProviderName()).toThrow('Unknown MODERATION_PROVIDER "other"');
+    });
+  });
+
+  describe('rules', () => {
+    it('should flag self-harm in English and Hebrew', () => {
+      expect(checkRules('Sometimes he says he wants to die', INPUT_RULES)).toEqual(['self_harm']);
+      expect(checkRules('היא אמרה שהיא רוצה למות', INPUT_RULES)).toEqual(['self_harm']);
+    });
+
+    it('should match whole Hebrew words only', () => {
+      expect(checkRules('הוא הרגיש עצוב כשפגש אדם חדש', CHILD_SAFETY_RULES)).toEqual([]);
+      expect(checkRules('היה שם הרבה דם', CHILD_SAFETY_RULES)).toEqual(['violence']);
+    });
+
+    it('should let the fake provider stories through', () => {
+      const input = 'Name: Noa\nStory Title: Noa and the Dark Room';
+      const texts = [
+        ...buildFakePages(input).map(page => page.text),
+        ...buildFakeBranchingPages(input, 3).map(page => String(page.text)),
+      ];
+      texts.forEach(text => expect(checkRules(text, CHILD_SAFETY_RULES)).toEqual([]));
+    });
+  });
+
+  describe('moderateStoryInput', () => {
+    it('should accept ordinary parenting problems', async () => {
+      await expect(moderateStoryInput({
+        problemDescription: 'Noa is afraid of the dark and does not want to sleep alone',
+        advantages: 'Sleeping in her own bed',
+        disadvantages: '',
+      })).resolves.toBeUndefined();
+    });
+
+    it('should reject self-harm with its own reason and the flagged fields', async () => {
+      await expect(moderateStoryInput({
+        problemDescription: 'He talks about hurting himself on purpose',
+        advantages: 'Feeling better',
+      })).rejects.toMatchObject({
+        code: 'invalid-argument',
+        details: { code: CONTENT_FLAGGED, reason: 'self_harm', categories: ['self_harm'], fields: ['problemDescription'] },
+      });
+    });
+
+    it('should fall back to the rules when the provider fails', async () => {
+      setModerationProviderForTesting({
+        name: 'openai',
+        moderate: async () => { throw new Error('offline'); },
+      });
+      await expect(moderateStoryInput({ problemDescription: 'a story about torture' }))
+        .rejects.toMatchObject({ details: { reason: 'unsafe', categories: ['violence'] } });
+    });
+  });
+
+  describe('reviewStoryPages', () => {
+    it('should hold generated pages to the child-safety rules even when the provider passes them', async () => {
+      setModerationProviderForTesting({ name: 'openai', moderate: async () => ({ flagged: false, categories: [] }) });
+
+      const issues = await reviewStoryPages([
+        { pageNum: 0, storyText: 'Noa and the Dark Room' },
+        { pageNum: 1, storyText: 'The pirate pulled out his gun.' },
+      ]);
+
+      expect(issues).toEqual([{ pageNum: 1, categories: ['violence'] }]);
+      expect(buildSafetyFeedback(issues)).toContain('page 1 (violence)');
+    });
+  });
+
+  describe('page regeneration', () => {
+    const kid = { name: 'Noa', gender: 'female' as const, age: 6 };
+    const pages = [{ pageType: 'cover', storyText: 'Noa' }, { pageType: 'normal', storyText: 'Noa could not sleep.' }];
+
+    it('should rewrite unsafe text with the safety feedback', async () => {
+      const inputs: string[] = [];
+      setAIProviderForTesting({
+        name: 'fake',
+        generateText: async (request) => {
+          if (request.prompt.id !== OPENAI_AGENTS.STORY_PAGES_TEXT) {
+            return 'A night light';
+          }
+          inputs.push(request.input);
+          return inputs.length === 1 ? '{"text": "Noa found a bloody knife."}' : '{"text": "Noa found a night light."}';
+        },
+        generateImage: async () => '',
+      });
+
+      const page = await regeneratePageText({ title: 'T', pages, pageNum: 1, kid });
+
+      expect(page.storyText).toBe('Noa found a night light.');
+      expect(inputs[1]).toContain('Safety Feedback:');
+    });
+
+    it('should never return text that keeps failing the review', async () => {
+      setAIProviderForTesting({
+        name: 'fake',
+        generateText: async () => '{"text": "Noa drank vodka."}',
+        generateImage: async () => '',
+      });
+
+      await expect(regeneratePageText({ title: 'T', pages, pageNum: 1, kid }))
+        .rejects.toThrow('did not pass the safety review');
+    });
+  });
+});
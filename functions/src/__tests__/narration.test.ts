@@ -0,0 +1,133 @@
+import { applyNarration, detectNarrationLanguage, narrateStoryPages, selectPagesToNarrate } from '../lib/narration';
+import { getTTSProviderName, setTTSProviderForTesting } from '../lib/tts-provider';
+import { createSilentWav, estimateNarrationMs } from '../lib/fake-tts-provider';
+import { saveAudioToStorage } from '../lib/utils';
+import { setAlignmentProviderForTesting } from '../lib/word-alignment';
+
+jest.mock('../lib/utils', () => ({
+  saveAudioToStorage: jest.fn(async (_audio: Buffer, _accountId: string, _userId: string, storyId: string, pageNum: number, _contentType: string, extension: string) =>
+    `https://storage.example/${storyId}/pages/page-${pageNum}.${extension}`),
+}));
+
+/**
+ * Tests for story page narration
+ */
+
+const pages = [
+  { storyText: 'Noa and the Dark Room' },
+  { storyText: 'Noa could not sleep.', audioUrl: 'https://storage.example/old.mp3' },
+  { storyText: '' },
+  { storyText: 'Dad turns on the night light.' },
+];
+
+describe('Narration', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setTTSProviderForTesting(null);
+    setAlignmentProviderForTesting(null);
+    jest.clearAllMocks();
+  });
+
+  describe('getTTSProviderName', () => {
+    it('should follow AI_PROVIDER when TTS_PROVIDER is not set', () => {
+      delete process.env.TTS_PROVIDER;
+      process.env.AI_PROVIDER = 'fake';
+      expect(getTTSProviderName()).toBe('fake');
+    });
+
+    it('should reject an unknown provider', () => {
+      process.env.TTS_PROVIDER = 'other';
+      expect(() => getTTSProviderName()).toThrow('Unknown TTS_PROVIDER "other"');
+    });
+  });
+
+  describe('fake provider', () => {
+    it('should produce a silent WAV as long as the text takes to read', () => {
+      const wav = createSilentWav(estimateNarrationMs('x'.repeat(30)));
+
+      expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+      expect(wav.toString('ascii', 8, 12)).toBe('WAVE');
+      expect(wav.readUInt32LE(40)).toBe(32000); // 2 seconds of 8 kHz 16-bit mono
+      expect(wav.subarray(44).every(byte => byte === 0)).toBe(true);
+    });
+  });
+
+  describe('detectNarrationLanguage', () => {
+    it('should pick Hebrew when the story has Hebrew text', () => {
+      expect(detectNarrationLanguage(['נועה והחדר החשוך', undefined])).toBe('he');
+      expect(detectNarrationLanguage(['Noa and the Dark Room'])).toBe('en');
+    });
+  });
+
+  describe('selectPagesToNarrate', () => {
+    it('should default to the pages with text and no audio', () => {
+      expect(selectPagesToNarrate(pages)).toEqual([0, 3]);
+      expect(selectPagesToNarrate(pages, undefined, true)).toEqual([0, 1, 3]);
+    });
+
+    it('should narrate requested pages again, skipping invalid and empty ones', () => {
+      expect(selectPagesToNarrate(pages, [3, 1, 1, 2, 9, -1])).toEqual([1, 3]);
+    });
+  });
+
+  describe('narrateStoryPages', () => {
+    it('should store the fake narration next to the page images', async () => {
+      process.env.TTS_PROVIDER = 'fake';
+      process.env.ALIGNMENT_PROVIDER = 'estimate';
+
+      const results = await narrateStoryPages({ pages, pageNums: [0, 3], language: 'en', accountId: 'a', userId: 'u', storyId: 's' });
+
+      expect(results).toEqual([
+        expect.objectContaining({ pageNum: 0, success: true, storyText: 'Noa and the Dark Room', audioUrl: 'https://storage.example/s/pages/page-0.wav' }),
+        expect.objectContaining({ pageNum: 3, success: true, storyText: 'Dad turns on the night light.', audioUrl: 'https://storage.example/s/pages/page-3.wav' }),
+      ]);
+      expect(results[0].wordTimings?.map(timing => timing.charIndex)).toEqual([0, 4, 8, 12, 17]);
+      expect(saveAudioToStorage).toHaveBeenCalledWith(expect.any(Buffer), 'a', 'u', 's', 0, 'audio/wav', 'wav');
+    });
+
+    it('should save the audio without word timings when the alignment fails', async () => {
+      process.env.TTS_PROVIDER = 'fake';
+      setAlignmentProviderForTesting({
+        name: 'openai',
+        align: async () => { throw new Error('transcription error'); },
+      });
+
+      const results = await narrateStoryPages({ pages, pageNums: [3], language: 'en', accountId: 'a', userId: 'u', storyId: 's' });
+
+      expect(results[0]).toMatchObject({ success: true, audioUrl: 'https://storage.example/s/pages/page-3.wav', wordTimings: null });
+    });
+
+    it('should keep going when a page fails', async () => {
+      process.env.ALIGNMENT_PROVIDER = 'estimate';
+      setTTSProviderForTesting({
+        name: 'openai',
+        synthesize: async ({ text }) => {
+          if (text.startsWith('Dad')) throw new Error('speech error');
+          return { audio: Buffer.from('mp3'), contentType: 'audio/mpeg', extension: 'mp3' };
+        },
+      });
+
+      const results = await narrateStoryPages({ pages, pageNums: [0, 3], language: 'he', accountId: 'a', userId: 'u', storyId: 's' });
+
+      expect(results.map(r => r.success)).toEqual([true, false]);
+      expect(results[1].error).toBe('speech error');
+    });
+  });
+
+  describe('applyNarration', () => {
+    it('should only set audio on pages whose text was not changed meanwhile', () => {
+      const latest = [{ storyText: 'Noa and the Dark Room' }, { storyText: 'Rewritten page' }];
+      const updated = applyNarration(latest, [
+        { pageNum: 0, success: true, storyText: 'Noa and the Dark Room', audioUrl: 'url-0', wordTimings: [{ start: 0, end: 0.4, charIndex: 0 }] },
+        { pageNum: 1, success: true, storyText: 'Noa could not sleep.', audioUrl: 'url-1', wordTimings: null },
+      ]);
+
+      expect(updated).toEqual([
+        { storyText: 'Noa and the Dark Room', audioUrl: 'url-0', wordTimings: [{ start: 0, end: 0.4, charIndex: 0 }] },
+        { storyText: 'Rewritten page' },
+      ]);
+    });
+  });
+});
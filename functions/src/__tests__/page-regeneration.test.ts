@@ -0,0 +1,77 @@
+import { buildPageRegenerationInput, regeneratePageText } from '../lib/page-regeneration';
+import { StoryPageTextResponseSchema, validateAgentResponse } from '../lib/story-schemas';
+import { setAIProviderForTesting } from '../lib/ai-provider';
+import { OPENAI_AGENTS } from '../open-ai-agents';
+
+/**
+ * Tests for single page text regeneration
+ */
+
+const kid = { name: 'Noa', gender: 'female' as const, age: 6 };
+const pages = [
+  { pageType: 'cover', storyText: 'Noa and the Dark Room' },
+  { pageType: 'normal', storyText: 'Noa could not sleep.' },
+  { pageType: 'good', storyText: 'Dad turns on the night light.' },
+];
+
+describe('Page Regeneration', () => {
+  describe('buildPageRegenerationInput', () => {
+    it('should list every page, mark the target and include the instruction', () => {
+      const input = buildPageRegenerationInput({ title: 'Noa and the Dark Room', pages, pageNum: 1, kid, instruction: 'mention grandma' });
+
+      expect(input).toContain('Rewrite Page: 1');
+      expect(input).toContain('Instruction: mention grandma');
+      expect(input).toContain('[1] (normal) <- rewrite this page: Noa could not sleep.');
+      expect(input).toContain('[2] (good): Dad turns on the night light.');
+    });
+
+    it('should leave out the instruction line when there is none', () => {
+      expect(buildPageRegenerationInput({ title: 'T', pages, pageNum: 2, kid })).not.toContain('Instruction:');
+    });
+  });
+
+  describe('StoryPageTextResponseSchema', () => {
+    it('should accept the page text in the supported shapes', () => {
+      expect(validateAgentResponse('{"text": " New text "}', StoryPageTextResponseSchema).data).toBe('New text');
+      expect(validateAgentResponse('{"page": {"storyText": "New text"}}', StoryPageTextResponseSchema).data).toBe('New text');
+      expect(validateAgentResponse('{"pages": [{"text": "New text"}]}', StoryPageTextResponseSchema).data).toBe('New text');
+    });
+
+    it('should reject an empty text', () => {
+      expect(validateAgentResponse('{"text": ""}', StoryPageTextResponseSchema).issues).toContain('Page text is required (use the `text` field)');
+    });
+  });
+
+  describe('regeneratePageText', () => {
+    const requests: Array<{ id: string; input: string }> = [];
+
+    beforeEach(() => {
+      requests.length = 0;
+      setAIProviderForTesting({
+        name: 'fake',
+        generateText: async (request) => {
+          requests.push({ id: request.prompt.id, input: request.input });
+          return request.prompt.id === OPENAI_AGENTS.STORY_PAGES_TEXT ? '{"text": "Grandma brings a lamp."}' : 'A warm lamp in a dark room';
+        },
+        generateImage: async () => '',
+      });
+    });
+
+    afterAll(() => {
+      setAIProviderForTesting(null);
+    });
+
+    it('should return the new text with a refreshed image prompt', async () => {
+      const result = await regeneratePageText({ title: 'T', pages, pageNum: 1, kid, instruction: 'mention grandma' });
+
+      expect(result).toEqual({ pageNum: 1, storyText: 'Grandma brings a lamp.', imagePrompt: 'A warm lamp in a dark room' });
+      expect(requests.map(r => r.id)).toEqual([OPENAI_AGENTS.STORY_PAGES_TEXT, OPENAI_AGENTS.STORY_IMAGE_PROMPT]);
+      expect(requests[1].input).toBe('Grandma brings a lamp.');
+    });
+
+    it('should reject a page that does not exist', async () => {
+      await expect(regeneratePageText({ title: 'T', pages, pageNum: 3, kid })).rejects.toThrow('pageNum must be between 0 and 2');
+      expect(requests).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { checkStoryQuota, QUOTA_EXCEEDED, releaseStoryQuota, reserveStoryQuota } from '../lib/quota';
+
+jest.mock('../lib/utils', () => ({
+  admin: { firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } } },
+}));
+
+/**
+ * Tests for the server-side account quotas
+ */
+
+// Kid and account documents behind getKidRef, getAccountRef and getDb().runTransaction
+const createDbHelper = (kid: Record<string, unknown> | null, account: Record<string, unknown> | null) => {
+  const kidRef = { id: 'kid-1' };
+  const accountRef = { id: 'account' };
+  const updates: Record<string, unknown>[] = [];
+  const state = { kid };
+  const helper = {
+    getKidRef: jest.fn(() => kidRef),
+    getAccountRef: jest.fn(() => accountRef),
+    getDb: () => ({
+      runTransaction: async (callback: (transaction: unknown) => Promise<unknown>) => callback({
+        get: async (ref: unknown) => {
+          const data = ref === kidRef ? state.kid : account;
+          return { exists: !!data, data: () => data };
+        },
+        update: (_ref: unknown, fields: Record<string, unknown>) => {
+          updates.push(fields);
+          state.kid = { ...state.kid, ...fields };
+        },
+      }),
+    }),
+  } as any;
+  return { helper, updates, state };
+};
+
+describe('Quota', () => {
+  describe('checkStoryQuota', () => {
+    it('should allow stories below the limit and without a limit', () => {
+      expect(checkStoryQuota({ story_per_kid_limit: 3 }, { stories_created: 2 })).toBeNull();
+      expect(checkStoryQuota({}, { stories_created: 100 })).toBeNull();
+      expect(checkStoryQuota(null, null)).toBeNull();
+    });
+
+    it('should report the limit once it is reached', () => {
+      expect(checkStoryQuota({ story_per_kid_limit: 3 }, { stories_created: 3 })).toEqual({ quota: 'stories_per_kid', limit: 3, used: 3 });
+      expect(checkStoryQuota({ story_per_kid_limit: 0 }, {})).toEqual({ quota: 'stories_per_kid', limit: 0, used: 0 });
+    });
+  });
+
+  describe('reserveStoryQuota', () => {
+    it('should throw a resource-exhausted error with the quota details', async () => {
+      const { helper, updates } = createDbHelper({ accountId: 'owner-1', stories_created: 5 }, { story_per_kid_limit: 5 });
+
+      await expect(reserveStoryQuota(helper, 'owner-1', 'kid-1')).rejects.toMatchObject({
+        code: 'resource-exhausted',
+        details: { code: QUOTA_EXCEEDED, quota: 'stories_per_kid', limit: 5, used: 5 },
+      });
+      expect(updates).toHaveLength(0);
+    });
+
+    it('should count the story in the same transaction as the check', async () => {
+      const { helper, state } = createDbHelper({ accountId: 'owner-1', stories_created: 4 }, { story_per_kid_limit: 5 });
+
+      await reserveStoryQuota(helper, 'owner-1', 'kid-1');
+
+      expect(state.kid?.stories_created).toBe(5);
+      await expect(reserveStoryQuota(helper, 'owner-1', 'kid-1')).rejects.toMatchObject({ code: 'resource-exhausted' });
+    });
+
+    it('should use the limit of the account that owns the kid', async () => {
+      const { helper } = createDbHelper({ accountId: 'owner-1', stories_created: 1 }, { story_per_kid_limit: 5 });
+
+      await expect(reserveStoryQuota(helper, 'someone-else', 'kid-1')).resolves.toBeUndefined();
+      expect(helper.getAccountRef).toHaveBeenCalledWith('owner-1');
+    });
+  });
+
+  describe('releaseStoryQuota', () => {
+    it('should give back a reserved story', async () => {
+      const { helper, state } = createDbHelper({ accountId: 'owner-1', stories_created: 2 }, null);
+
+      await releaseStoryQuota(helper, 'kid-1');
+
+      expect(state.kid?.stories_created).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  enforceRateLimit,
+  getClientIp,
+  getRetryAfterSeconds,
+  RATE_LIMIT_WINDOW_MS,
+  RATE_LIMITED,
+  rateLimitKey,
+  slideWindow,
+} from '../lib/rate-limit';
+
+jest.mock('../lib/utils', () => ({
+  admin: {
+    remoteConfig: () => ({ getServerTemplate: async () => { throw new Error('offline'); } }),
+    firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } },
+  },
+}));
+
+/**
+ * Tests for the daily rate limits
+ * Remote config is offline here, so the SERVER_CONFIG_DEFAULTS limits apply (5 stories a day, IP x3)
+ */
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 10 * RATE_LIMIT_WINDOW_MS;
+
+const createDbHelper = (account: Record<string, unknown> | null, counters: Record<string, number[]> = {}) => {
+  const writes: Record<string, { hits: number[] }> = {};
+  const transaction = {
+    get: jest.fn(async (ref: { key: string }) => ({
+      data: () => counters[ref.key] ? { hits: counters[ref.key] } : undefined,
+    })),
+    set: jest.fn((ref: { key: string }, data: { hits: number[] }) => { writes[ref.key] = data; }),
+  };
+  const helper = {
+    getAccountRef: jest.fn(() => ({ get: async () => ({ exists: !!account, data: () => account }) })),
+    getRateLimitRef: jest.fn((key: string) => ({ key })),
+    getDb: () => ({ runTransaction: async (callback: (t: typeof transaction) => unknown) => callback(transaction) }),
+  } as any;
+  return { helper, writes };
+};
+
+const hitsAgo = (...hoursAgo: number[]) => hoursAgo.map(hours => NOW - hours * HOUR);
+
+describe('Rate limit', () => {
+  describe('slideWindow', () => {
+    it('should drop hits outside the window and sort the rest', () => {
+      expect(slideWindow(hitsAgo(1, 25, 3, 24), NOW)).toEqual(hitsAgo(3, 1));
+      expect(slideWindow(undefined, NOW)).toEqual([]);
+    });
+  });
+
+  describe('getRetryAfterSeconds', () => {
+    it('should allow hits below the limit', () => {
+      expect(getRetryAfterSeconds(hitsAgo(3, 1), 3, NOW)).toBeNull();
+    });
+
+    it('should wait until the oldest counted hit leaves the window', () => {
+      expect(getRetryAfterSeconds(hitsAgo(20, 2, 1), 3, NOW)).toBe(4 * 60 * 60);
+      expect(getRetryAfterSeconds(hitsAgo(23, 20, 2, 1), 3, NOW)).toBe(4 * 60 * 60);
+    });
+  });
+
+  describe('getClientIp', () => {
+    it('should use the entry the proxy appended to x-forwarded-for', () => {
+      expect(getClientIp({ headers: { 'x-forwarded-for': '1.2.3.4, 10.0.0.1' }, ip: '1.2.3.4' })).toBe('10.0.0.1');
+      expect(getClientIp({ headers: { 'x-forwarded-for': ['1.2.3.4', '10.0.0.1'] } })).toBe('10.0.0.1');
+      expect(getClientIp({ headers: {}, ip: '10.0.0.1' })).toBe('10.0.0.1');
+      expect(getClientIp(undefined)).toBeNull();
+    });
+
+    it('should keep the same counter key when the client spoofs x-forwarded-for', () => {
+      const key = (forwardedFor: string) =>
+        rateLimitKey('ip', getClientIp({ headers: { 'x-forwarded-for': forwardedFor }, ip: '10.0.0.1' }) as string, 'stories');
+
+      expect(key('1.1.1.1, 203.0.113.7')).toBe(rateLimitKey('ip', '203.0.113.7', 'stories'));
+      expect(key('2.2.2.2, 3.3.3.3, 203.0.113.7')).toBe(key('203.0.113.7'));
+    });
+  });
+
+  describe('enforceRateLimit', () => {
+    it('should record the hit for the account and the IP', async () => {
+      const { helper, writes } = createDbHelper({}, { [rateLimitKey('account', 'uid-1', 'stories')]: hitsAgo(30, 2) });
+
+      await enforceRateLimit(helper, 'stories', 'uid-1', '1.2.3.4', NOW);
+
+      expect(writes[rateLimitKey('account', 'uid-1', 'stories')].hits).toEqual([...hitsAgo(2), NOW]);
+      expect(writes[rateLimitKey('ip', '1.2.3.4', 'stories')].hits).toEqual([NOW]);
+    });
+
+    it('should throw a resource-exhausted error with retryAfter once the account limit is reached', async () => {
+      const { helper, writes } = createDbHelper({}, { [rateLimitKey('account', 'uid-1', 'stories')]: hitsAgo(12, 5, 4, 3, 2) });
+
+      await expect(enforceRateLimit(helper, 'stories', 'uid-1', null, NOW)).rejects.toMatchObject({
+        code: 'resource-exhausted',
+        details: { code: RATE_LIMITED, action: 'stories', limit: 5, retryAfter: 12 * 60 * 60 },
+      });
+      expect(writes).toEqual({});
+    });
+
+    it('should apply the larger IP limit across accounts', async () => {
+      const ipHits = hitsAgo(15, 14, 13, 12, 11, 10, 9, 8, 7, 6, 5, 4, 3, 2, 1);
+      const { helper } = createDbHelper({}, { [rateLimitKey('ip', '1.2.3.4', 'stories')]: ipHits });
+
+      await expect(enforceRateLimit(helper, 'stories', 'uid-2', '1.2.3.4', NOW)).rejects.toMatchObject({
+        details: { code: RATE_LIMITED, limit: 15, retryAfter: 9 * 60 * 60 },
+      });
+    });
+
+    it('should not limit accounts with a role', async () => {
+      const { helper, writes } = createDbHelper({ role: 'admin' }, { [rateLimitKey('account', 'uid-1', 'stories')]: hitsAgo(5, 4, 3, 2, 1) });
+
+      await expect(enforceRateLimit(helper, 'stories', 'uid-1', '1.2.3.4', NOW)).resolves.toBeUndefined();
+      expect(writes).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { validateAgentResponse } from '../lib/story-schemas';
+import { buildBranchingStory, createStoryGraphResponseSchema, parseDecisionPoints } from '../lib/story-graph';
+import { buildFakeBranchingPages } from '../lib/fake-ai-provider';
+
+/**
+ * Tests for branching story validation and conversion
+ */
+
+const twoDecisionPages = [
+  { id: 'cover', pageType: 'cover', text: 'Noa and the Dark Room', next: 'p1' },
+  { id: 'p1', pageType: 'normal', text: 'Noa could not sleep.', choices: [
+    { text: 'Noa calls her dad.', kind: 'good', next: 'g1' },
+    { text: 'Noa hides under the blanket.', kind: 'bad', next: 'b1' },
+  ] },
+  { id: 'g1', pageType: 'good', text: 'Dad turns on the night light.', choices: [
+    { text: 'Noa asks for a story.', kind: 'good', next: 'g2' },
+    { text: 'Noa pretends to be asleep.', kind: 'bad', next: 'b2' },
+  ] },
+  { id: 'g2', pageType: 'good', text: 'Noa falls asleep smiling.', ending: true },
+  { id: 'b1', pageType: 'bad', text: 'The shadows look bigger.', ending: true },
+  { id: 'b2', pageType: 'bad', text: 'Noa lies awake for hours.', ending: true },
+];
+
+describe('Story Graph', () => {
+  describe('createStoryGraphResponseSchema', () => {
+    it('should accept a graph with the requested decision points', () => {
+      const result = validateAgentResponse(JSON.stringify({ pages: twoDecisionPages }), createStoryGraphResponseSchema(2));
+
+      expect(result.issues).toEqual([]);
+      expect(result.data?.[1].choices).toHaveLength(2);
+    });
+
+    it('should report the wrong number of decision points', () => {
+      const result = validateAgentResponse(JSON.stringify({ pages: twoDecisionPages }), createStoryGraphResponseSchema(3));
+
+      expect(result.issues).toContain('The story must have exactly 3 decision points (found 2)');
+    });
+
+    it('should report unknown links, loops and unreachable pages', () => {
+      const pages = [
+        ...twoDecisionPages.map(page => page.id === 'g2' ? { id: 'g2', pageType: 'good', text: 'Back again.', next: 'p1' } : page),
+        { id: 'lost', pageType: 'bad', text: 'Nobody reads this.', next: 'missing' },
+      ];
+      const issues = validateAgentResponse(JSON.stringify({ pages }), createStoryGraphResponseSchema(2)).issues;
+
+      expect(issues).toEqual(expect.arrayContaining([
+        'Page "lost" links to unknown page "missing"',
+        'The story must not loop back to an earlier page',
+        'Pages not reachable from the cover: lost',
+      ]));
+    });
+
+    it('should require 2 or 3 choices per decision', () => {
+      const pages = twoDecisionPages.map(page => page.id === 'p1' ? { ...page, choices: page.choices!.slice(0, 1) } : page);
+      const issues = validateAgentResponse(JSON.stringify({ pages }), createStoryGraphResponseSchema(2)).issues;
+
+      expect(issues).toContain('Page "p1" must offer 2 or 3 choices (found 1)');
+    });
+  });
+
+  describe('buildBranchingStory', () => {
+    it('should add choice pages and reference them from the graph', () => {
+      const { data } = validateAgentResponse(JSON.stringify({ pages: twoDecisionPages }), createStoryGraphResponseSchema(2));
+      const { pages, graph } = buildBranchingStory(data!);
+
+      expect(pages.map(p => p.pageType)).toEqual(['cover', 'normal', 'good_choice', 'bad_choice', 'good', 'good_choice', 'bad_choice', 'good', 'bad', 'bad']);
+      expect(graph.startNodeId).toBe('cover');
+      expect(graph.nodes.p1.pageNum).toBe(1);
+      expect(graph.nodes.p1.choices?.[1]).toEqual({
+        id: 'p1-1',
+        label: 'Noa hides under the blanket.',
+        targetNodeId: 'b1',
+        choicePageNum: 3,
+        kind: 'bad',
+      });
+      expect(graph.nodes.b2).toEqual({ id: 'b2', pageNum: 9, next: null, ending: true });
+    });
+
+    it('should convert the fake provider response', () => {
+      const input = 'Name: Noa\nStory Title: Noa and the Brave Choice';
+      const result = validateAgentResponse(JSON.stringify({ pages: buildFakeBranchingPages(input, 3) }), createStoryGraphResponseSchema(3));
+
+      expect(result.issues).toEqual([]);
+      expect(Object.values(buildBranchingStory(result.data!).graph.nodes).filter(node => node.ending)).toHaveLength(4);
+    });
+  });
+
+  describe('parseDecisionPoints', () => {
+    it('should default to a flat story and reject out of range values', () => {
+      expect(parseDecisionPoints(undefined)).toBe(1);
+      expect(parseDecisionPoints(3)).toBe(3);
+      expect(() => parseDecisionPoints(4)).toThrow('decisionPoints must be a whole number between 1 and 3');
+      expect(() => parseDecisionPoints('2')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import {
+  buildPageCheckpoints,
+  claimStoryRun,
+  createInitialCheckpoint,
+  isRunInProgress,
+  isStepCompleted,
+  markGenerationFailed,
+  mergeStoredPages,
+  PageCheckpoint,
+  runStoryPipeline,
+  serializePages,
+  StoryCheckpoint,
+  StoryRunSupersededError,
+} from '../lib/story-pipeline';
+import { setAIProviderForTesting } from '../lib/ai-provider';
+import { FakeAIProvider } from '../lib/fake-ai-provider';
+import { OPENAI_AGENTS } from '../open-ai-agents';
+
+jest.mock('../lib/utils', () => ({
+  admin: {
+    auth: () => ({ getUser: async () => ({ email: undefined }) }),
+    remoteConfig: () => ({ getServerTemplate: async () => { throw new Error('offline'); } }),
+    firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } },
+  },
+  saveImageToStorage: jest.fn(async (_image: string, _accountId: string, _userId: string, storyId: string, _type: string, pageNum: number) =>
+    `https://storage.test/${storyId}/page_${pageNum}.png`),
+}));
+
+jest.mock('firebase-admin', () => ({
+  firestore: { FieldValue: { serverTimestamp: () => 'SERVER_TIMESTAMP' } },
+  auth: () => ({ getUser: async () => ({ email: undefined }) }),
+}));
+
+/**
+ * In-memory story document behind getStoryRef and getDb().runTransaction
+ * Dotted update keys are applied one level deep, like 'checkpoint.runId', and server
+ * timestamps are stored as the current time
+ */
+function createStoryStore(initial: Record<string, any>) {
+  const story: { data: Record<string, any> } = { data: { ...initial } };
+  const apply = (fields: Record<string, unknown>) => {
+    Object.entries(fields).forEach(([key, fieldValue]) => {
+      const now = Date.now();
+      const value = fieldValue === 'SERVER_TIMESTAMP' ? { toMillis: () => now } : fieldValue;
+      const [field, nested] = key.split('.');
+      story.data = nested
+        ? { ...story.data, [field]: { ...story.data[field], [nested]: value } }
+        : { ...story.data, [field]: value };
+    });
+  };
+  const dbHelper = {
+    getStoryRef: () => ({}),
+    getDb: () => ({
+      runTransaction: async (callback: (transaction: unknown) => Promise<unknown>) => callback({
+        get: async () => ({ data: () => story.data }),
+        update: (_ref: unknown, fields: Record<string, unknown>) => apply(fields),
+      }),
+    }),
+  } as any;
+  return { story, dbHelper };
+}
+
+/**
+ * Tests for the checkpoint helpers used to resume story generation
+ */
+
+describe('Story Pipeline Checkpoints', () => {
+  describe('isStepCompleted', () => {
+    it('should treat a missing checkpoint as nothing done', () => {
+      expect(isStepCompleted(undefined, 'created')).toBe(false);
+    });
+
+    it('should compare steps by pipeline order', () => {
+      const checkpoint = { ...createInitialCheckpoint(), step: 'pages_generated' as const };
+
+      expect(isStepCompleted(checkpoint, 'title_selected')).toBe(true);
+      expect(isStepCompleted(checkpoint, 'pages_generated')).toBe(true);
+      expect(isStepCompleted(checkpoint, 'prompts_generated')).toBe(false);
+      expect(isStepCompleted(checkpoint, 'completed')).toBe(false);
+    });
+  });
+
+  describe('serializePages', () => {
+    it('should re-index pages and fill in missing fields', () => {
+      const pages = serializePages([
+        { pageType: 'COVER', text: 'Once upon a time' },
+        { storyText: 'The end', imagePrompt: 'a sunset', selectedImageUrl: 'https://example.com/1.png', pageNum: 7 },
+      ]);
+
+      expect(pages).toEqual([
+        { pageNum: 0, pageType: 'COVER', storyText: 'Once upon a time', imagePrompt: '', selectedImageUrl: '' },
+        { pageNum: 1, pageType: 'NORMAL', storyText: 'The end', imagePrompt: 'a sunset', selectedImageUrl: 'https://example.com/1.png' },
+      ]);
+    });
+  });
+
+  describe('buildPageCheckpoints', () => {
+    it('should derive page state from the stored pages', () => {
+      const pages = serializePages([
+        { storyText: 'a', imagePrompt: 'prompt a', selectedImageUrl: 'https://example.com/a.png' },
+        { storyText: 'b', imagePrompt: 'prompt b' },
+        { storyText: 'c' },
+      ]);
+
+      expect(buildPageCheckpoints(pages)).toEqual([
+        { pageNum: 0, prompt: 'done', image: 'done', error: null },
+        { pageNum: 1, prompt: 'done', image: 'pending', error: null },
+        { pageNum: 2, prompt: 'pending', image: 'pending', error: null },
+      ]);
+    });
+
+    it('should keep failures recorded by a previous run', () => {
+      const pages = serializePages([{ storyText: 'a', imagePrompt: 'prompt a' }]);
+      const previous = [{ pageNum: 0, prompt: 'done' as const, image: 'failed' as const, error: 'timeout' }];
+
+      expect(buildPageCheckpoints(pages, previous)).toEqual([
+        { pageNum: 0, prompt: 'done', image: 'failed', error: 'timeout' },
+      ]);
+    });
+  });
+
+  describe('isRunInProgress', () => {
+    const now = Date.now();
+    const updatedAt = (msAgo: number) => ({ toMillis: () => now - msAgo });
+
+    it('should detect a recently updated run', () => {
+      expect(isRunInProgress({ status: 'progress_40', lastUpdated: updatedAt(30 * 1000) }, now)).toBe(true);
+      expect(isRunInProgress({ status: 'generating_images', lastUpdated: updatedAt(60 * 1000) }, now)).toBe(true);
+    });
+
+    it('should consider a stale run dead', () => {
+      expect(isRunInProgress({ status: 'progress_40', lastUpdated: updatedAt(15 * 60 * 1000) }, now)).toBe(false);
+    });
+
+    it('should ignore finished and failed stories', () => {
+      expect(isRunInProgress({ status: 'failed', lastUpdated: updatedAt(0) }, now)).toBe(false);
+      expect(isRunInProgress({ status: 'completed', lastUpdated: updatedAt(0) }, now)).toBe(false);
+    });
+  });
+
+  describe('mergeStoredPages', () => {
+    const pages = serializePages([{ storyText: 'a', imagePrompt: 'prompt a', selectedImageUrl: 'https://example.com/a.png' }, { storyText: 'b' }]);
+
+    it('should keep fields other flows saved on a page', () => {
+      const stored = [
+        { pageNum: 0, storyText: 'a', audioUrl: 'https://example.com/a.mp3', wordTimings: [{ word: 'a', start: 0, end: 1 }] },
+        { pageNum: 1, storyText: 'b', revisions: [{ storyText: 'b' }] },
+      ];
+
+      expect(mergeStoredPages(stored, pages)).toEqual([
+        { ...pages[0], audioUrl: 'https://example.com/a.mp3', wordTimings: [{ word: 'a', start: 0, end: 1 }] },
+        { ...pages[1], revisions: [{ storyText: 'b' }] },
+      ]);
+    });
+
+    it('should replace a page whose text changed', () => {
+      const stored = [{ pageNum: 0, storyText: 'old', audioUrl: 'https://example.com/old.mp3' }];
+
+      expect(mergeStoredPages(stored, pages)).toEqual([pages[0], pages[1]]);
+      expect(mergeStoredPages(undefined, pages)).toEqual(pages);
+    });
+  });
+
+  describe('claimStoryRun', () => {
+    const now = Date.now();
+
+    it('should write a new run ID to a stopped story', async () => {
+      const { story, dbHelper } = createStoryStore({ status: 'failed', checkpoint: { step: 'pages_generated', runId: 'old-run' } });
+
+      const runId = await claimStoryRun(dbHelper, 'story-1', now);
+
+      expect(runId).not.toBe('old-run');
+      expect(story.data.checkpoint).toEqual({ step: 'pages_generated', runId });
+      expect(story.data.status).toBe('initializing');
+    });
+
+    it('should refuse a story another run is working on', async () => {
+      const { dbHelper } = createStoryStore({ status: 'progress_40', lastUpdated: { toMillis: () => now }, checkpoint: { step: 'title_selected' } });
+
+      await expect(claimStoryRun(dbHelper, 'story-1', now)).rejects.toThrow('Story generation is still running');
+    });
+
+    it('should refuse a complete story', async () => {
+      const { dbHelper } = createStoryStore({ status: 'completed', checkpoint: { step: 'completed' } });
+
+      await expect(claimStoryRun(dbHelper, 'story-1', now)).rejects.toThrow('Story is already complete');
+    });
+
+    it('should refuse a second claim while the first run holds the lease', async () => {
+      const { dbHelper } = createStoryStore({ status: 'failed', checkpoint: { step: 'pages_generated' } });
+
+      await claimStoryRun(dbHelper, 'story-1');
+
+      await expect(claimStoryRun(dbHelper, 'story-1')).rejects.toThrow('Story generation is still running');
+    });
+  });
+
+  describe('runStoryPipeline', () => {
+    const kid = { name: 'Noa', gender: 'female' as const, age: 6, imageUrl: 'https://storage.test/kid.png' };
+    const context = (dbHelper: unknown, runId: string) => ({
+      dbHelper: dbHelper as any,
+      environment: 'development',
+      storyId: 'story-1',
+      runId,
+      userId: 'user-1',
+      kid,
+      problemDescription: 'Afraid of the dark',
+      advantages: '',
+      disadvantages: '',
+    });
+    const fake = new FakeAIProvider();
+    let failPromptCall: number | null = null;
+
+    beforeEach(() => {
+      let promptCalls = 0;
+      failPromptCall = null;
+      setAIProviderForTesting({
+        name: 'fake',
+        generateText: async (request) => {
+          if (request.prompt.id === OPENAI_AGENTS.STORY_IMAGE_PROMPT && ++promptCalls === failPromptCall) {
+            throw new Error('Prompt service unavailable');
+          }
+          return fake.generateText(request);
+        },
+        generateImage: (request) => fake.generateImage(request),
+      });
+    });
+
+    afterAll(() => {
+      setAIProviderForTesting(null);
+    });
+
+    it('should stop when another run claimed the story', async () => {
+      const { story, dbHelper } = createStoryStore({ checkpoint: { step: 'created', runId: 'newer-run' } });
+
+      await expect(runStoryPipeline(context(dbHelper, 'run-1'), createInitialCheckpoint('run-1'))).rejects.toThrow(StoryRunSupersededError);
+      expect(story.data.checkpoint).toEqual({ step: 'created', runId: 'newer-run' });
+    });
+
+    it('should leave a run with failed images resumable and retry only those pages', async () => {
+      const { story, dbHelper } = createStoryStore({ checkpoint: createInitialCheckpoint('run-1') });
+      failPromptCall = 2;
+
+      const partial = await runStoryPipeline(context(dbHelper, 'run-1'), createInitialCheckpoint('run-1'));
+      const checkpoint = story.data.checkpoint as StoryCheckpoint;
+      const failedPages = (checkpoint.pages as PageCheckpoint[]).filter(page => page.image === 'failed');
+
+      expect(partial.imagesGenerated).toBe(partial.pagesCount - 1);
+      expect(story.data.status).toBe('failed');
+      expect(checkpoint.step).toBe('prompts_generated');
+      expect(failedPages.map(page => page.pageNum)).toEqual([1]);
+
+      // Narration saved on a page in the meantime survives the resumed run
+      story.data.pages[0] = { ...story.data.pages[0], audioUrl: 'https://storage.test/page_0.mp3' };
+      const runId = await claimStoryRun(dbHelper, 'story-1');
+      const resumed = await runStoryPipeline(context(dbHelper, runId), story.data.checkpoint, serializePages(story.data.pages));
+
+      expect(resumed.imagesGenerated).toBe(resumed.pagesCount);
+      expect(resumed.imageResults?.filter(result => result.imageUrl === `https://storage.test/story-1/page_1.png`)).toHaveLength(1);
+      expect(story.data.status).toBe('completed');
+      expect(story.data.pages[0].audioUrl).toBe('https://storage.test/page_0.mp3');
+    });
+  });
+
+  describe('markGenerationFailed', () => {
+    it('should not touch a story another run claimed', async () => {
+      const { story, dbHelper } = createStoryStore({ status: 'progress_40', checkpoint: { step: 'title_selected', runId: 'newer-run' } });
+
+      await markGenerationFailed(dbHelper, 'story-1', 'run-1', new Error('timeout'));
+      await markGenerationFailed(dbHelper, 'story-1', 'newer-run', new StoryRunSupersededError('story-1'));
+
+      expect(story.data.status).toBe('progress_40');
+    });
+  });
+});
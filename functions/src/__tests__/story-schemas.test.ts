@@ -0,0 +1,121 @@
+import {
+  generateValidatedText,
+  StoryPagesResponseSchema,
+  StoryTitlesResponseSchema,
+  StoryValidationError,
+  validateAgentResponse,
+} from '../lib/story-schemas';
+import { setAIProviderForTesting } from '../lib/ai-provider';
+
+/**
+ * Tests for the story response schemas and the repair loop
+ */
+
+const validPages = [
+  { pageNum: 0, pageType: 'cover', text: 'Noa and the Dark Room' },
+  { pageNum: 1, pageType: 'NORMAL', text: 'Noa could not sleep.' },
+  { pageNum: 2, pageType: 'good_choice', text: 'Noa calls her dad.' },
+  { pageNum: 3, pageType: 'bad-choice', text: 'Noa hides under the blanket.' },
+  { pageNum: 4, pageType: 'goodFlow', text: 'Dad turns on the night light.' },
+  { pageNum: 5, pageType: 'bad', text: 'The shadows look bigger.' },
+];
+
+describe('Story Schemas', () => {
+  describe('StoryPagesResponseSchema', () => {
+    it('should accept a valid story and normalize page types', () => {
+      const result = validateAgentResponse(JSON.stringify({ pages: validPages }), StoryPagesResponseSchema);
+
+      expect(result.issues).toEqual([]);
+      expect(result.data?.map(p => p.pageType)).toEqual(['cover', 'normal', 'good_choice', 'bad_choice', 'good', 'bad']);
+      expect(result.data?.[1]).toEqual({ pageNum: 1, pageType: 'normal', storyText: 'Noa could not sleep.', imagePrompt: '' });
+    });
+
+    it('should accept a bare array wrapped in a markdown code block', () => {
+      const result = validateAgentResponse('```json\n' + JSON.stringify(validPages) + '\n```', StoryPagesResponseSchema);
+      expect(result.issues).toEqual([]);
+    });
+
+    it('should reject unknown page types instead of treating them as normal', () => {
+      const pages = validPages.map(p => p.pageNum === 1 ? { ...p, pageType: 'middle' } : p);
+      const result = validateAgentResponse(JSON.stringify({ pages }), StoryPagesResponseSchema);
+
+      expect(result.data).toBeNull();
+      expect(result.issues.join('\n')).toContain('1.pageType');
+    });
+
+    it('should reject pages without text', () => {
+      const pages = validPages.map(p => p.pageNum === 2 ? { pageType: 'good_choice' } : p);
+      const result = validateAgentResponse(JSON.stringify({ pages }), StoryPagesResponseSchema);
+
+      expect(result.issues.join('\n')).toContain('Page text is required');
+    });
+
+    it('should report a missing choice and flow', () => {
+      const pages = validPages.filter(p => p.pageType !== 'bad-choice' && p.pageType !== 'bad');
+      const result = validateAgentResponse(JSON.stringify({ pages }), StoryPagesResponseSchema);
+
+      expect(result.issues).toEqual(expect.arrayContaining([
+        'There must be exactly one bad_choice page (found 0)',
+        'The bad flow needs at least one bad page',
+      ]));
+    });
+
+    it('should report invalid JSON', () => {
+      const result = validateAgentResponse('{"pages": [', StoryPagesResponseSchema);
+      expect(result.issues[0]).toContain('Response is not valid JSON');
+    });
+  });
+
+  describe('StoryTitlesResponseSchema', () => {
+    it('should accept both titles formats and drop empty titles', () => {
+      expect(validateAgentResponse('{"titles": ["A", " "]}', StoryTitlesResponseSchema).data).toEqual(['A']);
+      expect(validateAgentResponse('["A", "B"]', StoryTitlesResponseSchema).data).toEqual(['A', 'B']);
+    });
+
+    it('should reject an empty titles list', () => {
+      expect(validateAgentResponse('{"titles": []}', StoryTitlesResponseSchema).issues).toContain('At least one title is required');
+    });
+  });
+
+  describe('generateValidatedText', () => {
+    const responses: string[] = [];
+    const inputs: string[] = [];
+
+    beforeEach(() => {
+      responses.length = 0;
+      inputs.length = 0;
+      setAIProviderForTesting({
+        name: 'fake',
+        generateText: async (request) => {
+          inputs.push(request.input);
+          return responses.shift() || '';
+        },
+        generateImage: async () => '',
+      });
+    });
+
+    afterAll(() => {
+      setAIProviderForTesting(null);
+    });
+
+    it('should send validation errors back to the agent and accept the repaired response', async () => {
+      responses.push('{"titles": []}', '{"titles": ["Noa and the Dark Room"]}');
+
+      const result = await generateValidatedText({ prompt: { id: 'titles' }, input: 'Name: Noa' }, StoryTitlesResponseSchema, 'story titles');
+
+      expect(result.data).toEqual(['Noa and the Dark Room']);
+      expect(result.repairAttempts).toBe(1);
+      expect(inputs[1]).toContain('Name: Noa');
+      expect(inputs[1]).toContain('At least one title is required');
+    });
+
+    it('should give up after the repair attempts are used', async () => {
+      responses.push('not json', 'still not json', 'nope');
+
+      await expect(
+        generateValidatedText({ prompt: { id: 'pages' }, input: 'Name: Noa' }, StoryPagesResponseSchema, 'story pages', 2)
+      ).rejects.toBeInstanceOf(StoryValidationError);
+      expect(inputs).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  alignWords,
+  estimateWordTimings,
+  getAlignmentProviderName,
+  matchTranscriptWords,
+  setAlignmentProviderForTesting,
+  tokenizeWords,
+  wavDurationSeconds,
+} from '../lib/word-alignment';
+import { createSilentWav } from '../lib/fake-tts-provider';
+
+/**
+ * Tests for the read-along word alignment
+ */
+
+describe('Word Alignment', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    setAlignmentProviderForTesting(null);
+  });
+
+  describe('getAlignmentProviderName', () => {
+    it('should estimate when AI_PROVIDER is fake and ALIGNMENT_PROVIDER is not set', () => {
+      delete process.env.ALIGNMENT_PROVIDER;
+      process.env.AI_PROVIDER = 'fake';
+      expect(getAlignmentProviderName()).toBe('estimate');
+    });
+
+    it('should reject an unknown provider', () => {
+      process.env.ALIGNMENT_PROVIDER = 'other';
+      expect(() => getAlignmentProviderName()).toThrow('Unknown ALIGNMENT_PROVIDER "other"');
+    });
+  });
+
+  describe('tokenizeWords', () => {
+    it('should keep punctuation with its word and point at the first character', () => {
+      expect(tokenizeWords('  Noa, look!  ')).toEqual([
+        { word: 'Noa,', charIndex: 2 },
+        { word: 'look!', charIndex: 7 },
+      ]);
+    });
+  });
+
+  describe('wavDurationSeconds', () => {
+    it('should read the duration from the WAV header', () => {
+      expect(wavDurationSeconds(createSilentWav(2500))).toBe(2.5);
+      expect(wavDurationSeconds(Buffer.from('not a wav file at all, just some bytes here!!'))).toBeNull();
+    });
+  });
+
+  describe('estimateWordTimings', () => {
+    it('should spread the words over the duration in order', () => {
+      const timings = estimateWordTimings('ab cd', 6);
+
+      expect(timings).toEqual([
+        { start: 0, end: 2, charIndex: 0 },
+        { start: 3, end: 5, charIndex: 3 },
+      ]);
+    });
+  });
+
+  describe('matchTranscriptWords', () => {
+    it('should match Hebrew words and share gaps among words the transcription missed', () => {
+      const text = 'נועה לא הצליחה להירדם.';
+      const transcript = [
+        { word: 'נועה', start: 0.2, end: 0.6 },
+        { word: 'הצליחה', start: 1.0, end: 1.5 },
+        { word: 'להירדם', start: 1.6, end: 2.2 },
+      ];
+
+      expect(matchTranscriptWords(text, transcript, 2.5)).toEqual([
+        { start: 0.2, end: 0.6, charIndex: 0 },
+        { start: 0.6, end: 1.0, charIndex: 5 },
+        { start: 1.0, end: 1.5, charIndex: 8 },
+        { start: 1.6, end: 2.2, charIndex: 15 },
+      ]);
+    });
+
+    it('should ignore case and punctuation', () => {
+      const timings = matchTranscriptWords('Noa, look!', [
+        { word: 'noa', start: 0, end: 0.3 },
+        { word: 'Look', start: 0.4, end: 0.8 },
+      ], 1);
+
+      expect(timings.map(timing => timing.start)).toEqual([0, 0.4]);
+    });
+  });
+
+  describe('alignWords', () => {
+    it('should return null instead of failing the narration', async () => {
+      setAlignmentProviderForTesting({
+        name: 'openai',
+        align: async () => { throw new Error('transcription error'); },
+      });
+
+      await expect(alignWords({ audio: Buffer.from('mp3'), contentType: 'audio/mpeg', text: 'Hi', language: 'en' })).resolves.toBeNull();
+    });
+  });
+});
@@ -3,6 +3,8 @@ import * as admin from "firebase-admin";
 import { generateImage } from "../image-generation";
 import { OPENAI_AGENTS } from "../open-ai-agents";
 import { getFirestoreHelper, saveImageToStorage, getEnvironment } from "../lib/utils";
+import { characterBibleVariables, parseCharacterBible } from "../lib/character-bible";
+import { runWithAIUsageScope } from "../lib/ai-usage";
 
 // HTTP VERSIONS (for direct fetch/axios calls)
 
@@ -52,7 +54,7 @@ export const generateStoryPageImageHttp = functions.runWith({
       const token = authHeader.split('Bearer ')[1];
       
       // Verify token
-      await admin.auth().verifyIdToken(token);
+      const decodedToken = await admin.auth().verifyIdToken(token);
 
       const environment = getEnvironment();
       const { imagePrompt, imageUrl, accountId, userId, storyId, pageNum, updatePath } = request.body;
@@ -102,9 +104,12 @@ export const generateStoryPageImageHttp = functions.runWith({
         storyExists: storyDoc.exists
       });
 
+      // The story's character bible keeps the characters consistent across pages
+      const characterBible = parseCharacterBible(storyDoc.data()?.characterBible);
+
       // Generate the page image
-      const base64Image = await generateImage({
-        prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE },
+      const base64Image = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(environment), accountId: decodedToken.uid, storyId }, () => generateImage({
+        prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE, variables: characterBibleVariables(characterBible) },
         input: [
           {
             role: "user",
@@ -114,7 +119,7 @@ export const generateStoryPageImageHttp = functions.runWith({
             ],
           },
         ],
-      });
+      }));
 
       // Save to Firebase Storage
       const storageUrl = await saveImageToStorage(
@@ -216,7 +221,7 @@ export const generateStoryCoverImageHttp = functions.runWith({
       const token = authHeader.split('Bearer ')[1];
       
       // Verify token
-      await admin.auth().verifyIdToken(token);
+      const decodedToken = await admin.auth().verifyIdToken(token);
 
       const environment = getEnvironment();
       const { imageStyle, imageUrl, storyTitle, imagePrompt, accountId, userId, storyId } = request.body;
@@ -246,7 +251,7 @@ export const generateStoryCoverImageHttp = functions.runWith({
       };
 
       // Generate the cover image with variables
-      const base64Image = await generateImage({
+      const base64Image = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(environment), accountId: decodedToken.uid, storyId }, () => generateImage({
         prompt: { 
           id: OPENAI_AGENTS.STORY_COVER_IMAGE,
           variables: variables
@@ -260,7 +265,7 @@ export const generateStoryCoverImageHttp = functions.runWith({
             ],
           },
         ],
-      });
+      }));
 
       // Save to Firebase Storage
       const storageUrl = await saveImageToStorage(
@@ -1,5 +1,7 @@
 import * as functions from "firebase-functions/v1";
 import { generateImage } from "../image-generation";
+import { getFirestoreHelper, getEnvironment } from "../lib/utils";
+import { runWithAIUsageScope } from "../lib/ai-usage";
 
 /**
  * OpenAI Image Generation - Callable Function
@@ -45,7 +47,7 @@ export const generateImageFunction = functions.runWith({
       }
 
       // Generate image (returns base64)
-      const base64Image = await generateImage({ prompt, input });
+      const base64Image = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(getEnvironment()), accountId: context.auth.uid }, () => generateImage({ prompt, input }));
 
       return {
         success: true,
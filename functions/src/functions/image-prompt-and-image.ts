@@ -6,6 +6,8 @@ import { OPENAI_AGENTS } from "../open-ai-agents";
 import { getFirestoreHelper, saveImageToStorage, getEnvironment } from "../lib/utils";
 import { sendEmail } from "../email-service";
 import { getEmailTemplateId } from "../constants/email-templates";
+import { characterBibleVariables, loadCharacterBible, StoryCharacter } from "../lib/character-bible";
+import { runWithAIUsageScope } from "../lib/ai-usage";
 
 // ============================================================================
 // LANGUAGE DETECTION HELPER
@@ -130,11 +132,13 @@ async function generateImagePromptWithFeedback(
   pageText: string,
   gender?: string,
   age?: number,
+  characterBible: StoryCharacter[] = [],
   previousError?: string,
   attemptNumber?: number
 ): Promise<string> {
   const variables: Record<string, string | number> = {
-    page_text: pageText
+    page_text: pageText,
+    ...characterBibleVariables(characterBible)
   };
 
   if (gender) {
@@ -171,12 +175,13 @@ async function generateImagePromptWithFeedback(
 async function generateImageWithRetry(
   imagePrompt: string,
   imageUrl: string,
-  maxRetries: number = 3
+  maxRetries: number = 3,
+  characterBible: StoryCharacter[] = []
 ): Promise<string> {
   return await retryWithBackoff(
     async () => {
       return await generateImage({
-        prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE },
+        prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE, variables: characterBibleVariables(characterBible) },
         input: [
           {
             role: "user",
@@ -264,6 +269,10 @@ export const generateImagePromptAndImage = functions.runWith({
         storyId
       });
 
+      // Keeps the characters consistent with the rest of the story's illustrations
+      const characterBible = await loadCharacterBible(getFirestoreHelper(environment), storyId);
+      const usageScope = { dbHelper: getFirestoreHelper(environment), accountId: context.auth.uid, storyId };
+
       const MAX_REFINEMENT_ATTEMPTS = 3;
       let imagePrompt: string | null = null;
       let base64Image: string | null = null;
@@ -281,24 +290,26 @@ export const generateImagePromptAndImage = functions.runWith({
               age
             });
             
-            imagePrompt = await generateImagePromptWithFeedback(
+            imagePrompt = await runWithAIUsageScope(usageScope, () => generateImagePromptWithFeedback(
               pageText,
               gender,
-              age
-            );
+              age,
+              characterBible
+            ));
           } else {
             functions.logger.info(`Step 1 (Refinement ${refinementAttempt}): Regenerating image prompt with error feedback`, {
               previousError: lastError?.message?.substring(0, 100) + "...",
               pageNum
             });
             
-            imagePrompt = await generateImagePromptWithFeedback(
+            imagePrompt = await runWithAIUsageScope(usageScope, () => generateImagePromptWithFeedback(
               pageText,
               gender,
               age,
+              characterBible,
               lastError?.message || "Unknown error occurred during image generation",
               refinementAttempt
-            );
+            ));
           }
 
           functions.logger.info("Step 2: Generating image with prompt", {
@@ -310,11 +321,12 @@ export const generateImagePromptAndImage = functions.runWith({
 
           // Step 2: Generate the image using the prompt (with retry for unexpected errors)
           try {
-            base64Image = await generateImageWithRetry(
+            base64Image = await runWithAIUsageScope(usageScope, () => generateImageWithRetry(
               imagePrompt,
               imageUrl,
-              3 // Max retries for unexpected errors
-            );
+              3, // Max retries for unexpected errors
+              characterBible
+            ));
             
             // Success! Break out of refinement loop
             break;
@@ -0,0 +1,243 @@
+import * as functions from "firebase-functions/v1";
+import { getFirestoreHelper, getEnvironment, saveAudioToStorage } from "../lib/utils";
+import { enforceRateLimit, getClientIp } from "../lib/rate-limit";
+import {
+  applyNarration,
+  detectNarrationLanguage,
+  MAX_UPLOADED_AUDIO_BYTES,
+  narrateStoryPages,
+  NarrationPage,
+  selectPagesToNarrate,
+  UPLOADED_AUDIO_EXTENSIONS,
+} from "../lib/narration";
+import { alignWords } from "../lib/word-alignment";
+
+/**
+ * Generate Story Narration (Callable)
+ * Narrates story pages in the story's language (Hebrew or English) and saves
+ * the audio URL on each page as `audioUrl`
+ *
+ * Request body:
+ * {
+ *   "storyId": "story_id",
+ *   "pageNums": [0, 3] (optional, defaults to every page without audio),
+ *   "force": true (optional, narrate pages that already have audio again)
+ * }
+ */
+export const generateStoryNarration = functions.runWith({
+  timeoutSeconds: 300,
+  memory: '1GB'
+}).https.onCall(
+  async (data, context) => {
+    if (!context?.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated"
+      );
+    }
+
+    const environment = getEnvironment();
+    const dbHelper = getFirestoreHelper(environment);
+    const { storyId, pageNums, force } = data || {};
+
+    if (!storyId) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "storyId is required"
+      );
+    }
+
+    if (pageNums !== undefined && pageNums !== null && (!Array.isArray(pageNums) || !pageNums.every((n: unknown) => Number.isInteger(n)))) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "pageNums must be an array of page numbers"
+      );
+    }
+
+    const storyDoc = await dbHelper.getStory(storyId);
+    const storyData = storyDoc.data();
+    if (!storyDoc.exists || !storyData) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        `Story not found with ID: ${storyId} in environment: ${environment}`
+      );
+    }
+
+    if (storyData.accountId !== context.auth.uid && storyData.userId !== context.auth.uid) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You can only narrate your own stories"
+      );
+    }
+
+    try {
+      const pages: NarrationPage[] = Array.isArray(storyData.pages) ? storyData.pages : [];
+      const pagesToNarrate = selectPagesToNarrate(pages, pageNums || undefined, force === true);
+      if (pagesToNarrate.length === 0) {
+        return { success: true, storyId, narrated: 0, results: [], message: "All pages already have narration" };
+      }
+
+      await enforceRateLimit(dbHelper, 'ai_requests', context.auth.uid, getClientIp(context.rawRequest));
+
+      const language = detectNarrationLanguage([storyData.title, ...pages.map(page => page.storyText)]);
+      const ownerId = storyData.accountId || storyData.userId;
+      functions.logger.info("Narrating story", { storyId, language, pages: pagesToNarrate.length });
+
+      const results = await narrateStoryPages({
+        pages,
+        pageNums: pagesToNarrate,
+        language,
+        accountId: ownerId,
+        userId: storyData.userId || ownerId,
+        storyId,
+      });
+
+      // The pages are read again inside the transaction, so text edited meanwhile keeps no stale audio
+      const storyRef = dbHelper.getStoryRef(storyId);
+      await dbHelper.getDb().runTransaction(async (transaction) => {
+        const latest = await transaction.get(storyRef);
+        const latestPages = latest.data()?.pages;
+        if (Array.isArray(latestPages)) {
+          transaction.update(storyRef, { pages: applyNarration(latestPages, results) });
+        }
+      });
+
+      const narrated = results.filter(r => r.success).length;
+      return {
+        success: true,
+        storyId,
+        language,
+        narrated,
+        results: results.map(({ pageNum, success, audioUrl, error }) => ({ pageNum, success, audioUrl, error })),
+        message: `Narrated ${narrated}/${results.length} pages`,
+      };
+    } catch (error) {
+      functions.logger.error("Error in generateStoryNarration:", error);
+      if (error instanceof functions.https.HttpsError && error.code !== "internal") {
+        throw error;
+      }
+      throw new functions.https.HttpsError(
+        "internal",
+        `Failed to narrate story: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+);
+
+/**
+ * Upload Story Page Narration (Callable)
+ * Saves audio recorded by the parent as the narration of one page and aligns it to the
+ * page text, so the reader can highlight the words while it plays
+ *
+ * Request body:
+ * {
+ *   "storyId": "story_id",
+ *   "pageNum": 2,
+ *   "audioBase64": "base64 encoded audio",
+ *   "contentType": "audio/mpeg" | "audio/wav" | "audio/webm" | "audio/mp4" | "audio/ogg"
+ * }
+ */
+export const uploadStoryPageNarration = functions.runWith({
+  timeoutSeconds: 120,
+  memory: '512MB'
+}).https.onCall(
+  async (data, context) => {
+    if (!context?.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated"
+      );
+    }
+
+    const environment = getEnvironment();
+    const dbHelper = getFirestoreHelper(environment);
+    const { storyId, pageNum, audioBase64, contentType } = data || {};
+
+    if (!storyId || !Number.isInteger(pageNum) || typeof audioBase64 !== "string" || !audioBase64) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "storyId, pageNum and audioBase64 are required"
+      );
+    }
+
+    const extension = UPLOADED_AUDIO_EXTENSIONS[contentType];
+    if (!extension) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `Unsupported audio type: ${contentType}`
+      );
+    }
+
+    const audio = Buffer.from(audioBase64, "base64");
+    if (audio.length === 0 || audio.length > MAX_UPLOADED_AUDIO_BYTES) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `Audio must be between 1 byte and ${MAX_UPLOADED_AUDIO_BYTES / (1024 * 1024)} MB`
+      );
+    }
+
+    const storyDoc = await dbHelper.getStory(storyId);
+    const storyData = storyDoc.data();
+    if (!storyDoc.exists || !storyData) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        `Story not found with ID: ${storyId} in environment: ${environment}`
+      );
+    }
+
+    if (storyData.accountId !== context.auth.uid && storyData.userId !== context.auth.uid) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You can only narrate your own stories"
+      );
+    }
+
+    const pages: NarrationPage[] = Array.isArray(storyData.pages) ? storyData.pages : [];
+    const storyText = pages[pageNum]?.storyText || '';
+    if (!storyText.trim()) {
+      throw new functions.https.HttpsError(
+        "failed-precondition",
+        `Page ${pageNum} has no text to narrate`
+      );
+    }
+
+    try {
+      await enforceRateLimit(dbHelper, 'ai_requests', context.auth.uid, getClientIp(context.rawRequest));
+
+      const language = detectNarrationLanguage([storyData.title, ...pages.map(page => page.storyText)]);
+      const ownerId = storyData.accountId || storyData.userId;
+      const audioUrl = await saveAudioToStorage(audio, ownerId, storyData.userId || ownerId, storyId, pageNum, contentType, extension);
+      const wordTimings = await alignWords({ audio, contentType, text: storyText, language });
+      functions.logger.info("Saved uploaded narration", { storyId, pageNum, language, bytes: audio.length, aligned: wordTimings !== null });
+
+      const storyRef = dbHelper.getStoryRef(storyId);
+      await dbHelper.getDb().runTransaction(async (transaction) => {
+        const latest = await transaction.get(storyRef);
+        const latestPages = latest.data()?.pages;
+        if (Array.isArray(latestPages)) {
+          transaction.update(storyRef, {
+            pages: applyNarration(latestPages, [{ pageNum, success: true, storyText, audioUrl, wordTimings }]),
+          });
+        }
+      });
+
+      return {
+        success: true,
+        storyId,
+        pageNum,
+        audioUrl,
+        wordTimings,
+        message: `Saved narration for page ${pageNum}`,
+      };
+    } catch (error) {
+      functions.logger.error("Error in uploadStoryPageNarration:", error);
+      if (error instanceof functions.https.HttpsError && error.code !== "internal") {
+        throw error;
+      }
+      throw new functions.https.HttpsError(
+        "internal",
+        `Failed to save narration: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+);
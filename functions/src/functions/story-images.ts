@@ -3,6 +3,9 @@ import * as admin from "firebase-admin";
 import { generateImage } from "../image-generation";
 import { OPENAI_AGENTS } from "../open-ai-agents";
 import { getFirestoreHelper, saveImageToStorage, getEnvironment } from "../lib/utils";
+import { characterBibleVariables, loadCharacterBible } from "../lib/character-bible";
+import { enforceRateLimit, getClientIp } from "../lib/rate-limit";
+import { runWithAIUsageScope } from "../lib/ai-usage";
 
 /**
  * Generate Kid Avatar Image
@@ -39,7 +42,7 @@ export const generateKidAvatarImage = functions.runWith({
       }
 
       // Generate the avatar image
-      const base64Image = await generateImage({
+      const base64Image = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(environment), accountId: context.auth.uid }, () => generateImage({
         prompt: { id: OPENAI_AGENTS.KID_AVATAR_IMAGE },
         input: [
           {
@@ -50,7 +53,7 @@ export const generateKidAvatarImage = functions.runWith({
             ],
           },
         ],
-      });
+      }));
 
       // Save to Firebase Storage
       const storageUrl = await saveImageToStorage(
@@ -130,12 +133,17 @@ export const generateStoryPageImage = functions.runWith({
         );
       }
 
+      await enforceRateLimit(getFirestoreHelper(environment), 'images', context.auth.uid, getClientIp(context.rawRequest));
+
       // Note: Story existence check removed - we'll rely on the updatePath from client
       console.log("Using updatePath from client:", updatePath);
 
+      // The story's character bible keeps the characters consistent across pages
+      const characterBible = await loadCharacterBible(getFirestoreHelper(environment), storyId);
+
       // Generate the page image
-      const base64Image = await generateImage({
-        prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE },
+      const base64Image = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(environment), accountId: context.auth.uid, storyId }, () => generateImage({
+        prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE, variables: characterBibleVariables(characterBible) },
         input: [
           {
             role: "user",
@@ -145,7 +153,7 @@ export const generateStoryPageImage = functions.runWith({
             ],
           },
         ],
-      });
+      }));
 
       // Save to Firebase Storage
       const storageUrl = await saveImageToStorage(
@@ -237,6 +245,9 @@ export const generateStoryPageImage = functions.runWith({
       };
     } catch (error) {
       functions.logger.error("Error generating story page image:", error);
+      if (error instanceof functions.https.HttpsError && error.code !== "internal") {
+        throw error;
+      }
       throw new functions.https.HttpsError(
         "internal",
         `Failed to generate story page image: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -299,7 +310,7 @@ export const generateStoryCoverImage = functions.runWith({
       };
 
       // Generate the cover image with variables
-      const base64Image = await generateImage({
+      const base64Image = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(environment), accountId: context.auth.uid, storyId }, () => generateImage({
         prompt: { 
           id: OPENAI_AGENTS.STORY_COVER_IMAGE,
           variables: variables
@@ -313,7 +324,7 @@ export const generateStoryCoverImage = functions.runWith({
             ],
           },
         ],
-      });
+      }));
 
       // Save to Firebase Storage
       const storageUrl = await saveImageToStorage(
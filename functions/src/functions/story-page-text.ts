@@ -0,0 +1,100 @@
+import * as functions from "firebase-functions/v1";
+import { getFirestoreHelper, getEnvironment } from "../lib/utils";
+import { loadKidProfile } from "../lib/story-pipeline";
+import { MAX_INSTRUCTION_LENGTH, regeneratePageText } from "../lib/page-regeneration";
+import { parseCharacterBible } from "../lib/character-bible";
+import { runWithAIUsageScope } from "../lib/ai-usage";
+import { moderateStoryInput } from "../lib/moderation";
+import { canWriteKid } from "../lib/kid-access";
+
+/**
+ * Regenerate Story Page Text (Callable)
+ * Rewrites the text of one page using the whole story as context and refreshes its image prompt
+ * Does NOT save to Firestore - /api/story/regenerate-page saves the result as a new page revision
+ *
+ * Request body:
+ * {
+ *   "storyId": "story_id",
+ *   "pageNum": 3,
+ *   "instruction": "make it funnier" (optional)
+ * }
+ */
+export const regenerateStoryPageText = functions.runWith({
+  timeoutSeconds: 120,
+  memory: '512MB'
+}).https.onCall(
+  async (data, context) => {
+    if (!context?.auth) {
+      throw new functions.https.HttpsError(
+        "unauthenticated",
+        "User must be authenticated"
+      );
+    }
+
+    const environment = getEnvironment();
+    const dbHelper = getFirestoreHelper(environment);
+    const { storyId, pageNum, instruction } = data || {};
+
+    if (!storyId || typeof pageNum !== 'number') {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        "storyId and pageNum are required"
+      );
+    }
+
+    if (instruction !== undefined && instruction !== null && (typeof instruction !== 'string' || instruction.length > MAX_INSTRUCTION_LENGTH)) {
+      throw new functions.https.HttpsError(
+        "invalid-argument",
+        `instruction must be a string of up to ${MAX_INSTRUCTION_LENGTH} characters`
+      );
+    }
+
+    const storyDoc = await dbHelper.getStory(storyId);
+    const storyData = storyDoc.data();
+    if (!storyDoc.exists || !storyData) {
+      throw new functions.https.HttpsError(
+        "not-found",
+        `Story not found with ID: ${storyId} in environment: ${environment}`
+      );
+    }
+
+    // Besides the story's creator, the owner of its kid and accounts the kid is shared with for writing may edit it
+    const isStoryOwner = storyData.accountId === context.auth.uid || storyData.userId === context.auth.uid;
+    if (!isStoryOwner && !(await canWriteKid(dbHelper, storyData.kidId, context.auth.uid, context.auth.token?.email))) {
+      throw new functions.https.HttpsError(
+        "permission-denied",
+        "You can only edit your own stories"
+      );
+    }
+
+    try {
+      await moderateStoryInput({ instruction });
+
+      const kid = await loadKidProfile(dbHelper, storyData.kidId);
+
+      const page = await runWithAIUsageScope({ dbHelper, accountId: context.auth.uid, kidId: storyData.kidId, storyId }, () => regeneratePageText({
+        title: storyData.title || '',
+        pages: Array.isArray(storyData.pages) ? storyData.pages : [],
+        pageNum,
+        kid,
+        instruction: instruction ? instruction.trim() : undefined,
+        characterBible: parseCharacterBible(storyData.characterBible),
+      }));
+
+      return {
+        success: true,
+        storyId,
+        ...page,
+      };
+    } catch (error) {
+      functions.logger.error("Error in regenerateStoryPageText:", error);
+      if (error instanceof functions.https.HttpsError && error.code !== "internal") {
+        throw error;
+      }
+      throw new functions.https.HttpsError(
+        "internal",
+        `Failed to regenerate page text: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+);
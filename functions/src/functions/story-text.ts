@@ -3,6 +3,10 @@ import * as admin from "firebase-admin";
 import { generateText } from "../text-generation";
 import { OPENAI_AGENTS } from "../open-ai-agents";
 import { getFirestoreHelper, getEnvironment } from "../lib/utils";
+import { generateValidatedText, StoryPagesResponseSchema } from "../lib/story-schemas";
+import { characterBibleVariables, loadCharacterBible } from "../lib/character-bible";
+import { runWithAIUsageScope } from "../lib/ai-usage";
+import { moderateStoryInput } from "../lib/moderation";
 
 interface StoryPagesTextParams {
   name: string;
@@ -23,6 +27,8 @@ interface StoryPagesTextParams {
 async function generateAndSaveStoryPagesText(params: StoryPagesTextParams) {
   const { name, problemDescription, title, age, advantages, disadvantages, accountId: _accountId, userId: _userId, storyId } = params;
 
+  await moderateStoryInput({ problemDescription, advantages, disadvantages });
+
   // Generate the story text
   const input = `Name: ${name}
 Problem Description: ${problemDescription}
@@ -31,15 +37,27 @@ Target Age: ${age} years old
 Moral Advantages: ${advantages}
 Moral Disadvantages: ${disadvantages}`;
 
-  const text = await generateText({
-    prompt: { id: OPENAI_AGENTS.STORY_PAGES_TEXT },
-    input: input,
+  // Validate the pages against the story structure, invalid responses are repaired by the agent
+  const { data: pages, text: rawText } = await generateValidatedText(
+    { prompt: { id: OPENAI_AGENTS.STORY_PAGES_TEXT }, input: input },
+    StoryPagesResponseSchema,
+    "story pages"
+  );
+
+  // Return the validated pages in the format the client parses ({"pages": [{pageNum, pageType, text, imagePrompt}]})
+  const text = JSON.stringify({
+    pages: pages.map(page => ({
+      pageNum: page.pageNum,
+      pageType: page.pageType,
+      text: page.storyText,
+      imagePrompt: page.imagePrompt,
+    })),
   });
 
   // NOTE: We do NOT save to Firestore here anymore to avoid duplication
   // The client will save the complete story with all pages and details
   
-  functions.logger.info(`Generated story text${storyId ? ` for storyId: ${storyId}` : ''}, length: ${text.length}`);
+  functions.logger.info(`Generated story text${storyId ? ` for storyId: ${storyId}` : ''}, length: ${rawText.length}`);
 
   return {
     success: true,
@@ -87,7 +105,7 @@ export const generateStoryPagesText = functions.runWith({
         );
       }
 
-      const result = await generateAndSaveStoryPagesText({
+      const result = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(getEnvironment()), accountId: context.auth.uid, storyId }, () => generateAndSaveStoryPagesText({
         name,
         problemDescription,
         title,
@@ -97,11 +115,14 @@ export const generateStoryPagesText = functions.runWith({
         accountId,
         userId,
         storyId,
-      });
+      }));
 
       return result;
     } catch (error) {
       functions.logger.error("Error generating story pages text:", error);
+      if (error instanceof functions.https.HttpsError && error.code !== "internal") {
+        throw error;
+      }
       throw new functions.https.HttpsError(
         "internal",
         `Failed to generate story pages text: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -155,7 +176,7 @@ export const generateStoryPagesTextHttp = functions.runWith({
       const token = authHeader.split('Bearer ')[1];
       
       // Verify token
-      await admin.auth().verifyIdToken(token);
+      const decodedToken = await admin.auth().verifyIdToken(token);
 
       const { name, problemDescription, title, age, advantages, disadvantages, accountId, userId, storyId } = request.body;
 
@@ -168,7 +189,7 @@ export const generateStoryPagesTextHttp = functions.runWith({
         return;
       }
 
-      const result = await generateAndSaveStoryPagesText({
+      const result = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(getEnvironment()), accountId: decodedToken.uid, storyId }, () => generateAndSaveStoryPagesText({
         name,
         problemDescription,
         title,
@@ -178,11 +199,15 @@ export const generateStoryPagesTextHttp = functions.runWith({
         accountId,
         userId,
         storyId,
-      });
+      }));
 
       response.status(200).json(result);
     } catch (error) {
       functions.logger.error("Error generating story pages text (HTTP):", error);
+      if (error instanceof functions.https.HttpsError && error.code === "invalid-argument") {
+        response.status(400).json({ error: error.message, details: error.details });
+        return;
+      }
       response.status(500).json({
         error: 'Internal server error',
         message: error instanceof Error ? error.message : 'Unknown error'
@@ -237,6 +262,10 @@ export const generateStoryImagePrompt = functions.runWith({
       const environment = getEnvironment();
       const { pageText, pageNum: _pageNum, pages, gender, age, accountId: _accountId, userId: _userId, storyId, updatePath } = data;
 
+      // Stories that already have a character bible keep their characters consistent in new prompts
+      const bibleVariables = characterBibleVariables(await loadCharacterBible(getFirestoreHelper(environment), storyId));
+      const usageScope = { dbHelper: getFirestoreHelper(environment), accountId: context.auth.uid, storyId };
+
       // Handle multiple pages case
       if (pages && Array.isArray(pages) && pages.length > 0) {
         // Validate that each page has the required fields
@@ -255,10 +284,10 @@ export const generateStoryImagePrompt = functions.runWith({
           // Create input for all pages at once
           const input = `story_pages = ${JSON.stringify(pages)}`;
           
-          const result = await generateText({
-            prompt: { id: OPENAI_AGENTS.STORY_IMAGE_PROMPT },
+          const result = await runWithAIUsageScope(usageScope, () => generateText({
+            prompt: { id: OPENAI_AGENTS.STORY_IMAGE_PROMPT, variables: bibleVariables },
             input: input,
-          });
+          }));
 
           // Parse the AI response - handle both complete and incomplete responses
           let parsedPages;
@@ -445,7 +474,8 @@ export const generateStoryImagePrompt = functions.runWith({
 
       // Build variables object for the prompt
       const variables: Record<string, string | number> = {
-        page_text: pageText
+        page_text: pageText,
+        ...bibleVariables
       };
 
       if (gender) {
@@ -458,13 +488,13 @@ export const generateStoryImagePrompt = functions.runWith({
 
       functions.logger.info("Generating image prompt with variables:", variables);
 
-      const result = await generateText({
+      const result = await runWithAIUsageScope(usageScope, () => generateText({
         prompt: { 
           id: OPENAI_AGENTS.STORY_IMAGE_PROMPT,
           variables: variables
         },
         input: pageText, // Use page text as the main input
-      });
+      }));
 
       // Save the generated prompt to Firestore if parameters are provided
       if (storyId && updatePath) {
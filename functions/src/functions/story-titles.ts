@@ -1,6 +1,9 @@
 import * as functions from "firebase-functions/v1";
 import { generateText } from "../text-generation";
 import { OPENAI_AGENTS } from "../open-ai-agents";
+import { getFirestoreHelper, getEnvironment } from "../lib/utils";
+import { runWithAIUsageScope } from "../lib/ai-usage";
+import { moderateStoryInput } from "../lib/moderation";
 
 export const generateStoryTitles = functions.runWith({
   timeoutSeconds: 540,
@@ -24,6 +27,8 @@ export const generateStoryTitles = functions.runWith({
         );
       }
 
+      await moderateStoryInput({ problemDescription, advantages, disadvantages });
+
       // Build the input with required fields
       let input = `Name: ${name}
 Gender: ${gender}
@@ -39,10 +44,10 @@ Age: ${age} years old`;
         input += `\nDisadvantages: ${disadvantages}`;
       }
 
-      const result = await generateText({
+      const result = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(getEnvironment()), accountId: context.auth.uid }, () => generateText({
         prompt: { id: OPENAI_AGENTS.STORY_TITLES_TEXT },
         input: input,
-      });
+      }));
 
       // Validate that we got a response
       if (!result || typeof result !== 'string' || result.trim().length === 0) {
@@ -204,6 +209,9 @@ Age: ${age} years old`;
       };
     } catch (error) {
       functions.logger.error("Error generating story titles:", error);
+      if (error instanceof functions.https.HttpsError && error.code !== "internal") {
+        throw error;
+      }
       throw new functions.https.HttpsError(
         "internal",
         `Failed to generate story titles: ${error instanceof Error ? error.message : "Unknown error"}`
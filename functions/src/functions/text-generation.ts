@@ -1,5 +1,7 @@
 import * as functions from "firebase-functions/v1";
 import { generateText } from "../text-generation";
+import { getFirestoreHelper, getEnvironment } from "../lib/utils";
+import { runWithAIUsageScope } from "../lib/ai-usage";
 
 /**
  * OpenAI Text Generation - Callable Function
@@ -36,7 +38,7 @@ export const generateTextFunction = functions.runWith({
         );
       }
 
-      const result = await generateText({ prompt, input });
+      const result = await runWithAIUsageScope({ dbHelper: getFirestoreHelper(getEnvironment()), accountId: context.auth.uid }, () => generateText({ prompt, input }));
 
       return {
         success: true,
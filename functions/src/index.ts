@@ -10,7 +10,9 @@ export * from "./functions/full-story";
 export * from "./functions/http-versions";
 export * from "./functions/image-generation";
 export * from "./functions/image-prompt-and-image";
+export * from "./functions/narration";
 export * from "./functions/story-images";
+export * from "./functions/story-page-text";
 export * from "./functions/story-text";
 export * from "./functions/story-titles";
 export * from "./functions/text-generation";
@@ -0,0 +1,60 @@
+/**
+ * AI Provider
+ * Backend used by generateText and generateImage
+ *
+ * The provider is selected with the AI_PROVIDER environment variable:
+ * - "openai" (default): OpenAI Responses API, requires OPENAI_API_KEY
+ * - "fake": deterministic offline responses for the functions emulator and jest
+ */
+
+import type { TextGenerationRequest } from "../text-generation";
+import type { ImageGenerationRequest } from "../image-generation";
+import type { AIUsage } from "./ai-usage";
+import { OpenAIProvider } from "./openai-provider";
+import { FakeAIProvider } from "./fake-ai-provider";
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  /** Returns the generated text, the token usage goes to onUsage when the backend reports it */
+  generateText(request: TextGenerationRequest, onUsage?: (usage: AIUsage) => void): Promise<string>;
+  /** Returns the generated image as a base64 encoded PNG */
+  generateImage(request: ImageGenerationRequest, onUsage?: (usage: AIUsage) => void): Promise<string>;
+}
+
+export const AI_PROVIDER_NAMES = ['openai', 'fake'] as const;
+
+export type AIProviderName = typeof AI_PROVIDER_NAMES[number];
+
+let providerOverride: AIProvider | null = null;
+
+/**
+ * Get the provider name from AI_PROVIDER, defaulting to OpenAI
+ */
+export function getAIProviderName(): AIProviderName {
+  const value = (process.env.AI_PROVIDER || '').trim().toLowerCase();
+  if (!value) {
+    return 'openai';
+  }
+  if (!(AI_PROVIDER_NAMES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown AI_PROVIDER "${value}". Expected one of: ${AI_PROVIDER_NAMES.join(', ')}`);
+  }
+  return value as AIProviderName;
+}
+
+/**
+ * Get the active AI provider
+ * Resolved on every call so tests can switch AI_PROVIDER between cases
+ */
+export function getAIProvider(): AIProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+  return getAIProviderName() === 'fake' ? new FakeAIProvider() : new OpenAIProvider();
+}
+
+/**
+ * Replace the active provider (tests only). Pass null to go back to AI_PROVIDER.
+ */
+export function setAIProviderForTesting(provider: AIProvider | null): void {
+  providerOverride = provider;
+}
@@ -0,0 +1,141 @@
+/**
+ * AI Usage Ledger
+ * Records the model, tokens, image count and cost of every generateText / generateImage call
+ *
+ * Every call inside a usage scope adds an entry to ai_usage_{env} keyed by account, kid and
+ * story, and the totals are rolled up onto the story document as `aiUsage`. The callables open
+ * the scope with runWithAIUsageScope around their AI calls; calls outside a scope are not recorded.
+ * Recording never fails the generation, errors are only logged.
+ *
+ * Prices mirror src/app/utils/openai-cost-calculator.ts in the web app (USD).
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import { FirestoreHelper } from "./firestore-helper";
+
+/**
+ * Usage reported by the provider for one call
+ */
+export interface AIUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  imageQuality?: string;
+}
+
+/**
+ * Who the AI calls made inside the scope are billed to
+ */
+export interface AIUsageScope {
+  dbHelper: FirestoreHelper;
+  accountId: string;
+  kidId?: string;
+  storyId?: string;
+}
+
+// Per 1M tokens, matched by prefix so dated snapshots (gpt-4o-2024-08-06) use the base model price
+const TEXT_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4o-mini': { input: 0.150, output: 0.600 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1-nano': { input: 0.10, output: 0.40 },
+  'gpt-4-turbo': { input: 10.00, output: 30.00 },
+};
+
+// Unknown models are priced like gpt-4o-mini, the same fallback as the web calculator
+const DEFAULT_TEXT_MODEL = 'gpt-4o-mini';
+
+// Per image of the image generation tool (gpt-image-1, 1024x1024)
+const IMAGE_PRICING: Record<string, number> = {
+  low: 0.011,
+  medium: 0.042,
+  high: 0.167,
+};
+
+const DEFAULT_IMAGE_QUALITY = 'medium';
+
+const scopeStorage = new AsyncLocalStorage<AIUsageScope>();
+
+/**
+ * Run fn with the AI calls it makes billed to the scope
+ */
+export function runWithAIUsageScope<T>(scope: AIUsageScope, fn: () => Promise<T>): Promise<T> {
+  return scopeStorage.run(scope, fn);
+}
+
+/**
+ * The scope of the current call, if any
+ */
+export function getAIUsageScope(): AIUsageScope | undefined {
+  return scopeStorage.getStore();
+}
+
+function getTextPricing(model: string): { input: number; output: number } | null {
+  if (model === 'fake') {
+    return null;
+  }
+  const key = Object.keys(TEXT_PRICING)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return TEXT_PRICING[key || DEFAULT_TEXT_MODEL];
+}
+
+/**
+ * Cost of one call in USD: the tokens of the model plus the images it generated
+ */
+export function calculateAICost(usage: AIUsage): number {
+  const pricing = getTextPricing(usage.model);
+  if (!pricing) {
+    return 0;
+  }
+  const tokensCost = (usage.inputTokens / 1_000_000) * pricing.input + (usage.outputTokens / 1_000_000) * pricing.output;
+  const imagePrice = IMAGE_PRICING[usage.imageQuality || DEFAULT_IMAGE_QUALITY] ?? IMAGE_PRICING[DEFAULT_IMAGE_QUALITY];
+  return tokensCost + usage.images * imagePrice;
+}
+
+/**
+ * Record one call in the ledger and roll its totals up onto the story
+ * @param kind "text" for generateText, "image" for generateImage
+ * @param promptId The OPENAI_AGENTS prompt of the call
+ */
+export async function recordAIUsage(kind: 'text' | 'image', promptId: string, usage: AIUsage | null): Promise<void> {
+  const scope = getAIUsageScope();
+  if (!scope || !usage) {
+    return;
+  }
+
+  const cost = calculateAICost(usage);
+  try {
+    await scope.dbHelper.addAIUsageEntry({
+      accountId: scope.accountId,
+      kidId: scope.kidId || null,
+      storyId: scope.storyId || null,
+      kind,
+      promptId,
+      model: usage.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      images: usage.images,
+      imageQuality: usage.imageQuality || null,
+      cost,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (scope.storyId) {
+      const increment = admin.firestore.FieldValue.increment;
+      await scope.dbHelper.getStoryRef(scope.storyId).update({
+        'aiUsage.calls': increment(1),
+        'aiUsage.inputTokens': increment(usage.inputTokens),
+        'aiUsage.outputTokens': increment(usage.outputTokens),
+        'aiUsage.images': increment(usage.images),
+        'aiUsage.totalCost': increment(cost),
+      });
+    }
+  } catch (error) {
+    functions.logger.warn("Failed to record AI usage", { accountId: scope.accountId, storyId: scope.storyId, kind, promptId, error });
+  }
+}
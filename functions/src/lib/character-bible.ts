@@ -0,0 +1,147 @@
+/**
+ * Character Bible
+ * A per-story list of characters with their appearance, written once after the story text
+ * and passed to every image prompt and image generation call so the same character looks
+ * the same on every page.
+ *
+ * Stored on the story document as `characterBible`; parents can edit it in the web app
+ * before the images are rendered. Mirrors StoryCharacter in models/domain-models.ts.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { z } from "zod";
+import { OPENAI_AGENTS } from "../open-ai-agents";
+import { generateValidatedText } from "./story-schemas";
+import { FirestoreHelper } from "./firestore-helper";
+import type { KidProfile } from "./story-pipeline";
+
+// Enough for the kid, family and a few side characters without bloating every image prompt
+export const MAX_CHARACTERS = 8;
+export const MAX_APPEARANCE_LENGTH = 500;
+
+export interface StoryCharacter {
+  name: string;
+  role: string;
+  appearance: string;
+}
+
+const StoryCharacterSchema = z
+  .object({
+    name: z.string(),
+    role: z.string().optional(),
+    appearance: z.string().optional(),
+    description: z.string().optional(),
+  })
+  .transform(character => ({
+    name: character.name.trim(),
+    role: (character.role || '').trim(),
+    appearance: (character.appearance || character.description || '').trim().slice(0, MAX_APPEARANCE_LENGTH),
+  }))
+  .refine(character => character.name.length > 0, { message: "Character name is required" })
+  .refine(character => character.appearance.length > 0, { message: "Character appearance is required (use the `appearance` field)" });
+
+/**
+ * Character bible response: {"characters": [...]} or a bare array of characters
+ */
+export const CharacterBibleResponseSchema = z
+  .preprocess(
+    value => value && typeof value === 'object' && !Array.isArray(value) && 'characters' in value
+      ? (value as Record<string, unknown>).characters
+      : value,
+    z.array(StoryCharacterSchema)
+  )
+  .refine(characters => characters.length > 0, { message: "At least one character is required" })
+  .refine(characters => characters.length <= MAX_CHARACTERS, { message: `No more than ${MAX_CHARACTERS} characters` })
+  .refine(
+    characters => new Set(characters.map(c => c.name.toLowerCase())).size === characters.length,
+    { message: "Character names must be unique" }
+  );
+
+/**
+ * Build the pages agent input that asks for the character bible of a finished story
+ */
+export function buildCharacterBibleInput(
+  title: string,
+  pages: Array<{ pageType?: string; storyText?: string }>,
+  kid: KidProfile
+): string {
+  const storyPages = pages
+    .map((page, index) => `[${index}] (${page.pageType || 'normal'}): ${page.storyText || ''}`)
+    .join('\n');
+
+  return `Name: ${kid.name}
+Gender: ${kid.gender}
+Age: ${kid.age} years old
+Story Title: ${title}
+Character Bible: true
+Story Pages:
+${storyPages}
+List every character that appears in the story, starting with ${kid.name}, with a short visual description
+(age, hair, skin, clothes, distinctive features) that an illustrator can reuse on every page.
+Return JSON only, in this format: {"characters": [{"name": "...", "role": "...", "appearance": "..."}]}`;
+}
+
+/**
+ * Generate the character bible for the story pages
+ */
+export async function generateCharacterBible(
+  title: string,
+  pages: Array<{ pageType?: string; storyText?: string }>,
+  kid: KidProfile
+): Promise<StoryCharacter[]> {
+  const { data: characters } = await generateValidatedText(
+    { prompt: { id: OPENAI_AGENTS.STORY_PAGES_TEXT }, input: buildCharacterBibleInput(title, pages, kid) },
+    CharacterBibleResponseSchema,
+    "character bible"
+  );
+  return characters;
+}
+
+/**
+ * Read a character bible stored on a story (or sent by the web app)
+ * Invalid entries are dropped instead of failing, a story without a usable bible still renders
+ */
+export function parseCharacterBible(value: unknown): StoryCharacter[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map(item => StoryCharacterSchema.safeParse(item))
+    .filter(result => result.success)
+    .map(result => result.data as StoryCharacter)
+    .slice(0, MAX_CHARACTERS);
+}
+
+/**
+ * Format the characters as one text block for the prompt variables
+ */
+export function formatCharacterBible(characters: StoryCharacter[]): string {
+  return characters
+    .map(c => `${c.name}${c.role ? ` (${c.role})` : ''}: ${c.appearance}`)
+    .join('\n');
+}
+
+/**
+ * Prompt variables carrying the character bible
+ * Empty when the story has no bible, so older stories keep their current prompts
+ */
+export function characterBibleVariables(characters: StoryCharacter[]): Record<string, string> {
+  return characters.length > 0 ? { character_bible: formatCharacterBible(characters) } : {};
+}
+
+/**
+ * Load the character bible of a story for the single page prompt and image callables
+ * A missing story or bible is not an error here, the caller has its own checks
+ */
+export async function loadCharacterBible(dbHelper: FirestoreHelper, storyId: string | undefined): Promise<StoryCharacter[]> {
+  if (!storyId) {
+    return [];
+  }
+  try {
+    const storyDoc = await dbHelper.getStory(storyId);
+    return parseCharacterBible(storyDoc.data()?.characterBible);
+  } catch (error) {
+    functions.logger.warn(`Failed to load character bible for story ${storyId}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Concurrency helpers
+ */
+
+/**
+ * Run an async worker over items with at most `limit` workers in flight
+ * Results keep the order of the input items, regardless of completion order.
+ * The worker is expected to handle its own errors - a rejection stops no other item,
+ * but is re-thrown once every item has settled.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent workers (values below 1 are treated as 1)
+ * @param worker - Async function called with each item and its index
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const poolSize = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let nextIndex = 0;
+  let firstError: unknown = null;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        if (firstError === null) {
+          firstError = error;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: poolSize }, () => runNext()));
+
+  if (firstError !== null) {
+    throw firstError;
+  }
+  return results;
+}
+
+/**
+ * Create a queue that runs async tasks one at a time, in the order they were added
+ * Used to keep Firestore writes ordered when they are issued from concurrent workers.
+ * A failing task rejects its own promise but does not block the tasks after it.
+ */
+export function createSerialQueue() {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = tail.then(task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Story Credits
+ * Each generated story costs one credit from the account's balance
+ *
+ * Mirrors src/app/utils/credits.ts in the web app. The balance is a document in
+ * credits_{env}/{accountId} and every change is a ledger entry under it, written in the same
+ * transaction: purchases (PayPal), grants (welcome credits, admins), consumption and refunds.
+ * A generation first reserves its credit (a consumption entry in the "reserved" status, the
+ * balance already lowered), then consumes it when the story is done or refunds it when the
+ * generation fails. Accounts with a role (admins) are not charged.
+ *
+ * Errors are HttpsError "resource-exhausted" with {code: "insufficient-credits", balance, required}
+ * as details. FunctionClientAPI turns them into an InsufficientCreditsError.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { admin } from "./utils";
+import { FirestoreHelper } from "./firestore-helper";
+
+export const INSUFFICIENT_CREDITS = 'insufficient-credits';
+
+// Credits a new account starts with, granted when its balance is first used
+export const WELCOME_CREDITS = 3;
+
+export const STORY_CREDIT_COST = 1;
+
+export type CreditEntryType = 'purchase' | 'grant' | 'consumption' | 'refund';
+
+export type CreditReservationStatus = 'reserved' | 'consumed' | 'refunded';
+
+export interface InsufficientCreditsDetails {
+  balance: number;
+  required: number;
+}
+
+// Stored on the story so the credit can be settled when the generation ends
+export interface StoryCreditReservation {
+  accountId: string;
+  entryId: string;
+}
+
+/**
+ * Build the HttpsError returned when the account cannot pay for a story
+ */
+export function insufficientCreditsError(details: InsufficientCreditsDetails): functions.https.HttpsError {
+  return new functions.https.HttpsError(
+    "resource-exhausted",
+    `Not enough credits: ${details.required} needed, ${details.balance} left`,
+    { code: INSUFFICIENT_CREDITS, ...details }
+  );
+}
+
+/**
+ * Read a reservation stored on a story document, null when there is none
+ */
+export function parseCreditReservation(value: unknown): StoryCreditReservation | null {
+  const reservation = value as Partial<StoryCreditReservation> | null | undefined;
+  return reservation && typeof reservation.accountId === 'string' && typeof reservation.entryId === 'string'
+    ? { accountId: reservation.accountId, entryId: reservation.entryId }
+    : null;
+}
+
+/**
+ * Reserve the credit of a story generation
+ * Returns null for accounts that are not charged, throws an insufficient-credits error when
+ * the balance is too low. A new account receives its welcome credits first.
+ */
+export async function reserveStoryCredit(
+  dbHelper: FirestoreHelper,
+  accountId: string,
+  storyId: string
+): Promise<StoryCreditReservation | null> {
+  const accountDoc = await dbHelper.getAccountRef(accountId).get();
+  if (accountDoc.exists && accountDoc.data()?.role) {
+    return null;
+  }
+
+  const balanceRef = dbHelper.getCreditBalanceRef(accountId);
+  const entryRef = dbHelper.getCreditLedgerEntryRef(accountId);
+
+  const shortBalance = await dbHelper.getDb().runTransaction(async (transaction) => {
+    const balanceDoc = await transaction.get(balanceRef);
+    const balance = balanceDoc.exists ? Number(balanceDoc.data()?.balance) || 0 : WELCOME_CREDITS;
+    if (balance < STORY_CREDIT_COST) {
+      return balance;
+    }
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    if (!balanceDoc.exists) {
+      transaction.set(dbHelper.getCreditLedgerEntryRef(accountId, 'welcome'), {
+        type: 'grant',
+        amount: WELCOME_CREDITS,
+        balanceAfter: WELCOME_CREDITS,
+        reason: 'welcome',
+        createdAt: now,
+      });
+    }
+    transaction.set(balanceRef, { balance: balance - STORY_CREDIT_COST, updatedAt: now });
+    transaction.set(entryRef, {
+      type: 'consumption',
+      amount: -STORY_CREDIT_COST,
+      balanceAfter: balance - STORY_CREDIT_COST,
+      status: 'reserved',
+      storyId,
+      createdAt: now,
+    });
+    return null;
+  });
+
+  if (shortBalance !== null) {
+    functions.logger.warn("Not enough credits for a story", { accountId, balance: shortBalance });
+    throw insufficientCreditsError({ balance: shortBalance, required: STORY_CREDIT_COST });
+  }
+
+  return { accountId, entryId: entryRef.id };
+}
+
+/**
+ * Get the status of a reservation, null when the entry does not exist
+ */
+export async function getCreditReservationStatus(
+  dbHelper: FirestoreHelper,
+  reservation: StoryCreditReservation
+): Promise<CreditReservationStatus | null> {
+  const entryDoc = await dbHelper.getCreditLedgerEntryRef(reservation.accountId, reservation.entryId).get();
+  return entryDoc.exists ? (entryDoc.data()?.status as CreditReservationStatus) || null : null;
+}
+
+/**
+ * Keep the reserved credit, the story is done
+ * Only a reservation that is still open is settled, so calling it again does nothing
+ */
+export async function consumeStoryCredit(dbHelper: FirestoreHelper, reservation: StoryCreditReservation): Promise<void> {
+  const entryRef = dbHelper.getCreditLedgerEntryRef(reservation.accountId, reservation.entryId);
+
+  await dbHelper.getDb().runTransaction(async (transaction) => {
+    const entryDoc = await transaction.get(entryRef);
+    if (entryDoc.data()?.status !== 'reserved') {
+      return;
+    }
+    transaction.update(entryRef, { status: 'consumed', settledAt: admin.firestore.FieldValue.serverTimestamp() });
+  });
+}
+
+/**
+ * Give the reserved credit back, the generation did not produce a story
+ * Only a reservation that is still open is refunded, so calling it again does nothing
+ */
+export async function refundStoryCredit(
+  dbHelper: FirestoreHelper,
+  reservation: StoryCreditReservation,
+  reason: string
+): Promise<void> {
+  const balanceRef = dbHelper.getCreditBalanceRef(reservation.accountId);
+  const entryRef = dbHelper.getCreditLedgerEntryRef(reservation.accountId, reservation.entryId);
+
+  await dbHelper.getDb().runTransaction(async (transaction) => {
+    const [entryDoc, balanceDoc] = await Promise.all([transaction.get(entryRef), transaction.get(balanceRef)]);
+    const entry = entryDoc.data();
+    if (entry?.status !== 'reserved') {
+      return;
+    }
+
+    const refunded = Math.abs(Number(entry.amount) || STORY_CREDIT_COST);
+    const balance = (Number(balanceDoc.data()?.balance) || 0) + refunded;
+    const now = admin.firestore.FieldValue.serverTimestamp();
+
+    transaction.update(entryRef, { status: 'refunded', settledAt: now });
+    transaction.set(balanceRef, { balance, updatedAt: now });
+    transaction.set(dbHelper.getCreditLedgerEntryRef(reservation.accountId), {
+      type: 'refund',
+      amount: refunded,
+      balanceAfter: balance,
+      storyId: entry.storyId || null,
+      reservationId: reservation.entryId,
+      reason,
+      createdAt: now,
+    });
+  });
+}
+
+/**
+ * Settle the credit once a generation run returns
+ * A story paused for character review keeps its reservation until the run that finishes it,
+ * a story held by the safety review produced nothing to read and is refunded.
+ * Settling never fails the request, the story is already saved.
+ */
+export async function settleStoryCredit(
+  dbHelper: FirestoreHelper,
+  reservation: StoryCreditReservation | null,
+  result: { awaitingCharacterReview?: boolean; needsReview?: boolean }
+): Promise<void> {
+  if (!reservation || result.awaitingCharacterReview) {
+    return;
+  }
+  try {
+    if (result.needsReview) {
+      await refundStoryCredit(dbHelper, reservation, 'needs_review');
+    } else {
+      await consumeStoryCredit(dbHelper, reservation);
+    }
+  } catch (error) {
+    functions.logger.error("Failed to settle story credit:", { reservation, error });
+  }
+}
+
+/**
+ * Refund the credit of a failed generation, logging instead of throwing so the original
+ * error reaches the caller
+ */
+export async function refundFailedStoryCredit(
+  dbHelper: FirestoreHelper,
+  reservation: StoryCreditReservation | null
+): Promise<void> {
+  if (!reservation) {
+    return;
+  }
+  try {
+    await refundStoryCredit(dbHelper, reservation, 'generation_failed');
+  } catch (error) {
+    functions.logger.error("Failed to refund story credit:", { reservation, error });
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Fake AI Provider
+ * Deterministic offline stand-in for OpenAI, selected with AI_PROVIDER=fake
+ *
+ * Responses depend only on the prompt ID and the input, never on network or time,
+ * so the functions emulator and jest can run the whole story flow without an API key.
+ */
+
+import type { TextGenerationRequest } from "../text-generation";
+import type { ImageGenerationRequest } from "../image-generation";
+import type { AIProvider } from "./ai-provider";
+import type { AIUsage } from "./ai-usage";
+import { OPENAI_AGENTS } from "../open-ai-agents";
+
+// 8x8 solid PNG returned for every image request
+export const FAKE_PNG_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAgAAAAICAIAAABLbSncAAAAEUlEQVR42mP4csQAK2IYWhIA3Il6AZB3bh8AAAAASUVORK5CYII=";
+
+/**
+ * Read a "Key: value" line from the prompt input built by the story functions
+ */
+function readInputField(input: string, key: string): string | null {
+  const match = input.match(new RegExp(`^${key}:\\s*(.+)$`, "m"));
+  return match ? match[1].trim() : null;
+}
+
+export function buildFakeTitles(input: string): string[] {
+  const name = readInputField(input, "Name") || "Alex";
+  return [
+    `${name} and the Brave Choice`,
+    `${name}'s Big Day`,
+    `The Adventure of ${name}`,
+  ];
+}
+
+/**
+ * Pages in the STORY_PAGES_TEXT response format ({pageNum, pageType, text})
+ */
+export function buildFakePages(input: string): Array<{ pageNum: number; pageType: string; text: string }> {
+  const name = readInputField(input, "Name") || "Alex";
+  const title = readInputField(input, "Story Title") || `${name}'s Story`;
+  const pages: Array<[string, string]> = [
+    ["cover", title],
+    ["normal", `${name} woke up early and looked out of the window.`],
+    ["normal", `Something unexpected was waiting for ${name} in the garden.`],
+    ["good_choice", `${name} decides to stop, take a breath and ask for help.`],
+    ["bad_choice", `${name} decides to run off without telling anyone.`],
+    ["good", `Together they solved the problem, and ${name} felt proud.`],
+    ["good", `That evening ${name} told everyone what had happened.`],
+    ["bad", `${name} got lost and started to feel scared.`],
+    ["bad", `${name} learned that asking for help is the brave thing to do.`],
+  ];
+  return pages.map(([pageType, text], pageNum) => ({ pageNum, pageType, text }));
+}
+
+/**
+ * Branching pages in the graph response format requested by lib/story-graph.ts
+ * Each decision has a good choice leading on and a bad choice leading to its own ending
+ */
+export function buildFakeBranchingPages(input: string, decisionPoints: number): Array<Record<string, unknown>> {
+  const name = readInputField(input, "Name") || "Alex";
+  const title = readInputField(input, "Story Title") || `${name}'s Story`;
+  const pages: Array<Record<string, unknown>> = [
+    { id: "cover", pageType: "cover", text: title, next: "start" },
+    { id: "start", pageType: "normal", text: `${name} woke up early and looked out of the window.`, next: "d1" },
+  ];
+
+  for (let decision = 1; decision <= decisionPoints; decision++) {
+    const goodTarget = decision < decisionPoints ? `d${decision + 1}` : "good-end";
+    pages.push(
+      {
+        id: `d${decision}`,
+        pageType: decision === 1 ? "normal" : "good",
+        text: `Something unexpected happened to ${name} (decision ${decision}).`,
+        choices: [
+          { text: `${name} stops, takes a breath and asks for help.`, kind: "good", next: goodTarget },
+          { text: `${name} runs off without telling anyone.`, kind: "bad", next: `bad-end-${decision}` },
+        ],
+      },
+      { id: `bad-end-${decision}`, pageType: "bad", text: `${name} learned that asking for help is the brave thing to do.`, ending: true }
+    );
+  }
+  pages.push({ id: "good-end", pageType: "good", text: `Together they solved the problem, and ${name} felt proud.`, ending: true });
+
+  return pages;
+}
+
+/**
+ * Characters in the character bible response format requested by lib/character-bible.ts
+ */
+export function buildFakeCharacterBible(input: string): Array<{ name: string; role: string; appearance: string }> {
+  const name = readInputField(input, "Name") || "Alex";
+  const age = readInputField(input, "Age") || "6 years old";
+  return [
+    { name, role: "main character", appearance: `A ${age} child with short curly hair, a yellow raincoat and red boots.` },
+    { name: "Mom", role: "parent", appearance: "A tall woman with long dark hair, glasses and a green sweater." },
+  ];
+}
+
+// Rough token count, about 4 characters per token
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class FakeAIProvider implements AIProvider {
+  readonly name = 'fake' as const;
+
+  async generateText(request: TextGenerationRequest, onUsage?: (usage: AIUsage) => void): Promise<string> {
+    const text = this.buildText(request);
+    // Usage is reported like OpenAI's so the ledger can be exercised offline, the "fake" model costs nothing
+    onUsage?.({ model: 'fake', inputTokens: estimateTokens(request.input), outputTokens: estimateTokens(text), images: 0 });
+    return text;
+  }
+
+  async generateImage(request: ImageGenerationRequest, onUsage?: (usage: AIUsage) => void): Promise<string> {
+    onUsage?.({ model: 'fake', inputTokens: estimateTokens(JSON.stringify(request.input)), outputTokens: 0, images: 1 });
+    return FAKE_PNG_BASE64;
+  }
+
+  private buildText(request: TextGenerationRequest): string {
+    switch (request.prompt.id) {
+      case OPENAI_AGENTS.STORY_TITLES_TEXT:
+        return JSON.stringify({ titles: buildFakeTitles(request.input) });
+      case OPENAI_AGENTS.STORY_PAGES_TEXT: {
+        if (readInputField(request.input, "Character Bible") !== null) {
+          return JSON.stringify({ characters: buildFakeCharacterBible(request.input) });
+        }
+        const rewritePage = readInputField(request.input, "Rewrite Page");
+        if (rewritePage !== null) {
+          const name = readInputField(request.input, "Name") || "Alex";
+          return JSON.stringify({ text: `${name} took a deep breath and tried again (page ${rewritePage}).` });
+        }
+        const decisionPoints = Number(readInputField(request.input, "Decision Points") || 1);
+        return JSON.stringify({
+          pages: decisionPoints > 1 ? buildFakeBranchingPages(request.input, decisionPoints) : buildFakePages(request.input),
+        });
+      }
+      case OPENAI_AGENTS.STORY_IMAGE_PROMPT:
+        return `A warm children's book illustration: ${request.input.slice(0, 200)}`;
+      default:
+        return `Fake response for prompt ${request.prompt.id}`;
+    }
+  }
+
+}
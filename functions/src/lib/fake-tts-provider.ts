@@ -0,0 +1,58 @@
+/**
+ * Fake TTS Provider
+ * Deterministic offline stand-in for the speech API, selected with TTS_PROVIDER=fake
+ *
+ * Every page is narrated as a silent 8 kHz mono WAV whose length follows the text,
+ * so the reader's play and auto-advance controls behave like they do with real audio.
+ */
+
+import type { TTSProvider, TTSRequest, TTSResult } from "./tts-provider";
+
+const SAMPLE_RATE = 8000;
+
+// About 15 characters a second, a slow reading pace, and at least one second per page
+const CHARACTERS_PER_SECOND = 15;
+const MIN_DURATION_MS = 1000;
+
+/**
+ * Length of the fake narration of a text, in milliseconds
+ */
+export function estimateNarrationMs(text: string): number {
+  return Math.max(MIN_DURATION_MS, Math.round((text.length / CHARACTERS_PER_SECOND) * 1000));
+}
+
+/**
+ * Build a silent 16-bit PCM WAV file
+ */
+export function createSilentWav(durationMs: number): Buffer {
+  const dataSize = Math.round((SAMPLE_RATE * durationMs) / 1000) * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write("RIFF", 0, "ascii");
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write("WAVE", 8, "ascii");
+  buffer.write("fmt ", 12, "ascii");
+  buffer.writeUInt32LE(16, 16); // fmt chunk size
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28); // byte rate
+  buffer.writeUInt16LE(2, 32); // block align
+  buffer.writeUInt16LE(16, 34); // bits per sample
+  buffer.write("data", 36, "ascii");
+  buffer.writeUInt32LE(dataSize, 40);
+
+  return buffer;
+}
+
+export class FakeTTSProvider implements TTSProvider {
+  readonly name = 'fake' as const;
+
+  async synthesize(request: TTSRequest): Promise<TTSResult> {
+    return {
+      audio: createSilentWav(estimateNarrationMs(request.text)),
+      contentType: "audio/wav",
+      extension: "wav",
+    };
+  }
+}
@@ -43,6 +43,30 @@ export class FirestoreHelper {
     return `stories_gen_${this.environment}`;
   }
 
+  /**
+   * Get the environment-specific collection name for rate limit counters
+   * Collection structure: rate_limits_{environment}/{key}
+   */
+  getRateLimitsCollection(): string {
+    return `rate_limits_${this.environment}`;
+  }
+
+  /**
+   * Get the environment-specific collection name for the AI usage ledger
+   * Collection structure: ai_usage_{environment}/{entryId}
+   */
+  getAIUsageCollection(): string {
+    return `ai_usage_${this.environment}`;
+  }
+
+  /**
+   * Get the environment-specific collection name for credit balances
+   * Collection structure: credits_{environment}/{accountId}/ledger/{entryId}
+   */
+  getCreditsCollection(): string {
+    return `credits_${this.environment}`;
+  }
+
   /**
    * Get a reference to an account document
    * @param accountId The account ID
@@ -67,6 +91,32 @@ export class FirestoreHelper {
     return this.db.collection(this.getStoriesCollection()).doc(storyId);
   }
 
+  /**
+   * Get a reference to a rate limit counter document
+   * @param key The counter key, see lib/rate-limit.ts
+   */
+  getRateLimitRef(key: string): admin.firestore.DocumentReference {
+    return this.db.collection(this.getRateLimitsCollection()).doc(key);
+  }
+
+  /**
+   * Get a reference to the credit balance document of an account
+   * @param accountId The account ID
+   */
+  getCreditBalanceRef(accountId: string): admin.firestore.DocumentReference {
+    return this.db.collection(this.getCreditsCollection()).doc(accountId);
+  }
+
+  /**
+   * Get a reference to a credit ledger entry, a new entry ID when none is given
+   * @param accountId The account ID
+   * @param entryId The entry ID, see lib/credits.ts
+   */
+  getCreditLedgerEntryRef(accountId: string, entryId?: string): admin.firestore.DocumentReference {
+    const ledger = this.getCreditBalanceRef(accountId).collection('ledger');
+    return entryId ? ledger.doc(entryId) : ledger.doc();
+  }
+
   /**
    * Get a kid document by ID
    * @param kidId The kid ID
@@ -76,6 +126,21 @@ export class FirestoreHelper {
     return this.getKidRef(kidId).get();
   }
 
+  /**
+   * Get the permission a kid is shared with an email, null when it is not shared
+   * Shares are stored in users_{env}/{kidId}/sharedWith/{email with '.' replaced by '_'}
+   * @param kidId The kid ID
+   * @param email The email the kid may be shared with
+   */
+  async getKidSharePermission(kidId: string, email: string): Promise<'read' | 'write' | null> {
+    const normalizedEmail = email.toLowerCase().replace(/\./g, '_');
+    const shareDoc = await this.getKidRef(kidId).collection('sharedWith').doc(normalizedEmail).get();
+    if (!shareDoc.exists) {
+      return null;
+    }
+    return shareDoc.data()?.permission === 'write' ? 'write' : 'read';
+  }
+
   /**
    * Get all kids for an account
    * @param accountId The account ID
@@ -99,35 +164,6 @@ export class FirestoreHelper {
     });
   }
 
-  /**
-   * Increment the stories_created counter for a kid
-   * This tracks the total number of stories created, even if some are deleted
-   * @param kidId The kid ID
-   * @returns The updated stories_created count
-   */
-  async incrementStoriesCreated(kidId: string): Promise<number> {
-    const kidRef = this.getKidRef(kidId);
-    const kidDoc = await kidRef.get();
-    
-    if (!kidDoc.exists) {
-      throw new Error(`Kid with ID ${kidId} doesn't exist.`);
-    }
-    
-    const existingData = kidDoc.data() || {};
-    const currentCount = existingData.stories_created || 0;
-    const newCount = currentCount + 1;
-    
-    // Update with the new count
-    await kidRef.update({
-      stories_created: newCount,
-      lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
-    });
-    
-    console.log(`Incremented stories_created for kid ${kidId}: ${currentCount} -> ${newCount}`);
-    
-    return newCount;
-  }
-
   /**
    * Get a story document by ID
    * @param storyId The story ID
@@ -166,6 +202,16 @@ export class FirestoreHelper {
     }
   }
 
+  /**
+   * Add an entry to the AI usage ledger
+   * @param data The entry, see lib/ai-usage.ts
+   * @returns The entry ID
+   */
+  async addAIUsageEntry(data: Record<string, unknown>): Promise<string> {
+    const docRef = await this.db.collection(this.getAIUsageCollection()).add(data);
+    return docRef.id;
+  }
+
   /**
    * Get stories for a kid
    * @param kidId The kid ID
@@ -0,0 +1,31 @@
+/**
+ * Kid Access
+ * Which accounts may create and edit stories for a kid in the callables
+ * Mirrors authorizeKidAccess in the web app (src/app/utils/api-helpers.ts): the account that owns
+ * the kid and accounts the kid is shared with for writing.
+ */
+
+import { FirestoreHelper } from "./firestore-helper";
+
+/**
+ * Whether an account owns the kid or has it shared with write permission
+ * @param email The caller's email, kids are shared by email
+ */
+export async function canWriteKid(
+  dbHelper: FirestoreHelper,
+  kidId: string | undefined,
+  uid: string,
+  email: string | undefined
+): Promise<boolean> {
+  if (!kidId) {
+    return false;
+  }
+  const kidDoc = await dbHelper.getKid(kidId);
+  if (!kidDoc.exists) {
+    return false;
+  }
+  if (kidDoc.data()?.accountId === uid) {
+    return true;
+  }
+  return !!email && (await dbHelper.getKidSharePermission(kidId, email)) === 'write';
+}
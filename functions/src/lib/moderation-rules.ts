@@ -0,0 +1,68 @@
+/**
+ * Moderation Rules
+ * Local rule-based checker, selected with MODERATION_PROVIDER=rules
+ *
+ * INPUT_RULES catch clearly unsafe parent input and work offline, so the functions emulator
+ * and jest can exercise moderation without an API key. CHILD_SAFETY_RULES are the stricter
+ * rules every generated page is held to, whatever moderation backend is active.
+ * Hebrew words are matched with hebrewWords, \b in JavaScript regexes only sees ASCII letters.
+ */
+
+import type { ModerationCategory, ModerationProvider, ModerationResult } from "./moderation";
+
+export interface ModerationRule {
+  category: ModerationCategory;
+  pattern: RegExp;
+}
+
+const HEBREW_LETTER = '[\\u0590-\\u05FF]';
+
+// Appended to a stem so it matches with any suffix
+const HEBREW_SUFFIX = `${HEBREW_LETTER}*`;
+
+/**
+ * Match whole Hebrew words, allowing up to two attached prefixes (ו, ה, ב, ל, מ, ש, כ)
+ */
+function hebrewWords(...words: string[]): RegExp {
+  return new RegExp(`(?<!${HEBREW_LETTER})[והבלמשכ]{0,2}(${words.join('|')})(?!${HEBREW_LETTER})`);
+}
+
+export const INPUT_RULES: ModerationRule[] = [
+  {
+    category: 'self_harm',
+    pattern: /\b(suicid\w*|self[- ]?harm\w*|kill(ing)? (my|him|her|them)sel(f|ves)|hurt(ing)? (my|him|her|them)sel(f|ves) on purpose|cut(ting)? (my|him|her|them)sel(f|ves)|want(s|ed)? to die|end (my|his|her|their) life)\b/i,
+  },
+  { category: 'self_harm', pattern: hebrewWords(`התאבד${HEBREW_SUFFIX}`, `לפגוע בעצמ${HEBREW_SUFFIX}`, 'רוצה למות', 'רוצים למות', `לשים קץ לחי${HEBREW_SUFFIX}`) },
+  { category: 'sexual', pattern: /\b(sex|sexual\w*|porn\w*|erotic\w*|molest\w*)\b/i },
+  { category: 'sexual', pattern: hebrewWords(`פורנו${HEBREW_SUFFIX}`, 'הטרדה מינית', `התעלל${HEBREW_SUFFIX} מינית`) },
+  { category: 'violence', pattern: /\b(murder\w*|behead\w*|tortur\w*|rap(e|ed|ing)|massacre\w*|stab(bed|bing)? (him|her|them)|shoot(ing)? (him|her|them))\b/i },
+  { category: 'violence', pattern: hebrewWords('לרצוח', 'רצח', 'עינויים', 'אונס') },
+];
+
+export const CHILD_SAFETY_RULES: ModerationRule[] = [
+  ...INPUT_RULES,
+  { category: 'violence', pattern: /\b(guns?|rifles?|pistols?|bombs?|blood(y)?|gore|corpses?|dead bod(y|ies)|kill(s|ed|ing)?)\b/i },
+  { category: 'violence', pattern: hebrewWords('אקדח', 'אקדחים', 'פצצה', 'פצצות', 'דם', 'גופה', 'גופות', 'להרוג', 'הרג', 'הרגו') },
+  { category: 'illicit', pattern: /\b(cigarettes?|vodka|whiskey|drunk|cocaine|heroin|marijuana)\b/i },
+  { category: 'illicit', pattern: hebrewWords(`סיגרי${HEBREW_SUFFIX}`, 'וודקה', 'שיכור', 'שיכורה', 'סמים') },
+  { category: 'profanity', pattern: /\b(fuck\w*|shit\w*|bitch\w*|bastard\w*|damn(ed)?)\b/i },
+];
+
+/**
+ * Categories of every rule the text matches, without duplicates
+ */
+export function checkRules(text: string, rules: ModerationRule[]): ModerationCategory[] {
+  const categories = rules
+    .filter(rule => rule.pattern.test(text))
+    .map(rule => rule.category);
+  return Array.from(new Set(categories));
+}
+
+export class RuleModerationProvider implements ModerationProvider {
+  readonly name = 'rules' as const;
+
+  async moderate(text: string): Promise<ModerationResult> {
+    const categories = checkRules(text, INPUT_RULES);
+    return { flagged: categories.length > 0, categories };
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Content Moderation
+ * Screens the parent's free text before it reaches the story agents, and the generated
+ * page text before it is saved
+ *
+ * The backend is selected with the MODERATION_PROVIDER environment variable:
+ * - "openai": OpenAI moderation endpoint, requires OPENAI_API_KEY
+ * - "rules": local rule-based checker, see lib/moderation-rules.ts
+ * Without the variable it follows AI_PROVIDER: "rules" with the fake provider, "openai" otherwise.
+ *
+ * Flagged input is rejected with HttpsError "invalid-argument" and
+ * {code: "content-flagged", reason, categories, fields} as details, which FunctionClientAPI
+ * turns into a ContentFlaggedError so the UI can explain it in the parent's language.
+ * Generated pages are always held to CHILD_SAFETY_RULES on top of the provider.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { getAIProviderName } from "./ai-provider";
+import { OpenAIModerationProvider } from "./openai-moderation-provider";
+import { checkRules, CHILD_SAFETY_RULES, RuleModerationProvider } from "./moderation-rules";
+
+export const CONTENT_FLAGGED = 'content-flagged';
+
+// Generated text that fails the child-safety review is regenerated this many times before giving up
+export const MAX_MODERATION_REGENERATIONS = 2;
+
+export type ModerationCategory = 'self_harm' | 'sexual' | 'violence' | 'hate' | 'harassment' | 'illicit' | 'profanity';
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: ModerationCategory[];
+}
+
+export interface ModerationProvider {
+  readonly name: ModerationProviderName;
+  moderate(text: string): Promise<ModerationResult>;
+}
+
+export const MODERATION_PROVIDER_NAMES = ['openai', 'rules'] as const;
+
+export type ModerationProviderName = typeof MODERATION_PROVIDER_NAMES[number];
+
+/**
+ * Self-harm gets its own explanation (with a pointer to get help), everything else is "unsafe"
+ */
+export type ContentFlaggedReason = 'self_harm' | 'unsafe';
+
+export interface ContentFlaggedDetails {
+  reason: ContentFlaggedReason;
+  categories: ModerationCategory[];
+  fields: string[];
+}
+
+export interface PageModerationIssue {
+  pageNum: number;
+  categories: ModerationCategory[];
+}
+
+let providerOverride: ModerationProvider | null = null;
+
+/**
+ * Get the provider name from MODERATION_PROVIDER, defaulting by AI_PROVIDER
+ */
+export function getModerationProviderName(): ModerationProviderName {
+  const value = (process.env.MODERATION_PROVIDER || '').trim().toLowerCase();
+  if (!value) {
+    return getAIProviderName() === 'fake' ? 'rules' : 'openai';
+  }
+  if (!(MODERATION_PROVIDER_NAMES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown MODERATION_PROVIDER "${value}". Expected one of: ${MODERATION_PROVIDER_NAMES.join(', ')}`);
+  }
+  return value as ModerationProviderName;
+}
+
+/**
+ * Get the active moderation provider
+ * Resolved on every call so tests can switch MODERATION_PROVIDER between cases
+ */
+export function getModerationProvider(): ModerationProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+  return getModerationProviderName() === 'rules' ? new RuleModerationProvider() : new OpenAIModerationProvider();
+}
+
+/**
+ * Replace the active provider (tests only). Pass null to go back to MODERATION_PROVIDER.
+ */
+export function setModerationProviderForTesting(provider: ModerationProvider | null): void {
+  providerOverride = provider;
+}
+
+/**
+ * Moderate text with the active provider
+ * When the provider is unavailable the local rules are used, so an outage never lets text through unchecked
+ */
+export async function moderateText(text: string): Promise<ModerationResult> {
+  const provider = getModerationProvider();
+  try {
+    return await provider.moderate(text);
+  } catch (error) {
+    functions.logger.warn(`Moderation provider "${provider.name}" failed, falling back to the local rules:`, error);
+    return new RuleModerationProvider().moderate(text);
+  }
+}
+
+/**
+ * Throw a content-flagged error when any of the parent's free text fields is unsafe
+ * Empty fields are skipped
+ */
+export async function moderateStoryInput(fields: Record<string, string | null | undefined>): Promise<void> {
+  const flaggedFields: string[] = [];
+  const categories = new Set<ModerationCategory>();
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (!value || !value.trim()) {
+      continue;
+    }
+    const result = await moderateText(value);
+    if (result.flagged) {
+      flaggedFields.push(field);
+      result.categories.forEach(category => categories.add(category));
+    }
+  }
+
+  if (flaggedFields.length === 0) {
+    return;
+  }
+
+  const details: ContentFlaggedDetails = {
+    reason: categories.has('self_harm') ? 'self_harm' : 'unsafe',
+    categories: Array.from(categories),
+    fields: flaggedFields,
+  };
+  functions.logger.warn("Story input flagged by moderation", details);
+  throw new functions.https.HttpsError(
+    "invalid-argument",
+    details.reason === 'self_harm'
+      ? "The story request mentions self-harm and cannot be turned into a story"
+      : "The story request contains content that is not suitable for a children's story",
+    { code: CONTENT_FLAGGED, ...details }
+  );
+}
+
+/**
+ * Check generated page text against the child-safety rules and the active provider
+ * @returns The pages that break the rules, empty when the story is safe
+ */
+export async function reviewStoryPages(pages: Array<{ pageNum: number; storyText: string }>): Promise<PageModerationIssue[]> {
+  const issues: PageModerationIssue[] = [];
+
+  for (const page of pages) {
+    if (!page.storyText || !page.storyText.trim()) {
+      continue;
+    }
+    const result = await moderateText(page.storyText);
+    const categories = Array.from(new Set([...result.categories, ...checkRules(page.storyText, CHILD_SAFETY_RULES)]));
+    if (result.flagged || categories.length > 0) {
+      issues.push({ pageNum: page.pageNum, categories });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Build the note added to the pages agent input when a story is regenerated after a failed review
+ */
+export function buildSafetyFeedback(issues: PageModerationIssue[]): string {
+  const problems = issues
+    .map(issue => `page ${issue.pageNum} (${issue.categories.join(', ') || 'unsafe'})`)
+    .join('; ');
+  return `The previous version broke the child-safety rules on ${problems}. Keep every page free of violence, weapons, blood, self-harm, romance, alcohol, drugs and bad language.`;
+}
@@ -0,0 +1,113 @@
+/**
+ * Story Narration
+ * Synthesizes audio for story pages with the active TTS provider and stores it next to the page images
+ *
+ * Used by generateStoryNarration. A page keeps its audioUrl only while its text is the text
+ * that was narrated, so narration that raced a page regeneration is dropped instead of saved.
+ * Each clip is aligned to the page text, the word timings drive the reader's read-along highlighting.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { saveAudioToStorage } from "./utils";
+import { mapWithConcurrency } from "./concurrency";
+import { getTTSProvider, NarrationLanguage } from "./tts-provider";
+import { alignWords, WordTiming } from "./word-alignment";
+
+// Pages narrated at the same time
+const NARRATION_CONCURRENCY = 3;
+
+// Audio a parent can upload for a page, by content type, with the file extension it is stored under
+export const UPLOADED_AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/ogg': 'ogg',
+};
+
+// Callable payloads are capped at 10 MB, base64 adds a third on top of the audio
+export const MAX_UPLOADED_AUDIO_BYTES = 5 * 1024 * 1024;
+
+export interface NarrationPage {
+  storyText?: string;
+  audioUrl?: string | null;
+  wordTimings?: WordTiming[] | null;
+}
+
+export interface NarrationResult {
+  pageNum: number;
+  success: boolean;
+  // The text that was narrated
+  storyText: string;
+  audioUrl?: string;
+  // Null when the alignment failed, the page is narrated without highlighting
+  wordTimings?: WordTiming[] | null;
+  error?: string;
+}
+
+export interface NarrateStoryPagesParams {
+  pages: NarrationPage[];
+  pageNums: number[];
+  language: NarrationLanguage;
+  accountId: string;
+  userId: string;
+  storyId: string;
+}
+
+/**
+ * Hebrew when any of the texts has Hebrew characters, English otherwise
+ */
+export function detectNarrationLanguage(texts: Array<string | undefined>): NarrationLanguage {
+  return texts.some(text => /[\u0590-\u05FF]/.test(text || '')) ? 'he' : 'en';
+}
+
+/**
+ * Pages to narrate: the requested pages, or every page with text that has no audio yet
+ * Pages without text are never narrated
+ */
+export function selectPagesToNarrate(pages: NarrationPage[], pageNums?: number[], force = false): number[] {
+  const candidates = Array.isArray(pageNums) ? pageNums : pages.map((_, index) => index);
+  return Array.from(new Set(candidates))
+    .filter(pageNum => Number.isInteger(pageNum) && pageNum >= 0 && pageNum < pages.length)
+    .filter(pageNum => (pages[pageNum].storyText || '').trim() !== '')
+    .filter(pageNum => force || Array.isArray(pageNums) || !pages[pageNum].audioUrl)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Narrate the pages and upload the audio
+ * A failing page does not stop the others, it is reported with success false
+ */
+export async function narrateStoryPages(params: NarrateStoryPagesParams): Promise<NarrationResult[]> {
+  const { pages, pageNums, language, accountId, userId, storyId } = params;
+  const provider = getTTSProvider();
+
+  return mapWithConcurrency(pageNums, NARRATION_CONCURRENCY, async (pageNum): Promise<NarrationResult> => {
+    const storyText = pages[pageNum].storyText || '';
+    try {
+      const { audio, contentType, extension } = await provider.synthesize({ text: storyText, language });
+      const audioUrl = await saveAudioToStorage(audio, accountId, userId, storyId, pageNum, contentType, extension);
+      const wordTimings = await alignWords({ audio, contentType, text: storyText, language });
+      functions.logger.info(`Narrated page ${pageNum}`, { storyId, language, bytes: audio.length, aligned: wordTimings !== null });
+      return { pageNum, success: true, storyText, audioUrl, wordTimings };
+    } catch (error) {
+      functions.logger.error(`Failed to narrate page ${pageNum}:`, error);
+      return { pageNum, success: false, storyText, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  });
+}
+
+/**
+ * Set audioUrl and wordTimings on the pages that were narrated and still have the narrated text
+ */
+export function applyNarration<T extends NarrationPage>(pages: T[], results: NarrationResult[]): T[] {
+  return pages.map((page, index) => {
+    const result = results.find(r => r.pageNum === index && r.success);
+    if (!result || (page.storyText || '') !== result.storyText) {
+      return page;
+    }
+    return { ...page, audioUrl: result.audioUrl, wordTimings: result.wordTimings ?? null };
+  });
+}
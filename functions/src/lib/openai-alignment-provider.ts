@@ -0,0 +1,65 @@
+/**
+ * OpenAI Alignment Provider
+ * Transcribes the narration with word timestamps and matches the words back to the page text
+ */
+
+import type { NarrationLanguage } from "./tts-provider";
+import { AlignmentProvider, AlignmentRequest, matchTranscriptWords, WordTiming } from "./word-alignment";
+
+const OPENAI_TRANSCRIPTIONS_URL = "https://api.openai.com/v1/audio/transcriptions";
+const TRANSCRIPTION_MODEL = "whisper-1";
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/webm": "webm",
+  "audio/mp4": "m4a",
+  "audio/ogg": "ogg",
+};
+
+// ISO-639-1 codes expected by the transcription API
+const LANGUAGE_CODES: Record<NarrationLanguage, string> = {
+  en: "en",
+  he: "he",
+};
+
+export class OpenAIAlignmentProvider implements AlignmentProvider {
+  readonly name = 'openai' as const;
+
+  async align(request: AlignmentRequest): Promise<WordTiming[]> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not set");
+    }
+
+    const form = new FormData();
+    const extension = FILE_EXTENSIONS[request.contentType] || "mp3";
+    form.append("file", new Blob([request.audio], { type: request.contentType }), `narration.${extension}`);
+    form.append("model", TRANSCRIPTION_MODEL);
+    form.append("language", LANGUAGE_CODES[request.language]);
+    form.append("response_format", "verbose_json");
+    form.append("timestamp_granularities[]", "word");
+
+    const response = await fetch(OPENAI_TRANSCRIPTIONS_URL, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const errorData: any = await response.json().catch(() => ({}));
+      throw new Error(
+        `OpenAI transcription error: ${response.status} - ${errorData.error?.message || response.statusText}`
+      );
+    }
+
+    const data: any = await response.json();
+    const words = Array.isArray(data.words) ? data.words : [];
+    if (words.length === 0) {
+      throw new Error("Transcription returned no word timestamps");
+    }
+
+    const duration = typeof data.duration === "number" ? data.duration : words[words.length - 1].end;
+    return matchTranscriptWords(request.text, words, duration);
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * OpenAI Moderation Provider
+ * Calls the OpenAI moderation endpoint and maps its categories to ModerationCategory
+ */
+
+import type { ModerationCategory, ModerationProvider, ModerationResult } from "./moderation";
+
+const OPENAI_MODERATIONS_URL = "https://api.openai.com/v1/moderations";
+const MODERATION_MODEL = "omni-moderation-latest";
+
+// OpenAI categories are matched by prefix, e.g. "self-harm/intent" and "violence/graphic"
+const CATEGORY_PREFIXES: Array<[string, ModerationCategory]> = [
+  ['self-harm', 'self_harm'],
+  ['sexual', 'sexual'],
+  ['violence', 'violence'],
+  ['hate', 'hate'],
+  ['harassment', 'harassment'],
+  ['illicit', 'illicit'],
+];
+
+export class OpenAIModerationProvider implements ModerationProvider {
+  readonly name = 'openai' as const;
+
+  async moderate(text: string): Promise<ModerationResult> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not set");
+    }
+
+    const response = await fetch(OPENAI_MODERATIONS_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ model: MODERATION_MODEL, input: text }),
+    });
+
+    if (!response.ok) {
+      const errorData: any = await response.json().catch(() => ({}));
+      throw new Error(
+        `OpenAI moderation error: ${response.status} - ${errorData.error?.message || response.statusText}`
+      );
+    }
+
+    const data: any = await response.json();
+    const result = Array.isArray(data.results) ? data.results[0] : null;
+    const flaggedCategories = Object.entries(result?.categories || {})
+      .filter(([, flagged]) => flagged === true)
+      .map(([name]) => CATEGORY_PREFIXES.find(([prefix]) => name.startsWith(prefix))?.[1])
+      .filter((category): category is ModerationCategory => !!category);
+
+    const categories = Array.from(new Set(flaggedCategories));
+    return { flagged: result?.flagged === true || categories.length > 0, categories };
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * OpenAI Provider
+ * Calls the OpenAI Responses API with the prompt IDs from OPENAI_AGENTS
+ */
+
+import type { TextGenerationRequest } from "../text-generation";
+import type { ImageGenerationRequest } from "../image-generation";
+import type { AIProvider } from "./ai-provider";
+import type { AIUsage } from "./ai-usage";
+
+const OPENAI_RESPONSES_URL = "https://api.openai.com/v1/responses";
+
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai' as const;
+
+  async generateText(request: TextGenerationRequest, onUsage?: (usage: AIUsage) => void): Promise<string> {
+    const data = await this.createResponse({
+      prompt: {
+        id: request.prompt.id,
+        variables: request.prompt.variables,
+      },
+      input: request.input,
+    });
+    onUsage?.(this.readUsage(data, []));
+
+    // Log the response structure for debugging
+    console.log("OpenAI API response structure:", JSON.stringify(data, null, 2));
+
+    // Extract text from response: output[0].content[0].text
+    if (
+      data.output &&
+      Array.isArray(data.output) &&
+      data.output.length > 0 &&
+      data.output[0] &&
+      data.output[0].content &&
+      Array.isArray(data.output[0].content) &&
+      data.output[0].content.length > 0 &&
+      data.output[0].content[0] &&
+      data.output[0].content[0].text &&
+      typeof data.output[0].content[0].text === 'string' &&
+      data.output[0].content[0].text.trim().length > 0
+    ) {
+      return data.output[0].content[0].text;
+    }
+
+    // Provide detailed error information
+    throw new Error(`No valid text content found in response. Response structure: ${JSON.stringify(data, null, 2)}`);
+  }
+
+  async generateImage(request: ImageGenerationRequest, onUsage?: (usage: AIUsage) => void): Promise<string> {
+    const requestBody: any = {
+      prompt: {
+        id: request.prompt.id,
+      },
+      input: request.input,
+    };
+
+    // Add variables if provided
+    if (request.prompt.variables) {
+      requestBody.prompt.variables = request.prompt.variables;
+    }
+
+    const data = await this.createResponse(requestBody);
+
+    // Extract base64 from response: find image_generation_call in output array
+    const imageGenerationCalls = Array.isArray(data.output)
+      ? data.output.filter((item: any) => item.type === "image_generation_call" && item.result)
+      : [];
+    onUsage?.(this.readUsage(data, imageGenerationCalls));
+
+    if (imageGenerationCalls.length > 0) {
+      return imageGenerationCalls[0].result;
+    }
+
+    throw new Error("No image result found in response");
+  }
+
+  /**
+   * Read the usage block of a Responses API response
+   * The image generation tool is billed per image on top of the tokens of the model
+   */
+  private readUsage(data: any, imageGenerationCalls: any[]): AIUsage {
+    return {
+      model: typeof data.model === 'string' ? data.model : 'unknown',
+      inputTokens: data.usage?.input_tokens || 0,
+      outputTokens: data.usage?.output_tokens || 0,
+      images: imageGenerationCalls.length,
+      imageQuality: imageGenerationCalls[0]?.quality,
+    };
+  }
+
+  /**
+   * POST a request body to the Responses API and return the parsed JSON
+   */
+  private async createResponse(body: unknown): Promise<any> {
+    // Get API key from environment variables
+    const apiKey = process.env.OPENAI_API_KEY;
+
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not set");
+    }
+
+    const response = await fetch(OPENAI_RESPONSES_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorData: any = await response.json().catch(() => ({}));
+      throw new Error(
+        `OpenAI API error: ${response.status} - ${errorData.error?.message || response.statusText}`
+      );
+    }
+
+    return response.json();
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * OpenAI TTS Provider
+ * Narrates page text with the OpenAI speech API as MP3
+ */
+
+import type { NarrationLanguage, TTSProvider, TTSRequest, TTSResult } from "./tts-provider";
+
+const OPENAI_SPEECH_URL = "https://api.openai.com/v1/audio/speech";
+const TTS_MODEL = "gpt-4o-mini-tts";
+const TTS_VOICE = "coral";
+
+const LANGUAGE_NAMES: Record<NarrationLanguage, string> = {
+  en: "English",
+  he: "Hebrew",
+};
+
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = 'openai' as const;
+
+  async synthesize(request: TTSRequest): Promise<TTSResult> {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not set");
+    }
+
+    const response = await fetch(OPENAI_SPEECH_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model: TTS_MODEL,
+        voice: TTS_VOICE,
+        input: request.text,
+        instructions: `Read this children's story page aloud in ${LANGUAGE_NAMES[request.language]}, warmly and slowly, like a bedtime story.`,
+        response_format: "mp3",
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData: any = await response.json().catch(() => ({}));
+      throw new Error(
+        `OpenAI speech error: ${response.status} - ${errorData.error?.message || response.statusText}`
+      );
+    }
+
+    return {
+      audio: Buffer.from(await response.arrayBuffer()),
+      contentType: "audio/mpeg",
+      extension: "mp3",
+    };
+  }
+}
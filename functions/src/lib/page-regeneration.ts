@@ -0,0 +1,108 @@
+/**
+ * Page Regeneration
+ * Rewrites the text of a single story page with the rest of the story as context,
+ * then refreshes the image prompt for the new text
+ *
+ * Nothing is saved here - /api/story/regenerate-page stores the result together with
+ * the previous text as a page revision, using updateStoryWithTransaction.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { generateText } from "../text-generation";
+import { OPENAI_AGENTS } from "../open-ai-agents";
+import { generateValidatedText, StoryPageTextResponseSchema } from "./story-schemas";
+import { characterBibleVariables, StoryCharacter } from "./character-bible";
+import { buildSafetyFeedback, MAX_MODERATION_REGENERATIONS, reviewStoryPages } from "./moderation";
+import type { KidProfile } from "./story-pipeline";
+
+// Parent instructions are free text, keep them to a reasonable prompt size
+export const MAX_INSTRUCTION_LENGTH = 500;
+
+export interface RegeneratePageParams {
+  title: string;
+  pages: Array<{ pageType?: string; storyText?: string }>;
+  pageNum: number;
+  kid: KidProfile;
+  instruction?: string;
+  characterBible?: StoryCharacter[];
+  // Why the previous text failed the child-safety review, when rewriting again
+  safetyFeedback?: string;
+}
+
+export interface RegeneratedPage {
+  pageNum: number;
+  storyText: string;
+  imagePrompt: string;
+}
+
+/**
+ * Build the pages agent input for rewriting one page
+ * Every page is listed so the new text stays consistent with what comes before and after it
+ */
+export function buildPageRegenerationInput(params: RegeneratePageParams): string {
+  const { title, pages, pageNum, kid, instruction, safetyFeedback } = params;
+  const storyPages = pages
+    .map((page, index) => `[${index}] (${page.pageType || 'normal'})${index === pageNum ? ' <- rewrite this page' : ''}: ${page.storyText || ''}`)
+    .join('\n');
+
+  return `Name: ${kid.name}
+Story Title: ${title}
+Target Age: ${kid.age} years old
+Rewrite Page: ${pageNum}${instruction ? `\nInstruction: ${instruction}` : ''}${safetyFeedback ? `\nSafety Feedback: ${safetyFeedback}` : ''}
+Story Pages:
+${storyPages}
+Rewrite only page ${pageNum}, keeping the characters, events and tone consistent with the other pages.
+Return JSON only, in this format: {"text": "new page text"}`;
+}
+
+/**
+ * Generate new text and a matching image prompt for one page
+ * Text that fails the child-safety review is rewritten again, and never returned
+ */
+export async function regeneratePageText(params: RegeneratePageParams): Promise<RegeneratedPage> {
+  const { pages, pageNum, kid } = params;
+
+  if (!Number.isInteger(pageNum) || pageNum < 0 || pageNum >= pages.length) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      `pageNum must be between 0 and ${pages.length - 1}`
+    );
+  }
+
+  const generatePageText = async (safetyFeedback?: string) => (await generateValidatedText(
+    { prompt: { id: OPENAI_AGENTS.STORY_PAGES_TEXT }, input: buildPageRegenerationInput({ ...params, safetyFeedback }) },
+    StoryPageTextResponseSchema,
+    "page text"
+  )).data;
+
+  let storyText = await generatePageText();
+  let issues = await reviewStoryPages([{ pageNum, storyText }]);
+  for (let attempt = 1; issues.length > 0 && attempt <= MAX_MODERATION_REGENERATIONS; attempt++) {
+    functions.logger.warn(`Regenerated page ${pageNum} failed moderation, rewriting (${attempt}/${MAX_MODERATION_REGENERATIONS})`, { issues });
+    storyText = await generatePageText(buildSafetyFeedback(issues));
+    issues = await reviewStoryPages([{ pageNum, storyText }]);
+  }
+  if (issues.length > 0) {
+    throw new functions.https.HttpsError(
+      "internal",
+      `Regenerated text for page ${pageNum} did not pass the safety review`
+    );
+  }
+
+  const imagePrompt = await generateText({
+    prompt: {
+      id: OPENAI_AGENTS.STORY_IMAGE_PROMPT,
+      variables: {
+        page_text: storyText,
+        gender: kid.gender,
+        age: kid.age,
+        ...characterBibleVariables(params.characterBible || []),
+      },
+    },
+    input: storyText,
+  });
+
+  functions.logger.info(`Regenerated text for page ${pageNum}`, { length: storyText.length });
+
+  return { pageNum, storyText, imagePrompt };
+}
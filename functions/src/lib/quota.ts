@@ -0,0 +1,82 @@
+/**
+ * Account Quotas
+ * Server-side checks of Account.kids_limit and Account.story_per_kid_limit for the callables
+ *
+ * The checks come from src/constants/quota.ts in the web app, copied by `npm run sync:constants`.
+ * Errors are HttpsError "resource-exhausted" with {code: "quota-exceeded", quota, limit, used}
+ * as details, which FunctionClientAPI turns into a QuotaExceededError for the UI. A missing limit means the account is unlimited.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { admin } from "./utils";
+import { FirestoreHelper } from "./firestore-helper";
+import { checkStoryQuota, QUOTA_EXCEEDED, QuotaExceededDetails } from "../constants/quota";
+
+export { QUOTA_EXCEEDED, checkStoryQuota } from "../constants/quota";
+export type { QuotaType, QuotaExceededDetails } from "../constants/quota";
+
+/**
+ * Build the HttpsError returned for a request over the quota
+ */
+export function quotaExceededError(details: QuotaExceededDetails): functions.https.HttpsError {
+  const message = details.quota === 'kids'
+    ? `Kids limit reached (${details.limit})`
+    : `Story limit for this kid reached (${details.limit})`;
+  return new functions.https.HttpsError("resource-exhausted", message, { code: QUOTA_EXCEEDED, ...details });
+}
+
+/**
+ * Count a new story against the kid's limit, or throw a quota-exceeded error when no more
+ * stories can be created for the kid
+ * The check and the increment of stories_created run in one transaction, so parallel requests
+ * cannot both pass the check. The limit of the account that owns the kid applies, whoever makes the request.
+ * Call releaseStoryQuota when the story is then not created
+ */
+export async function reserveStoryQuota(dbHelper: FirestoreHelper, accountId: string, kidId: string): Promise<void> {
+  const kidRef = dbHelper.getKidRef(kidId);
+
+  const exceeded = await dbHelper.getDb().runTransaction(async (transaction) => {
+    const kidDoc = await transaction.get(kidRef);
+    if (!kidDoc.exists) {
+      throw new functions.https.HttpsError("not-found", `Kid not found with ID: ${kidId}`);
+    }
+    const kidData = kidDoc.data() || {};
+    const accountDoc = await transaction.get(dbHelper.getAccountRef(kidData.accountId || accountId));
+
+    const quotaExceeded = checkStoryQuota(accountDoc.exists ? accountDoc.data() : null, kidData);
+    if (quotaExceeded) {
+      return quotaExceeded;
+    }
+    transaction.update(kidRef, {
+      stories_created: (kidData.stories_created || 0) + 1,
+      lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return null;
+  });
+
+  if (exceeded) {
+    functions.logger.warn("Story quota exceeded", { accountId, kidId, ...exceeded });
+    throw quotaExceededError(exceeded);
+  }
+}
+
+/**
+ * Give back a story counted by reserveStoryQuota, logging instead of throwing so the original
+ * error reaches the caller
+ */
+export async function releaseStoryQuota(dbHelper: FirestoreHelper, kidId: string): Promise<void> {
+  const kidRef = dbHelper.getKidRef(kidId);
+  try {
+    await dbHelper.getDb().runTransaction(async (transaction) => {
+      const storiesCreated = (await transaction.get(kidRef)).data()?.stories_created || 0;
+      if (storiesCreated > 0) {
+        transaction.update(kidRef, {
+          stories_created: storiesCreated - 1,
+          lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+    });
+  } catch (error) {
+    functions.logger.error("Failed to release a reserved story:", { kidId, error });
+  }
+}
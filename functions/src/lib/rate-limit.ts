@@ -0,0 +1,152 @@
+/**
+ * Daily Rate Limits
+ * Sliding 24 hour window per account and per IP for the expensive callables
+ *
+ * Mirrors src/app/utils/rate-limit.ts in the web app. Every counter is a document in
+ * rate_limits_{env} holding the timestamps of the hits inside the window. The limits come
+ * from remote config; the IP limit is the account limit times rate_limit_ip_multiplier so
+ * a family sharing one connection is not blocked. Accounts with a role (admins) are exempt.
+ *
+ * Errors are HttpsError "resource-exhausted" with {code: "rate-limited", action, limit, retryAfter}
+ * as details, retryAfter in seconds. FunctionClientAPI turns them into a RateLimitedError.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { admin } from "./utils";
+import { FirestoreHelper } from "./firestore-helper";
+import { getRemoteConfigNumber, ServerConfigKey } from "./remote-config";
+
+export const RATE_LIMITED = 'rate-limited';
+
+export const RATE_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type RateLimitAction = 'stories' | 'images' | 'ai_requests';
+
+const RATE_LIMIT_CONFIG_KEYS: Record<RateLimitAction, ServerConfigKey> = {
+  stories: 'max_stories_per_day',
+  images: 'max_images_per_day',
+  ai_requests: 'max_ai_requests_per_day',
+};
+
+export interface RateLimitedDetails {
+  action: RateLimitAction;
+  limit: number;
+  retryAfter: number;
+}
+
+/**
+ * Keep only the hits inside the window, oldest first
+ */
+export function slideWindow(hits: unknown, now: number): number[] {
+  if (!Array.isArray(hits)) {
+    return [];
+  }
+  return hits
+    .filter((hit): hit is number => typeof hit === 'number' && hit > now - RATE_LIMIT_WINDOW_MS && hit <= now)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Seconds until another hit fits in the window, or null when it fits now
+ * @param hits Hits inside the window, oldest first (see slideWindow)
+ */
+export function getRetryAfterSeconds(hits: number[], limit: number, now: number): number | null {
+  if (hits.length < limit) {
+    return null;
+  }
+  // The window frees up once enough of the oldest hits expire to drop below the limit
+  const expiringHit = hits[hits.length - limit];
+  return Math.max(1, Math.ceil((expiringHit + RATE_LIMIT_WINDOW_MS - now) / 1000));
+}
+
+/**
+ * Document ID of a counter, e.g. account_{uid}_stories or ip_{ip}_images
+ */
+export function rateLimitKey(kind: 'account' | 'ip', id: string, action: RateLimitAction): string {
+  return `${kind}_${id.replace(/[^\w.:-]/g, '_')}_${action}`;
+}
+
+/**
+ * Client IP of a callable request, the last x-forwarded-for entry when behind the proxy
+ * The Google front end appends the address it got the request from, the entries before it come
+ * from the client and are not trusted, so sending a different header does not change the IP limit
+ */
+export function getClientIp(rawRequest?: { headers?: Record<string, unknown>; ip?: string }): string | null {
+  const forwardedFor = rawRequest?.headers?.['x-forwarded-for'];
+  const header = Array.isArray(forwardedFor) ? forwardedFor.join(',') : forwardedFor;
+  if (typeof header === 'string') {
+    const hops = header.split(',').map(hop => hop.trim()).filter(Boolean);
+    if (hops.length > 0) {
+      return hops[hops.length - 1];
+    }
+  }
+  return rawRequest?.ip || null;
+}
+
+/**
+ * Build the HttpsError returned for a rate-limited request
+ */
+export function rateLimitedError(details: RateLimitedDetails): functions.https.HttpsError {
+  return new functions.https.HttpsError(
+    "resource-exhausted",
+    `Daily limit of ${details.limit} ${details.action.replace('_', ' ')} reached, try again in ${details.retryAfter} seconds`,
+    { code: RATE_LIMITED, ...details }
+  );
+}
+
+/**
+ * Record a hit for the account and the IP, or throw a rate-limited error when either is over its limit
+ * A blocked request is not recorded, so retrying does not push retryAfter further out.
+ * A limit of 0 or less turns the check off for that action.
+ */
+export async function enforceRateLimit(
+  dbHelper: FirestoreHelper,
+  action: RateLimitAction,
+  accountId: string,
+  ip: string | null,
+  now: number = Date.now()
+): Promise<void> {
+  const accountDoc = await dbHelper.getAccountRef(accountId).get();
+  if (accountDoc.exists && accountDoc.data()?.role) {
+    return;
+  }
+
+  const limit = await getRemoteConfigNumber(RATE_LIMIT_CONFIG_KEYS[action]);
+  if (limit <= 0) {
+    return;
+  }
+  const ipMultiplier = await getRemoteConfigNumber('rate_limit_ip_multiplier');
+
+  const counters = [{ ref: dbHelper.getRateLimitRef(rateLimitKey('account', accountId, action)), limit }];
+  if (ip) {
+    counters.push({
+      ref: dbHelper.getRateLimitRef(rateLimitKey('ip', ip, action)),
+      limit: Math.max(limit, Math.floor(limit * ipMultiplier)),
+    });
+  }
+
+  const exceeded = await dbHelper.getDb().runTransaction(async (transaction) => {
+    const snapshots = await Promise.all(counters.map(counter => transaction.get(counter.ref)));
+    const windows = snapshots.map(snapshot => slideWindow(snapshot.data()?.hits, now));
+
+    for (let i = 0; i < counters.length; i++) {
+      const retryAfter = getRetryAfterSeconds(windows[i], counters[i].limit, now);
+      if (retryAfter !== null) {
+        return { action, limit: counters[i].limit, retryAfter };
+      }
+    }
+
+    counters.forEach((counter, i) => {
+      transaction.set(counter.ref, {
+        hits: [...windows[i], now],
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    return null;
+  });
+
+  if (exceeded) {
+    functions.logger.warn("Rate limit exceeded", { accountId, ip, ...exceeded });
+    throw rateLimitedError(exceeded);
+  }
+}
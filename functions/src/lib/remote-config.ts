@@ -0,0 +1,56 @@
+/**
+ * Remote Config (server side)
+ * Reads Firebase Remote Config parameters from the server template
+ *
+ * Keys mirror RemoteConfigSchema in src/app/services/remote-config.service.ts.
+ * Values fall back to SERVER_CONFIG_DEFAULTS when the template is unavailable
+ * (emulator, missing parameter, network error), so callers always get a value.
+ */
+
+import * as functions from "firebase-functions/v1";
+import type { ServerConfig } from "firebase-admin/remote-config";
+import { admin } from "./utils";
+
+export const SERVER_CONFIG_DEFAULTS = {
+  image_generation_concurrency: 3,
+  max_stories_per_day: 5,
+  max_images_per_day: 100,
+  max_ai_requests_per_day: 200,
+  rate_limit_ip_multiplier: 3,
+} as const;
+
+export type ServerConfigKey = keyof typeof SERVER_CONFIG_DEFAULTS;
+
+// Re-fetch the template at most this often per function instance
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cachedConfig: ServerConfig | null = null;
+let cachedAt = 0;
+
+async function getServerConfig(): Promise<ServerConfig | null> {
+  if (cachedConfig && Date.now() - cachedAt < CACHE_TTL_MS) {
+    return cachedConfig;
+  }
+
+  try {
+    const template = await admin.remoteConfig().getServerTemplate({
+      defaultConfig: { ...SERVER_CONFIG_DEFAULTS },
+    });
+    cachedConfig = template.evaluate();
+    cachedAt = Date.now();
+    return cachedConfig;
+  } catch (error) {
+    functions.logger.warn("Failed to load remote config server template, using defaults:", error);
+    return null;
+  }
+}
+
+/**
+ * Get a numeric remote config value
+ * Returns the default when the value is missing or not a finite number
+ */
+export async function getRemoteConfigNumber(key: ServerConfigKey): Promise<number> {
+  const config = await getServerConfig();
+  const value = config ? config.getNumber(key) : NaN;
+  return Number.isFinite(value) ? value : SERVER_CONFIG_DEFAULTS[key];
+}
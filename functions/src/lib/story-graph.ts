@@ -0,0 +1,232 @@
+/**
+ * Story Graph
+ * Branching stories with more than one decision point
+ *
+ * The pages agent answers with page nodes that point at each other through `next` or `choices`.
+ * The response is validated against the requested number of decision points and converted into
+ * the persisted shape: a flat `pages` array (choice texts become GOOD_CHOICE/BAD_CHOICE pages so
+ * they get illustrations like flat stories) plus a `graph` that references pages by pageNum.
+ * Mirrors StoryGraph in models/domain-models.ts.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { z } from "zod";
+import { StoryPageTypeSchema } from "./story-schemas";
+
+// A flat story has one decision point, branching stories up to this many
+export const MAX_DECISION_POINTS = 3;
+
+export interface StoryGraphChoice {
+  id: string;
+  label: string;
+  targetNodeId: string;
+  choicePageNum?: number;
+  kind?: 'good' | 'bad';
+}
+
+export interface StoryGraphNode {
+  id: string;
+  pageNum: number;
+  next?: string | null;
+  choices?: StoryGraphChoice[];
+  ending?: boolean;
+}
+
+export interface StoryGraph {
+  startNodeId: string;
+  nodes: Record<string, StoryGraphNode>;
+}
+
+/**
+ * Read the requested number of decision points, defaulting to a flat story
+ */
+export function parseDecisionPoints(value: unknown): number {
+  if (value === undefined || value === null) {
+    return 1;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_DECISION_POINTS) {
+    throw new functions.https.HttpsError(
+      "invalid-argument",
+      `decisionPoints must be a whole number between 1 and ${MAX_DECISION_POINTS}`
+    );
+  }
+  return value;
+}
+
+const GraphChoiceResponseSchema = z
+  .object({
+    text: z.string().optional(),
+    label: z.string().optional(),
+    kind: z.enum(['good', 'bad']),
+    next: z.string().min(1),
+  })
+  .transform(choice => ({ label: (choice.text || choice.label || '').trim(), kind: choice.kind, next: choice.next }))
+  .refine(choice => choice.label.length > 0, { message: "Choice text is required" });
+
+const GraphPageResponseSchema = z
+  .object({
+    id: z.string().min(1),
+    pageType: StoryPageTypeSchema.refine(
+      type => type !== 'good_choice' && type !== 'bad_choice',
+      { message: "Choices belong in the `choices` array, not in separate pages" }
+    ),
+    text: z.string().optional(),
+    storyText: z.string().optional(),
+    next: z.string().min(1).nullable().optional(),
+    choices: z.array(GraphChoiceResponseSchema).optional(),
+    ending: z.boolean().optional(),
+  })
+  .transform(page => ({
+    id: page.id,
+    pageType: page.pageType,
+    storyText: (page.storyText || page.text || '').trim(),
+    next: page.next || null,
+    choices: page.choices || [],
+    ending: page.ending === true,
+  }))
+  .refine(page => page.storyText.length > 0, { message: "Page text is required (use the `text` field)" });
+
+export type GraphPageResponse = z.infer<typeof GraphPageResponseSchema>;
+
+/**
+ * Check that the pages form a story graph with the requested number of decision points:
+ * every link resolves, the cover starts it, every page is reachable and there are no loops
+ */
+function checkGraphStructure(pages: GraphPageResponse[], decisionPoints: number, ctx: z.RefinementCtx) {
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  const byId = new Map<string, GraphPageResponse>();
+
+  for (const page of pages) {
+    if (byId.has(page.id)) {
+      issue(`Page id "${page.id}" is used more than once`);
+    }
+    byId.set(page.id, page);
+  }
+
+  if (pages.length === 0 || pages[0].pageType !== 'cover') {
+    issue("The first page must be the cover page");
+    return;
+  }
+
+  for (const page of pages) {
+    const links = page.choices.length > 0 ? page.choices.map(c => c.next) : (page.next ? [page.next] : []);
+    for (const target of links) {
+      if (!byId.has(target)) {
+        issue(`Page "${page.id}" links to unknown page "${target}"`);
+      }
+    }
+    if (page.ending && (page.next || page.choices.length > 0)) {
+      issue(`Ending page "${page.id}" must not have next or choices`);
+    }
+    if (!page.ending && !page.next && page.choices.length === 0) {
+      issue(`Page "${page.id}" needs next, choices or "ending": true`);
+    }
+    if (page.next && page.choices.length > 0) {
+      issue(`Page "${page.id}" must have either next or choices, not both`);
+    }
+    if (page.choices.length === 1 || page.choices.length > 3) {
+      issue(`Page "${page.id}" must offer 2 or 3 choices (found ${page.choices.length})`);
+    }
+  }
+
+  const decisions = pages.filter(page => page.choices.length > 0).length;
+  if (decisions !== decisionPoints) {
+    issue(`The story must have exactly ${decisionPoints} decision points (found ${decisions})`);
+  }
+  const endings = pages.filter(page => page.ending).length;
+  if (endings < decisionPoints + 1) {
+    issue(`The story needs at least ${decisionPoints + 1} endings (found ${endings})`);
+  }
+
+  // Walk from the cover: every page must be reachable and no path may loop back
+  const state = new Map<string, 'visiting' | 'done'>();
+  let hasCycle = false;
+  const visit = (id: string) => {
+    const page = byId.get(id);
+    if (!page || state.get(id) === 'done') return;
+    if (state.get(id) === 'visiting') {
+      hasCycle = true;
+      return;
+    }
+    state.set(id, 'visiting');
+    const links = page.choices.length > 0 ? page.choices.map(c => c.next) : (page.next ? [page.next] : []);
+    links.forEach(visit);
+    state.set(id, 'done');
+  };
+  visit(pages[0].id);
+
+  if (hasCycle) {
+    issue("The story must not loop back to an earlier page");
+  }
+  const unreachable = pages.filter(page => !state.has(page.id)).map(page => page.id);
+  if (unreachable.length > 0) {
+    issue(`Pages not reachable from the cover: ${unreachable.join(', ')}`);
+  }
+}
+
+/**
+ * Schema for a branching STORY_PAGES_TEXT response with the given number of decision points
+ */
+export function createStoryGraphResponseSchema(decisionPoints: number) {
+  return z
+    .preprocess(
+      value => (value && typeof value === 'object' && !Array.isArray(value) && 'pages' in value) ? (value as { pages: unknown }).pages : value,
+      z.array(GraphPageResponseSchema)
+    )
+    .superRefine((pages, ctx) => checkGraphStructure(pages, decisionPoints, ctx));
+}
+
+/**
+ * Format instructions appended to the pages agent input for branching stories
+ */
+export function buildBranchingInstructions(decisionPoints: number): string {
+  return `Story Format: branching story with ${decisionPoints} decision points and at least ${decisionPoints + 1} endings
+Return JSON only, in this format:
+{"pages": [
+  {"id": "cover", "pageType": "cover", "text": "story title", "next": "p1"},
+  {"id": "p1", "pageType": "normal", "text": "page text", "choices": [
+    {"text": "good choice text", "kind": "good", "next": "g1"},
+    {"text": "bad choice text", "kind": "bad", "next": "b1"}
+  ]},
+  {"id": "b1", "pageType": "bad", "text": "page text", "ending": true}
+]}
+Every page has either "next", 2-3 "choices" or "ending": true. Use pageType "normal", "good" or "bad" for story pages.`;
+}
+
+/**
+ * Convert a validated graph response into story pages and the persisted graph
+ * Choice texts become GOOD_CHOICE/BAD_CHOICE pages placed right after their decision page
+ */
+export function buildBranchingStory(
+  response: GraphPageResponse[]
+): { pages: Array<{ pageType: string; storyText: string }>; graph: StoryGraph } {
+  const pages: Array<{ pageType: string; storyText: string }> = [];
+  const nodes: Record<string, StoryGraphNode> = {};
+
+  for (const page of response) {
+    const pageNum = pages.length;
+    pages.push({ pageType: page.pageType, storyText: page.storyText });
+
+    const choices: StoryGraphChoice[] = page.choices.map((choice, index) => {
+      const choicePageNum = pages.length;
+      pages.push({ pageType: choice.kind === 'good' ? 'good_choice' : 'bad_choice', storyText: choice.label });
+      return {
+        id: `${page.id}-${index}`,
+        label: choice.label,
+        targetNodeId: choice.next,
+        choicePageNum,
+        kind: choice.kind,
+      };
+    });
+
+    nodes[page.id] = {
+      id: page.id,
+      pageNum,
+      next: page.next,
+      ...(choices.length > 0 ? { choices } : {}),
+      ending: page.ending,
+    };
+  }
+
+  return { pages, graph: { startNodeId: response[0].id, nodes } };
+}
@@ -0,0 +1,858 @@
+/**
+ * Story Pipeline
+ * Checkpointed full story generation shared by generateFullStory and resumeStoryGeneration
+ *
+ * Every step writes its result (chosen title, parsed pages, per-page prompt and image state)
+ * to the story document under `checkpoint`, so a run that times out or crashes can be picked
+ * up from the last finished step without paying for the earlier AI calls again.
+ */
+
+import * as functions from "firebase-functions/v1";
+import * as admin from "firebase-admin";
+import { randomUUID } from "crypto";
+import { generateText } from "../text-generation";
+import { generateImage } from "../image-generation";
+import { OPENAI_AGENTS } from "../open-ai-agents";
+import { saveImageToStorage } from "./utils";
+import { FirestoreHelper } from "./firestore-helper";
+import { sendEmail } from "../email-service";
+import { getEmailTemplateId } from "../constants/email-templates";
+import { createSerialQueue, mapWithConcurrency } from "./concurrency";
+import { generateValidatedText, StoryPagesResponseSchema, StoryTitlesResponseSchema } from "./story-schemas";
+import { getRemoteConfigNumber } from "./remote-config";
+import { buildBranchingInstructions, buildBranchingStory, createStoryGraphResponseSchema, StoryGraph } from "./story-graph";
+import { characterBibleVariables, generateCharacterBible, StoryCharacter } from "./character-bible";
+import { buildSafetyFeedback, MAX_MODERATION_REGENERATIONS, PageModerationIssue, reviewStoryPages } from "./moderation";
+
+// Image generation retry configuration
+const MAX_IMAGE_RETRIES = 3;
+
+// A run that has not touched the story for this long is considered dead (function timeout is 540s)
+const STALE_RUN_MS = 10 * 60 * 1000;
+
+/**
+ * Pipeline steps in execution order
+ * The checkpoint stores the last step that finished successfully
+ */
+export const STORY_GENERATION_STEPS = [
+  'created',
+  'title_selected',
+  'pages_generated',
+  'characters_generated',
+  'prompts_generated',
+  'images_generated',
+  'completed',
+] as const;
+
+export type StoryGenerationStep = typeof STORY_GENERATION_STEPS[number];
+
+export type PagePromptState = 'pending' | 'done' | 'failed';
+export type PageImageState = 'pending' | 'done' | 'failed' | 'skipped';
+
+export interface PageCheckpoint {
+  pageNum: number;
+  prompt: PagePromptState;
+  image: PageImageState;
+  error?: string | null;
+}
+
+export interface StoryCheckpoint {
+  step: StoryGenerationStep;
+  // The run that owns the story, written when the run is claimed and checked by every write of the run
+  runId?: string;
+  titles?: string[];
+  selectedTitle?: string;
+  pages?: PageCheckpoint[];
+  attempts: number;
+  lastError?: string | null;
+}
+
+export interface PipelineStoryPage {
+  pageNum: number;
+  pageType: string;
+  storyText: string;
+  imagePrompt: string;
+  selectedImageUrl: string;
+}
+
+export interface KidProfile {
+  name: string;
+  gender: 'male' | 'female';
+  age: number;
+  imageUrl?: string;
+}
+
+export interface StoryPipelineContext {
+  dbHelper: FirestoreHelper;
+  environment: string;
+  storyId: string;
+  // ID of the run from createInitialCheckpoint or claimStoryRun
+  runId: string;
+  userId: string;
+  kid: KidProfile;
+  problemDescription: string;
+  advantages: string;
+  disadvantages: string;
+  // 1 for a flat story, more for a branching story with a graph
+  decisionPoints?: number;
+  // Stop after the character bible so the parent can review it before images are rendered
+  reviewCharacters?: boolean;
+}
+
+export interface ImageGenerationResult {
+  pageNum: number;
+  success: boolean;
+  imageUrl?: string;
+  error?: string;
+}
+
+export interface StoryPipelineResult {
+  success: boolean;
+  storyId: string;
+  title: string;
+  pagesCount: number;
+  imagesGenerated?: number;
+  imageResults?: ImageGenerationResult[];
+  resumedFromStep?: StoryGenerationStep;
+  awaitingCharacterReview?: boolean;
+  needsReview?: boolean;
+  message: string;
+}
+
+/**
+ * Thrown by the writes of a run after another run claimed the story, the run stops without
+ * touching the story or its credit
+ */
+export class StoryRunSupersededError extends Error {
+  constructor(storyId: string) {
+    super(`Story ${storyId} was claimed by another generation run`);
+    this.name = 'StoryRunSupersededError';
+  }
+}
+
+// Sleep helper for retry delays
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Detects if text contains Hebrew characters
+ * Used to determine email language based on story content
+ */
+function containsHebrew(text: string): boolean {
+  // Hebrew Unicode range: \u0590-\u05FF
+  const hebrewRegex = /[\u0590-\u05FF]/;
+  return hebrewRegex.test(text);
+}
+
+/**
+ * Detects the language based on kid name and story title
+ * Returns 'he' if Hebrew characters are found, 'en' otherwise
+ */
+function detectLanguage(kidName?: string, storyTitle?: string): 'en' | 'he' {
+  const textToCheck = `${kidName || ''} ${storyTitle || ''}`;
+  return containsHebrew(textToCheck) ? 'he' : 'en';
+}
+
+/**
+ * Check whether the checkpoint has already passed a given step
+ */
+export function isStepCompleted(checkpoint: StoryCheckpoint | undefined, step: StoryGenerationStep): boolean {
+  if (!checkpoint) {
+    return false;
+  }
+  return STORY_GENERATION_STEPS.indexOf(checkpoint.step) >= STORY_GENERATION_STEPS.indexOf(step);
+}
+
+/**
+ * Build the initial checkpoint stored when the story document is created
+ * @param runId ID of the run that creates the story, a new one when omitted
+ */
+export function createInitialCheckpoint(runId: string = randomUUID()): StoryCheckpoint {
+  return {
+    step: 'created',
+    runId,
+    attempts: 0,
+    lastError: null,
+  };
+}
+
+/**
+ * Normalize pages into the shape stored on the story document
+ */
+export function serializePages(pages: Array<Partial<PipelineStoryPage> & { text?: string }>): PipelineStoryPage[] {
+  return pages.map((page, index) => ({
+    pageNum: index,
+    pageType: page.pageType || 'NORMAL',
+    storyText: page.storyText || page.text || '',
+    imagePrompt: page.imagePrompt || '',
+    selectedImageUrl: page.selectedImageUrl || '',
+  }));
+}
+
+/**
+ * Combine the pipeline's pages with the pages stored on the story document
+ * Fields other flows saved on a page (narration, word timings, revisions) are kept as long as
+ * the stored page still has the same text; a page whose text was regenerated replaces the stored one
+ */
+export function mergeStoredPages(storedPages: unknown, pages: PipelineStoryPage[]): Array<Record<string, unknown>> {
+  const stored = Array.isArray(storedPages) ? storedPages : [];
+  return pages.map((page, index) => {
+    const storedPage = stored[index];
+    if (!storedPage || typeof storedPage !== 'object') {
+      return { ...page };
+    }
+    const storedText = storedPage.storyText ?? storedPage.text;
+    return storedText === page.storyText ? { ...storedPage, ...page } : { ...page };
+  });
+}
+
+/**
+ * Derive the per-page checkpoint state from the pages as they are stored
+ */
+export function buildPageCheckpoints(pages: PipelineStoryPage[], previous: PageCheckpoint[] = []): PageCheckpoint[] {
+  return pages.map((page, index) => {
+    const existing = previous.find(p => p.pageNum === index);
+    return {
+      pageNum: index,
+      prompt: page.imagePrompt && page.imagePrompt.trim() !== '' ? 'done' : (existing?.prompt === 'failed' ? 'failed' : 'pending'),
+      image: page.selectedImageUrl ? 'done' : (existing?.image && existing.image !== 'done' ? existing.image : 'pending'),
+      error: existing?.error ?? null,
+    };
+  });
+}
+
+/**
+ * Returns true when another run is most likely still working on this story
+ * (it is in a progress state and was updated recently)
+ */
+export function isRunInProgress(storyData: admin.firestore.DocumentData, now: number = Date.now()): boolean {
+  const status = typeof storyData.status === 'string' ? storyData.status : '';
+  if (!status.startsWith('progress_') && status !== 'initializing' && status !== 'generating_images') {
+    return false;
+  }
+  const lastUpdated = storyData.lastUpdated?.toMillis ? storyData.lastUpdated.toMillis() : 0;
+  return now - lastUpdated < STALE_RUN_MS;
+}
+
+/**
+ * Claim a story for a new run, so two resume calls cannot both start the pipeline
+ * The story is checked and the new run ID written in one transaction; the run's writes
+ * check the ID (see runStoryPipeline), so an older run still going stops at its next write
+ * @returns ID of the claimed run
+ */
+export async function claimStoryRun(dbHelper: FirestoreHelper, storyId: string, now: number = Date.now()): Promise<string> {
+  const storyRef = dbHelper.getStoryRef(storyId);
+  const runId = randomUUID();
+
+  await dbHelper.getDb().runTransaction(async (transaction) => {
+    const storyData = (await transaction.get(storyRef)).data();
+    if (!storyData) {
+      throw new functions.https.HttpsError("not-found", `Story not found with ID: ${storyId}`);
+    }
+    if (storyData.status === 'completed' || storyData.checkpoint?.step === 'completed') {
+      throw new functions.https.HttpsError("failed-precondition", "Story is already complete");
+    }
+    if (isRunInProgress(storyData, now)) {
+      throw new functions.https.HttpsError("failed-precondition", "Story generation is still running");
+    }
+    // The status makes the story count as running until the lease of STALE_RUN_MS runs out
+    transaction.update(storyRef, {
+      status: 'initializing',
+      'checkpoint.runId': runId,
+      lastUpdated: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  return runId;
+}
+
+/**
+ * Update the story when the run still owns it, pages are merged with the stored pages
+ * @throws StoryRunSupersededError when another run claimed the story
+ */
+async function updateStoryForRun(dbHelper: FirestoreHelper, storyId: string, runId: string, fields: Record<string, unknown>): Promise<void> {
+  const storyRef = dbHelper.getStoryRef(storyId);
+
+  await dbHelper.getDb().runTransaction(async (transaction) => {
+    const storyData = (await transaction.get(storyRef)).data();
+    if (storyData?.checkpoint?.runId !== runId) {
+      throw new StoryRunSupersededError(storyId);
+    }
+    const update: Record<string, unknown> = { ...fields, lastUpdated: admin.firestore.FieldValue.serverTimestamp() };
+    if (Array.isArray(fields.pages)) {
+      update.pages = mergeStoredPages(storyData.pages, fields.pages as PipelineStoryPage[]);
+    }
+    transaction.update(storyRef, update);
+  });
+}
+
+/**
+ * Load the kid details needed by the pipeline
+ */
+export async function loadKidProfile(dbHelper: FirestoreHelper, kidId: string): Promise<KidProfile> {
+  const kidDoc = await dbHelper.getKid(kidId);
+
+  if (!kidDoc.exists) {
+    functions.logger.error("Kid not found", { kidId, collection: dbHelper.getUsersCollection() });
+    throw new functions.https.HttpsError(
+      "not-found",
+      `Kid not found with ID: ${kidId} in environment: ${dbHelper.getEnvironment()}`
+    );
+  }
+
+  const kidData = kidDoc.data();
+  if (!kidData) {
+    throw new functions.https.HttpsError(
+      "internal",
+      "Kid data is empty"
+    );
+  }
+
+  return {
+    name: kidData.name || "Child",
+    gender: kidData.gender as 'male' | 'female',
+    age: kidData.age,
+    imageUrl: kidData.imageUrl || kidData.avatarUrl,
+  };
+}
+
+/**
+ * Record a failed run on the story so it can be resumed later
+ * Nothing is written when another run claimed the story in the meantime
+ */
+export async function markGenerationFailed(
+  dbHelper: FirestoreHelper,
+  storyId: string,
+  runId: string,
+  error: unknown
+): Promise<void> {
+  if (error instanceof StoryRunSupersededError) {
+    return;
+  }
+  try {
+    await updateStoryForRun(dbHelper, storyId, runId, {
+      status: 'failed',
+      'checkpoint.lastError': error instanceof Error ? error.message : String(error),
+    });
+  } catch (updateError) {
+    functions.logger.warn("Failed to mark story generation as failed:", updateError);
+  }
+}
+
+/**
+ * Generate an image with retry logic and exponential backoff
+ * @param params - Parameters for image generation
+ * @param pageNum - Page number for logging
+ * @returns Base64 encoded image string
+ */
+async function generatePageImageWithRetry(
+  params: {
+    prompt: { id: string; variables?: Record<string, string> };
+    input: Array<{
+      role: string;
+      content: Array<{ type: string; text?: string; image_url?: string }>;
+    }>;
+  },
+  pageNum: number
+): Promise<string> {
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= MAX_IMAGE_RETRIES; attempt++) {
+    try {
+      functions.logger.info(`Image generation attempt ${attempt}/${MAX_IMAGE_RETRIES} for page ${pageNum}`);
+      const base64Image = await generateImage(params);
+
+      if (attempt > 1) {
+        functions.logger.info(`Image generation succeeded on attempt ${attempt} for page ${pageNum}`);
+      }
+
+      return base64Image;
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      functions.logger.warn(`Image generation attempt ${attempt}/${MAX_IMAGE_RETRIES} failed for page ${pageNum}:`, {
+        error: lastError.message,
+        attempt,
+        maxRetries: MAX_IMAGE_RETRIES
+      });
+
+      if (attempt < MAX_IMAGE_RETRIES) {
+        // Exponential backoff: 1s, 2s, 4s
+        const delayMs = 1000 * Math.pow(2, attempt - 1);
+        functions.logger.info(`Waiting ${delayMs}ms before retry...`);
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  // All retries exhausted
+  functions.logger.error(`Image generation failed after ${MAX_IMAGE_RETRIES} attempts for page ${pageNum}`);
+  throw lastError || new Error("Image generation failed after all retry attempts");
+}
+
+/**
+ * Generate story titles for the kid and problem
+ */
+async function generateTitles(ctx: StoryPipelineContext): Promise<string[]> {
+  const { kid, problemDescription, advantages, disadvantages } = ctx;
+  const titlesInput = `Name: ${kid.name}
+Gender: ${kid.gender}
+Problem Description: ${problemDescription}
+Age: ${kid.age} years old${advantages ? `\nAdvantages: ${advantages}` : ''}${disadvantages ? `\nDisadvantages: ${disadvantages}` : ''}`;
+
+  let titles: string[];
+  try {
+    ({ data: titles } = await generateValidatedText(
+      { prompt: { id: OPENAI_AGENTS.STORY_TITLES_TEXT }, input: titlesInput },
+      StoryTitlesResponseSchema,
+      "story titles"
+    ));
+  } catch (error) {
+    functions.logger.error("Failed to generate valid titles:", error);
+    throw new functions.https.HttpsError(
+      "internal",
+      `Failed to parse generated titles: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+
+  return titles;
+}
+
+/**
+ * Generate the story pages text for the selected title and parse it into pages
+ * Branching stories also get the graph that links their pages
+ * @param safetyFeedback - Why the previous version failed the child-safety review, when regenerating
+ */
+async function generatePages(
+  ctx: StoryPipelineContext,
+  title: string,
+  safetyFeedback?: string
+): Promise<{ pages: PipelineStoryPage[]; graph: StoryGraph | null }> {
+  const { kid, problemDescription, advantages, disadvantages } = ctx;
+  const decisionPoints = ctx.decisionPoints || 1;
+  const input = `Name: ${kid.name}
+Problem Description: ${problemDescription}
+Story Title: ${title}
+Target Age: ${kid.age} years old
+Moral Advantages: ${advantages}
+Moral Disadvantages: ${disadvantages}${safetyFeedback ? `\nSafety Feedback: ${safetyFeedback}` : ''}`;
+
+  // The response must be JSON pages matching the story structure, invalid responses are repaired by the agent
+  try {
+    if (decisionPoints > 1) {
+      const { data: graphPages, text } = await generateValidatedText(
+        {
+          prompt: { id: OPENAI_AGENTS.STORY_PAGES_TEXT },
+          input: `${input}\nDecision Points: ${decisionPoints}\n${buildBranchingInstructions(decisionPoints)}`,
+        },
+        createStoryGraphResponseSchema(decisionPoints),
+        "branching story pages"
+      );
+      functions.logger.info(`Generated branching story text for storyId: ${ctx.storyId}, length: ${text.length}`);
+      const { pages, graph } = buildBranchingStory(graphPages);
+      return { pages: serializePages(pages), graph };
+    }
+
+    const { data: storyPages, text } = await generateValidatedText(
+      { prompt: { id: OPENAI_AGENTS.STORY_PAGES_TEXT }, input: input },
+      StoryPagesResponseSchema,
+      "story pages"
+    );
+    functions.logger.info(`Generated story text for storyId: ${ctx.storyId}, length: ${text.length}`);
+    return { pages: serializePages(storyPages), graph: null };
+  } catch (error) {
+    functions.logger.error("Failed to generate valid story pages:", error);
+    throw new functions.https.HttpsError(
+      "internal",
+      `Failed to parse story pages from generated text: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Send the story ready email to the account owner
+ */
+async function sendStoryReadyEmail(ctx: StoryPipelineContext, title: string): Promise<void> {
+  try {
+    // Get user email from Firebase Auth
+    const userRecord = await admin.auth().getUser(ctx.userId);
+    const userEmail = userRecord.email;
+
+    if (!userEmail) {
+      functions.logger.warn("User has no email address, skipping notification", { userId: ctx.userId });
+      return;
+    }
+
+    // Determine base URL based on environment
+    const baseUrls: Record<string, string> = {
+      'production': 'https://choice-story.com',
+      'development': 'https://staging.choice-story.com'
+    };
+    const baseUrl = baseUrls[ctx.environment] || 'https://staging.choice-story.com';
+    const storyUrl = `${baseUrl}/stories/${ctx.storyId}`;
+
+    // Detect language based on content (Hebrew or English)
+    const emailLanguage = detectLanguage(ctx.kid.name, title);
+    functions.logger.info(`Detected email language: ${emailLanguage}`, { kidName: ctx.kid.name, title });
+
+    const templateId = getEmailTemplateId(emailLanguage, 'STORY_READY');
+
+    const emailResult = await sendEmail({
+      to: userEmail,
+      templateId: templateId,
+      variables: {
+        STORY_URL: storyUrl,
+        STORY_TITLE: title,
+      },
+    });
+
+    if (emailResult.success) {
+      functions.logger.info("Story ready email sent successfully", { emailId: emailResult.id });
+    } else {
+      functions.logger.warn("Failed to send story ready email", { error: emailResult.error });
+    }
+  } catch (emailError) {
+    // Log error but don't fail the story generation
+    functions.logger.error("Error sending story ready email:", emailError);
+  }
+}
+
+/**
+ * Run (or continue) the full story pipeline for a story document
+ * Steps already recorded in the checkpoint are skipped, and within the prompt and image
+ * steps only pages that are not done yet are processed.
+ *
+ * @param ctx - Story, kid and request details
+ * @param startingCheckpoint - Checkpoint loaded from the story document
+ * @param existingPages - Pages already stored on the story document
+ * @param existingCharacterBible - Character bible already stored (and possibly edited) on the story document
+ */
+export async function runStoryPipeline(
+  ctx: StoryPipelineContext,
+  startingCheckpoint: StoryCheckpoint,
+  existingPages: PipelineStoryPage[] = [],
+  existingCharacterBible: StoryCharacter[] = []
+): Promise<StoryPipelineResult> {
+  const resumedFromStep = startingCheckpoint.step;
+  let checkpoint: StoryCheckpoint = {
+    ...startingCheckpoint,
+    runId: ctx.runId,
+    attempts: (startingCheckpoint.attempts || 0) + 1,
+    lastError: null,
+  };
+
+  // All story document writes go through one queue, so writes issued by concurrent
+  // image workers land in the order they were made and never overwrite newer state.
+  // Every write checks that this run still owns the story
+  const enqueueWrite = createSerialQueue();
+  const writeStory = (fields: Record<string, unknown>) => updateStoryForRun(ctx.dbHelper, ctx.storyId, ctx.runId, fields);
+
+  // Helper function to update story status
+  const updateStatus = (status: string, percentage: number) => enqueueWrite(async () => {
+    try {
+      await writeStory({ status: status, progress: percentage });
+      functions.logger.info(`Status updated: ${status} (${percentage}%)`);
+    } catch (error) {
+      if (error instanceof StoryRunSupersededError) {
+        throw error;
+      }
+      functions.logger.warn("Failed to update status:", error);
+    }
+  });
+
+  // Helper function to persist the checkpoint together with any story fields it covers
+  // The checkpoint is read when the write runs, so it always includes every earlier patch
+  const saveCheckpoint = (patch: Partial<StoryCheckpoint>, storyFields: Record<string, unknown> = {}) => {
+    checkpoint = { ...checkpoint, ...patch };
+    return enqueueWrite(() => writeStory({ ...storyFields, checkpoint }));
+  };
+
+  functions.logger.info("Running story pipeline", {
+    storyId: ctx.storyId,
+    fromStep: resumedFromStep,
+    attempt: checkpoint.attempts,
+  });
+
+  await saveCheckpoint({});
+  await updateStatus('progress_5', 5);
+
+  // STEP 2: Generate story titles and pick one randomly (10-20% progress)
+  let selectedTitle = checkpoint.selectedTitle;
+  if (!isStepCompleted(checkpoint, 'title_selected') || !selectedTitle) {
+    functions.logger.info("Step 2: Generating story titles");
+    await updateStatus('progress_10', 10);
+
+    const titles = await generateTitles(ctx);
+    selectedTitle = titles[Math.floor(Math.random() * titles.length)];
+    functions.logger.info("Story title selected", { selectedTitle });
+
+    await saveCheckpoint({ step: 'title_selected', titles, selectedTitle }, { title: selectedTitle });
+  } else {
+    functions.logger.info("Step 2: Title already selected, skipping", { selectedTitle });
+  }
+  await updateStatus('progress_20', 20);
+
+  // STEP 3-5: Generate, parse and save story pages (20-60% progress)
+  let storyPages = existingPages;
+  if (!isStepCompleted(checkpoint, 'pages_generated') || storyPages.length === 0) {
+    functions.logger.info("Step 3: Generating story pages text");
+    let generated = await generatePages(ctx, selectedTitle);
+
+    // Generated text is checked against the child-safety rules before it is saved
+    let issues: PageModerationIssue[] = await reviewStoryPages(generated.pages);
+    for (let attempt = 1; issues.length > 0 && attempt <= MAX_MODERATION_REGENERATIONS; attempt++) {
+      functions.logger.warn(`Story pages failed moderation, regenerating (${attempt}/${MAX_MODERATION_REGENERATIONS})`, { issues });
+      generated = await generatePages(ctx, selectedTitle, buildSafetyFeedback(issues));
+      issues = await reviewStoryPages(generated.pages);
+    }
+    storyPages = generated.pages;
+
+    if (issues.length > 0) {
+      // The pages are kept for a reviewer, but the checkpoint stays before 'pages_generated'
+      // so a resumed run can never illustrate them
+      functions.logger.warn("Story pages still fail moderation, holding the story for review", { issues });
+      await saveCheckpoint(
+        {},
+        { status: 'needs_review', pages: storyPages, graph: generated.graph, moderation: { status: 'needs_review', issues } }
+      );
+
+      return {
+        success: true,
+        storyId: ctx.storyId,
+        title: selectedTitle,
+        pagesCount: storyPages.length,
+        resumedFromStep,
+        needsReview: true,
+        message: "Story text did not pass the safety review and is waiting for a review",
+      };
+    }
+    await updateStatus('progress_40', 40);
+
+    functions.logger.info(`Step 4: Parsed ${storyPages.length} pages`);
+    await updateStatus('progress_50', 50);
+
+    functions.logger.info("Step 5: Saving story pages to Firestore");
+    await saveCheckpoint(
+      { step: 'pages_generated', pages: buildPageCheckpoints(storyPages) },
+      { status: 'generating_images', pages: storyPages, graph: generated.graph }
+    );
+  } else {
+    functions.logger.info(`Steps 3-5: ${storyPages.length} pages already saved, skipping`);
+  }
+  await updateStatus('progress_60', 60);
+
+  // STEP 5b: Describe the story characters once, so every illustration draws them the same way
+  let characterBible = existingCharacterBible;
+  if (!isStepCompleted(checkpoint, 'characters_generated')) {
+    functions.logger.info("Step 5b: Generating character bible");
+    try {
+      characterBible = await generateCharacterBible(selectedTitle, storyPages, ctx.kid);
+    } catch (error) {
+      // The images can still be generated without it, just with less consistent characters
+      functions.logger.error("Failed to generate character bible, continuing without it:", error);
+      characterBible = [];
+    }
+    await saveCheckpoint({ step: 'characters_generated' }, { characterBible });
+
+    if (ctx.reviewCharacters && characterBible.length > 0) {
+      functions.logger.info("Pausing for character review", { characters: characterBible.length });
+      await enqueueWrite(() => writeStory({ status: 'awaiting_character_review' }));
+
+      return {
+        success: true,
+        storyId: ctx.storyId,
+        title: selectedTitle,
+        pagesCount: storyPages.length,
+        resumedFromStep,
+        awaitingCharacterReview: true,
+        message: "Story text is ready, review the characters to continue with the illustrations",
+      };
+    }
+  } else {
+    functions.logger.info(`Step 5b: Character bible already saved (${characterBible.length} characters), skipping`);
+  }
+  const bibleVariables = characterBibleVariables(characterBible);
+
+  let pageCheckpoints = buildPageCheckpoints(storyPages, checkpoint.pages);
+
+  // Helper function to persist a page and its checkpoint state together
+  const savePage = async (pageIndex: number, pageState: Partial<PageCheckpoint>) => {
+    pageCheckpoints = pageCheckpoints.map(p => p.pageNum === pageIndex ? { ...p, ...pageState } : p);
+    await saveCheckpoint({ pages: pageCheckpoints }, { pages: storyPages });
+  };
+
+  // STEP 6: Generate image prompts for pages that don't have one yet (60-70% progress)
+  const pagesNeedingPrompts = storyPages.filter(page => !page.imagePrompt || page.imagePrompt.trim() === '');
+  if (pagesNeedingPrompts.length > 0) {
+    functions.logger.info(`Step 6: Generating image prompts for ${pagesNeedingPrompts.length} pages`);
+
+    let promptsGenerated = 0;
+    for (const page of pagesNeedingPrompts) {
+      const pageIndex = page.pageNum;
+      try {
+        // Build variables for the image prompt
+        const variables: Record<string, string | number> = {
+          page_text: page.storyText,
+          gender: ctx.kid.gender,
+          age: ctx.kid.age,
+          ...bibleVariables,
+        };
+
+        functions.logger.info(`Generating image prompt for page ${pageIndex}`, { variables });
+
+        page.imagePrompt = await generateText({
+          prompt: {
+            id: OPENAI_AGENTS.STORY_IMAGE_PROMPT,
+            variables: variables
+          },
+          input: page.storyText,
+        });
+        await savePage(pageIndex, { prompt: 'done', error: null });
+        functions.logger.info(`Generated image prompt for page ${pageIndex}`);
+      } catch (promptError) {
+        functions.logger.error(`Failed to generate image prompt for page ${pageIndex}:`, promptError);
+        await savePage(pageIndex, {
+          prompt: 'failed',
+          error: promptError instanceof Error ? promptError.message : "Unknown error",
+        });
+        // Continue with other pages
+      }
+
+      // Update progress for prompts (60% to 70%)
+      promptsGenerated++;
+      const promptProgress = 60 + Math.floor((promptsGenerated / pagesNeedingPrompts.length) * 10);
+      await updateStatus(`progress_${promptProgress}`, promptProgress);
+    }
+  } else {
+    functions.logger.info("Step 6: All pages already have image prompts, skipping generation");
+  }
+  await saveCheckpoint({ step: 'prompts_generated' });
+  await updateStatus('progress_70', 70);
+
+  // STEP 7: Generate images for pages that don't have one yet (70-95% progress)
+  functions.logger.info("Step 7: Generating images for all pages");
+
+  if (!ctx.kid.imageUrl) {
+    functions.logger.warn("No kid image URL found, skipping image generation");
+    pageCheckpoints = pageCheckpoints.map(p => p.image === 'done' ? p : { ...p, image: 'skipped' as const });
+    await saveCheckpoint({ step: 'completed', pages: pageCheckpoints }, { status: 'completed' });
+
+    return {
+      success: true,
+      storyId: ctx.storyId,
+      title: selectedTitle,
+      pagesCount: storyPages.length,
+      resumedFromStep,
+      message: "Story generated successfully, but images cannot be generated without a kid photo",
+    };
+  }
+
+  const imageConcurrency = Math.max(1, Math.floor(await getRemoteConfigNumber('image_generation_concurrency')));
+  functions.logger.info(`Starting image generation for ${storyPages.length} pages (concurrency: ${imageConcurrency})`);
+
+  // Pages finish out of order, so progress is driven by the number of settled pages
+  let settledImages = 0;
+  const reportImageProgress = () => {
+    settledImages++;
+    const imageProgress = 70 + Math.floor((settledImages / storyPages.length) * 25);
+    return updateStatus(`progress_${imageProgress}`, imageProgress);
+  };
+
+  const generateImageForPage = async (page: PipelineStoryPage, i: number): Promise<ImageGenerationResult> => {
+    if (page.selectedImageUrl) {
+      functions.logger.info(`Page ${i} already has an image, skipping`);
+      return { pageNum: i, success: true, imageUrl: page.selectedImageUrl };
+    }
+
+    if (!page.imagePrompt || page.imagePrompt.trim() === '') {
+      functions.logger.warn(`Skipping page ${i} - no image prompt`);
+      await savePage(i, { image: 'failed', error: "No image prompt" });
+      return { pageNum: i, success: false, error: "No image prompt" };
+    }
+
+    functions.logger.info(`Generating image for page ${i + 1}/${storyPages.length}`);
+
+    try {
+      functions.logger.info(`Calling OpenAI image generation for page ${i} (with ${MAX_IMAGE_RETRIES} retry attempts)`);
+      const base64Image = await generatePageImageWithRetry({
+        prompt: { id: OPENAI_AGENTS.STORY_PAGE_IMAGE, variables: bibleVariables },
+        input: [
+          {
+            role: "user",
+            content: [
+              { type: "input_text", text: page.imagePrompt },
+              { type: "input_image", image_url: ctx.kid.imageUrl },
+            ],
+          },
+        ],
+      }, i);
+
+      functions.logger.info(`Image generated, now saving to storage for page ${i}`);
+      const imageStorageUrl = await saveImageToStorage(
+        base64Image,
+        ctx.userId,
+        ctx.userId,
+        ctx.storyId,
+        'page',
+        i
+      );
+
+      functions.logger.info(`Image saved to storage: ${imageStorageUrl}, updating Firestore for page ${i}`);
+      page.selectedImageUrl = imageStorageUrl;
+      await savePage(i, { image: 'done', error: null });
+
+      functions.logger.info(`Successfully completed image generation for page ${i + 1}/${storyPages.length}`);
+      return { pageNum: i, success: true, imageUrl: imageStorageUrl };
+    } catch (imageError) {
+      const message = imageError instanceof Error ? imageError.message : "Unknown error";
+      functions.logger.error(`ERROR: Failed to generate image for page ${i}/${storyPages.length}:`, imageError);
+      await savePage(i, { image: 'failed', error: message });
+      // Other pages keep going even if this one failed
+      return { pageNum: i, success: false, error: message };
+    }
+  };
+
+  const imageGenerationResults = await mapWithConcurrency(storyPages, imageConcurrency, async (page, i) => {
+    try {
+      return await generateImageForPage(page, i);
+    } finally {
+      await reportImageProgress();
+    }
+  });
+
+  const successfulImages = imageGenerationResults.filter(r => r.success).length;
+  const allImagesSucceeded = successfulImages === storyPages.length;
+  functions.logger.info(`Completed image generation loop. Results: ${imageGenerationResults.length} total, ${successfulImages} successful`);
+
+  if (allImagesSucceeded) {
+    await saveCheckpoint({ step: 'images_generated' });
+
+    // STEP 8: Mark story as complete (100% progress)
+    functions.logger.info("Step 8: Marking story as complete");
+    await saveCheckpoint({ step: 'completed' }, { status: 'completed', progress: 100 });
+
+    // STEP 9: Send email notification to user (only if ALL images succeeded)
+    functions.logger.info("Step 9: All images generated successfully, sending story ready email notification");
+    await sendStoryReadyEmail(ctx, selectedTitle);
+  } else {
+    // The checkpoint stays at 'prompts_generated' with the failed pages in its page states,
+    // so resumeStoryGeneration retries just those pages
+    const failedPages = imageGenerationResults.filter(r => !r.success).map(r => r.pageNum);
+    functions.logger.warn(`Not all images generated (${successfulImages}/${storyPages.length}), marking the story failed so it can be resumed`, { failedPages });
+    await saveCheckpoint(
+      { lastError: `Images failed for pages ${failedPages.join(', ')}` },
+      { status: 'failed', progress: 95 }
+    );
+  }
+
+  return {
+    success: true,
+    storyId: ctx.storyId,
+    title: selectedTitle,
+    pagesCount: storyPages.length,
+    imagesGenerated: successfulImages,
+    imageResults: imageGenerationResults,
+    resumedFromStep,
+    message: `Story generated successfully with ${successfulImages}/${storyPages.length} images`,
+  };
+}
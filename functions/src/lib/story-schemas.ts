@@ -0,0 +1,231 @@
+/**
+ * Story Schemas
+ * Zod schemas for the titles and pages responses of the story agents,
+ * plus a bounded repair loop that sends validation errors back to the agent
+ *
+ * Page types mirror the PageType enum in models/domain-models.ts.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { z } from "zod";
+import { generateText, TextGenerationRequest } from "../text-generation";
+
+// How many times a response that fails validation is sent back to the agent for repair
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Values of PageType in models/domain-models.ts
+export const PAGE_TYPES = ['cover', 'normal', 'good_choice', 'bad_choice', 'good', 'bad'] as const;
+
+export type StoryPageType = typeof PAGE_TYPES[number];
+
+// Spellings the agents have been seen to use for the flow pages
+const PAGE_TYPE_ALIASES: Record<string, StoryPageType> = {
+  goodflow: 'good',
+  good_flow: 'good',
+  badflow: 'bad',
+  bad_flow: 'bad',
+};
+
+function normalizePageType(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const normalized = value.trim().toLowerCase().replace(/[-\s]+/g, '_');
+  return PAGE_TYPE_ALIASES[normalized] || normalized;
+}
+
+export const StoryPageTypeSchema = z.preprocess(normalizePageType, z.enum(PAGE_TYPES));
+
+/**
+ * A single page as returned by STORY_PAGES_TEXT
+ * The agent writes the page text as `text`; `storyText` and `pageText` are accepted too
+ */
+export const StoryPageResponseSchema = z
+  .object({
+    pageNum: z.number().int().nonnegative().optional(),
+    pageType: StoryPageTypeSchema,
+    text: z.string().optional(),
+    storyText: z.string().optional(),
+    pageText: z.string().optional(),
+    imagePrompt: z.string().optional(),
+  })
+  .transform(page => ({
+    pageNum: page.pageNum,
+    pageType: page.pageType,
+    storyText: (page.storyText || page.text || page.pageText || '').trim(),
+    imagePrompt: page.imagePrompt || '',
+  }))
+  .refine(page => page.storyText.length > 0, { message: "Page text is required (use the `text` field)" });
+
+export type StoryPageResponse = z.infer<typeof StoryPageResponseSchema>;
+
+/**
+ * Agents answer with either {"<field>": [...]} or the bare array - validate the array either way
+ * so issues point at the actual item instead of an unmatched union
+ */
+function unwrapField(value: unknown, field: string): unknown {
+  if (value && typeof value === 'object' && !Array.isArray(value) && field in value) {
+    return (value as Record<string, unknown>)[field];
+  }
+  return value;
+}
+
+/**
+ * Check the flat story structure:
+ * cover first, normal pages, one good_choice and one bad_choice, then the good and bad flows
+ */
+function checkStoryStructure(pages: StoryPageResponse[], ctx: z.RefinementCtx) {
+  const count = (type: StoryPageType) => pages.filter(p => p.pageType === type).length;
+
+  if (pages.length === 0 || pages[0].pageType !== 'cover') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The first page must be the cover page" });
+  }
+  if (count('cover') > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "There must be exactly one cover page" });
+  }
+  if (count('normal') < 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The story needs at least one normal page" });
+  }
+  if (count('good_choice') !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `There must be exactly one good_choice page (found ${count('good_choice')})` });
+  }
+  if (count('bad_choice') !== 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `There must be exactly one bad_choice page (found ${count('bad_choice')})` });
+  }
+  if (count('good') < 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The good flow needs at least one good page" });
+  }
+  if (count('bad') < 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The bad flow needs at least one bad page" });
+  }
+}
+
+/**
+ * STORY_PAGES_TEXT response: {"pages": [...]} or a bare array of pages
+ */
+export const StoryPagesResponseSchema = z
+  .preprocess(value => unwrapField(value, 'pages'), z.array(StoryPageResponseSchema))
+  .superRefine(checkStoryStructure)
+  .transform(pages => pages.map((page, index) => ({ ...page, pageNum: index })));
+
+/**
+ * STORY_TITLES_TEXT response: {"titles": [...]} or a bare array of titles
+ */
+export const StoryTitlesResponseSchema = z
+  .preprocess(value => unwrapField(value, 'titles'), z.array(z.string()))
+  .transform(titles => titles.map(title => title.trim()).filter(title => title.length > 0))
+  .refine(titles => titles.length > 0, { message: "At least one title is required" });
+
+/**
+ * Single page rewrite response: {"text": "..."}, {"page": {...}} or {"pages": [one page]}
+ */
+export const StoryPageTextResponseSchema = z
+  .preprocess(value => {
+    const unwrapped = unwrapField(unwrapField(value, 'page'), 'pages');
+    return Array.isArray(unwrapped) && unwrapped.length === 1 ? unwrapped[0] : unwrapped;
+  }, z.object({
+    text: z.string().optional(),
+    storyText: z.string().optional(),
+    pageText: z.string().optional(),
+  }))
+  .transform(page => (page.text || page.storyText || page.pageText || '').trim())
+  .refine(text => text.length > 0, { message: "Page text is required (use the `text` field)" });
+
+/**
+ * Thrown when the agent output is still invalid after all repair attempts
+ */
+export class StoryValidationError extends Error {
+  constructor(message: string, public readonly issues: string[], public readonly lastResponse: string) {
+    super(message);
+    this.name = 'StoryValidationError';
+  }
+}
+
+/**
+ * Parse JSON from an agent response, ignoring markdown code fences around it
+ */
+export function parseAgentJson(text: string): unknown {
+  const cleaned = text.replace(/```(json)?/g, '').trim();
+  return JSON.parse(cleaned);
+}
+
+/**
+ * Validate an agent response against a schema
+ * Returns the parsed value, or a list of readable issues when it is invalid
+ */
+export function validateAgentResponse<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { data: T | null; issues: string[] } {
+  let json: unknown;
+  try {
+    json = parseAgentJson(text);
+  } catch (error) {
+    return { data: null, issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { data: result.data, issues: [] };
+  }
+  return {
+    data: null,
+    issues: result.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message),
+  };
+}
+
+function buildRepairInput(originalInput: string, previousResponse: string, issues: string[]): string {
+  return `${originalInput}
+
+Your previous response did not match the required JSON format.
+Validation errors:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${previousResponse}
+
+Return the corrected response as JSON only, keeping the same story.`;
+}
+
+/**
+ * Generate text with an agent and validate it against a schema
+ * Invalid responses are sent back to the same agent with the validation errors,
+ * up to MAX_REPAIR_ATTEMPTS times, before a StoryValidationError is thrown
+ *
+ * @param request - The text generation request
+ * @param schema - Schema the parsed response must match
+ * @param label - Response name used in logs and errors (e.g. "story pages")
+ */
+export async function generateValidatedText<T>(
+  request: TextGenerationRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string,
+  maxRepairAttempts: number = MAX_REPAIR_ATTEMPTS
+): Promise<{ data: T; text: string; repairAttempts: number }> {
+  let text = await generateText(request);
+
+  for (let attempt = 0; ; attempt++) {
+    const result = validateAgentResponse(text, schema);
+    if (result.issues.length === 0) {
+      if (attempt > 0) {
+        functions.logger.info(`Repaired ${label} response after ${attempt} attempt(s)`);
+      }
+      return { data: result.data, text, repairAttempts: attempt };
+    }
+
+    functions.logger.warn(`Invalid ${label} response (attempt ${attempt + 1}/${maxRepairAttempts + 1})`, { issues: result.issues });
+
+    if (attempt >= maxRepairAttempts) {
+      throw new StoryValidationError(
+        `Invalid ${label} response after ${maxRepairAttempts} repair attempts: ${result.issues.join('; ')}`,
+        result.issues,
+        text
+      );
+    }
+
+    text = await generateText({
+      ...request,
+      input: buildRepairInput(request.input, text, result.issues),
+    });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * TTS Provider
+ * Backend used to narrate story pages
+ *
+ * The provider is selected with the TTS_PROVIDER environment variable:
+ * - "openai": OpenAI speech API, requires OPENAI_API_KEY
+ * - "fake": silent WAV files for the functions emulator and jest
+ * Without the variable it follows AI_PROVIDER, so AI_PROVIDER=fake also narrates offline.
+ */
+
+import { getAIProviderName } from "./ai-provider";
+import { OpenAITTSProvider } from "./openai-tts-provider";
+import { FakeTTSProvider } from "./fake-tts-provider";
+
+export type NarrationLanguage = 'en' | 'he';
+
+export interface TTSRequest {
+  text: string;
+  language: NarrationLanguage;
+}
+
+export interface TTSResult {
+  audio: Buffer;
+  contentType: string;
+  // File extension used in the storage path, e.g. "mp3"
+  extension: string;
+}
+
+export interface TTSProvider {
+  readonly name: TTSProviderName;
+  synthesize(request: TTSRequest): Promise<TTSResult>;
+}
+
+export const TTS_PROVIDER_NAMES = ['openai', 'fake'] as const;
+
+export type TTSProviderName = typeof TTS_PROVIDER_NAMES[number];
+
+let providerOverride: TTSProvider | null = null;
+
+/**
+ * Get the provider name from TTS_PROVIDER, defaulting by AI_PROVIDER
+ */
+export function getTTSProviderName(): TTSProviderName {
+  const value = (process.env.TTS_PROVIDER || '').trim().toLowerCase();
+  if (!value) {
+    return getAIProviderName();
+  }
+  if (!(TTS_PROVIDER_NAMES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown TTS_PROVIDER "${value}". Expected one of: ${TTS_PROVIDER_NAMES.join(', ')}`);
+  }
+  return value as TTSProviderName;
+}
+
+/**
+ * Get the active TTS provider
+ * Resolved on every call so tests can switch TTS_PROVIDER between cases
+ */
+export function getTTSProvider(): TTSProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+  return getTTSProviderName() === 'fake' ? new FakeTTSProvider() : new OpenAITTSProvider();
+}
+
+/**
+ * Replace the active provider (tests only). Pass null to go back to TTS_PROVIDER.
+ */
+export function setTTSProviderForTesting(provider: TTSProvider | null): void {
+  providerOverride = provider;
+}
@@ -83,5 +83,37 @@ export async function saveImageToStorage(
   return `https://storage.googleapis.com/${bucket.name}/${filePath}`;
 }
 
+/**
+ * Helper: Save page narration audio to Firebase Storage, next to the page image
+ */
+export async function saveAudioToStorage(
+  audio: Buffer,
+  accountId: string,
+  userId: string,
+  storyId: string,
+  pageNum: number,
+  contentType: string,
+  extension: string
+): Promise<string> {
+  const filePath = `accounts/${accountId}/users/${userId}/stories/${storyId}/pages/page-${pageNum}.${extension}`;
+
+  const bucket = admin.storage().bucket();
+  const file = bucket.file(filePath);
+
+  await file.save(audio, {
+    metadata: {
+      contentType,
+      metadata: {
+        uploadedAt: new Date().toISOString(),
+      },
+    },
+  });
+
+  await file.makePublic();
+
+  // The path is reused when a page is narrated again, the version keeps browsers from playing the old audio
+  return `https://storage.googleapis.com/${bucket.name}/${filePath}?v=${Date.now()}`;
+}
+
 export { admin };
 
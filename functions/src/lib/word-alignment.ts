@@ -0,0 +1,198 @@
+/**
+ * Word Alignment
+ * Forced alignment of page text to its narration, for the reader's read-along highlighting
+ *
+ * The backend is selected with the ALIGNMENT_PROVIDER environment variable:
+ * - "openai": word timestamps from the OpenAI transcription API, matched back to the page text
+ * - "estimate": timings spread over the audio by word length, offline and deterministic
+ * Without the variable it follows AI_PROVIDER: "estimate" with the fake provider, "openai" otherwise.
+ *
+ * Timings are in seconds from the start of the clip. charIndex points at the first character
+ * of the word in the page text, so the reader can highlight the text exactly as it is written.
+ */
+
+import * as functions from "firebase-functions/v1";
+import { getAIProviderName } from "./ai-provider";
+import { OpenAIAlignmentProvider } from "./openai-alignment-provider";
+import { estimateNarrationMs } from "./fake-tts-provider";
+import type { NarrationLanguage } from "./tts-provider";
+
+export interface WordTiming {
+  start: number;
+  end: number;
+  charIndex: number;
+}
+
+export interface TextWord {
+  word: string;
+  charIndex: number;
+}
+
+export interface AlignmentRequest {
+  audio: Buffer;
+  contentType: string;
+  text: string;
+  language: NarrationLanguage;
+}
+
+export interface AlignmentProvider {
+  readonly name: AlignmentProviderName;
+  align(request: AlignmentRequest): Promise<WordTiming[]>;
+}
+
+export const ALIGNMENT_PROVIDER_NAMES = ['openai', 'estimate'] as const;
+
+export type AlignmentProviderName = typeof ALIGNMENT_PROVIDER_NAMES[number];
+
+let providerOverride: AlignmentProvider | null = null;
+
+/**
+ * Split page text into words, keeping attached punctuation with its word
+ */
+export function tokenizeWords(text: string): TextWord[] {
+  return Array.from(text.matchAll(/\S+/g)).map(match => ({ word: match[0], charIndex: match.index ?? 0 }));
+}
+
+/**
+ * Duration of a PCM WAV clip in seconds, or null when the audio is not a WAV file
+ */
+export function wavDurationSeconds(audio: Buffer): number | null {
+  if (audio.length < 44 || audio.toString('ascii', 0, 4) !== 'RIFF' || audio.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+  const byteRate = audio.readUInt32LE(28);
+  const dataSize = audio.readUInt32LE(40);
+  return byteRate > 0 ? dataSize / byteRate : null;
+}
+
+/**
+ * Spread the words over the duration, each taking time in proportion to its length
+ */
+export function estimateWordTimings(text: string, durationSeconds: number): WordTiming[] {
+  const words = tokenizeWords(text);
+  // The +1 stands for the short pause after each word
+  const totalWeight = words.reduce((sum, word) => sum + word.word.length + 1, 0);
+  let elapsed = 0;
+
+  return words.map(word => {
+    const timing = {
+      start: round(elapsed),
+      end: round(elapsed + (durationSeconds * word.word.length) / totalWeight),
+      charIndex: word.charIndex,
+    };
+    elapsed += (durationSeconds * (word.word.length + 1)) / totalWeight;
+    return timing;
+  });
+}
+
+// Letters and digits only, so "Noa," in the text matches "noa" in the transcript
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * Match transcribed words back to the words of the page text
+ * Every text word gets a timing: matched words take the transcript times, words the
+ * transcription missed or misheard share the gap between their matched neighbours.
+ *
+ * @param lookahead - How many transcript words to skip looking for a match
+ */
+export function matchTranscriptWords(
+  text: string,
+  transcript: Array<{ word: string; start: number; end: number }>,
+  durationSeconds: number,
+  lookahead = 3
+): WordTiming[] {
+  const words = tokenizeWords(text);
+  const matched: Array<{ start: number; end: number } | null> = words.map(() => null);
+
+  let cursor = 0;
+  words.forEach((word, index) => {
+    const normalized = normalizeWord(word.word);
+    for (let offset = 0; offset <= lookahead && cursor + offset < transcript.length; offset++) {
+      const candidate = transcript[cursor + offset];
+      if (normalized && normalizeWord(candidate.word) === normalized) {
+        matched[index] = { start: candidate.start, end: candidate.end };
+        cursor += offset + 1;
+        return;
+      }
+    }
+  });
+
+  return words.map((word, index) => {
+    const match = matched[index];
+    if (match) {
+      return { start: round(match.start), end: round(match.end), charIndex: word.charIndex };
+    }
+
+    // Share the gap between the previous and next matched words among the unmatched run
+    let runStart = index;
+    while (runStart > 0 && !matched[runStart - 1]) runStart--;
+    let runEnd = index;
+    while (runEnd < words.length - 1 && !matched[runEnd + 1]) runEnd++;
+    const gapStart = runStart > 0 ? matched[runStart - 1]!.end : 0;
+    const gapEnd = runEnd < words.length - 1 ? matched[runEnd + 1]!.start : durationSeconds;
+    const step = Math.max(0, gapEnd - gapStart) / (runEnd - runStart + 1);
+    const position = index - runStart;
+    return { start: round(gapStart + step * position), end: round(gapStart + step * (position + 1)), charIndex: word.charIndex };
+  });
+}
+
+export class EstimateAlignmentProvider implements AlignmentProvider {
+  readonly name = 'estimate' as const;
+
+  async align(request: AlignmentRequest): Promise<WordTiming[]> {
+    const duration = wavDurationSeconds(request.audio) ?? estimateNarrationMs(request.text) / 1000;
+    return estimateWordTimings(request.text, duration);
+  }
+}
+
+/**
+ * Get the provider name from ALIGNMENT_PROVIDER, defaulting by AI_PROVIDER
+ */
+export function getAlignmentProviderName(): AlignmentProviderName {
+  const value = (process.env.ALIGNMENT_PROVIDER || '').trim().toLowerCase();
+  if (!value) {
+    return getAIProviderName() === 'fake' ? 'estimate' : 'openai';
+  }
+  if (!(ALIGNMENT_PROVIDER_NAMES as readonly string[]).includes(value)) {
+    throw new Error(`Unknown ALIGNMENT_PROVIDER "${value}". Expected one of: ${ALIGNMENT_PROVIDER_NAMES.join(', ')}`);
+  }
+  return value as AlignmentProviderName;
+}
+
+/**
+ * Get the active alignment provider
+ * Resolved on every call so tests can switch ALIGNMENT_PROVIDER between cases
+ */
+export function getAlignmentProvider(): AlignmentProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+  return getAlignmentProviderName() === 'estimate' ? new EstimateAlignmentProvider() : new OpenAIAlignmentProvider();
+}
+
+/**
+ * Replace the active provider (tests only). Pass null to go back to ALIGNMENT_PROVIDER.
+ */
+export function setAlignmentProviderForTesting(provider: AlignmentProvider | null): void {
+  providerOverride = provider;
+}
+
+/**
+ * Align the text to its audio with the active provider
+ * Returns null when alignment fails, the page is then narrated without highlighting
+ */
+export async function alignWords(request: AlignmentRequest): Promise<WordTiming[] | null> {
+  const provider = getAlignmentProvider();
+  try {
+    return await provider.align(request);
+  } catch (error) {
+    functions.logger.warn(`Alignment provider "${provider.name}" failed, saving the audio without word timings:`, error);
+    return null;
+  }
+}
@@ -1,3 +1,6 @@
+import { getAIProvider } from "./lib/ai-provider";
+import { AIUsage, recordAIUsage } from "./lib/ai-usage";
+
 /**
  * Text Generation Request Body
  */
@@ -10,73 +13,23 @@ export interface TextGenerationRequest {
 }
 
 /**
- * Generate text using OpenAI Responses API
+ * Generate text using the configured AI provider (OpenAI Responses API by default)
  * @param request - The text generation request
  * @returns The generated text content
  */
 export async function generateText(
   request: TextGenerationRequest
 ): Promise<string> {
+  const usage: AIUsage[] = [];
   try {
-    // Get API key from environment variables
-    const apiKey = process.env.OPENAI_API_KEY;
-    
-    if (!apiKey) {
-      throw new Error("OPENAI_API_KEY is not set");
-    }
-
-    // Make POST request to OpenAI Responses API
-    const response = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        prompt: {
-          id: request.prompt.id,
-          variables: request.prompt.variables,
-        },
-        input: request.input,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData: any = await response.json().catch(() => ({}));
-      throw new Error(
-        `OpenAI API error: ${response.status} - ${errorData.error?.message || response.statusText}`
-      );
-    }
-
-    const data: any = await response.json();
-
-    // Log the response structure for debugging
-    console.log("OpenAI API response structure:", JSON.stringify(data, null, 2));
-
-    // Extract text from response: output[0].content[0].text
-    if (
-      data.output &&
-      Array.isArray(data.output) &&
-      data.output.length > 0 &&
-      data.output[0] &&
-      data.output[0].content &&
-      Array.isArray(data.output[0].content) &&
-      data.output[0].content.length > 0 &&
-      data.output[0].content[0] &&
-      data.output[0].content[0].text &&
-      typeof data.output[0].content[0].text === 'string' &&
-      data.output[0].content[0].text.trim().length > 0
-    ) {
-      return data.output[0].content[0].text;
-    }
-
-    // Provide detailed error information
-    throw new Error(`No valid text content found in response. Response structure: ${JSON.stringify(data, null, 2)}`);
+    return await getAIProvider().generateText(request, reported => usage.push(reported));
   } catch (error) {
     console.error("Error generating text:", error);
     throw new Error(
       `Failed to generate text: ${error instanceof Error ? error.message : "Unknown error"}`
     );
+  } finally {
+    // Also recorded when the response was billed but could not be used
+    await recordAIUsage('text', request.prompt.id, usage[0] || null);
   }
 }
-
@@ -0,0 +1,18 @@
+/**
+ * Unit tests of the web app
+ * The functions have their own jest config in functions/, the security rules tests need the
+ * emulators and run with `npm run test:rules`
+ */
+module.exports = {
+  testEnvironment: 'node',
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/functions/', '<rootDir>/rules-tests/'],
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: { module: 'commonjs', esModuleInterop: true, strict: true, jsx: 'react-jsx' } }],
+  },
+  moduleNameMapper: {
+    '^@/models$': '<rootDir>/models',
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'json'],
+  testTimeout: 30000,
+};
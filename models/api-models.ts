@@ -115,4 +115,71 @@ export const UpdateUserDataSchema = z.object({
 export const GetKidResponseSchema = z.object({
   kid: KidDetailsSchema,
   stories: z.array(z.unknown()).optional(),
-});
\ No newline at end of file
+});
+/**
+ * Schema for a printed book shipping address
+ */
+export const ShippingAddressSchema = z.object({
+  fullName: z.string().trim().min(1, "Full name is required").max(300),
+  addressLine1: z.string().trim().min(1, "Address is required").max(300),
+  addressLine2: z.string().trim().max(300).optional(),
+  city: z.string().trim().min(1, "City is required").max(120),
+  region: z.string().trim().max(300).optional(),
+  postalCode: z.string().trim().min(1, "Postal code is required").max(60),
+  countryCode: z.string().trim().toUpperCase().length(2, "Country must be a two-letter code"),
+});
+
+/**
+ * Schema for opening a printed book order
+ * Prices are not part of the request, the server computes the total
+ */
+export const PrintOrderCreateRequestSchema = z.object({
+  storyId: z.string().min(1, "Story ID is required"),
+  format: z.enum(['hardcover', 'softcover']),
+  quantity: z.number().int().min(1).max(10),
+  shippingAddress: ShippingAddressSchema,
+  promoCode: z.string().trim().max(32).optional(),
+});
+
+export const CreditsOrderCreateRequestSchema = z.object({
+  type: z.literal('credits'),
+  packId: z.string().min(1, "Credit pack is required"),
+  promoCode: z.string().trim().max(32).optional(),
+});
+
+export const PromoCodeCreateRequestSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z0-9_-]{3,32}$/, "Use 3-32 letters, digits, - or _"),
+  type: z.enum(['free_credits', 'percent_off']),
+  value: z.number().int().min(1),
+  description: z.string().trim().max(200).optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  // Why the admin made the change, kept in the audit log
+  reason: z.string().trim().max(500).optional(),
+}).refine(promo => promo.type !== 'percent_off' || promo.value <= 100, {
+  message: "A percentage must be between 1 and 100",
+  path: ['value'],
+});
+
+export const PromoCodeUpdateRequestSchema = z.object({
+  code: z.string().min(1),
+  active: z.boolean().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const StoryShareLinkCreateRequestSchema = z.object({
+  // Missing or null for a link that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+  passcode: z.string().trim().min(8, "The passcode needs at least 8 characters").max(32).optional(),
+});
+
+export const KidShareUpdateRequestSchema = z.object({
+  email: z.string().trim().email(),
+  permission: z.enum(['read', 'write']),
+});
+
+export const KidShareInvitationResponseRequestSchema = z.object({
+  action: z.enum(['accept', 'decline']),
+});
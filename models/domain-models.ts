@@ -70,10 +70,73 @@ export interface Story {
   pages: StoryPage[];
   titles?: string[] | null;
   endOfStorySelections?: EndOfStorySelection[];
+  checkpoint?: StoryGenerationCheckpoint; // Written by the generateFullStory pipeline, used to resume a failed run
+  graph?: StoryGraph | null; // Branching stories only - flat stories use the GOOD_CHOICE/BAD_CHOICE page order
+  characterBible?: StoryCharacter[]; // Passed to every image prompt and image so characters look the same on every page
+  reviewCharacters?: boolean; // Generation pauses after the character bible until the parent continues it
   createdAt: Date;
   lastUpdated: Date;
 }
 
+// Steps of the server-side story generation pipeline, in order
+export type StoryGenerationStep =
+  | 'created'
+  | 'title_selected'
+  | 'pages_generated'
+  | 'characters_generated'
+  | 'prompts_generated'
+  | 'images_generated'
+  | 'completed';
+
+// Character description shared by all illustrations of a story
+export interface StoryCharacter {
+  name: string;
+  role: string; // e.g. "main character", "mom", "teacher"
+  appearance: string;
+}
+
+// Per-page progress of the generation pipeline
+export interface StoryGenerationPageCheckpoint {
+  pageNum: number;
+  prompt: 'pending' | 'done' | 'failed';
+  image: 'pending' | 'done' | 'failed' | 'skipped';
+  error?: string | null;
+}
+
+// Generation checkpoint stored on the story document
+export interface StoryGenerationCheckpoint {
+  step: StoryGenerationStep;
+  titles?: string[];
+  selectedTitle?: string;
+  pages?: StoryGenerationPageCheckpoint[];
+  attempts: number;
+  lastError?: string | null;
+}
+
+// Choice edge of a branching story
+export interface StoryGraphChoice {
+  id: string;
+  label: string; // Choice text shown to the reader
+  targetNodeId: string; // Node the choice leads to
+  choicePageNum?: number; // GOOD_CHOICE/BAD_CHOICE page holding the choice text and illustration
+  kind?: 'good' | 'bad';
+}
+
+// Page node of a branching story
+export interface StoryGraphNode {
+  id: string;
+  pageNum: number; // Index into story.pages
+  next?: string | null; // Following node when the page has no choices
+  choices?: StoryGraphChoice[]; // Decision point - the reader picks one of these after the page
+  ending?: boolean; // The story ends after this page
+}
+
+// Branching story graph - pages are nodes and choices are edges
+export interface StoryGraph {
+  startNodeId: string;
+  nodes: Record<string, StoryGraphNode>;
+}
+
 // Story page model
 export interface StoryPage {
   pageType: PageType;
@@ -82,6 +145,24 @@ export interface StoryPage {
   selectedImageUrl?: string | null;
   imagesUrls?: string[];
   imagePrompt: string;
+  audioUrl?: string | null; // Narration of the page text
+  wordTimings?: WordTiming[] | null; // When each word is spoken in audioUrl, for read-along highlighting
+  revisions?: StoryPageRevision[]; // Earlier texts of the page, oldest first
+}
+
+// Time span of one word of the page text in its narration
+export interface WordTiming {
+  start: number; // Seconds from the start of the audio
+  end: number;
+  charIndex: number; // First character of the word in storyText
+}
+
+// Text of a page before it was regenerated
+export interface StoryPageRevision {
+  storyText: string;
+  imagePrompt: string;
+  instruction?: string | null; // Parent instruction for the regeneration that replaced this text
+  createdAt: Date;
 }
 
 interface StoryPageJson {
@@ -91,6 +172,9 @@ interface StoryPageJson {
   selectedImageUrl?: string;
   imagesUrls?: string[];
   imagePrompt?: string;
+  audioUrl?: string | null;
+  wordTimings?: WordTiming[] | null;
+  revisions?: Array<Partial<StoryPageRevision>>;
 }
 
 // Story generation settings
@@ -137,7 +221,13 @@ export enum StoryStatus {
   PROGRESS60 = '60%',
   PROGRESS70 = '70%',
   PROGRESS80 = '80%',
-  PROGRESS90 = '90%'
+  PROGRESS90 = '90%',
+  // Server-side generation stopped before completing - can be resumed from its checkpoint
+  FAILED = 'failed',
+  // Text and character bible are ready, images start once the parent reviews the characters
+  AWAITING_CHARACTER_REVIEW = 'awaiting_character_review',
+  // Generated text failed the child-safety review, the story is held until it is reviewed
+  NEEDS_REVIEW = 'needs_review'
 }
 
 // Page type enum
@@ -150,6 +240,234 @@ export enum PageType {
   GOOD_CHOICE = 'good_choice'
 }
 
+// Printed book formats
+export type PrintFormat = 'hardcover' | 'softcover';
+
+// Print order status enum, an order only moves forward through these
+export enum PrintOrderStatus {
+  // Order saved and the PayPal order opened, waiting for the buyer to pay
+  CREATED = 'created',
+  // Payment captured
+  PAID = 'paid',
+  // The book file was accepted by the print vendor
+  SENT_TO_PRINTER = 'sent_to_printer',
+  // The vendor shipped the books
+  SHIPPED = 'shipped'
+}
+
+// Shipping address of a print order, the fields PayPal collects for shipping
+export interface ShippingAddress {
+  fullName: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  // State or district, optional where the country has none
+  region?: string;
+  postalCode: string;
+  countryCode: string;
+}
+
+// Printed book order, stored in orders_{environment}
+export interface PrintOrder {
+  id: string;
+  // Missing on orders saved before credit packs were sold
+  type?: 'print';
+  accountId: string;
+  storyId: string;
+  storyTitle: string;
+  format: PrintFormat;
+  quantity: number;
+  shippingAddress: ShippingAddress;
+  // Amounts in the currency's major unit as PayPal expects them ("149.00")
+  currency: string;
+  unitPrice: string;
+  shipping: string;
+  total: string;
+  status: PrintOrderStatus;
+  // percent_off code used at checkout and the amount it took off
+  promoCode?: string;
+  discount?: string;
+  paypalOrderId?: string;
+  paypalCaptureId?: string;
+  // Every refund or reversal PayPal reported for the capture, and their total ("49.00")
+  paypalRefundIds?: string[];
+  refundedAmount?: string;
+  vendorOrderId?: string;
+  trackingNumber?: string;
+  createdAt: Date;
+  paidAt?: Date;
+  sentToPrinterAt?: Date;
+  shippedAt?: Date;
+  refundedAt?: Date;
+  lastUpdated: Date;
+}
+
+// Kinds of entries in an account's credit ledger
+export type CreditEntryType = 'purchase' | 'grant' | 'consumption' | 'refund';
+
+// A story generation reserves its credit, then consumes it or gets it refunded
+export type CreditReservationStatus = 'reserved' | 'consumed' | 'refunded';
+
+// Entry in credits_{environment}/{accountId}/ledger, amount is negative for consumption and for refunded purchases
+export interface CreditLedgerEntry {
+  id: string;
+  type: CreditEntryType;
+  amount: number;
+  balanceAfter: number;
+  status?: CreditReservationStatus;
+  storyId?: string;
+  orderId?: string;
+  reservationId?: string;
+  reason?: string;
+  createdAt: Date;
+}
+
+// Credit pack purchase, stored in orders_{environment} next to the print orders
+// Only moves from created to paid, the credits are added in the same transaction
+export interface CreditsOrder {
+  id: string;
+  type: 'credits';
+  accountId: string;
+  packId: string;
+  credits: number;
+  currency: string;
+  total: string;
+  status: PrintOrderStatus.CREATED | PrintOrderStatus.PAID;
+  promoCode?: string;
+  discount?: string;
+  paypalOrderId?: string;
+  paypalCaptureId?: string;
+  // Every refund or reversal PayPal reported for the capture and their total ("14.50"),
+  // the credits are taken back in proportion to it
+  paypalRefundIds?: string[];
+  refundedAmount?: string;
+  refundedCredits?: number;
+  createdAt: Date;
+  paidAt?: Date;
+  refundedAt?: Date;
+  lastUpdated: Date;
+}
+
+// Any order paid through PayPal
+export type CheckoutOrder = PrintOrder | CreditsOrder;
+
+// free_credits codes add credits when redeemed, percent_off codes discount an order at checkout
+export type PromoCodeType = 'free_credits' | 'percent_off';
+
+// Promo code, stored in promo_codes_{environment}/{code} with one redemptions/{accountId} per use
+export interface PromoCode {
+  // Upper case, also the document ID
+  code: string;
+  type: PromoCodeType;
+  // Credits granted, or the percentage taken off the items (1-100)
+  value: number;
+  description?: string;
+  expiresAt?: Date | null;
+  // Missing means unlimited
+  maxRedemptions?: number | null;
+  redemptionCount: number;
+  active: boolean;
+  createdBy: string;
+  createdAt: Date;
+  lastUpdated: Date;
+}
+
+// One use of a promo code by an account, stored in promo_codes_{environment}/{code}/redemptions/{accountId}
+// A percent_off code is reserved for the order it discounts when the order is created and redeemed
+// once the order is paid. Both count towards maxRedemptions.
+export interface PromoCodeRedemption {
+  accountId: string;
+  orderId: string | null;
+  // Missing on uses saved before reservations, those are redeemed
+  status?: 'reserved' | 'redeemed';
+  reservedAt?: Date;
+  // When an unpaid reservation stops holding its slot, null once redeemed
+  expiresAt?: Date | null;
+  redeemedAt?: Date;
+}
+
+// PayPal webhook event handling status, stored in payment_events_{environment}/{eventId}
+export type PaymentEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+// Public read-only link to one story, stored in story_shares_{environment}/{token}
+export interface StoryShareLink {
+  // Random and unguessable, also the document ID
+  token: string;
+  storyId: string;
+  // Owner of the story who created the link
+  accountId: string;
+  expiresAt?: Date | null;
+  // Readers must enter a passcode, only its hash is stored
+  hasPasscode: boolean;
+  revokedAt?: Date | null;
+  viewCount: number;
+  lastViewedAt?: Date | null;
+  createdAt: Date;
+}
+
+// What an account a kid is shared with may do: 'write' edits the kid and its stories, 'read' only views them
+export type KidSharePermission = 'read' | 'write';
+
+// A kid shared with another account by email, stored in users_{env}/{kidId}/sharedWith
+export interface KidShare {
+  email: string;
+  permission: KidSharePermission;
+  // Account that shared the kid
+  sharedBy: string;
+  sharedAt?: Date;
+}
+
+// Expired is never stored, a pending invitation is reported as expired once expiresAt passes
+export type KidShareInvitationStatus = 'pending' | 'accepted' | 'declined' | 'expired';
+
+// Invitation to share a kid, access is granted when the invited email accepts it
+export interface KidShareInvitation {
+  id: string;
+  kidId: string;
+  kidName: string;
+  // Invited email, lowercased
+  email: string;
+  permission: KidSharePermission;
+  // Account that sent the invitation and gets an email when it is accepted
+  invitedBy: string;
+  invitedByName: string;
+  invitedByEmail: string | null;
+  // Language of the invitation and acceptance emails, the inviter's at the time of inviting
+  language: Language;
+  status: KidShareInvitationStatus;
+  expiresAt: Date;
+  respondedAt?: Date | null;
+  createdAt: Date;
+}
+
+// Admin panel actions that are written to the audit log
+export type AdminAuditAction = 'account.update' | 'order.update' | 'promo_code.create' | 'promo_code.update';
+
+export type AdminAuditTargetType = 'account' | 'order' | 'promo_code';
+
+// A changed field, null when the field was not set
+export interface AdminAuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+// One admin action, stored in admin_audit_{environment}/{entryId}
+// Entries are only added by the server, never changed or deleted
+export interface AdminAuditEntry {
+  id: string;
+  action: AdminAuditAction;
+  // Admin account that made the change
+  actorUid: string;
+  actorEmail: string | null;
+  targetType: AdminAuditTargetType;
+  // Account UID, order ID or promo code
+  targetId: string;
+  // Only the fields the action changed
+  changes: Record<string, AdminAuditChange>;
+  reason: string | null;
+  createdAt: Date;
+}
+
 /**
  * KidDetailsUtils - Utilities for working with KidDetails
  * Provides methods to get and set the name property based on the names array
@@ -259,6 +577,62 @@ export const Story = {
       lastUpdated: new Date()
     };
   },
+  // Parse a story graph, dropping edges to unknown nodes
+  // Returns null when the graph is missing or unusable so the story falls back to the flat reader
+  storyGraphFromJson(json: unknown, pageCount: number): StoryGraph | null {
+    if (!json || typeof json !== 'object') return null;
+    const data = json as Partial<StoryGraph>;
+    if (typeof data.startNodeId !== 'string' || !data.nodes || typeof data.nodes !== 'object') return null;
+
+    const rawNodes = Object.values(data.nodes).filter((node): node is StoryGraphNode =>
+      !!node && typeof node.id === 'string' &&
+      typeof node.pageNum === 'number' && node.pageNum >= 0 && node.pageNum < pageCount
+    );
+    const nodeIds = new Set(rawNodes.map(node => node.id));
+    if (!nodeIds.has(data.startNodeId)) return null;
+
+    const nodes: Record<string, StoryGraphNode> = {};
+    for (const node of rawNodes) {
+      const choices = Array.isArray(node.choices)
+        ? node.choices
+            .filter(choice => !!choice && nodeIds.has(choice.targetNodeId))
+            .map((choice, index) => ({
+              id: choice.id || `${node.id}-${index}`,
+              label: choice.label || '',
+              targetNodeId: choice.targetNodeId,
+              choicePageNum: typeof choice.choicePageNum === 'number' && choice.choicePageNum < pageCount ? choice.choicePageNum : undefined,
+              kind: choice.kind === 'good' || choice.kind === 'bad' ? choice.kind : undefined,
+            }))
+        : [];
+      nodes[node.id] = {
+        id: node.id,
+        pageNum: node.pageNum,
+        next: node.next && nodeIds.has(node.next) ? node.next : null,
+        choices: choices.length > 0 ? choices : undefined,
+        ending: Boolean(node.ending) || (choices.length === 0 && !(node.next && nodeIds.has(node.next))),
+      };
+    }
+
+    return { startNodeId: data.startNodeId, nodes };
+  },
+
+  // Parse a character bible, dropping entries without a name
+  characterBibleFromJson(json: unknown): StoryCharacter[] | undefined {
+    if (!Array.isArray(json)) return undefined;
+    return json
+      .filter((item): item is Partial<StoryCharacter> => !!item && typeof item === 'object' && typeof item.name === 'string' && item.name.trim() !== '')
+      .map(item => ({
+        name: item.name!.trim(),
+        role: item.role || '',
+        appearance: item.appearance || '',
+      }));
+  },
+
+  // True when the story has more than the single flat GOOD_CHOICE/BAD_CHOICE fork
+  isBranching: (story: Story | null | undefined): boolean => {
+    return !!story?.graph && Object.keys(story.graph.nodes).length > 0;
+  },
+
   storyPageFromJson(json: StoryPageJson): StoryPage {
     return {
       pageType: pageTypeFromString(json.pageType || 'normal'),
@@ -266,7 +640,17 @@ export const Story = {
       pageNum: typeof json.pageNum === 'number' ? json.pageNum : 0,
       selectedImageUrl: json.selectedImageUrl,
       imagesUrls: Array.isArray(json.imagesUrls) ? json.imagesUrls : undefined,
-      imagePrompt: json.imagePrompt || ''
+      imagePrompt: json.imagePrompt || '',
+      audioUrl: json.audioUrl || null,
+      wordTimings: Array.isArray(json.wordTimings) ? json.wordTimings : null,
+      revisions: Array.isArray(json.revisions)
+        ? json.revisions.map(revision => ({
+            storyText: revision.storyText || '',
+            imagePrompt: revision.imagePrompt || '',
+            instruction: revision.instruction || null,
+            createdAt: revision.createdAt ? new Date(revision.createdAt) : new Date(),
+          }))
+        : undefined
     };
   },
   // Ensure dates are proper Date objects
@@ -322,6 +706,10 @@ export const Story = {
   // Create a story from raw data (like API response)
   fromJson: (data: Partial<Story & { pages: Partial<StoryPage>[] }>): Story | null => {
     if (!data) return null;
+
+    const pages = Array.isArray(data.pages) ? data.pages
+      .map((p: Partial<StoryPage>) => typeof p === 'object' ? Story.storyPageFromJson(p as StoryPageJson) : null)
+      .filter((p): p is StoryPage => p !== null) : [];
     
     return {
       id: data.id || '',
@@ -334,9 +722,7 @@ export const Story = {
       disadvantages: data.disadvantages || '',
       selectedTitle: data.selectedTitle || null,
       status: data.status || StoryStatus.INCOMPLETE,
-      pages: Array.isArray(data.pages) ? data.pages
-        .map((p: Partial<StoryPage>) => typeof p === 'object' ? Story.storyPageFromJson(p as StoryPageJson) : null)
-        .filter((p): p is StoryPage => p !== null) : [],
+      pages,
       titles: data.titles || null,
       endOfStorySelections: Array.isArray(data.endOfStorySelections) 
         ? data.endOfStorySelections.map((s: EndOfStorySelection) => ({
@@ -344,6 +730,10 @@ export const Story = {
             choice: s.choice
           }))
         : undefined,
+      checkpoint: data.checkpoint,
+      graph: Story.storyGraphFromJson(data.graph, pages.length),
+      characterBible: Story.characterBibleFromJson(data.characterBible),
+      reviewCharacters: data.reviewCharacters,
       createdAt: data.createdAt ? new Date(data.createdAt) : new Date(),
       lastUpdated: data.lastUpdated ? new Date(data.lastUpdated) : new Date()
     };
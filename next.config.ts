@@ -116,6 +116,10 @@ const nextConfig: NextConfig = {
       },
     ];
   },
+  // The story exports read their fonts from node_modules at runtime, which file tracing cannot see
+  outputFileTracingIncludes: {
+    '/api/story/[storyId]/export/*': ['./node_modules/@fontsource/varela-round/files/*.woff'],
+  },
   // reactStrictMode: true, // Enable unless you have a specific issue
 };
 
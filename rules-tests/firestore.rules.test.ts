@@ -0,0 +1,226 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+
+/**
+ * Tests for firestore.rules, run against the Firestore emulator
+ * Alice owns the kid, it is shared with Bob for 'write' and with Carol for 'read', Mallory has no access
+ */
+
+const ACCOUNTS = 'accounts_development';
+const USERS = 'users_development';
+const STORIES = 'stories_gen_development';
+
+let testEnv: RulesTestEnvironment;
+
+const db = (uid: string) => testEnv.authenticatedContext(uid, { email: `${uid}@example.com` }).firestore();
+const anonymousDb = () => testEnv.unauthenticatedContext().firestore();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-choice-story',
+    firestore: { rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const admin = context.firestore();
+    await setDoc(doc(admin, ACCOUNTS, 'alice'), { email: 'alice@example.com', displayName: 'Alice', role: 'user', access_rights: 'approved' });
+    await setDoc(doc(admin, 'accounts_production', 'alice'), { email: 'alice@example.com', role: 'user' });
+    await setDoc(doc(admin, USERS, 'kid1'), { id: 'kid1', accountId: 'alice', name: 'Noa', stories_created: 3 });
+    await setDoc(doc(admin, USERS, 'kid1', 'sharedWith', 'bob@example_com'), { email: 'bob@example.com', permission: 'write', sharedBy: 'alice' });
+    await setDoc(doc(admin, USERS, 'kid1', 'sharedWith', 'carol@example_com'), { email: 'carol@example.com', permission: 'read', sharedBy: 'alice' });
+    await setDoc(doc(admin, STORIES, 'story1'), {
+      id: 'story1',
+      accountId: 'alice',
+      userId: 'alice',
+      kidId: 'kid1',
+      title: 'The Forest',
+      status: 'needs_review',
+      checkpoint: { step: 'pages_generated', attempts: 1 },
+      moderation: { status: 'needs_review', issues: ['violence'] },
+    });
+    await setDoc(doc(admin, 'share_invitations_development', 'invitation1'), { kidId: 'kid1', email: 'mallory@example.com', invitedBy: 'alice' });
+  });
+});
+
+describe('accounts', () => {
+  it('lets an account read its own document', async () => {
+    await assertSucceeds(getDoc(doc(db('alice'), ACCOUNTS, 'alice')));
+    await assertSucceeds(getDoc(doc(db('alice'), 'accounts_production', 'alice')));
+  });
+
+  it('hides accounts from other users and signed out visitors', async () => {
+    await assertFails(getDoc(doc(db('mallory'), ACCOUNTS, 'alice')));
+    await assertFails(getDoc(doc(anonymousDb(), ACCOUNTS, 'alice')));
+    await assertFails(getDocs(query(collection(db('mallory'), ACCOUNTS), where('email', '==', 'alice@example.com'))));
+  });
+
+  it('lets an account edit its profile but not its role or approval', async () => {
+    await assertSucceeds(updateDoc(doc(db('alice'), ACCOUNTS, 'alice'), { displayName: 'Alice B' }));
+    await assertFails(updateDoc(doc(db('alice'), ACCOUNTS, 'alice'), { role: 'admin' }));
+    await assertFails(updateDoc(doc(db('alice'), ACCOUNTS, 'alice'), { access_rights: 'approved', displayName: 'Alice' }));
+  });
+
+  it('does not let clients create or delete accounts', async () => {
+    await assertFails(setDoc(doc(db('mallory'), ACCOUNTS, 'mallory'), { email: 'mallory@example.com', role: 'admin' }));
+    await assertFails(deleteDoc(doc(db('alice'), ACCOUNTS, 'alice')));
+  });
+});
+
+describe('kids', () => {
+  it('lets the owner read and list its kids', async () => {
+    await assertSucceeds(getDoc(doc(db('alice'), USERS, 'kid1')));
+    await assertSucceeds(getDocs(query(collection(db('alice'), USERS), where('accountId', '==', 'alice'))));
+  });
+
+  it('lets accounts the kid is shared with read it', async () => {
+    await assertSucceeds(getDoc(doc(db('bob'), USERS, 'kid1')));
+    await assertSucceeds(getDoc(doc(db('carol'), USERS, 'kid1')));
+  });
+
+  it('hides kids from accounts without access', async () => {
+    await assertFails(getDoc(doc(db('mallory'), USERS, 'kid1')));
+    await assertFails(getDoc(doc(anonymousDb(), USERS, 'kid1')));
+    await assertFails(getDocs(query(collection(db('mallory'), USERS), where('accountId', '==', 'alice'))));
+  });
+
+  it('does not let clients create kids, the API checks the kids limit', async () => {
+    await assertFails(setDoc(doc(db('mallory'), USERS, 'kid2'), { accountId: 'mallory', name: 'Dan' }));
+    await assertFails(setDoc(doc(db('mallory'), USERS, 'kid3'), { accountId: 'alice', name: 'Dan' }));
+  });
+
+  it('lets the owner and write shares edit the kid', async () => {
+    await assertSucceeds(updateDoc(doc(db('alice'), USERS, 'kid1'), { name: 'Noa A' }));
+    await assertSucceeds(updateDoc(doc(db('bob'), USERS, 'kid1'), { name: 'Noa B' }));
+    await assertFails(updateDoc(doc(db('carol'), USERS, 'kid1'), { name: 'Noa C' }));
+    await assertFails(updateDoc(doc(db('mallory'), USERS, 'kid1'), { name: 'Noa M' }));
+  });
+
+  it('keeps the stories_created counter on the server', async () => {
+    await assertFails(updateDoc(doc(db('alice'), USERS, 'kid1'), { stories_created: 0 }));
+    await assertFails(updateDoc(doc(db('bob'), USERS, 'kid1'), { name: 'Noa B', stories_created: 0 }));
+  });
+
+  it('never moves a kid to another account', async () => {
+    await assertFails(updateDoc(doc(db('bob'), USERS, 'kid1'), { accountId: 'bob' }));
+    await assertFails(updateDoc(doc(db('alice'), USERS, 'kid1'), { accountId: 'mallory' }));
+  });
+
+  it('only lets the owner delete the kid', async () => {
+    await assertFails(deleteDoc(doc(db('bob'), USERS, 'kid1')));
+    await assertSucceeds(deleteDoc(doc(db('alice'), USERS, 'kid1')));
+  });
+});
+
+describe('kid shares', () => {
+  it('lets the owner list who the kid is shared with', async () => {
+    await assertSucceeds(getDocs(collection(db('alice'), USERS, 'kid1', 'sharedWith')));
+  });
+
+  it('lets an account read only its own share', async () => {
+    await assertSucceeds(getDoc(doc(db('bob'), USERS, 'kid1', 'sharedWith', 'bob@example_com')));
+    await assertFails(getDoc(doc(db('carol'), USERS, 'kid1', 'sharedWith', 'bob@example_com')));
+    await assertFails(getDocs(collection(db('bob'), USERS, 'kid1', 'sharedWith')));
+  });
+
+  it('does not let clients add or change shares, they come from accepted invitations', async () => {
+    await assertFails(setDoc(doc(db('alice'), USERS, 'kid1', 'sharedWith', 'mallory@example_com'), { email: 'mallory@example.com', permission: 'read' }));
+    await assertFails(setDoc(doc(db('mallory'), USERS, 'kid1', 'sharedWith', 'mallory@example_com'), { email: 'mallory@example.com', permission: 'write' }));
+    await assertFails(updateDoc(doc(db('carol'), USERS, 'kid1', 'sharedWith', 'carol@example_com'), { permission: 'write' }));
+  });
+
+  it('lets the owner remove a share', async () => {
+    await assertFails(deleteDoc(doc(db('bob'), USERS, 'kid1', 'sharedWith', 'carol@example_com')));
+    await assertSucceeds(deleteDoc(doc(db('alice'), USERS, 'kid1', 'sharedWith', 'carol@example_com')));
+  });
+});
+
+describe('stories', () => {
+  it('lets every account with access to the kid read its stories', async () => {
+    for (const uid of ['alice', 'bob', 'carol']) {
+      await assertSucceeds(getDoc(doc(db(uid), STORIES, 'story1')));
+      await assertSucceeds(getDocs(query(collection(db(uid), STORIES), where('kidId', '==', 'kid1'))));
+    }
+  });
+
+  it('hides stories from accounts without access', async () => {
+    await assertFails(getDoc(doc(db('mallory'), STORIES, 'story1')));
+    await assertFails(getDoc(doc(anonymousDb(), STORIES, 'story1')));
+    await assertFails(getDocs(query(collection(db('mallory'), STORIES), where('kidId', '==', 'kid1'))));
+  });
+
+  it('lets write shares create stories for the kid as themselves', async () => {
+    await assertSucceeds(setDoc(doc(db('bob'), STORIES, 'story2'), { accountId: 'bob', userId: 'bob', kidId: 'kid1', title: 'The Sea' }));
+    await assertFails(setDoc(doc(db('bob'), STORIES, 'story3'), { accountId: 'alice', userId: 'alice', kidId: 'kid1', title: 'The Sea' }));
+    await assertFails(setDoc(doc(db('carol'), STORIES, 'story4'), { accountId: 'carol', userId: 'carol', kidId: 'kid1', title: 'The Sea' }));
+    await assertFails(setDoc(doc(db('mallory'), STORIES, 'story5'), { accountId: 'mallory', userId: 'mallory', kidId: 'kid1', title: 'The Sea' }));
+  });
+
+  it('does not let clients create stories with a generation state', async () => {
+    await assertFails(setDoc(doc(db('alice'), STORIES, 'story6'), {
+      accountId: 'alice', userId: 'alice', kidId: 'kid1', title: 'The Sea', checkpoint: { step: 'pages_generated', attempts: 0 },
+    }));
+    await assertFails(setDoc(doc(db('alice'), STORIES, 'story7'), { accountId: 'alice', userId: 'alice', kidId: 'kid1', title: 'The Sea', status: 'complete' }));
+  });
+
+  it('lets the owner and write shares edit stories without moving them', async () => {
+    await assertSucceeds(updateDoc(doc(db('alice'), STORIES, 'story1'), { title: 'The Dark Forest' }));
+    await assertSucceeds(updateDoc(doc(db('bob'), STORIES, 'story1'), { title: 'The Green Forest' }));
+    await assertFails(updateDoc(doc(db('carol'), STORIES, 'story1'), { title: 'The Red Forest' }));
+    await assertFails(updateDoc(doc(db('bob'), STORIES, 'story1'), { kidId: 'kid2' }));
+    await assertFails(updateDoc(doc(db('alice'), STORIES, 'story1'), { accountId: 'mallory' }));
+  });
+
+  it('keeps the generation state, moderation, credits and usage of a story on the server', async () => {
+    await assertFails(updateDoc(doc(db('alice'), STORIES, 'story1'), { status: 'complete' }));
+    await assertFails(updateDoc(doc(db('alice'), STORIES, 'story1'), { 'checkpoint.step': 'images_generated' }));
+    await assertFails(updateDoc(doc(db('alice'), STORIES, 'story1'), { moderation: { status: 'approved', issues: [] } }));
+    await assertFails(updateDoc(doc(db('alice'), STORIES, 'story1'), { pages: [] }));
+    await assertFails(updateDoc(doc(db('bob'), STORIES, 'story1'), { creditReservation: { status: 'refunded' } }));
+    await assertFails(updateDoc(doc(db('bob'), STORIES, 'story1'), { 'aiUsage.totalCost': 0 }));
+    await assertFails(updateDoc(doc(db('alice'), STORIES, 'story1'), { title: 'The Dark Forest', status: 'complete' }));
+  });
+
+  it('lets the owner and write shares delete stories', async () => {
+    await assertFails(deleteDoc(doc(db('carol'), STORIES, 'story1')));
+    await assertFails(deleteDoc(doc(db('mallory'), STORIES, 'story1')));
+    await assertSucceeds(deleteDoc(doc(db('bob'), STORIES, 'story1')));
+  });
+});
+
+describe('other collections', () => {
+  it('are closed to clients', async () => {
+    await assertFails(getDoc(doc(db('alice'), 'share_invitations_development', 'invitation1')));
+    await assertFails(getDoc(doc(db('mallory'), 'share_invitations_development', 'invitation1')));
+    await assertFails(setDoc(doc(db('alice'), 'credits_development', 'alice'), { balance: 1000 }));
+    await assertFails(getDoc(doc(db('alice'), 'admin_audit_development', 'entry1')));
+    await assertFails(setDoc(doc(db('alice'), 'admin_audit_development', 'entry1'), { action: 'account.update', actorUid: 'alice' }));
+  });
+
+  it('only match the known environments', async () => {
+    await assertFails(setDoc(doc(db('alice'), 'users_staging', 'kid9'), { accountId: 'alice', name: 'Noa' }));
+  });
+});
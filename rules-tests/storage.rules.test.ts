@@ -0,0 +1,84 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { deleteObject, getBytes, ref, uploadBytes } from 'firebase/storage';
+
+/**
+ * Tests for storage.rules, run against the Storage emulator
+ * Alice owns the files, Mallory is another signed in account
+ */
+
+const IMAGE = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+const PNG = { contentType: 'image/png' };
+
+let testEnv: RulesTestEnvironment;
+
+const storage = (uid: string) => testEnv.authenticatedContext(uid).storage();
+const anonymousStorage = () => testEnv.unauthenticatedContext().storage();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-choice-story',
+    storage: { rules: readFileSync(resolve(__dirname, '../storage.rules'), 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearStorage();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const admin = context.storage();
+    await uploadBytes(ref(admin, 'users/alice/kids/noa.png'), IMAGE, PNG);
+    await uploadBytes(ref(admin, 'accounts/alice/users/kid1/stories/story1/cover.png'), IMAGE, PNG);
+    await uploadBytes(ref(admin, 'public/logo.png'), IMAGE, PNG);
+  });
+});
+
+describe('users/{uid}', () => {
+  it('lets an account upload images to its own folder', async () => {
+    await assertSucceeds(uploadBytes(ref(storage('alice'), 'users/alice/avatars/noa_avatar.png'), IMAGE, PNG));
+  });
+
+  it('rejects uploads to another account folder and files that are not images', async () => {
+    await assertFails(uploadBytes(ref(storage('mallory'), 'users/alice/avatars/noa_avatar.png'), IMAGE, PNG));
+    await assertFails(uploadBytes(ref(anonymousStorage(), 'users/alice/avatars/noa_avatar.png'), IMAGE, PNG));
+    await assertFails(uploadBytes(ref(storage('alice'), 'users/alice/kids/notes.html'), IMAGE, { contentType: 'text/html' }));
+  });
+
+  it('only lets the account read and delete its files', async () => {
+    await assertSucceeds(getBytes(ref(storage('alice'), 'users/alice/kids/noa.png')));
+    await assertFails(getBytes(ref(storage('mallory'), 'users/alice/kids/noa.png')));
+    await assertFails(getBytes(ref(anonymousStorage(), 'users/alice/kids/noa.png')));
+    await assertFails(deleteObject(ref(storage('mallory'), 'users/alice/kids/noa.png')));
+    await assertSucceeds(deleteObject(ref(storage('alice'), 'users/alice/kids/noa.png')));
+  });
+});
+
+describe('accounts/{accountId}', () => {
+  it('lets the account read the generated images but not write them', async () => {
+    const path = 'accounts/alice/users/kid1/stories/story1/cover.png';
+    await assertSucceeds(getBytes(ref(storage('alice'), path)));
+    await assertFails(getBytes(ref(storage('mallory'), path)));
+    await assertFails(uploadBytes(ref(storage('alice'), path), IMAGE, PNG));
+  });
+});
+
+describe('other paths', () => {
+  it('keeps public assets readable by everyone', async () => {
+    await assertSucceeds(getBytes(ref(anonymousStorage(), 'public/logo.png')));
+    await assertFails(uploadBytes(ref(storage('alice'), 'public/logo.png'), IMAGE, PNG));
+  });
+
+  it('closes temp to clients', async () => {
+    await assertFails(uploadBytes(ref(anonymousStorage(), 'temp/anonymous/image.png'), IMAGE, PNG));
+    await assertFails(uploadBytes(ref(storage('alice'), 'temp/alice/image.png'), IMAGE, PNG));
+  });
+});
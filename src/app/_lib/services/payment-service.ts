@@ -1,3 +1,5 @@
+import type { ShippingAddress } from '@/models';
+
 export interface PaymentOrder {
     id: string;
     status: string;
@@ -51,6 +53,64 @@ export interface PaymentCapture {
     }>;
 }
 
+export interface CreateOrderParams {
+    // Our order ID, sent as the PayPal reference so captures can be matched back to it
+    referenceId: string;
+    description: string;
+    itemName: string;
+    quantity: number;
+    currency: string;
+    // Amounts in the currency's major unit ("149.00"), computed by the server
+    unitPrice: string;
+    itemTotal: string;
+    shipping: string;
+    // Taken off the item total by a percent_off promo code, total already has it subtracted
+    discount?: string;
+    promoCode?: string;
+    total: string;
+    // Printed books ship to this address, orders without one are digital (credit packs)
+    shippingAddress?: ShippingAddress;
+}
+
+// Headers PayPal signs a webhook delivery with
+export interface WebhookSignatureHeaders {
+    authAlgo: string;
+    certUrl: string;
+    transmissionId: string;
+    transmissionSig: string;
+    transmissionTime: string;
+}
+
+// Webhook notification, resource depends on the event type (order, capture or refund)
+export interface WebhookEvent {
+    id: string;
+    event_type: string;
+    resource_type?: string;
+    resource: {
+        id: string;
+        status?: string;
+        custom_id?: string;
+        amount?: {
+            currency_code: string;
+            value: string;
+        };
+        purchase_units?: Array<{
+            reference_id?: string;
+            custom_id?: string;
+        }>;
+        supplementary_data?: {
+            related_ids?: {
+                order_id?: string;
+                capture_id?: string;
+            };
+        };
+        links?: Array<{
+            href: string;
+            rel: string;
+        }>;
+    };
+}
+
 export class PaymentService {
     private static readonly PAYPAL_API_URL = 'https://api-m.paypal.com';
 
@@ -102,28 +162,65 @@ export class PaymentService {
         }
     }
 
-    static async createOrder(): Promise<PaymentOrder> {
+    static async createOrder(params: CreateOrderParams): Promise<PaymentOrder> {
         const accessToken = await this.getAccessToken();
+        const { currency, shippingAddress } = params;
+        const hasDiscount = !!params.discount && Number(params.discount) > 0;
 
         const response = await fetch(`${this.PAYPAL_API_URL}/v2/checkout/orders`, {
             method: 'POST',
             headers: {
                 'Authorization': `Bearer ${accessToken}`,
                 'Content-Type': 'application/json',
+                // PayPal returns the existing order when a request is retried with the same key
+                'PayPal-Request-Id': params.referenceId,
             },
             body: JSON.stringify({
                 intent: 'CAPTURE',
                 purchase_units: [{
+                    reference_id: params.referenceId,
+                    custom_id: params.referenceId,
+                    description: hasDiscount && params.promoCode
+                        ? `${params.description} (${params.promoCode})`.slice(0, 127)
+                        : params.description,
                     amount: {
-                        currency_code: 'ILS',
-                        value: '9.99'  // Price for the book
+                        currency_code: currency,
+                        value: params.total,
+                        breakdown: {
+                            item_total: { currency_code: currency, value: params.itemTotal },
+                            shipping: { currency_code: currency, value: params.shipping },
+                            // PayPal checks value = item_total + shipping - discount
+                            discount: hasDiscount ? { currency_code: currency, value: params.discount } : undefined,
+                        }
                     },
-                    description: 'Custom Children\'s Story Book'
-                }]
+                    items: [{
+                        name: params.itemName,
+                        quantity: String(params.quantity),
+                        unit_amount: { currency_code: currency, value: params.unitPrice },
+                        category: shippingAddress ? 'PHYSICAL_GOODS' : 'DIGITAL_GOODS'
+                    }],
+                    shipping: shippingAddress ? {
+                        name: { full_name: shippingAddress.fullName },
+                        address: {
+                            address_line_1: shippingAddress.addressLine1,
+                            address_line_2: shippingAddress.addressLine2 || undefined,
+                            admin_area_2: shippingAddress.city,
+                            admin_area_1: shippingAddress.region || undefined,
+                            postal_code: shippingAddress.postalCode,
+                            country_code: shippingAddress.countryCode,
+                        }
+                    } : undefined
+                }],
+                application_context: {
+                    // Ship to the address entered in the order form, the buyer cannot change it on PayPal
+                    shipping_preference: shippingAddress ? 'SET_PROVIDED_ADDRESS' : 'NO_SHIPPING'
+                }
             })
         });
 
         if (!response.ok) {
+            const errorData = await response.text();
+            console.error('PayPal create order error:', { status: response.status, error: errorData });
             throw new Error('Failed to create PayPal order');
         }
 
@@ -147,4 +244,41 @@ export class PaymentService {
 
         return response.json();
     }
+
+    /**
+     * Ask PayPal whether a webhook delivery was signed for our webhook (PAYPAL_WEBHOOK_ID)
+     */
+    static async verifyWebhookSignature(headers: WebhookSignatureHeaders, event: WebhookEvent): Promise<boolean> {
+        const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+        if (!webhookId) {
+            throw new Error('PAYPAL_WEBHOOK_ID is not configured in environment variables');
+        }
+        const accessToken = await this.getAccessToken();
+
+        const response = await fetch(`${this.PAYPAL_API_URL}/v1/notifications/verify-webhook-signature`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                auth_algo: headers.authAlgo,
+                cert_url: headers.certUrl,
+                transmission_id: headers.transmissionId,
+                transmission_sig: headers.transmissionSig,
+                transmission_time: headers.transmissionTime,
+                webhook_id: webhookId,
+                webhook_event: event,
+            }),
+        });
+
+        if (!response.ok) {
+            const errorData = await response.text();
+            console.error('PayPal verify webhook error:', { status: response.status, error: errorData });
+            throw new Error('Failed to verify PayPal webhook signature');
+        }
+
+        const data = await response.json();
+        return data.verification_status === 'SUCCESS';
+    }
 }
@@ -0,0 +1,255 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { User } from 'firebase/auth';
+import * as Sentry from "@sentry/nextjs";
+import { Download } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Account, AdminAuditChange, AdminAuditEntry } from '@/models';
+import { downloadBlob } from '@/app/utils/download';
+
+interface AdminActivityPanelProps {
+  firebaseUser: User;
+  // Accounts of the panel, to show and pick actors by email
+  accounts: Account[];
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+const formatAuditValue = (value: unknown): string =>
+  value === null || value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const formatChange = (field: string, change: AdminAuditChange): string =>
+  `${field}: ${formatAuditValue(change.before)} → ${formatAuditValue(change.after)}`;
+
+/**
+ * Admin audit log - who changed which account, order or promo code, filtered by actor and target
+ */
+export function AdminActivityPanel({ firebaseUser, accounts }: AdminActivityPanelProps) {
+  const [entries, setEntries] = useState<AdminAuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [actorUid, setActorUid] = useState('');
+  const [targetId, setTargetId] = useState('');
+  // The filters of the shown entries, the export uses the same ones
+  const [filters, setFilters] = useState({ actorUid: '', targetId: '' });
+
+  const getAuditUrl = useCallback((format?: 'csv') => {
+    const params = new URLSearchParams();
+    if (filters.actorUid) params.set('actorUid', filters.actorUid);
+    if (filters.targetId) params.set('targetId', filters.targetId);
+    if (format) params.set('format', format);
+    const query = params.toString();
+    return `/api/admin/audit${query ? `?${query}` : ''}`;
+  }, [filters]);
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const token = await firebaseUser.getIdToken();
+
+      const response = await fetch(getAuditUrl(), {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to fetch activity');
+      }
+
+      const data = await response.json();
+      setEntries(data.entries || []);
+    } catch (err) {
+      console.error('Error fetching admin activity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch activity');
+      Sentry.captureException(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [firebaseUser, getAuditUrl]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleFilter = (e: FormEvent) => {
+    e.preventDefault();
+    setFilters({ actorUid, targetId: targetId.trim() });
+  };
+
+  const handleClear = () => {
+    setActorUid('');
+    setTargetId('');
+    setFilters({ actorUid: '', targetId: '' });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const token = await firebaseUser.getIdToken();
+
+      const response = await fetch(getAuditUrl('csv'), {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to export activity');
+      }
+
+      downloadBlob(await response.blob(), `admin-audit-${new Date().toISOString().slice(0, 10)}.csv`);
+
+      Sentry.startSpan(
+        {
+          op: "ui.click",
+          name: "Admin Audit Exported",
+        },
+        (span) => {
+          span.setAttribute("actor_uid", filters.actorUid || "all");
+          span.setAttribute("target_id", filters.targetId || "all");
+        },
+      );
+    } catch (err) {
+      console.error('Error exporting admin activity:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export activity');
+      Sentry.captureException(err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const getActorLabel = (entry: AdminAuditEntry) =>
+    entry.actorEmail || accounts.find(account => account.uid === entry.actorUid)?.email || entry.actorUid;
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          <p className="font-semibold">Error</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      <form
+        onSubmit={handleFilter}
+        className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-6 grid grid-cols-1 md:grid-cols-5 gap-3 items-end"
+      >
+        <label className="text-sm text-gray-700 md:col-span-2">
+          Actor
+          <select
+            value={actorUid}
+            onChange={(e) => setActorUid(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">All admins</option>
+            {accounts.filter(account => account.role).map(account => (
+              <option key={account.uid} value={account.uid}>{account.email}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 md:col-span-2">
+          Target
+          <input
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            placeholder="Account UID, order ID or promo code"
+            className={inputClassName}
+          />
+        </label>
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isLoading} className="bg-blue-600 hover:bg-blue-700 text-white">
+            Filter
+          </Button>
+          <Button type="button" variant="outline" onClick={handleClear} disabled={isLoading}>
+            Clear
+          </Button>
+        </div>
+      </form>
+
+      <div className="flex justify-between items-center mb-3">
+        <p className="text-sm text-gray-600">
+          Showing <span className="font-semibold">{entries.length}</span> most recent actions
+        </p>
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting || entries.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {entries.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            {isLoading ? 'Loading activity...' : 'No activity found'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Time</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actor</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Action</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Target</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Changes</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="hover:bg-gray-50 transition-colors align-top">
+                    <td className="px-6 py-4 text-sm text-gray-600 whitespace-nowrap">
+                      {new Date(entry.createdAt).toLocaleDateString()} {new Date(entry.createdAt).toLocaleTimeString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{getActorLabel(entry)}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className="inline-block px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full">
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setTargetId(entry.targetId);
+                          setFilters({ actorUid, targetId: entry.targetId });
+                        }}
+                        className="font-mono text-blue-700 hover:underline"
+                        title="Show the activity of this target"
+                      >
+                        {entry.targetId}
+                      </button>
+                      <p className="text-xs text-gray-500">{entry.targetType}</p>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {Object.keys(entry.changes).length === 0 ? (
+                        <span className="text-gray-400 italic">No changes</span>
+                      ) : (
+                        <ul className="space-y-1">
+                          {Object.entries(entry.changes).map(([field, change]) => (
+                            <li key={field} className="font-mono text-xs">{formatChange(field, change)}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {entry.reason || <span className="text-gray-400 italic">No reason</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { User } from 'firebase/auth';
+import * as Sentry from "@sentry/nextjs";
+import { Button } from "@/components/ui/button";
+import { PromoCode, PromoCodeType } from '@/models';
+
+interface PromoCodesPanelProps {
+  firebaseUser: User;
+}
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+/**
+ * Promo code management for admins - list, create and turn codes on or off
+ */
+export function PromoCodesPanel({ firebaseUser }: PromoCodesPanelProps) {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [type, setType] = useState<PromoCodeType>('free_credits');
+  const [value, setValue] = useState<number | undefined>(undefined);
+  const [description, setDescription] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [maxRedemptions, setMaxRedemptions] = useState<number | undefined>(undefined);
+
+  const fetchPromoCodes = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const token = await firebaseUser.getIdToken();
+
+      const response = await fetch('/api/admin/promo-codes', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to fetch promo codes');
+      }
+
+      const data = await response.json();
+      setPromoCodes(data.promoCodes || []);
+    } catch (err) {
+      console.error('Error fetching promo codes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch promo codes');
+      Sentry.captureException(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [firebaseUser]);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, [fetchPromoCodes]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const token = await firebaseUser.getIdToken();
+
+      const response = await fetch('/api/admin/promo-codes', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code,
+          type,
+          value,
+          description: description || undefined,
+          // The date input is a local date, the code expires at the end of that day
+          expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+          maxRedemptions: maxRedemptions ?? null,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to create promo code');
+      }
+
+      const data = await response.json();
+      setPromoCodes([data.promoCode, ...promoCodes]);
+      setCode('');
+      setValue(undefined);
+      setDescription('');
+      setExpiresAt('');
+      setMaxRedemptions(undefined);
+
+      Sentry.startSpan(
+        {
+          op: "ui.click",
+          name: "Admin Promo Code Created",
+        },
+        (span) => {
+          span.setAttribute("promo_code", data.promoCode.code);
+          span.setAttribute("promo_type", data.promoCode.type);
+        },
+      );
+    } catch (err) {
+      console.error('Error creating promo code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create promo code');
+      Sentry.captureException(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (promoCode: PromoCode) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const token = await firebaseUser.getIdToken();
+
+      const response = await fetch('/api/admin/promo-codes/update', {
+        method: 'PATCH',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          code: promoCode.code,
+          active: !promoCode.active,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to update promo code');
+      }
+
+      const data = await response.json();
+      setPromoCodes(promoCodes.map(promo =>
+        promo.code === promoCode.code ? data.promoCode : promo
+      ));
+    } catch (err) {
+      console.error('Error updating promo code:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update promo code');
+      Sentry.captureException(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-12">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4">Promo Codes</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          <p className="font-semibold">Error</p>
+          <p>{error}</p>
+        </div>
+      )}
+
+      <form
+        onSubmit={handleCreate}
+        className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 mb-6 grid grid-cols-1 md:grid-cols-6 gap-3 items-end"
+      >
+        <label className="text-sm text-gray-700">
+          Code
+          <input
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            placeholder="WELCOME10"
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Type
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as PromoCodeType)}
+            className={inputClassName}
+          >
+            <option value="free_credits">free_credits</option>
+            <option value="percent_off">percent_off</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          {type === 'free_credits' ? 'Credits' : 'Percent off'}
+          <input
+            required
+            type="number"
+            min="1"
+            max={type === 'percent_off' ? 100 : undefined}
+            value={value ?? ''}
+            onChange={(e) => setValue(e.target.value ? parseInt(e.target.value) : undefined)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Expires
+          <input
+            type="date"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            className={inputClassName}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Max redemptions
+          <input
+            type="number"
+            min="1"
+            value={maxRedemptions ?? ''}
+            onChange={(e) => setMaxRedemptions(e.target.value ? parseInt(e.target.value) : undefined)}
+            placeholder="No limit"
+            className={inputClassName}
+          />
+        </label>
+        <Button type="submit" disabled={isLoading} className="bg-green-600 hover:bg-green-700 text-white">
+          Create
+        </Button>
+        <label className="text-sm text-gray-700 md:col-span-6">
+          Description
+          <input
+            value={description}
+            maxLength={200}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Optional, only shown here"
+            className={inputClassName}
+          />
+        </label>
+      </form>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {promoCodes.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            {isLoading ? 'Loading promo codes...' : 'No promo codes found'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Code</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Type</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Value</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Redemptions</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Expires</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Status</th>
+                  <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {promoCodes.map((promoCode) => (
+                  <tr key={promoCode.code} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <span className="font-mono font-semibold">{promoCode.code}</span>
+                      {promoCode.description && (
+                        <p className="text-xs text-gray-500">{promoCode.description}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{promoCode.type}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {promoCode.type === 'percent_off' ? `${promoCode.value}%` : `${promoCode.value} credits`}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {promoCode.redemptionCount} / {promoCode.maxRedemptions ?? '∞'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">
+                      {promoCode.expiresAt
+                        ? new Date(promoCode.expiresAt).toLocaleDateString()
+                        : <span className="text-gray-400 italic">Never</span>}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <span className={`inline-block px-2 py-1 text-xs rounded-full ${promoCode.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                        {promoCode.active ? 'active' : 'inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-right">
+                      <Button
+                        onClick={() => handleToggleActive(promoCode)}
+                        size="sm"
+                        variant="outline"
+                        disabled={isLoading}
+                      >
+                        {promoCode.active ? 'Deactivate' : 'Activate'}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
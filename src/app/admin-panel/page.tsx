@@ -8,6 +8,9 @@ import { Header } from '@/app/components/common/Header';
 import { useAuth } from '@/app/context/AuthContext';
 import { useTranslation } from '@/app/hooks/useTranslation';
 import { Account } from '@/models';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PromoCodesPanel } from './components/PromoCodesPanel';
+import { AdminActivityPanel } from './components/AdminActivityPanel';
 
 type SortField = 'displayName' | 'email' | 'role' | 'access_rights' | 'kids_limit' | 'story_per_kid_limit' | 'createAt';
 type SortDirection = 'asc' | 'desc';
@@ -23,6 +26,8 @@ export default function AdminAccountsPage() {
   const [editingAccessRights, setEditingAccessRights] = useState<string>('');
   const [editingKidsLimit, setEditingKidsLimit] = useState<number | undefined>(undefined);
   const [editingStoryPerKidLimit, setEditingStoryPerKidLimit] = useState<number | undefined>(undefined);
+  // Kept with the change in the admin audit log
+  const [editingReason, setEditingReason] = useState<string>('');
   const [userAccountData, setUserAccountData] = useState<Account | null>(null);
   const [checkingRole, setCheckingRole] = useState(true);
   const [sortField, setSortField] = useState<SortField>('createAt');
@@ -130,6 +135,7 @@ export default function AdminAccountsPage() {
     setEditingAccessRights(account.access_rights || '');
     setEditingKidsLimit(account.kids_limit);
     setEditingStoryPerKidLimit(account.story_per_kid_limit);
+    setEditingReason('');
   };
 
   const handleCancel = () => {
@@ -138,6 +144,7 @@ export default function AdminAccountsPage() {
     setEditingAccessRights('');
     setEditingKidsLimit(undefined);
     setEditingStoryPerKidLimit(undefined);
+    setEditingReason('');
   };
 
   const handleSave = async (uid: string) => {
@@ -161,6 +168,7 @@ export default function AdminAccountsPage() {
           access_rights: editingAccessRights,
           kids_limit: editingKidsLimit,
           story_per_kid_limit: editingStoryPerKidLimit,
+          reason: editingReason || undefined,
         }),
       });
 
@@ -181,6 +189,7 @@ export default function AdminAccountsPage() {
       setEditingAccessRights('');
       setEditingKidsLimit(undefined);
       setEditingStoryPerKidLimit(undefined);
+      setEditingReason('');
       
       Sentry.startSpan(
         {
@@ -377,207 +386,237 @@ export default function AdminAccountsPage() {
           </div>
         )}
 
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
-          {isLoading ? (
-            <div className="p-8 text-center">
-              <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full mx-auto mb-4"></div>
-              <p className="text-gray-600">Loading accounts...</p>
-            </div>
-          ) : accounts.length === 0 ? (
-            <div className="p-8 text-center text-gray-500">
-              No accounts found
-            </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead className="bg-gray-50 border-b border-gray-200">
-                  <tr>
-                    <th 
-                      className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
-                      onClick={() => handleSort('displayName')}
-                    >
-                      <div className="flex items-center justify-start gap-1">
-                        <span>Name</span>
-                        <SortIcon field="displayName" />
-                      </div>
-                    </th>
-                    <th 
-                      className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
-                      onClick={() => handleSort('email')}
-                    >
-                      <div className="flex items-center justify-start gap-1">
-                        <span>Email</span>
-                        <SortIcon field="email" />
-                      </div>
-                    </th>
-                    <th 
-                      className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
-                      onClick={() => handleSort('role')}
-                    >
-                      <div className="flex items-center justify-start gap-1">
-                        <span>Role</span>
-                        <SortIcon field="role" />
-                      </div>
-                    </th>
-                    <th 
-                      className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
-                      onClick={() => handleSort('access_rights')}
-                    >
-                      <div className="flex items-center justify-start gap-1">
-                        <span>Access Rights</span>
-                        <SortIcon field="access_rights" />
-                      </div>
-                    </th>
-                    <th 
-                      className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
-                      onClick={() => handleSort('kids_limit')}
-                    >
-                      <div className="flex items-center justify-start gap-1">
-                        <span>Kids Limit</span>
-                        <SortIcon field="kids_limit" />
-                      </div>
-                    </th>
-                    <th 
-                      className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
-                      onClick={() => handleSort('story_per_kid_limit')}
-                    >
-                      <div className="flex items-center justify-start gap-1">
-                        <span>Story/Kid Limit</span>
-                        <SortIcon field="story_per_kid_limit" />
-                      </div>
-                    </th>
-                    <th 
-                      className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
-                      onClick={() => handleSort('createAt')}
-                    >
-                      <div className="flex items-center justify-start gap-1">
-                        <span>Created At</span>
-                        <SortIcon field="createAt" />
-                      </div>
-                    </th>
-                    <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-gray-200">
-                  {sortedAccounts.map((account) => {
-                    const isEditing = editingUid === account.uid;
-                    
-                    return (
-                      <tr key={account.uid} className="hover:bg-gray-50 transition-colors">
-                        <td className="px-6 py-4 text-sm text-gray-900">
-                          {account.displayName || <span className="text-gray-400 italic">No name</span>}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-gray-900">
-                          {account.email}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-gray-900">
-                          {isEditing ? (
-                            <select
-                              value={editingRole}
-                              onChange={(e) => setEditingRole(e.target.value)}
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            >
-                              <option value="">Select role</option>
-                              <option value="admin">admin</option>
-                              <option value="read">read</option>
-                              <option value="write">write</option>
-                            </select>
-                          ) : (
-                            account.role || <span className="text-gray-400 italic">No role</span>
-                          )}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-gray-900">
-                          {isEditing ? (
-                            <select
-                              value={editingAccessRights}
-                              onChange={(e) => setEditingAccessRights(e.target.value)}
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            >
-                              <option value="">Select access right</option>
-                              <option value="awaiting_approval">awaiting_approval</option>
-                              <option value="approved">approved</option>
-                            </select>
-                          ) : (
-                            account.access_rights ? (
-                              <span className="inline-block px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full">
-                                {account.access_rights}
-                              </span>
-                            ) : (
-                              <span className="text-gray-400 italic">No access rights</span>
-                            )
-                          )}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-gray-900">
-                          {isEditing ? (
-                            <input
-                              type="number"
-                              min="0"
-                              value={editingKidsLimit ?? ''}
-                              onChange={(e) => setEditingKidsLimit(e.target.value ? parseInt(e.target.value) : undefined)}
-                              placeholder="No limit"
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
-                          ) : (
-                            account.kids_limit !== undefined ? account.kids_limit : <span className="text-gray-400 italic">No limit</span>
-                          )}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-gray-900">
-                          {isEditing ? (
-                            <input
-                              type="number"
-                              min="0"
-                              value={editingStoryPerKidLimit ?? ''}
-                              onChange={(e) => setEditingStoryPerKidLimit(e.target.value ? parseInt(e.target.value) : undefined)}
-                              placeholder="No limit"
-                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            />
-                          ) : (
-                            account.story_per_kid_limit !== undefined ? account.story_per_kid_limit : <span className="text-gray-400 italic">No limit</span>
-                          )}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-gray-600">
-                          {new Date(account.createAt).toLocaleDateString()} {new Date(account.createAt).toLocaleTimeString()}
-                        </td>
-                        <td className="px-6 py-4 text-sm text-right">
-                          {isEditing ? (
-                            <div className="flex gap-2 justify-end">
-                              <Button
-                                onClick={() => handleSave(account.uid)}
-                                size="sm"
-                                className="bg-green-600 hover:bg-green-700 text-white"
-                              >
-                                Save
-                              </Button>
-                              <Button
-                                onClick={handleCancel}
-                                size="sm"
-                                variant="outline"
-                              >
-                                Cancel
-                              </Button>
-                            </div>
-                          ) : (
-                            <Button
-                              onClick={() => handleEdit(account)}
-                              size="sm"
-                              variant="outline"
-                            >
-                              Edit
-                            </Button>
-                          )}
-                        </td>
+        <Tabs defaultValue="accounts" className="w-full">
+          <TabsList className="mb-6">
+            <TabsTrigger value="accounts">Accounts</TabsTrigger>
+            {userAccountData.role === 'admin' && (
+              <TabsTrigger value="activity">Activity</TabsTrigger>
+            )}
+          </TabsList>
+
+          <TabsContent value="accounts">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              {isLoading ? (
+                <div className="p-8 text-center">
+                  <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+                  <p className="text-gray-600">Loading accounts...</p>
+                </div>
+              ) : accounts.length === 0 ? (
+                <div className="p-8 text-center text-gray-500">
+                  No accounts found
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th 
+                          className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
+                          onClick={() => handleSort('displayName')}
+                        >
+                          <div className="flex items-center justify-start gap-1">
+                            <span>Name</span>
+                            <SortIcon field="displayName" />
+                          </div>
+                        </th>
+                        <th 
+                          className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
+                          onClick={() => handleSort('email')}
+                        >
+                          <div className="flex items-center justify-start gap-1">
+                            <span>Email</span>
+                            <SortIcon field="email" />
+                          </div>
+                        </th>
+                        <th 
+                          className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
+                          onClick={() => handleSort('role')}
+                        >
+                          <div className="flex items-center justify-start gap-1">
+                            <span>Role</span>
+                            <SortIcon field="role" />
+                          </div>
+                        </th>
+                        <th 
+                          className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
+                          onClick={() => handleSort('access_rights')}
+                        >
+                          <div className="flex items-center justify-start gap-1">
+                            <span>Access Rights</span>
+                            <SortIcon field="access_rights" />
+                          </div>
+                        </th>
+                        <th 
+                          className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
+                          onClick={() => handleSort('kids_limit')}
+                        >
+                          <div className="flex items-center justify-start gap-1">
+                            <span>Kids Limit</span>
+                            <SortIcon field="kids_limit" />
+                          </div>
+                        </th>
+                        <th 
+                          className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
+                          onClick={() => handleSort('story_per_kid_limit')}
+                        >
+                          <div className="flex items-center justify-start gap-1">
+                            <span>Story/Kid Limit</span>
+                            <SortIcon field="story_per_kid_limit" />
+                          </div>
+                        </th>
+                        <th 
+                          className="px-6 py-4 text-right text-sm font-semibold text-gray-700 cursor-pointer hover:bg-gray-100 transition-colors select-none"
+                          onClick={() => handleSort('createAt')}
+                        >
+                          <div className="flex items-center justify-start gap-1">
+                            <span>Created At</span>
+                            <SortIcon field="createAt" />
+                          </div>
+                        </th>
+                        <th className="px-6 py-4 text-right text-sm font-semibold text-gray-700">Actions</th>
                       </tr>
-                    );
-                  })}
-                </tbody>
-              </table>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {sortedAccounts.map((account) => {
+                        const isEditing = editingUid === account.uid;
+                    
+                        return (
+                          <tr key={account.uid} className="hover:bg-gray-50 transition-colors">
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {account.displayName || <span className="text-gray-400 italic">No name</span>}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {account.email}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {isEditing ? (
+                                <select
+                                  value={editingRole}
+                                  onChange={(e) => setEditingRole(e.target.value)}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                  <option value="">Select role</option>
+                                  <option value="admin">admin</option>
+                                  <option value="read">read</option>
+                                  <option value="write">write</option>
+                                </select>
+                              ) : (
+                                account.role || <span className="text-gray-400 italic">No role</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {isEditing ? (
+                                <select
+                                  value={editingAccessRights}
+                                  onChange={(e) => setEditingAccessRights(e.target.value)}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                >
+                                  <option value="">Select access right</option>
+                                  <option value="awaiting_approval">awaiting_approval</option>
+                                  <option value="approved">approved</option>
+                                </select>
+                              ) : (
+                                account.access_rights ? (
+                                  <span className="inline-block px-2 py-1 text-xs bg-blue-100 text-blue-800 rounded-full">
+                                    {account.access_rights}
+                                  </span>
+                                ) : (
+                                  <span className="text-gray-400 italic">No access rights</span>
+                                )
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {isEditing ? (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={editingKidsLimit ?? ''}
+                                  onChange={(e) => setEditingKidsLimit(e.target.value ? parseInt(e.target.value) : undefined)}
+                                  placeholder="No limit"
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                              ) : (
+                                account.kids_limit !== undefined ? account.kids_limit : <span className="text-gray-400 italic">No limit</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-900">
+                              {isEditing ? (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  value={editingStoryPerKidLimit ?? ''}
+                                  onChange={(e) => setEditingStoryPerKidLimit(e.target.value ? parseInt(e.target.value) : undefined)}
+                                  placeholder="No limit"
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                              ) : (
+                                account.story_per_kid_limit !== undefined ? account.story_per_kid_limit : <span className="text-gray-400 italic">No limit</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-600">
+                              {new Date(account.createAt).toLocaleDateString()} {new Date(account.createAt).toLocaleTimeString()}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-right">
+                              {isEditing ? (
+                                <div className="flex flex-col gap-2 items-end">
+                                  <input
+                                    value={editingReason}
+                                    maxLength={500}
+                                    onChange={(e) => setEditingReason(e.target.value)}
+                                    placeholder="Reason (optional)"
+                                    className="w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  />
+                                  <div className="flex gap-2 justify-end">
+                                    <Button
+                                      onClick={() => handleSave(account.uid)}
+                                      size="sm"
+                                      className="bg-green-600 hover:bg-green-700 text-white"
+                                    >
+                                      Save
+                                    </Button>
+                                    <Button
+                                      onClick={handleCancel}
+                                      size="sm"
+                                      variant="outline"
+                                    >
+                                      Cancel
+                                    </Button>
+                                  </div>
+                                </div>
+                              ) : (
+                                <Button
+                                  onClick={() => handleEdit(account)}
+                                  size="sm"
+                                  variant="outline"
+                                >
+                                  Edit
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
-          )}
-        </div>
 
-        <div className="mt-4 text-sm text-gray-600">
-          Total accounts: <span className="font-semibold">{accounts.length}</span>
-        </div>
+            <div className="mt-4 text-sm text-gray-600">
+              Total accounts: <span className="font-semibold">{accounts.length}</span>
+            </div>
+
+            {userAccountData.role === 'admin' && firebaseUser && (
+              <PromoCodesPanel firebaseUser={firebaseUser} />
+            )}
+          </TabsContent>
+
+          {userAccountData.role === 'admin' && firebaseUser && (
+            <TabsContent value="activity">
+              <AdminActivityPanel firebaseUser={firebaseUser} accounts={accounts} />
+            </TabsContent>
+          )}
+        </Tabs>
       </div>
     </>
   );
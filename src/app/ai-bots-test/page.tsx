@@ -12,6 +12,7 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, Image, BookOpen, User } from "lucide-react";
 import useUserData from "@/app/hooks/useUserData";
+import { useAuth } from "@/app/context/AuthContext";
 import { KidDetails } from "@/models";
 
 interface TestResult {
@@ -41,6 +42,15 @@ export default function AIBotsTestPage() {
 
   const selectedKid = selectedKidId === "none" ? null : kids.find(kid => kid.id === selectedKidId);
 
+  // The ai-bots routes need the signed in user's token
+  const { firebaseUser } = useAuth();
+  const getHeaders = async (): Promise<Record<string, string>> => {
+    const token = await firebaseUser?.getIdToken();
+    return token
+      ? { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
+      : { 'Content-Type': 'application/json' };
+  };
+
 
   // Analyze generated avatar
   const analyzeGeneratedAvatar = async (avatarBase64: string) => {
@@ -53,7 +63,7 @@ export default function AIBotsTestPage() {
       
       const response = await fetch('/api/ai-bots/analyze-avatar', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await getHeaders(),
         body: JSON.stringify({ imageUrl: avatarDataUrl })
       });
       
@@ -92,7 +102,7 @@ export default function AIBotsTestPage() {
       
       const response = await fetch('/api/ai-bots/avatar', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await getHeaders(),
         body: JSON.stringify(requestBody),
       });
       
@@ -137,7 +147,7 @@ export default function AIBotsTestPage() {
       
       const response = await fetch('/api/ai-bots/story-image', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await getHeaders(),
         body: JSON.stringify(requestBody),
       });
       
@@ -170,7 +180,7 @@ export default function AIBotsTestPage() {
     try {
       const response = await fetch('/api/ai-bots/story', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await getHeaders(),
         body: JSON.stringify({ prompt: storyPrompt }),
       });
       
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/app/utils/api-helpers';
 
 /**
  * Route handler for proxying requests to the batchImageGen Firebase Function
  * This provides a local endpoint during development that forwards to the deployed function
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     // Determine the Firebase function URL based on environment
     let functionUrl = 'https://us-central1-choicestory-b3135.cloudfunctions.net/batchImageGen';
@@ -25,6 +26,7 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': auth.authHeader,
       },
       body: JSON.stringify(requestBody),
     });
@@ -52,4 +54,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
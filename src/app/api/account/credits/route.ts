@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as Sentry from '@sentry/nextjs';
+import firestoreServerService from '@/app/services/firestore.server';
+import { withAuth } from '@/app/utils/api-helpers';
+
+/**
+ * GET endpoint for the signed in account's story credits
+ * Returns the balance and the latest ledger entries. Accounts with a role are not charged,
+ * they get unlimited: true.
+ */
+export const GET = withAuth(async (req: NextRequest, auth) => {
+    return Sentry.startSpan(
+        {
+            op: "http.server",
+            name: "GET /api/account/credits",
+        },
+        async (span) => {
+            try {
+                span.setAttribute("account_id", auth.uid);
+
+                const credits = await firestoreServerService.getCreditBalance(auth.uid);
+
+                return NextResponse.json({
+                    success: true,
+                    balance: credits.balance,
+                    unlimited: !!auth.account?.role,
+                    entries: credits.entries
+                });
+            } catch (error) {
+                console.error('[CREDITS_API_ERROR]', error);
+                Sentry.captureException(error);
+                return NextResponse.json({
+                    success: false,
+                    error: 'Failed to fetch credits',
+                    message: error instanceof Error ? error.message : "Unknown error"
+                }, { status: 500 });
+            }
+        }
+    );
+});
+
+export const dynamic = "force-dynamic";
@@ -1,33 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import firestoreServerService from '@/app/services/firestore.server';
-import { verifyAuthHeader } from '@/app/utils/auth-helpers';
-import { checkFirestoreReady } from '@/app/utils/api-helpers';
+import { withAuth } from '@/app/utils/api-helpers';
 
 /**
  * GET endpoint to fetch account data by UID
+ * The uid parameter is checked by withAuth, an account only reads itself
  */
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     // Get the requested account UID
     const uid = req.nextUrl.searchParams.get("uid");
-    
+
     if (!uid) {
       return NextResponse.json({
         success: false,
         error: "Missing account UID",
       }, { status: 400 });
     }
-    
-    const account = await firestoreServerService.getAccountByUid(uid);
+
+    const account = auth.account;
 
     if (!account) {
       return NextResponse.json({
@@ -42,11 +32,11 @@ export async function GET(req: NextRequest) {
     }, { status: 200 });
   } catch (error) {
     console.error("[ACCOUNT_API_ERROR]", error);
-    
+
     return NextResponse.json({
       success: false,
       error: "Failed to fetch account data",
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+});
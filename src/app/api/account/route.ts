@@ -1,15 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import firestoreServerService from '@/app/services/firestore.server';
 import { Account } from '@/models';
-import { verifyAuthHeader } from '@/app/utils/auth-helpers';
-import { checkFirestoreReady } from '@/app/utils/api-helpers';
+import { withAuth } from '@/app/utils/api-helpers';
 import * as Sentry from '@sentry/nextjs';
 import { logger } from '@/lib/logger';
 
 /**
  * Helper function to check if the authenticated user is authorized to modify the account
  */
-function isAuthorized(accountUid: string, authenticatedUid: string | null): boolean {
+function isAuthorized(accountUid: string, authenticatedUid: string): boolean {
   console.log('isAuthorized: accountUid=', accountUid, 'authenticatedUid=', authenticatedUid);
   return authenticatedUid === accountUid;
 }
@@ -17,7 +16,7 @@ function isAuthorized(accountUid: string, authenticatedUid: string | null): bool
 /**
  * GET endpoint to get account by email
  */
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest, auth) => {
   logger.info({ message: 'GET /api/account called' });
   return Sentry.startSpan(
     {
@@ -26,25 +25,7 @@ export async function GET(req: NextRequest) {
     },
     async (span) => {
       try {
-        // Check if Firestore service is ready before proceeding
-        const readyCheck = checkFirestoreReady(req);
-        if (readyCheck) return readyCheck;
-
-        // Verify authentication
-        const authHeader = req.headers.get('Authorization');
-        const decodedToken = await verifyAuthHeader(authHeader);
-        const authenticatedUid = decodedToken?.uid;
-        
-        span.setAttribute("authenticated_uid", authenticatedUid || "none");
-        
-        if (!authenticatedUid) {
-          span.setAttribute("error_type", "unauthorized");
-          return NextResponse.json({
-            success: false,
-            error: "Unauthorized",
-            message: "Authentication required"
-          }, { status: 401 });
-        }
+        span.setAttribute("authenticated_uid", auth.uid);
 
         const { searchParams } = new URL(req.url);
         const email = searchParams.get('email');
@@ -59,6 +40,16 @@ export async function GET(req: NextRequest) {
           }, { status: 400 });
         }
 
+        // An account only looks up its own email
+        if (email.toLowerCase() !== auth.email?.toLowerCase()) {
+          span.setAttribute("error_type", "forbidden");
+          return NextResponse.json({
+            success: false,
+            error: "Forbidden",
+            message: "The email is not yours"
+          }, { status: 403 });
+        }
+
         console.log(`[/api/account] Received request to get account for email: ${email}`);
         
         // Get account by email
@@ -104,7 +95,7 @@ export async function GET(req: NextRequest) {
       }
     }
   );
-}
+});
 
 /**
  * Helper function to normalize account data and convert date strings to Date objects
@@ -150,7 +141,7 @@ function normalizeAccountData(body: unknown): Account {
 /**
  * POST endpoint to create or update an account
  */
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   logger.info({ message: 'POST /api/account called' });
   return Sentry.startSpan(
     {
@@ -161,17 +152,7 @@ export async function POST(req: NextRequest) {
       let requestBody: unknown = null;
       
       try {
-        // Check if Firestore service is ready before proceeding
-        const readyCheck = checkFirestoreReady(req);
-        if (readyCheck) return readyCheck;
-
-        // Verify authentication
-        const authHeader = req.headers.get('Authorization');
-        console.log(`[/api/account] POST - Auth header present: ${!!authHeader}`);
-        
-        const decodedToken = await verifyAuthHeader(authHeader);
-        const authenticatedUid = decodedToken?.uid;
-        console.log(`[/api/account] POST - Token verified: ${!!decodedToken}, authenticatedUid: ${authenticatedUid || 'none'}`);
+        const authenticatedUid = auth.uid;
         
         try {
           requestBody = await req.json();
@@ -189,7 +170,7 @@ export async function POST(req: NextRequest) {
         
         span.setAttribute("request_uid", (body.uid as string) || "missing");
         span.setAttribute("request_email", (body.email as string) || "missing");
-        span.setAttribute("authenticated_uid", authenticatedUid || "none");
+        span.setAttribute("authenticated_uid", authenticatedUid);
         
         // Validate required fields
         if (!body.uid || !body.email) {
@@ -203,9 +184,9 @@ export async function POST(req: NextRequest) {
         }
         
         // Check authorization - only allow users to modify their own account
-        console.log(`[/api/account] Authorization check: body.uid=${body.uid}, authenticatedUid=${authenticatedUid}, authorized=${isAuthorized(body.uid as string, authenticatedUid || null)}`);
+        console.log(`[/api/account] Authorization check: body.uid=${body.uid}, authenticatedUid=${authenticatedUid}, authorized=${isAuthorized(body.uid as string, authenticatedUid)}`);
         
-        if (!isAuthorized(body.uid as string, authenticatedUid || null)) {
+        if (!isAuthorized(body.uid as string, authenticatedUid)) {
           span.setAttribute("error_type", "unauthorized");
           return NextResponse.json({
             success: false,
@@ -221,10 +202,7 @@ export async function POST(req: NextRequest) {
         
         console.log('[/api/account] Normalized account data:', accountData);
 
-        // Check if account exists
-        const existingAccount = await firestoreServerService.getAccountByUid(body.uid as string);
-        
-        if (existingAccount) {
+        if (auth.account) {
           console.log(`[/api/account] Account ${body.uid} already exists, updating data`);
           span.setAttribute("action", "update");
           
@@ -275,7 +253,7 @@ export async function POST(req: NextRequest) {
           },
           extra: {
             requestBody: requestBody || "Failed to parse request body",
-            authenticatedUid: req.headers.get('Authorization') ? "present" : "missing"
+            authenticatedUid: auth.uid
           }
         });
         
@@ -287,4 +265,4 @@ export async function POST(req: NextRequest) {
       }
     }
   );
-} 
\ No newline at end of file
+});
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import firestoreServerService from '@/app/services/firestore.server';
-import { verifyAuthHeader } from '@/app/utils/auth-helpers';
-import { checkFirestoreReady } from '@/app/utils/api-helpers';
+import { withAuth } from '@/app/utils/api-helpers';
 import * as Sentry from '@sentry/nextjs';
 import { logger } from '@/lib/logger';
 
@@ -9,7 +8,7 @@ import { logger } from '@/lib/logger';
  * GET endpoint to fetch all accounts (admin only)
  * This endpoint retrieves all user accounts from the database
  */
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest, auth) => {
   logger.info({ message: 'GET /api/admin/accounts called' });
   return Sentry.startSpan(
     {
@@ -18,48 +17,13 @@ export async function GET(req: NextRequest) {
     },
     async (span) => {
       try {
-        // Check if Firestore service is ready before proceeding
-        const readyCheck = checkFirestoreReady(req);
-        if (readyCheck) return readyCheck;
+        span.setAttribute("authenticated_uid", auth.uid);
 
-        // Verify authentication
-        const authHeader = req.headers.get('Authorization');
-        const decodedToken = await verifyAuthHeader(authHeader);
-        const authenticatedUid = decodedToken?.uid;
-        
-        span.setAttribute("authenticated_uid", authenticatedUid || "none");
-        
-        if (!authenticatedUid) {
-          span.setAttribute("error_type", "unauthorized");
-          logger.warn({ message: 'Unauthorized access attempt to admin accounts endpoint' });
-          return NextResponse.json({
-            success: false,
-            error: "Unauthorized",
-            message: "Authentication required"
-          }, { status: 401 });
-        }
-
-        // Check if user has a role (role-based access control)
-        const userAccount = await firestoreServerService.getAccountByUid(authenticatedUid);
-        
-        if (!userAccount || !userAccount.role) {
-          span.setAttribute("error_type", "forbidden_no_role");
-          logger.warn({ 
-            message: 'Access denied - user has no role',
-            context: { uid: authenticatedUid }
-          });
-          return NextResponse.json({
-            success: false,
-            error: "Forbidden",
-            message: "You do not have permission to access the admin panel. Role required."
-          }, { status: 403 });
-        }
-
-        span.setAttribute("user_role", userAccount.role);
-        console.log(`[/api/admin/accounts] User ${authenticatedUid} with role ${userAccount.role} fetching all accounts`);
+        span.setAttribute("user_role", auth.account?.role || "none");
+        console.log(`[/api/admin/accounts] User ${auth.uid} with role ${auth.account?.role} fetching all accounts`);
         logger.info({ 
           message: 'Fetching all accounts',
-          context: { requestedBy: authenticatedUid }
+          context: { requestedBy: auth.uid }
         });
         
         // Fetch all accounts from Firestore
@@ -94,5 +58,5 @@ export async function GET(req: NextRequest) {
       }
     }
   );
-}
+}, { role: 'any' });
 
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import firestoreServerService from '@/app/services/firestore.server';
-import { verifyAuthHeader } from '@/app/utils/auth-helpers';
-import { checkFirestoreReady } from '@/app/utils/api-helpers';
+import { withAuth } from '@/app/utils/api-helpers';
+import { recordAdminAction } from '@/app/services/admin-audit.server';
+import { diffAuditFields, normalizeAuditReason } from '@/app/utils/admin-audit';
 import * as Sentry from '@sentry/nextjs';
 import { logger } from '@/lib/logger';
 
 /**
  * PATCH endpoint to update account role and access_rights (admin only)
+ * The change and the optional reason are added to the admin audit log
  */
-export async function PATCH(req: NextRequest) {
+export const PATCH = withAuth(async (req: NextRequest, auth) => {
   logger.info({ message: 'PATCH /api/admin/accounts/update called' });
   return Sentry.startSpan(
     {
@@ -17,47 +19,13 @@ export async function PATCH(req: NextRequest) {
     },
     async (span) => {
       try {
-        // Check if Firestore service is ready before proceeding
-        const readyCheck = checkFirestoreReady(req);
-        if (readyCheck) return readyCheck;
+        span.setAttribute("authenticated_uid", auth.uid);
 
-        // Verify authentication
-        const authHeader = req.headers.get('Authorization');
-        const decodedToken = await verifyAuthHeader(authHeader);
-        const authenticatedUid = decodedToken?.uid;
-        
-        span.setAttribute("authenticated_uid", authenticatedUid || "none");
-        
-        if (!authenticatedUid) {
-          span.setAttribute("error_type", "unauthorized");
-          logger.warn({ message: 'Unauthorized access attempt to update account endpoint' });
-          return NextResponse.json({
-            success: false,
-            error: "Unauthorized",
-            message: "Authentication required"
-          }, { status: 401 });
-        }
-
-        // Check if user has a role (role-based access control)
-        const userAccount = await firestoreServerService.getAccountByUid(authenticatedUid);
-        
-        if (!userAccount || !userAccount.role) {
-          span.setAttribute("error_type", "forbidden_no_role");
-          logger.warn({ 
-            message: 'Access denied - user has no role',
-            context: { uid: authenticatedUid }
-          });
-          return NextResponse.json({
-            success: false,
-            error: "Forbidden",
-            message: "You do not have permission to update accounts. Role required."
-          }, { status: 403 });
-        }
-
-        span.setAttribute("user_role", userAccount.role);
+        span.setAttribute("user_role", auth.account?.role || "none");
 
         const body = await req.json();
         const { uid, role, access_rights, kids_limit, story_per_kid_limit } = body;
+        const reason = normalizeAuditReason(body.reason);
 
         if (!uid) {
           return NextResponse.json({
@@ -81,7 +49,7 @@ export async function PATCH(req: NextRequest) {
           access_rights,
           kids_limit,
           story_per_kid_limit,
-          requestedBy: authenticatedUid },
+          requestedBy: auth.uid },
         });
 
         // Get the account
@@ -106,6 +74,16 @@ export async function PATCH(req: NextRequest) {
           story_per_kid_limit: story_per_kid_limit !== undefined ? story_per_kid_limit : account.story_per_kid_limit,
         });
 
+        await recordAdminAction({
+          action: 'account.update',
+          actorUid: auth.uid,
+          actorEmail: auth.email,
+          targetType: 'account',
+          targetId: uid,
+          changes: diffAuditFields(account, updatedAccount, ['role', 'access_rights', 'kids_limit', 'story_per_kid_limit']),
+          reason,
+        });
+
         logger.info({ 
           message: 'Successfully updated account',
           context: { uid: uid },
@@ -133,5 +111,5 @@ export async function PATCH(req: NextRequest) {
       }
     }
   );
-}
+}, { role: 'any' });
 
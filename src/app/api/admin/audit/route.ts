@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import firestoreServerService from '@/app/services/firestore.server';
+import { withAuth } from '@/app/utils/api-helpers';
+import { ADMIN_AUDIT_EXPORT_LIMIT, ADMIN_AUDIT_LIST_LIMIT, adminAuditToCsv } from '@/app/utils/admin-audit';
+import * as Sentry from '@sentry/nextjs';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET endpoint to read the admin audit log, newest first (admin only)
+ * Query: ?actorUid=&targetId= to filter, &format=csv to download the entries as a CSV file
+ */
+export const GET = withAuth(async (req: NextRequest, auth) => {
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "GET /api/admin/audit",
+    },
+    async (span) => {
+      try {
+        span.setAttribute("authenticated_uid", auth.uid);
+
+        const actorUid = req.nextUrl.searchParams.get("actorUid")?.trim() || undefined;
+        const targetId = req.nextUrl.searchParams.get("targetId")?.trim() || undefined;
+        const isCsv = req.nextUrl.searchParams.get("format") === "csv";
+        span.setAttribute("actor_uid", actorUid || "all");
+        span.setAttribute("target_id", targetId || "all");
+        span.setAttribute("format", isCsv ? "csv" : "json");
+
+        const entries = await firestoreServerService.getAdminAuditEntries(
+          { actorUid, targetId },
+          isCsv ? ADMIN_AUDIT_EXPORT_LIMIT : ADMIN_AUDIT_LIST_LIMIT
+        );
+        span.setAttribute("entries_count", entries.length);
+
+        if (isCsv) {
+          logger.info({
+            message: 'Exported admin audit log',
+            context: { actorUid, targetId, count: entries.length, requestedBy: auth.uid },
+          });
+
+          return new NextResponse(adminAuditToCsv(entries), {
+            status: 200,
+            headers: {
+              'Content-Type': 'text/csv; charset=utf-8',
+              'Content-Disposition': `attachment; filename="admin-audit-${new Date().toISOString().slice(0, 10)}.csv"`,
+              'Cache-Control': 'private, no-store',
+            },
+          });
+        }
+
+        return NextResponse.json({
+          success: true,
+          entries,
+          count: entries.length
+        }, { status: 200 });
+      } catch (error) {
+        console.error('[/api/admin/audit] Error fetching audit log:', error);
+        logger.error({
+          message: 'Error fetching admin audit log',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to fetch audit log",
+          message: error instanceof Error ? error.message : "An unexpected error occurred"
+        }, { status: 500 });
+      }
+    }
+  );
+}, { role: 'admin' });
+
+export const dynamic = "force-dynamic";
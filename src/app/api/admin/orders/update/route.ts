@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import firestoreServerService from '@/app/services/firestore.server';
+import { sendPrintOrderToPrinter } from '@/app/services/print-order.server';
+import { withAuth } from '@/app/utils/api-helpers';
+import { recordAdminAction } from '@/app/services/admin-audit.server';
+import { diffAuditFields, normalizeAuditReason } from '@/app/utils/admin-audit';
+import { PrintOrderStatus } from '@/models';
+import * as Sentry from '@sentry/nextjs';
+import { logger } from '@/lib/logger';
+
+/**
+ * PATCH endpoint to move a print order forward (admin only)
+ * status "sent_to_printer" sends a paid order to the printer again after a failed attempt,
+ * status "shipped" records the shipment with its tracking number
+ * The change and the optional reason are added to the admin audit log
+ */
+export const PATCH = withAuth(async (req: NextRequest, auth) => {
+  logger.info({ message: 'PATCH /api/admin/orders/update called' });
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "PATCH /api/admin/orders/update",
+    },
+    async (span) => {
+      try {
+        span.setAttribute("authenticated_uid", auth.uid);
+
+        const body = await req.json();
+        const { orderId, status, trackingNumber } = body;
+
+        if (!orderId || (status !== PrintOrderStatus.SENT_TO_PRINTER && status !== PrintOrderStatus.SHIPPED)) {
+          return NextResponse.json({
+            success: false,
+            error: "Invalid parameters",
+            message: `orderId and a status of "${PrintOrderStatus.SENT_TO_PRINTER}" or "${PrintOrderStatus.SHIPPED}" are required`
+          }, { status: 400 });
+        }
+
+        span.setAttribute("order_id", orderId);
+        span.setAttribute("new_status", status);
+
+        const order = await firestoreServerService.getPrintOrder(orderId);
+        if (!order) {
+          span.setAttribute("error_type", "not_found");
+          return NextResponse.json({
+            success: false,
+            error: "Order not found",
+            message: `No order found with ID: ${orderId}`
+          }, { status: 404 });
+        }
+
+        const updatedOrder = status === PrintOrderStatus.SENT_TO_PRINTER
+          ? await sendPrintOrderToPrinter(order)
+          : await firestoreServerService.transitionPrintOrder(orderId, PrintOrderStatus.SHIPPED, {
+              ...(trackingNumber ? { trackingNumber: String(trackingNumber) } : {})
+            });
+
+        if (!updatedOrder || updatedOrder.status !== status) {
+          return NextResponse.json({
+            success: false,
+            error: "Order cannot move to this status",
+            message: `Order ${orderId} is ${updatedOrder?.status || order.status}`
+          }, { status: 409 });
+        }
+
+        await recordAdminAction({
+          action: 'order.update',
+          actorUid: auth.uid,
+          actorEmail: auth.email,
+          targetType: 'order',
+          targetId: orderId,
+          changes: diffAuditFields(order, updatedOrder, ['status', 'trackingNumber', 'vendorOrderId']),
+          reason: normalizeAuditReason(body.reason),
+        });
+
+        logger.info({
+          message: 'Updated print order status',
+          context: { orderId, status, requestedBy: auth.uid },
+        });
+
+        return NextResponse.json({
+          success: true,
+          order: updatedOrder
+        }, { status: 200 });
+
+      } catch (error) {
+        console.error('[/api/admin/orders/update] Error updating order:', error);
+        logger.error({
+          message: 'Error updating order',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to update order",
+          message: error instanceof Error ? error.message : "An unexpected error occurred"
+        }, { status: 500 });
+      }
+    }
+  );
+}, { role: 'any' });
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import firestoreServerService from '@/app/services/firestore.server';
+import { withAuth } from '@/app/utils/api-helpers';
+import { recordAdminAction } from '@/app/services/admin-audit.server';
+import { diffAuditFields, normalizeAuditReason } from '@/app/utils/admin-audit';
+import { normalizePromoCode } from '@/app/utils/promo-code';
+import { PromoCodeCreateRequestSchema } from '@/models';
+import * as Sentry from '@sentry/nextjs';
+import { logger } from '@/lib/logger';
+
+/**
+ * GET endpoint to list all promo codes (admin only)
+ */
+export const GET = withAuth(async (req: NextRequest, auth) => {
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "GET /api/admin/promo-codes",
+    },
+    async (span) => {
+      try {
+        span.setAttribute("authenticated_uid", auth.uid);
+
+        const promoCodes = await firestoreServerService.getAllPromoCodes();
+        span.setAttribute("promo_codes_count", promoCodes.length);
+
+        return NextResponse.json({
+          success: true,
+          promoCodes,
+          count: promoCodes.length
+        }, { status: 200 });
+      } catch (error) {
+        console.error('[/api/admin/promo-codes] Error fetching promo codes:', error);
+        logger.error({
+          message: 'Error fetching promo codes',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to fetch promo codes",
+          message: error instanceof Error ? error.message : "An unexpected error occurred"
+        }, { status: 500 });
+      }
+    }
+  );
+}, { role: 'admin' });
+
+/**
+ * POST endpoint to create a promo code (admin only)
+ * The new code and the optional reason are added to the admin audit log
+ */
+export const POST = withAuth(async (req: NextRequest, auth) => {
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "POST /api/admin/promo-codes",
+    },
+    async (span) => {
+      try {
+        span.setAttribute("authenticated_uid", auth.uid);
+
+        const parsed = PromoCodeCreateRequestSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return NextResponse.json({
+            success: false,
+            error: "Invalid promo code",
+            message: parsed.error.issues[0]?.message,
+            details: parsed.error.flatten()
+          }, { status: 400 });
+        }
+        const { code, type, value, description, expiresAt, maxRedemptions, reason } = parsed.data;
+        const normalizedCode = normalizePromoCode(code);
+        span.setAttribute("promo_code", normalizedCode);
+
+        const promoCode = await firestoreServerService.createPromoCode({
+          code: normalizedCode,
+          type,
+          value,
+          ...(description ? { description } : {}),
+          expiresAt: expiresAt ? new Date(expiresAt) : null,
+          maxRedemptions: maxRedemptions ?? null,
+          createdBy: auth.uid,
+        });
+        if (!promoCode) {
+          return NextResponse.json({
+            success: false,
+            error: "Promo code already exists",
+            message: `The code ${normalizedCode} is already in use`
+          }, { status: 409 });
+        }
+
+        await recordAdminAction({
+          action: 'promo_code.create',
+          actorUid: auth.uid,
+          actorEmail: auth.email,
+          targetType: 'promo_code',
+          targetId: normalizedCode,
+          changes: diffAuditFields(null, promoCode, ['type', 'value', 'description', 'expiresAt', 'maxRedemptions', 'active']),
+          reason: normalizeAuditReason(reason),
+        });
+
+        logger.info({
+          message: 'Created promo code',
+          context: { code: normalizedCode, type, value, requestedBy: auth.uid },
+        });
+
+        return NextResponse.json({
+          success: true,
+          promoCode
+        }, { status: 201 });
+      } catch (error) {
+        console.error('[/api/admin/promo-codes] Error creating promo code:', error);
+        logger.error({
+          message: 'Error creating promo code',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to create promo code",
+          message: error instanceof Error ? error.message : "An unexpected error occurred"
+        }, { status: 500 });
+      }
+    }
+  );
+}, { role: 'admin' });
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import firestoreServerService from '@/app/services/firestore.server';
+import { withAuth } from '@/app/utils/api-helpers';
+import { recordAdminAction } from '@/app/services/admin-audit.server';
+import { diffAuditFields, normalizeAuditReason } from '@/app/utils/admin-audit';
+import { normalizePromoCode } from '@/app/utils/promo-code';
+import { PromoCodeUpdateRequestSchema } from '@/models';
+import * as Sentry from '@sentry/nextjs';
+import { logger } from '@/lib/logger';
+
+/**
+ * PATCH endpoint to change a promo code (admin only)
+ * A code can be turned off, or get a new expiry or redemption limit. Its type and value
+ * never change once people may have used it. The change and the optional reason are added to
+ * the admin audit log.
+ */
+export const PATCH = withAuth(async (req: NextRequest, auth) => {
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "PATCH /api/admin/promo-codes/update",
+    },
+    async (span) => {
+      try {
+        span.setAttribute("authenticated_uid", auth.uid);
+
+        const parsed = PromoCodeUpdateRequestSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return NextResponse.json({
+            success: false,
+            error: "Invalid parameters",
+            message: parsed.error.issues[0]?.message,
+            details: parsed.error.flatten()
+          }, { status: 400 });
+        }
+        const { active, expiresAt, maxRedemptions, reason } = parsed.data;
+        const code = normalizePromoCode(parsed.data.code);
+        span.setAttribute("promo_code", code);
+
+        const updated = await firestoreServerService.updatePromoCode(code, {
+          ...(active !== undefined ? { active } : {}),
+          ...(expiresAt !== undefined ? { expiresAt: expiresAt ? new Date(expiresAt) : null } : {}),
+          ...(maxRedemptions !== undefined ? { maxRedemptions } : {}),
+        });
+        if (!updated) {
+          return NextResponse.json({
+            success: false,
+            error: "Promo code not found",
+            message: `No promo code ${code}`
+          }, { status: 404 });
+        }
+        const { previous, promoCode } = updated;
+
+        await recordAdminAction({
+          action: 'promo_code.update',
+          actorUid: auth.uid,
+          actorEmail: auth.email,
+          targetType: 'promo_code',
+          targetId: code,
+          changes: diffAuditFields(previous, promoCode, ['active', 'expiresAt', 'maxRedemptions']),
+          reason: normalizeAuditReason(reason),
+        });
+
+        logger.info({
+          message: 'Updated promo code',
+          context: { code, active, expiresAt, maxRedemptions, requestedBy: auth.uid },
+        });
+
+        return NextResponse.json({
+          success: true,
+          promoCode
+        }, { status: 200 });
+      } catch (error) {
+        console.error('[/api/admin/promo-codes/update] Error updating promo code:', error);
+        logger.error({
+          message: 'Error updating promo code',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to update promo code",
+          message: error instanceof Error ? error.message : "An unexpected error occurred"
+        }, { status: 500 });
+      }
+    }
+  );
+}, { role: 'admin' });
+
+export const dynamic = "force-dynamic";
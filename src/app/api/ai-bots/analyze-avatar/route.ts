@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
 import * as Sentry from "@sentry/nextjs";
+import { checkRateLimit, withAuth } from "@/app/utils/api-helpers";
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  const rateLimited = await checkRateLimit(request, auth, 'ai_requests');
+  if (rateLimited) {
+    return rateLimited;
+  }
 
-export async function POST(request: NextRequest) {
   return Sentry.startSpan(
     {
       op: "ai.avatar_analysis",
@@ -60,4 +66,4 @@ export async function POST(request: NextRequest) {
       }
     }
   );
-}
+});
@@ -1,8 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
 import * as Sentry from "@sentry/nextjs";
+import { checkRateLimit, withAuth } from "@/app/utils/api-helpers";
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  const rateLimited = await checkRateLimit(request, auth, 'ai_requests');
+  if (rateLimited) {
+    return rateLimited;
+  }
 
-export async function POST(request: NextRequest) {
   try {
     const { imageUrl } = await request.json();
     
@@ -75,4 +81,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import * as Sentry from "@sentry/nextjs";
 import { ImageRequirementsCheckResponse } from '@/app/_lib/services/replicate_api';
 import { OPENAI_AGENTS } from '@/lib/openai-agents';
+import { checkRateLimit, withAuth } from "@/app/utils/api-helpers";
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  const rateLimited = await checkRateLimit(request, auth, 'ai_requests');
+  if (rateLimited) {
+    return rateLimited;
+  }
 
-export async function POST(request: NextRequest) {
   return Sentry.startSpan(
     {
       op: "ai.requirements_check",
@@ -158,4 +164,4 @@ export async function POST(request: NextRequest) {
       }
     }
   );
-}
+});
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
 import * as Sentry from "@sentry/nextjs";
+import { checkRateLimit, withAuth } from "@/app/utils/api-helpers";
 
 interface GenerateStoryImagesRequest {
   prompt: string;
@@ -10,7 +11,12 @@ interface GenerateStoryImagesRequest {
   referenceImageUrl?: string;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  const rateLimited = await checkRateLimit(request, auth, 'images');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   return Sentry.startSpan(
     {
       op: "ai.story_image_generation",
@@ -91,4 +97,4 @@ export async function POST(request: NextRequest) {
       }
     }
   );
-}
+});
@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { OpenAIClient } from "@/app/network/ai-bots/OpenAIClient";
 import { ResponseHandler } from "@/app/network/ai-bots/ResponseHandler";
 import { BOTS_IDS, getBotVersion } from "@/app/network/ai-bots";
+import { checkRateLimit, withAuth } from "@/app/utils/api-helpers";
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  const rateLimited = await checkRateLimit(request, auth, 'images');
+  if (rateLimited) {
+    return rateLimited;
+  }
 
-export async function POST(request: NextRequest) {
   const { prompt, referenceImageUrl, additionalParams } = await request.json();
   
   console.log("=== STORY IMAGE API REQUEST ===");
@@ -69,10 +75,12 @@ export async function POST(request: NextRequest) {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': auth.authHeader,
         },
         body: JSON.stringify({
           imageUrl,
-          folderPath: `story-images/${additionalParams?.userId || 'anonymous'}/${additionalParams?.kidId || 'unknown'}`
+          // additionalParams was checked by withAuth, the images go to the kid's account
+          folderPath: `story-images/${additionalParams?.userId || auth.uid}/${additionalParams?.kidId || 'unknown'}`
         })
       });
 
@@ -95,4 +103,4 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(result, { status: 500 });
     }
   });
-}
+});
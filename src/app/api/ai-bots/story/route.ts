@@ -2,8 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { OpenAIClient } from "@/app/network/ai-bots/OpenAIClient";
 import { ResponseHandler } from "@/app/network/ai-bots/ResponseHandler";
 import { BOTS_IDS, getBotVersion } from "@/app/network/ai-bots";
+import { checkRateLimit, withAuth } from "@/app/utils/api-helpers";
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  const rateLimited = await checkRateLimit(request, auth, 'stories');
+  if (rateLimited) {
+    return rateLimited;
+  }
 
-export async function POST(request: NextRequest) {
   const { prompt } = await request.json();
   
   if (!prompt) {
@@ -63,4 +69,4 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(result, { status: 500 });
     }
   });
-}
+});
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { firebaseAdmin } from '@/app/services/firebase-admin.service';
 import { v4 as uuidv4 } from 'uuid';
+import { checkRateLimit, withAuth } from '@/app/utils/api-helpers';
+
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  const rateLimited = await checkRateLimit(request, auth, 'ai_requests');
+  if (rateLimited) {
+    return rateLimited;
+  }
 
-export async function POST(request: NextRequest) {
   try {
-    const { imageUrl, folderPath = 'story-images' } = await request.json();
+    const { imageUrl, folderPath = `story-images/${auth.uid}` } = await request.json();
 
     if (!imageUrl) {
       return NextResponse.json(
@@ -82,4 +88,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
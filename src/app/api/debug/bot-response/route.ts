@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
+import { withAuth } from "@/app/utils/api-helpers";
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest) => {
   try {
     const { botId, botVersion, prompt } = await request.json();
     
@@ -24,4 +25,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+}, { role: 'admin' });
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as Sentry from "@sentry/nextjs";
+import { withAuth } from '@/app/utils/api-helpers';
 
 /**
  * Route handler for proxying requests to the sendEmailFunction Firebase Function
@@ -12,7 +13,7 @@ import * as Sentry from "@sentry/nextjs";
  *   "variables": { ... }
  * }
  */
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
   try {
     // Determine the Firebase function URL based on environment
     const isDevelopment = process.env.APP_ENV === 'development' || process.env.NEXT_PUBLIC_APP_ENV === 'development';
@@ -29,16 +30,6 @@ export async function POST(request: NextRequest) {
     // Get the request body
     const requestBody = await request.json();
     
-    // Get the authorization header to forward
-    const authHeader = request.headers.get('Authorization');
-    
-    if (!authHeader) {
-      return NextResponse.json(
-        { success: false, error: 'Authorization header is required' },
-        { status: 401 }
-      );
-    }
-    
     console.log(`[API] Proxying sendEmail request to: ${functionUrl}`);
     console.log(`[API] Request body:`, requestBody);
     
@@ -47,7 +38,7 @@ export async function POST(request: NextRequest) {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': authHeader,
+        'Authorization': auth.authHeader,
       },
       body: JSON.stringify(requestBody),
     });
@@ -94,5 +85,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
-
+});
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { logger } from '@/lib/logger';
+import { withOptionalAuth } from '@/app/utils/api-helpers';
 
 /**
  * API endpoint to receive error reports from the client
  * This is optional - you can also use external services like Sentry, LogRocket, etc.
  */
-export async function POST(request: NextRequest) {
+export const POST = withOptionalAuth(async (request: NextRequest, auth) => {
   try {
     let body;
     try {
@@ -33,7 +34,8 @@ export async function POST(request: NextRequest) {
         environment,
         version,
         url: data.url,
-        userId: data.userId,
+        // The signed in account, a signed out report only has the userId it sent
+        userId: auth?.uid || data.userId,
         userProperties: data.userProperties,
         userAgent: data.userAgent
       }
@@ -53,4 +55,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
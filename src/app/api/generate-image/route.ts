@@ -3,6 +3,7 @@ import OpenAI from 'openai';
 import { v4 as uuidv4 } from 'uuid';
 import { firebaseAdmin } from '@/app/services/firebase-admin.service';
 import * as Sentry from "@sentry/nextjs";
+import { checkRateLimit, withAuth } from '@/app/utils/api-helpers';
 
 // Lazy initialization of OpenAI client
 function getOpenAIClient(): OpenAI {
@@ -168,7 +169,12 @@ async function uploadToFirebaseStorage(imageUrl: string, userId?: string, folder
   );
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, auth) => {
+  const rateLimited = await checkRateLimit(request, auth, 'images');
+  if (rateLimited) {
+    return rateLimited;
+  }
+
   return Sentry.startSpan(
     {
       op: "http.server",
@@ -308,7 +314,7 @@ export async function POST(request: NextRequest) {
           span.setAttribute("folder.path", folderPath || "default");
           
           // Upload the generated image to Firebase Storage
-          const firebaseImageUrl = await uploadToFirebaseStorage(openaiImageUrl, userId, folderPath);
+          const firebaseImageUrl = await uploadToFirebaseStorage(openaiImageUrl, userId || auth.uid, folderPath);
           
           return NextResponse.json({ 
             imageUrl: firebaseImageUrl,
@@ -331,4 +337,4 @@ export async function POST(request: NextRequest) {
       }
     }
   );
-} 
\ No newline at end of file
+});
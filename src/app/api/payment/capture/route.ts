@@ -1,20 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server';
+import * as Sentry from '@sentry/nextjs';
 import { PaymentService } from '@/app/_lib/services/payment-service';
+import firestoreServerService from '@/app/services/firestore.server';
+import { completeOrderPayment, isCaptureForOrder } from '@/app/services/checkout-order.server';
+import { withAuth } from '@/app/utils/api-helpers';
+import { PrintOrderStatus } from '@/models';
 
-export async function POST(request: NextRequest) {
-    try {
-        const body = await request.json();
-        const { orderId } = body;
-
-        const captureData = await PaymentService.capturePayment(orderId);
-        console.log("Payment Success -> Capture data:", captureData);
-        return NextResponse.json(captureData);
-
-    } catch (error) {
-        console.error('Payment error:', error);
-        return NextResponse.json(
-            { error: 'Payment processing failed' },
-            { status: 500 }
-        );
-    }
-}
+/**
+ * POST endpoint called after the buyer approves the PayPal payment of an order
+ * Captures the payment, checks it matches the order total and marks the order paid, then sends
+ * a print order to the printer or adds the credits of a credit pack.
+ * Calling it again for an order that is already paid changes nothing.
+ */
+export const POST = withAuth(async (req: NextRequest, auth) => {
+    return Sentry.startSpan(
+        {
+            op: "http.server",
+            name: "POST /api/payment/capture",
+        },
+        async (span) => {
+            try {
+                const body = await req.json();
+                const { orderId } = body;
+                if (!orderId || typeof orderId !== 'string') {
+                    return NextResponse.json({
+                        success: false,
+                        error: "Missing orderId parameter"
+                    }, { status: 400 });
+                }
+                span.setAttribute("order_id", orderId);
+
+                const order = await firestoreServerService.getOrder(orderId);
+                if (!order || order.accountId !== auth.uid) {
+                    return NextResponse.json({
+                        success: false,
+                        error: "Order not found"
+                    }, { status: 404 });
+                }
+
+                // Credits added by a credit pack, shown to the buyer
+                const credits = order.type === 'credits' ? order.credits : undefined;
+
+                // Already paid, by an earlier call or by the PayPal webhook
+                if (order.status !== PrintOrderStatus.CREATED) {
+                    return NextResponse.json({ success: true, orderId, status: order.status, credits });
+                }
+                if (!order.paypalOrderId) {
+                    return NextResponse.json({
+                        success: false,
+                        error: "The order has no PayPal payment"
+                    }, { status: 409 });
+                }
+
+                const captureData = await PaymentService.capturePayment(order.paypalOrderId);
+                const capture = captureData.purchase_units?.[0]?.payments?.captures?.[0];
+                span.setAttribute("capture_status", capture?.status || "none");
+
+                if (captureData.status !== 'COMPLETED' || !capture || !isCaptureForOrder(order, capture)) {
+                    console.error('[PAYMENT_CAPTURE] Capture does not complete the order:', { orderId, captureData });
+                    return NextResponse.json({
+                        success: false,
+                        error: "Payment was not completed",
+                        details: { status: capture?.status || captureData.status }
+                    }, { status: 402 });
+                }
+
+                const completed = await completeOrderPayment(order, capture.id);
+                return NextResponse.json({ success: true, orderId, status: completed.status, credits });
+            } catch (error) {
+                console.error('Payment error:', error);
+                Sentry.captureException(error);
+                return NextResponse.json({
+                    success: false,
+                    error: 'Payment processing failed',
+                    message: error instanceof Error ? error.message : "Unknown error"
+                }, { status: 500 });
+            }
+        }
+    );
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import firestoreServerService from '@/app/services/firestore.server';
+import { PaymentService } from '@/app/_lib/services/payment-service';
+import { PROMO_CODE_REJECTED, PromoCodeRejectedError } from '@/app/utils/promo-code';
+import { CreditsOrder, PrintOrderStatus, PromoCode } from '@/models';
+import { POST } from '../route';
+
+jest.mock('@sentry/nextjs', () => ({
+  startSpan: (_options: unknown, callback: (span: { setAttribute: () => void }) => unknown) => callback({ setAttribute: jest.fn() }),
+  captureException: jest.fn(),
+  captureMessage: jest.fn(),
+}));
+
+jest.mock('@/app/utils/api-helpers', () => ({
+  withAuth: (handler: (req: NextRequest, auth: { uid: string }) => Promise<Response>) => (req: NextRequest) => handler(req, { uid: 'alice' }),
+  promoCodeRejectedResponse: (error: PromoCodeRejectedError) =>
+    NextResponse.json({ success: false, error: PROMO_CODE_REJECTED, details: error.details }, { status: 409 }),
+}));
+
+jest.mock('@/app/services/firestore.server', () => ({
+  __esModule: true,
+  default: {
+    getPromoCodeForAccount: jest.fn(),
+    createCreditsOrder: jest.fn(),
+    updateCreditsOrder: jest.fn(),
+    releasePromoCodeReservation: jest.fn(),
+  },
+}));
+
+jest.mock('@/app/_lib/services/payment-service', () => ({
+  PaymentService: { createOrder: jest.fn() },
+}));
+
+const firestore = firestoreServerService as jest.Mocked<typeof firestoreServerService>;
+const paymentService = PaymentService as jest.Mocked<typeof PaymentService>;
+
+const promo: PromoCode = {
+  code: 'SPRING',
+  type: 'percent_off',
+  value: 25,
+  maxRedemptions: 2,
+  redemptionCount: 1,
+  active: true,
+  createdBy: 'admin',
+  createdAt: new Date(),
+  lastUpdated: new Date(),
+};
+
+function createOrder(body: object) {
+  const req = new NextRequest('http://localhost/api/payment/create', { method: 'POST', body: JSON.stringify(body) });
+  return POST(req, undefined);
+}
+
+describe('POST /api/payment/create', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    firestore.getPromoCodeForAccount.mockResolvedValue({ promo, redemption: null, expiredReservation: false });
+    firestore.createCreditsOrder.mockImplementation(async order => ({
+      ...order,
+      id: 'order1',
+      type: 'credits',
+      status: PrintOrderStatus.CREATED,
+      createdAt: new Date(),
+      lastUpdated: new Date(),
+    } as CreditsOrder));
+    paymentService.createOrder.mockResolvedValue({ id: 'PAYPAL-ORDER-1' } as Awaited<ReturnType<typeof PaymentService.createOrder>>);
+  });
+
+  it('takes the promo code discount off the pack and saves the code on the order', async () => {
+    const response = await createOrder({ type: 'credits', packId: 'medium', promoCode: ' spring ' });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.total).toEqual({ currency: 'ILS', itemTotal: '69.00', discount: '17.25', total: '51.75' });
+    expect(firestore.getPromoCodeForAccount).toHaveBeenCalledWith('SPRING', 'alice');
+    expect(firestore.createCreditsOrder).toHaveBeenCalledWith(expect.objectContaining({
+      accountId: 'alice',
+      total: '51.75',
+      promoCode: 'SPRING',
+      discount: '17.25',
+    }));
+    expect(paymentService.createOrder).toHaveBeenCalledWith(expect.objectContaining({ discount: '17.25', total: '51.75', promoCode: 'SPRING' }));
+  });
+
+  it('rejects a code at its limit without saving an order', async () => {
+    firestore.getPromoCodeForAccount.mockResolvedValue({ promo: { ...promo, redemptionCount: 2 }, redemption: null, expiredReservation: false });
+
+    const response = await createOrder({ type: 'credits', packId: 'medium', promoCode: 'SPRING' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).details).toEqual({ reason: 'exhausted' });
+    expect(firestore.createCreditsOrder).not.toHaveBeenCalled();
+  });
+
+  it('accepts a code at its limit when a slot is held by an expired or an own reservation', async () => {
+    const exhausted = { ...promo, redemptionCount: 2 };
+    firestore.getPromoCodeForAccount.mockResolvedValueOnce({ promo: exhausted, redemption: null, expiredReservation: true });
+    firestore.getPromoCodeForAccount.mockResolvedValueOnce({
+      promo: exhausted,
+      redemption: { accountId: 'alice', orderId: 'order0', status: 'reserved' },
+      expiredReservation: false,
+    });
+
+    expect((await createOrder({ type: 'credits', packId: 'medium', promoCode: 'SPRING' })).status).toBe(200);
+    expect((await createOrder({ type: 'credits', packId: 'medium', promoCode: 'SPRING' })).status).toBe(200);
+  });
+
+  it('rejects a code the account already redeemed', async () => {
+    firestore.getPromoCodeForAccount.mockResolvedValue({
+      promo,
+      redemption: { accountId: 'alice', orderId: 'order0', status: 'redeemed' },
+      expiredReservation: false,
+    });
+
+    const response = await createOrder({ type: 'credits', packId: 'medium', promoCode: 'SPRING' });
+
+    expect(response.status).toBe(409);
+    expect((await response.json()).details).toEqual({ reason: 'already_redeemed' });
+  });
+
+  it('rejects the order when the code ran out before its reservation', async () => {
+    firestore.createCreditsOrder.mockRejectedValue(new PromoCodeRejectedError({ reason: 'exhausted' }));
+
+    const response = await createOrder({ type: 'credits', packId: 'medium', promoCode: 'SPRING' });
+
+    expect(response.status).toBe(409);
+    expect(paymentService.createOrder).not.toHaveBeenCalled();
+  });
+
+  it('gives the promo code back when PayPal refuses the order', async () => {
+    paymentService.createOrder.mockRejectedValue(new Error('PayPal unavailable'));
+
+    const response = await createOrder({ type: 'credits', packId: 'medium', promoCode: 'SPRING' });
+
+    expect(response.status).toBe(500);
+    expect(firestore.releasePromoCodeReservation).toHaveBeenCalledWith('SPRING', 'alice', 'order1');
+    expect(firestore.updateCreditsOrder).not.toHaveBeenCalled();
+  });
+});
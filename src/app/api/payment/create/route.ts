@@ -1,15 +1,178 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import * as Sentry from '@sentry/nextjs';
 import { PaymentService } from '@/app/_lib/services/payment-service';
+import firestoreServerService from '@/app/services/firestore.server';
+import { promoCodeRejectedResponse, withAuth } from '@/app/utils/api-helpers';
+import { calculatePrintOrderTotal } from '@/app/utils/print-order';
+import { calculateCreditPackTotal, getCreditPack } from '@/app/utils/credits';
+import { PromoCodeRejectedError } from '@/app/utils/promo-code';
+import { getCheckoutDiscount, releaseOrderPromoCode } from '@/app/services/promo-code.server';
+import { CreditsOrderCreateRequestSchema, PrintOrderCreateRequestSchema, StoryStatus } from '@/models';
 
-export async function POST() {
-    try {
-        const order = await PaymentService.createOrder();
-        return NextResponse.json(order);
-    } catch (error) {
-        console.error('Payment error:', error);
-        return NextResponse.json(
-            { error: 'Payment processing failed' },
-            { status: 500 }
-        );
+/**
+ * Save a credit pack order and open its PayPal order, the price comes from the pack and the promo code
+ */
+async function createCreditsOrder(accountId: string, body: unknown) {
+    const parsed = CreditsOrderCreateRequestSchema.safeParse(body);
+    const pack = parsed.success ? getCreditPack(parsed.data.packId) : null;
+    if (!parsed.success || !pack) {
+        return NextResponse.json({
+            success: false,
+            error: "Invalid credit pack",
+            details: parsed.success ? undefined : parsed.error.flatten()
+        }, { status: 400 });
     }
+
+    const discount = await getCheckoutDiscount(parsed.data.promoCode, accountId);
+    const total = calculateCreditPackTotal(pack, discount?.percentOff);
+    const order = await firestoreServerService.createCreditsOrder({
+        accountId,
+        packId: pack.id,
+        credits: pack.credits,
+        currency: total.currency,
+        total: total.total,
+        ...(discount ? { promoCode: discount.code, discount: total.discount } : {}),
+    });
+
+    const paypalOrder = await PaymentService.createOrder({
+        referenceId: order.id,
+        description: `${pack.credits} story credits`,
+        itemName: `${pack.credits} story credits`,
+        quantity: 1,
+        currency: total.currency,
+        unitPrice: total.itemTotal,
+        itemTotal: total.itemTotal,
+        shipping: '0.00',
+        discount: total.discount,
+        promoCode: discount?.code,
+        total: total.total,
+    }).catch(async (error) => {
+        // The order can never be paid, its promo code goes back
+        await releaseOrderPromoCode(order);
+        throw error;
+    });
+    await firestoreServerService.updateCreditsOrder(order.id, { paypalOrderId: paypalOrder.id });
+
+    return NextResponse.json({
+        success: true,
+        orderId: order.id,
+        paypalOrderId: paypalOrder.id,
+        credits: pack.credits,
+        total
+    });
 }
+
+/**
+ * POST endpoint to order printed copies of a story, or a credit pack when type is "credits"
+ * Saves the order in the created status and opens the matching PayPal order.
+ * The total is computed here from the format, quantity and promo code, never taken from the request.
+ * The promo code is reserved for the order when it is saved and given back if PayPal refuses the order.
+ */
+export const POST = withAuth(async (req: NextRequest, auth) => {
+    return Sentry.startSpan(
+        {
+            op: "http.server",
+            name: "POST /api/payment/create",
+        },
+        async (span) => {
+            try {
+                const body = await req.json();
+                if (body?.type === 'credits') {
+                    span.setAttribute("order_type", "credits");
+                    return await createCreditsOrder(auth.uid, body);
+                }
+
+                const parsed = PrintOrderCreateRequestSchema.safeParse(body);
+                if (!parsed.success) {
+                    return NextResponse.json({
+                        success: false,
+                        error: "Invalid order",
+                        details: parsed.error.flatten()
+                    }, { status: 400 });
+                }
+                const { storyId, format, quantity, shippingAddress, promoCode } = parsed.data;
+
+                span.setAttribute("story_id", storyId);
+                span.setAttribute("format", format);
+                span.setAttribute("quantity", quantity);
+
+                const story = await firestoreServerService.getStoryById(storyId);
+                if (!story) {
+                    return NextResponse.json({
+                        success: false,
+                        error: "Story not found"
+                    }, { status: 404 });
+                }
+                if (story.userId !== auth.uid && story.accountId !== auth.uid) {
+                    return NextResponse.json({
+                        success: false,
+                        error: "You can only order your own stories"
+                    }, { status: 403 });
+                }
+                if (story.status === StoryStatus.NEEDS_REVIEW || !story.pages?.length) {
+                    return NextResponse.json({
+                        success: false,
+                        error: "The story is not ready to print"
+                    }, { status: 409 });
+                }
+
+                const discount = await getCheckoutDiscount(promoCode, auth.uid);
+                const total = calculatePrintOrderTotal(format, quantity, discount?.percentOff);
+                const order = await firestoreServerService.createPrintOrder({
+                    accountId: auth.uid,
+                    storyId,
+                    storyTitle: story.title,
+                    format,
+                    quantity,
+                    shippingAddress,
+                    currency: total.currency,
+                    unitPrice: total.unitPrice,
+                    shipping: total.shipping,
+                    total: total.total,
+                    ...(discount ? { promoCode: discount.code, discount: total.discount } : {}),
+                });
+                span.setAttribute("order_id", order.id);
+
+                const paypalOrder = await PaymentService.createOrder({
+                    referenceId: order.id,
+                    description: `Printed ${format} book: ${story.title}`.slice(0, 127),
+                    itemName: story.title.slice(0, 127) || 'Story book',
+                    quantity,
+                    currency: total.currency,
+                    unitPrice: total.unitPrice,
+                    itemTotal: total.itemTotal,
+                    shipping: total.shipping,
+                    discount: total.discount,
+                    promoCode: discount?.code,
+                    total: total.total,
+                    shippingAddress,
+                }).catch(async (error) => {
+                    // The order can never be paid, its promo code goes back
+                    await releaseOrderPromoCode(order);
+                    throw error;
+                });
+                await firestoreServerService.updatePrintOrder(order.id, { paypalOrderId: paypalOrder.id });
+
+                return NextResponse.json({
+                    success: true,
+                    orderId: order.id,
+                    paypalOrderId: paypalOrder.id,
+                    total
+                });
+            } catch (error) {
+                if (error instanceof PromoCodeRejectedError) {
+                    return promoCodeRejectedResponse(error);
+                }
+                console.error('Payment error:', error);
+                Sentry.captureException(error);
+                return NextResponse.json({
+                    success: false,
+                    error: 'Payment processing failed',
+                    message: error instanceof Error ? error.message : "Unknown error"
+                }, { status: 500 });
+            }
+        }
+    );
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,203 @@
+import { NextRequest } from 'next/server';
+import firestoreServerService from '@/app/services/firestore.server';
+import { PaymentCapture, PaymentService } from '@/app/_lib/services/payment-service';
+import { LocalWebhookVerifier, setWebhookVerifierForTesting } from '@/app/services/payment-webhook.server';
+import { CreditsOrder, PrintOrderStatus } from '@/models';
+import { POST } from '../route';
+
+jest.mock('@sentry/nextjs', () => ({
+  startSpan: (_options: unknown, callback: (span: { setAttribute: () => void }) => unknown) => callback({ setAttribute: jest.fn() }),
+  captureException: jest.fn(),
+  captureMessage: jest.fn(),
+}));
+
+jest.mock('@/app/utils/api-helpers', () => ({
+  checkFirestoreReady: () => null,
+  withOptionalAuth: (handler: (req: NextRequest, auth: null) => Promise<Response>) => (req: NextRequest) => handler(req, null),
+}));
+
+jest.mock('@/app/services/firestore.server', () => ({
+  __esModule: true,
+  default: {
+    beginPaymentEvent: jest.fn(),
+    finishPaymentEvent: jest.fn(),
+    getOrder: jest.fn(),
+    getOrderByPaypalCaptureId: jest.fn(),
+    completeCreditsOrder: jest.fn(),
+    refundOrder: jest.fn(),
+  },
+}));
+
+jest.mock('@/app/_lib/services/payment-service', () => ({
+  PaymentService: { capturePayment: jest.fn(), verifyWebhookSignature: jest.fn() },
+}));
+
+jest.mock('@/app/services/print-order.server', () => ({ sendPrintOrderToPrinter: jest.fn() }));
+jest.mock('@/app/services/promo-code.server', () => ({ redeemOrderPromoCode: jest.fn() }));
+
+const firestore = firestoreServerService as jest.Mocked<typeof firestoreServerService>;
+const paymentService = PaymentService as jest.Mocked<typeof PaymentService>;
+
+const SECRET = 'webhook-test-secret';
+
+const order: CreditsOrder = {
+  id: 'order1',
+  type: 'credits',
+  accountId: 'alice',
+  packId: 'pack_10',
+  credits: 10,
+  currency: 'USD',
+  total: '9.99',
+  status: PrintOrderStatus.CREATED,
+  paypalOrderId: 'PAYPAL-ORDER-1',
+  createdAt: new Date(),
+  lastUpdated: new Date(),
+};
+
+const capture = { id: 'CAPTURE-1', status: 'COMPLETED', amount: { currency_code: 'USD', value: '9.99' } };
+
+function deliver(event: object, secret = SECRET) {
+  const rawBody = JSON.stringify(event);
+  const req = new NextRequest('http://localhost/api/payment/webhook', {
+    method: 'POST',
+    body: rawBody,
+    headers: { 'paypal-transmission-sig': LocalWebhookVerifier.sign(rawBody, secret) },
+  });
+  return POST(req, undefined);
+}
+
+describe('POST /api/payment/webhook', () => {
+  beforeAll(() => {
+    setWebhookVerifierForTesting(new LocalWebhookVerifier(SECRET));
+  });
+
+  afterAll(() => {
+    setWebhookVerifierForTesting(null);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    firestore.beginPaymentEvent.mockResolvedValue(true);
+    firestore.finishPaymentEvent.mockResolvedValue(undefined);
+    firestore.getOrder.mockResolvedValue(order);
+    firestore.completeCreditsOrder.mockImplementation(async (_orderId, paypalCaptureId) => ({
+      ...order,
+      status: PrintOrderStatus.PAID,
+      paypalCaptureId,
+    }));
+  });
+
+  it('rejects an event with an invalid signature', async () => {
+    const response = await deliver({ id: 'WH-1', event_type: 'PAYMENT.CAPTURE.COMPLETED', resource: capture }, 'wrong-secret');
+
+    expect(response.status).toBe(401);
+    expect(firestore.beginPaymentEvent).not.toHaveBeenCalled();
+    expect(firestore.completeCreditsOrder).not.toHaveBeenCalled();
+  });
+
+  it('answers a duplicate event without handling it again', async () => {
+    firestore.beginPaymentEvent.mockResolvedValue(false);
+
+    const response = await deliver({ id: 'WH-1', event_type: 'PAYMENT.CAPTURE.COMPLETED', resource: { ...capture, custom_id: order.id } });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, duplicate: true });
+    expect(firestore.getOrder).not.toHaveBeenCalled();
+    expect(firestore.finishPaymentEvent).not.toHaveBeenCalled();
+  });
+
+  it('captures an approved order and adds its credits', async () => {
+    paymentService.capturePayment.mockResolvedValue({ purchase_units: [{ payments: { captures: [capture] } }] } as unknown as PaymentCapture);
+
+    const response = await deliver({
+      id: 'WH-2',
+      event_type: 'CHECKOUT.ORDER.APPROVED',
+      resource: { id: order.paypalOrderId, purchase_units: [{ custom_id: order.id }] },
+    });
+
+    expect(response.status).toBe(200);
+    expect(paymentService.capturePayment).toHaveBeenCalledWith(order.paypalOrderId);
+    expect(firestore.completeCreditsOrder).toHaveBeenCalledWith(order.id, capture.id);
+    expect(firestore.finishPaymentEvent).toHaveBeenCalledWith('WH-2', 'processed', { orderId: order.id });
+  });
+
+  it('completes the order of a completed capture', async () => {
+    const response = await deliver({
+      id: 'WH-3',
+      event_type: 'PAYMENT.CAPTURE.COMPLETED',
+      resource: { ...capture, custom_id: order.id, supplementary_data: { related_ids: { order_id: order.paypalOrderId } } },
+    });
+
+    expect(response.status).toBe(200);
+    expect(paymentService.capturePayment).not.toHaveBeenCalled();
+    expect(firestore.completeCreditsOrder).toHaveBeenCalledWith(order.id, capture.id);
+    expect(firestore.finishPaymentEvent).toHaveBeenCalledWith('WH-3', 'processed', { orderId: order.id });
+  });
+
+  it('ignores a capture that does not pay the full order', async () => {
+    const response = await deliver({
+      id: 'WH-4',
+      event_type: 'PAYMENT.CAPTURE.COMPLETED',
+      resource: { ...capture, amount: { currency_code: 'USD', value: '0.01' }, custom_id: order.id },
+    });
+
+    expect(response.status).toBe(200);
+    expect(firestore.completeCreditsOrder).not.toHaveBeenCalled();
+    expect(firestore.finishPaymentEvent).toHaveBeenCalledWith('WH-4', 'ignored', expect.objectContaining({ orderId: order.id }));
+  });
+
+  it('refunds the order of a refunded capture', async () => {
+    firestore.getOrderByPaypalCaptureId.mockResolvedValue({ ...order, status: PrintOrderStatus.PAID, paypalCaptureId: capture.id });
+
+    const response = await deliver({
+      id: 'WH-5',
+      event_type: 'PAYMENT.CAPTURE.REFUNDED',
+      resource: {
+        id: 'REFUND-1',
+        amount: { currency_code: 'USD', value: '4.00' },
+        links: [{ rel: 'up', href: `https://api-m.paypal.com/v2/payments/captures/${capture.id}` }],
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(firestore.getOrderByPaypalCaptureId).toHaveBeenCalledWith(capture.id);
+    expect(firestore.refundOrder).toHaveBeenCalledWith(order.id, { id: 'REFUND-1', amount: '4.00' });
+    expect(firestore.finishPaymentEvent).toHaveBeenCalledWith('WH-5', 'processed', { orderId: order.id });
+  });
+
+  it('takes back the whole payment of a reversed capture', async () => {
+    firestore.getOrderByPaypalCaptureId.mockResolvedValue({ ...order, status: PrintOrderStatus.PAID, paypalCaptureId: capture.id });
+
+    const response = await deliver({ id: 'WH-7', event_type: 'PAYMENT.CAPTURE.REVERSED', resource: { ...capture, custom_id: order.id } });
+
+    expect(response.status).toBe(200);
+    expect(firestore.refundOrder).toHaveBeenCalledWith(order.id, { id: capture.id, amount: null });
+  });
+
+  it('ignores a refund in another currency', async () => {
+    firestore.getOrderByPaypalCaptureId.mockResolvedValue({ ...order, status: PrintOrderStatus.PAID, paypalCaptureId: capture.id });
+
+    const response = await deliver({
+      id: 'WH-8',
+      event_type: 'PAYMENT.CAPTURE.REFUNDED',
+      resource: {
+        id: 'REFUND-2',
+        amount: { currency_code: 'EUR', value: '4.00' },
+        links: [{ rel: 'up', href: `https://api-m.paypal.com/v2/payments/captures/${capture.id}` }],
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(firestore.refundOrder).not.toHaveBeenCalled();
+    expect(firestore.finishPaymentEvent).toHaveBeenCalledWith('WH-8', 'ignored', expect.objectContaining({ orderId: order.id }));
+  });
+
+  it('marks the event failed and returns 500 so PayPal retries it', async () => {
+    firestore.completeCreditsOrder.mockRejectedValue(new Error('Firestore unavailable'));
+
+    const response = await deliver({ id: 'WH-6', event_type: 'PAYMENT.CAPTURE.COMPLETED', resource: { ...capture, custom_id: order.id } });
+
+    expect(response.status).toBe(500);
+    expect(firestore.finishPaymentEvent).toHaveBeenCalledWith('WH-6', 'failed', { error: 'Firestore unavailable' });
+  });
+});
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as Sentry from '@sentry/nextjs';
+import { PaymentService, WebhookEvent } from '@/app/_lib/services/payment-service';
+import firestoreServerService from '@/app/services/firestore.server';
+import { completeOrderPayment, isCaptureForOrder } from '@/app/services/checkout-order.server';
+import { getWebhookVerifier } from '@/app/services/payment-webhook.server';
+import { checkFirestoreReady, withOptionalAuth } from '@/app/utils/api-helpers';
+import { CheckoutOrder, PrintOrderStatus } from '@/models';
+
+interface WebhookOutcome {
+    status: 'processed' | 'ignored';
+    orderId: string | null;
+    error?: string;
+}
+
+const ignored = (orderId: string | null, error?: string): WebhookOutcome => ({ status: 'ignored', orderId, error });
+
+/**
+ * The buyer approved the payment but the browser may never call /api/payment/capture,
+ * so the payment is captured here. Capturing twice fails at PayPal, the event is then retried
+ * and finds the order paid.
+ */
+async function handleOrderApproved(event: WebhookEvent): Promise<WebhookOutcome> {
+    const unit = event.resource.purchase_units?.[0];
+    const orderId = unit?.custom_id || unit?.reference_id || null;
+    const order = orderId ? await firestoreServerService.getOrder(orderId) : null;
+    if (!order || order.paypalOrderId !== event.resource.id) {
+        return ignored(orderId, 'No order for this PayPal order');
+    }
+    if (order.status !== PrintOrderStatus.CREATED) {
+        return { status: 'processed', orderId: order.id };
+    }
+
+    const captureData = await PaymentService.capturePayment(event.resource.id);
+    const capture = captureData.purchase_units?.[0]?.payments?.captures?.[0];
+    // A pending capture completes later with PAYMENT.CAPTURE.COMPLETED
+    if (capture?.status !== 'COMPLETED') {
+        return { status: 'processed', orderId: order.id };
+    }
+    return completeCapture(order, capture);
+}
+
+/**
+ * Payment captured, by our capture call or after a pending capture cleared
+ */
+async function handleCaptureCompleted(event: WebhookEvent): Promise<WebhookOutcome> {
+    const orderId = event.resource.custom_id || null;
+    const order = orderId ? await firestoreServerService.getOrder(orderId) : null;
+    const paypalOrderId = event.resource.supplementary_data?.related_ids?.order_id;
+    if (!order || (paypalOrderId && order.paypalOrderId !== paypalOrderId)) {
+        return ignored(orderId, 'No order for this capture');
+    }
+    return completeCapture(order, event.resource);
+}
+
+async function completeCapture(
+    order: CheckoutOrder,
+    capture: { id: string; status?: string; amount?: { currency_code: string; value: string } }
+): Promise<WebhookOutcome> {
+    if (!isCaptureForOrder(order, capture)) {
+        const error = `Capture ${capture.id} does not pay order ${order.id}`;
+        Sentry.captureMessage(error, { level: 'error', tags: { order_id: order.id } });
+        return ignored(order.id, error);
+    }
+    await completeOrderPayment(order, capture.id);
+    return { status: 'processed', orderId: order.id };
+}
+
+/**
+ * Capture refunded (resource is the refund, with its amount) or reversed by a chargeback
+ * (resource is the capture, the whole payment is taken back)
+ */
+async function handleCaptureRefunded(event: WebhookEvent): Promise<WebhookOutcome> {
+    const isReversal = event.event_type === 'PAYMENT.CAPTURE.REVERSED';
+    const captureLink = event.resource.links?.find(link => link.rel === 'up')?.href;
+    const captureId = isReversal ? event.resource.id : captureLink?.split('/').pop();
+
+    const order = (captureId && await firestoreServerService.getOrderByPaypalCaptureId(captureId))
+        || (event.resource.custom_id && await firestoreServerService.getOrder(event.resource.custom_id))
+        || null;
+    if (!order) {
+        return ignored(null, `No order for capture ${captureId || 'unknown'}`);
+    }
+
+    const amount = isReversal ? null : event.resource.amount;
+    if (amount && amount.currency_code !== order.currency) {
+        return ignored(order.id, `Refund ${event.resource.id} is in ${amount.currency_code}, the order is in ${order.currency}`);
+    }
+
+    await firestoreServerService.refundOrder(order.id, { id: event.resource.id, amount: amount?.value ?? null });
+    return { status: 'processed', orderId: order.id };
+}
+
+const EVENT_HANDLERS: Record<string, (event: WebhookEvent) => Promise<WebhookOutcome>> = {
+    'CHECKOUT.ORDER.APPROVED': handleOrderApproved,
+    'PAYMENT.CAPTURE.COMPLETED': handleCaptureCompleted,
+    'PAYMENT.CAPTURE.REFUNDED': handleCaptureRefunded,
+    'PAYMENT.CAPTURE.REVERSED': handleCaptureRefunded,
+};
+
+/**
+ * POST endpoint for PayPal webhook notifications
+ * Verifies the signature, records every event in payment_events_{env} and handles each event once:
+ * approved orders are captured, completed captures mark the order paid, refunds and reversals
+ * are saved on the order. Failures return 500 so PayPal delivers the event again.
+ * PayPal calls it without a token, the signature is what authenticates it.
+ */
+export const POST = withOptionalAuth(async (req: NextRequest) => {
+    return Sentry.startSpan(
+        {
+            op: "http.server",
+            name: "POST /api/payment/webhook",
+        },
+        async (span) => {
+            let eventId: string | null = null;
+            try {
+                const readyCheck = checkFirestoreReady(req);
+                if (readyCheck) return readyCheck;
+
+                const rawBody = await req.text();
+                let event: WebhookEvent;
+                try {
+                    event = JSON.parse(rawBody);
+                } catch {
+                    return NextResponse.json({
+                        success: false,
+                        error: "Invalid JSON body"
+                    }, { status: 400 });
+                }
+                if (!event?.id || !event.event_type || !event.resource?.id) {
+                    return NextResponse.json({
+                        success: false,
+                        error: "Not a PayPal webhook event"
+                    }, { status: 400 });
+                }
+                span.setAttribute("event_id", event.id);
+                span.setAttribute("event_type", event.event_type);
+
+                const verified = await getWebhookVerifier().verify({
+                    rawBody,
+                    event,
+                    headers: {
+                        authAlgo: req.headers.get('paypal-auth-algo') || '',
+                        certUrl: req.headers.get('paypal-cert-url') || '',
+                        transmissionId: req.headers.get('paypal-transmission-id') || '',
+                        transmissionSig: req.headers.get('paypal-transmission-sig') || '',
+                        transmissionTime: req.headers.get('paypal-transmission-time') || '',
+                    }
+                });
+                if (!verified) {
+                    console.warn('[PAYMENT_WEBHOOK] Rejected event with an invalid signature:', event.id);
+                    return NextResponse.json({
+                        success: false,
+                        error: "Invalid signature"
+                    }, { status: 401 });
+                }
+
+                const claimed = await firestoreServerService.beginPaymentEvent(event.id, {
+                    eventType: event.event_type,
+                    resourceId: event.resource.id,
+                    payload: event,
+                });
+                if (!claimed) {
+                    return NextResponse.json({ success: true, duplicate: true });
+                }
+                eventId = event.id;
+
+                const handler = EVENT_HANDLERS[event.event_type];
+                const outcome = handler ? await handler(event) : ignored(null);
+                span.setAttribute("outcome", outcome.status);
+
+                await firestoreServerService.finishPaymentEvent(event.id, outcome.status, {
+                    orderId: outcome.orderId,
+                    ...(outcome.error ? { error: outcome.error } : {})
+                });
+                return NextResponse.json({ success: true, status: outcome.status });
+            } catch (error) {
+                console.error('[PAYMENT_WEBHOOK] Error handling event:', error);
+                Sentry.captureException(error);
+                if (eventId) {
+                    await firestoreServerService.finishPaymentEvent(eventId, 'failed', {
+                        error: error instanceof Error ? error.message : String(error)
+                    }).catch(() => undefined);
+                }
+                return NextResponse.json({
+                    success: false,
+                    error: 'Webhook processing failed',
+                    message: error instanceof Error ? error.message : "Unknown error"
+                }, { status: 500 });
+            }
+        }
+    );
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as Sentry from '@sentry/nextjs';
+import { getCheckoutDiscount } from '@/app/services/promo-code.server';
+import { promoCodeRejectedResponse, withAuth } from '@/app/utils/api-helpers';
+import { PromoCodeRejectedError } from '@/app/utils/promo-code';
+
+/**
+ * GET endpoint to check a percent_off promo code before checkout
+ * Returns the percentage so the order dialogs can show the discounted total,
+ * the code is only counted when the order is paid.
+ */
+export const GET = withAuth(async (req: NextRequest, auth) => {
+    return Sentry.startSpan(
+        {
+            op: "http.server",
+            name: "GET /api/promo-codes/check",
+        },
+        async (span) => {
+            try {
+                const code = req.nextUrl.searchParams.get('code');
+                if (!code) {
+                    return NextResponse.json({
+                        success: false,
+                        error: "Missing code parameter"
+                    }, { status: 400 });
+                }
+
+                const discount = await getCheckoutDiscount(code, auth.uid);
+                span.setAttribute("promo_code", discount?.code || code);
+
+                return NextResponse.json({
+                    success: true,
+                    code: discount?.code,
+                    percentOff: discount?.percentOff
+                });
+            } catch (error) {
+                if (error instanceof PromoCodeRejectedError) {
+                    return promoCodeRejectedResponse(error);
+                }
+                console.error('[PROMO_CODE_API_ERROR]', error);
+                Sentry.captureException(error);
+                return NextResponse.json({
+                    success: false,
+                    error: 'Failed to check promo code',
+                    message: error instanceof Error ? error.message : "Unknown error"
+                }, { status: 500 });
+            }
+        }
+    );
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as Sentry from '@sentry/nextjs';
+import firestoreServerService from '@/app/services/firestore.server';
+import { promoCodeRejectedResponse, withAuth } from '@/app/utils/api-helpers';
+import { normalizePromoCode, PromoCodeRejectedError } from '@/app/utils/promo-code';
+
+/**
+ * POST endpoint to redeem a free_credits promo code for the signed in account
+ * Adds the code's credits to the balance, each account can redeem a code once.
+ * percent_off codes are rejected here with wrong_type, they are entered at checkout.
+ */
+export const POST = withAuth(async (req: NextRequest, auth) => {
+    return Sentry.startSpan(
+        {
+            op: "http.server",
+            name: "POST /api/promo-codes/redeem",
+        },
+        async (span) => {
+            try {
+                const body = await req.json();
+                if (!body?.code || typeof body.code !== 'string') {
+                    return NextResponse.json({
+                        success: false,
+                        error: "Missing code parameter"
+                    }, { status: 400 });
+                }
+                const code = normalizePromoCode(body.code);
+                span.setAttribute("promo_code", code);
+
+                const result = await firestoreServerService.redeemPromoCode(code, auth.uid, 'free_credits');
+                if ('rejected' in result) {
+                    span.setAttribute("rejected_reason", result.rejected.reason);
+                    return promoCodeRejectedResponse(new PromoCodeRejectedError(result.rejected));
+                }
+
+                return NextResponse.json({
+                    success: true,
+                    code,
+                    credits: result.promo.value,
+                    balance: result.balance
+                });
+            } catch (error) {
+                console.error('[PROMO_CODE_API_ERROR]', error);
+                Sentry.captureException(error);
+                return NextResponse.json({
+                    success: false,
+                    error: 'Failed to redeem promo code',
+                    message: error instanceof Error ? error.message : "Unknown error"
+                }, { status: 500 });
+            }
+        }
+    );
+});
+
+export const dynamic = "force-dynamic";
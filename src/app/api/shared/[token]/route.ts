@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { openSharedStory } from "@/app/services/story-share.server";
+import { checkFirestoreReady, getClientIp, shareLinkUnavailableResponse, withOptionalAuth } from "@/app/utils/api-helpers";
+import { SHARE_PASSCODE_HEADER } from "@/app/utils/story-share";
+
+/**
+ * GET endpoint to read a story through a public share link, no sign in needed
+ * A passcode protected link expects the passcode in the x-share-passcode header.
+ * Returns the reader's copy of the story, without the kid and account data.
+ */
+export const GET = withOptionalAuth(async (
+  req: NextRequest,
+  _auth,
+  { params }: { params: Promise<{ token: string }> }
+): Promise<Response> => {
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "GET /api/shared/[token]",
+    },
+    async (span) => {
+      try {
+        const readyCheck = checkFirestoreReady(req);
+        if (readyCheck) return readyCheck;
+
+        const { token } = await params;
+
+        const result = await openSharedStory(token, req.headers.get(SHARE_PASSCODE_HEADER), getClientIp(req));
+        if ('unavailable' in result) {
+          span.setAttribute("unavailable_reason", result.unavailable.reason);
+          return shareLinkUnavailableResponse(result.unavailable);
+        }
+        span.setAttribute("story_id", result.story.id);
+
+        return NextResponse.json({
+          success: true,
+          story: result.story
+        }, {
+          status: 200,
+          headers: { 'Cache-Control': 'private, no-store' }
+        });
+      } catch (error) {
+        console.error("[SHARED_STORY_ERROR]", error);
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to load the shared story",
+          message: error instanceof Error ? error.message : "Unknown error"
+        }, { status: 500 });
+      }
+    }
+  );
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import firestoreServerService from "@/app/services/firestore.server";
+import { renderStoryEpub } from "@/app/services/story-epub.server";
+import { withAuth } from "@/app/utils/api-helpers";
+import { StoryStatus } from "@/models";
+
+/**
+ * GET endpoint to download a story as an EPUB 3 book for e-readers
+ * Fixed-layout pages with the illustrations and fonts embedded, choices link to the first
+ * page of their path
+ */
+export const GET = withAuth(async (
+  req: NextRequest,
+  auth,
+  { params }: { params: Promise<{ storyId: string }> }
+): Promise<Response> => {
+  try {
+    const { storyId } = await params;
+
+    const story = await firestoreServerService.getStoryById(storyId);
+    if (!story) {
+      return NextResponse.json({
+        success: false,
+        error: "Story not found"
+      }, { status: 404 });
+    }
+    if (story.userId !== auth.uid && story.accountId !== auth.uid) {
+      return NextResponse.json({
+        success: false,
+        error: "You can only export your own stories"
+      }, { status: 403 });
+    }
+    if (story.status === StoryStatus.NEEDS_REVIEW || !story.pages?.length) {
+      return NextResponse.json({
+        success: false,
+        error: "The story is not ready to export"
+      }, { status: 409 });
+    }
+
+    const epub = await renderStoryEpub(story);
+    const fileName = `${story.title || 'story'}.epub`;
+
+    return new NextResponse(new Uint8Array(epub), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/epub+zip',
+        'Content-Length': String(epub.length),
+        // The plain filename is a fallback for clients without RFC 5987 support (Hebrew titles)
+        'Content-Disposition': `attachment; filename="story.epub"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error("[STORY_EPUB_EXPORT_ERROR]", error);
+
+    return NextResponse.json({
+      success: false,
+      error: "Failed to export story",
+      message: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import firestoreServerService from "@/app/services/firestore.server";
+import { renderStoryPdf } from "@/app/services/story-pdf.server";
+import { withAuth } from "@/app/utils/api-helpers";
+import { StoryStatus } from "@/models";
+
+/**
+ * GET endpoint to download a story as a print-ready PDF
+ * The cover, the shared pages, every choice and every path, with choices pointing to the
+ * page number their path starts on
+ */
+export const GET = withAuth(async (
+  req: NextRequest,
+  auth,
+  { params }: { params: Promise<{ storyId: string }> }
+): Promise<Response> => {
+  try {
+    const { storyId } = await params;
+
+    const story = await firestoreServerService.getStoryById(storyId);
+    if (!story) {
+      return NextResponse.json({
+        success: false,
+        error: "Story not found"
+      }, { status: 404 });
+    }
+    if (story.userId !== auth.uid && story.accountId !== auth.uid) {
+      return NextResponse.json({
+        success: false,
+        error: "You can only export your own stories"
+      }, { status: 403 });
+    }
+    if (story.status === StoryStatus.NEEDS_REVIEW || !story.pages?.length) {
+      return NextResponse.json({
+        success: false,
+        error: "The story is not ready to export"
+      }, { status: 409 });
+    }
+
+    const pdf = await renderStoryPdf(story);
+    const fileName = `${story.title || 'story'}.pdf`;
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        // The plain filename is a fallback for clients without RFC 5987 support (Hebrew titles)
+        'Content-Disposition': `attachment; filename="story.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error("[STORY_PDF_EXPORT_ERROR]", error);
+
+    return NextResponse.json({
+      success: false,
+      error: "Failed to export story",
+      message: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import firestoreServerService from "@/app/services/firestore.server";
+import { withAuth } from "@/app/utils/api-helpers";
+
+/**
+ * DELETE endpoint to revoke a public share link (owner only)
+ * The link stops working at once and stays listed with its view count
+ */
+export const DELETE = withAuth(async (
+  _req: NextRequest,
+  auth,
+  { params }: { params: Promise<{ storyId: string; token: string }> }
+): Promise<Response> => {
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "DELETE /api/story/[storyId]/share-links/[token]",
+    },
+    async (span) => {
+      try {
+        const { storyId, token } = await params;
+        span.setAttribute("story_id", storyId);
+
+        const link = await firestoreServerService.revokeStoryShareLink(token, auth.uid);
+        if (!link || link.storyId !== storyId) {
+          return NextResponse.json({
+            success: false,
+            error: "Share link not found"
+          }, { status: 404 });
+        }
+
+        return NextResponse.json({
+          success: true,
+          link
+        }, { status: 200 });
+      } catch (error) {
+        console.error("[STORY_SHARE_LINKS_ERROR] DELETE:", error);
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to revoke share link",
+          message: error instanceof Error ? error.message : "Unknown error"
+        }, { status: 500 });
+      }
+    }
+  );
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import firestoreServerService from "@/app/services/firestore.server";
+import { createShareToken, hashSharePasscode } from "@/app/services/story-share.server";
+import { authorizeKidAccess, RouteAuth, withAuth } from "@/app/utils/api-helpers";
+import { StoryShareLinkCreateRequestSchema } from "@/models";
+
+/**
+ * Checks that the signed in account owns the story
+ * @returns The owner's UID, or the 403/404 response to send back
+ */
+async function authorizeStoryOwner(req: NextRequest, auth: RouteAuth, storyId: string): Promise<string | NextResponse> {
+  const story = await firestoreServerService.getStoryById(storyId);
+  if (!story) {
+    return NextResponse.json({
+      success: false,
+      error: "Story not found"
+    }, { status: 404 });
+  }
+
+  const grant = await authorizeKidAccess(req, auth, { story }, 'owner');
+  return grant instanceof NextResponse ? grant : grant.uid;
+}
+
+/**
+ * GET endpoint to list the public share links of a story with their view counts (owner only)
+ */
+export const GET = withAuth(async (
+  req: NextRequest,
+  auth,
+  { params }: { params: Promise<{ storyId: string }> }
+): Promise<Response> => {
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "GET /api/story/[storyId]/share-links",
+    },
+    async (span) => {
+      try {
+        const { storyId } = await params;
+        span.setAttribute("story_id", storyId);
+
+        const ownerUid = await authorizeStoryOwner(req, auth, storyId);
+        if (ownerUid instanceof NextResponse) return ownerUid;
+
+        const links = await firestoreServerService.getStoryShareLinks(storyId, ownerUid);
+
+        return NextResponse.json({
+          success: true,
+          links
+        }, { status: 200 });
+      } catch (error) {
+        console.error("[STORY_SHARE_LINKS_ERROR] GET:", error);
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to get share links",
+          message: error instanceof Error ? error.message : "Unknown error"
+        }, { status: 500 });
+      }
+    }
+  );
+});
+
+/**
+ * POST endpoint to create a public read-only link to a story (owner only)
+ * Body: { expiresInDays?: number | null, passcode?: string }
+ */
+export const POST = withAuth(async (
+  req: NextRequest,
+  auth,
+  { params }: { params: Promise<{ storyId: string }> }
+): Promise<Response> => {
+  return Sentry.startSpan(
+    {
+      op: "http.server",
+      name: "POST /api/story/[storyId]/share-links",
+    },
+    async (span) => {
+      try {
+        const { storyId } = await params;
+        span.setAttribute("story_id", storyId);
+
+        const ownerUid = await authorizeStoryOwner(req, auth, storyId);
+        if (ownerUid instanceof NextResponse) return ownerUid;
+
+        const parsed = StoryShareLinkCreateRequestSchema.safeParse(await req.json());
+        if (!parsed.success) {
+          return NextResponse.json({
+            success: false,
+            error: "Invalid share link",
+            message: parsed.error.issues[0]?.message,
+            details: parsed.error.flatten()
+          }, { status: 400 });
+        }
+        const { expiresInDays, passcode } = parsed.data;
+        span.setAttribute("has_passcode", !!passcode);
+        span.setAttribute("expires_in_days", expiresInDays ?? 0);
+
+        const link = await firestoreServerService.createStoryShareLink({
+          token: createShareToken(),
+          storyId,
+          accountId: ownerUid,
+          expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+          passcodeHash: passcode ? await hashSharePasscode(passcode) : null,
+        });
+
+        return NextResponse.json({
+          success: true,
+          link
+        }, { status: 201 });
+      } catch (error) {
+        console.error("[STORY_SHARE_LINKS_ERROR] POST:", error);
+        Sentry.captureException(error);
+
+        return NextResponse.json({
+          success: false,
+          error: "Failed to create share link",
+          message: error instanceof Error ? error.message : "Unknown error"
+        }, { status: 500 });
+      }
+    }
+  );
+});
+
+export const dynamic = "force-dynamic";
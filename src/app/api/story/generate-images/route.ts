@@ -5,6 +5,7 @@ import { GenerateImageInputSchema } from "./types";
 import { v4 as uuidv4 } from 'uuid';
 import { firebaseAdmin } from '@/app/services/firebase-admin.service';
 import * as Sentry from "@sentry/nextjs";
+import { withAuth } from "@/app/utils/api-helpers";
 
 // Function to upload image to Firebase Storage
 async function uploadToFirebaseStorage(imageUrl: string, userId?: string, folderPath?: string): Promise<string> {
@@ -144,7 +145,7 @@ async function uploadToFirebaseStorage(imageUrl: string, userId?: string, folder
 }
 
 // Generic Generate Images API Route
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   return Sentry.startSpan(
     {
       op: "http.server",
@@ -172,8 +173,8 @@ export async function POST(req: NextRequest) {
         const validatedInput = GenerateImageInputSchema.parse(body);
         console.log("[GENERATE_IMAGES -- VALIDATED INPUT]", JSON.stringify(validatedInput, null, 2));
 
-        // Extract userId and folderPath from the request
-        const userId = validatedInput.userId || '';
+        // Extract userId and folderPath from the request, both checked by withAuth
+        const userId = validatedInput.userId || auth.uid;
         const folderPath = validatedInput.folderPath || '';
 
         // Use the new OpenAI-based story image generation
@@ -181,6 +182,7 @@ export async function POST(req: NextRequest) {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            'Authorization': auth.authHeader,
           },
           body: JSON.stringify({
             prompt: validatedInput.prompt,
@@ -207,7 +209,7 @@ export async function POST(req: NextRequest) {
         // Add attributes to the span
         span.setAttribute("openai.prompt", validatedInput.prompt);
         span.setAttribute("openai.outputCount", validatedInput.outputCount);
-        span.setAttribute("user.id", userId || "anonymous");
+        span.setAttribute("user.id", userId);
         span.setAttribute("folder.path", folderPath || "default");
         span.setAttribute("images.count", result.images.length);
 
@@ -255,6 +257,6 @@ export async function POST(req: NextRequest) {
       }
     }
   );
-}
+});
 
 export const dynamic = "force-dynamic"; 
\ No newline at end of file
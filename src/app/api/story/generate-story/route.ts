@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import firestoreServerService from "@/app/services/firestore.server";
 import { Story, StoryStatus, PageType } from "@/models";
-import { verifyAuthHeader } from "@/app/utils/auth-helpers";
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { authorizeKidAccess, quotaExceededResponse, withAuth } from "@/app/utils/api-helpers";
+import { releaseStoryQuota, reserveStoryQuota } from "@/app/services/quota.server";
+import { QuotaExceededError } from "@/app/utils/quota";
 
 // Schema for creating a story
 const CreateStorySchema = z.object({
@@ -55,18 +56,10 @@ const DeleteStorySchema = z.object({
 
 /**
  * POST endpoint to create a new story
+ * Needs write access to the kid
  */
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const body = await req.json();
     const validatedData = CreateStorySchema.parse(body);
 
@@ -77,9 +70,17 @@ export async function POST(req: NextRequest) {
     if (!validatedData.title) throw new Error('Missing story title');
     if (!validatedData.problemDescription) throw new Error('Missing problem description');
     if (validatedData.pages.length < 1) throw new Error('Missing pages');
+
+    const grant = await authorizeKidAccess(req, auth, { kidId: validatedData.kidId }, 'write');
+    if (grant instanceof NextResponse) return grant;
+
+    await reserveStoryQuota(grant.uid, validatedData.kidId);
     
     const initialStory: Story = {
       ...validatedData,
+      // The story belongs to its creator, also when the kid is shared with them
+      accountId: grant.uid,
+      userId: grant.uid,
       id: validatedData.id || '',
       advantages: '',
       disadvantages: '',
@@ -91,17 +92,10 @@ export async function POST(req: NextRequest) {
       const savedStory = await firestoreServerService.saveStory(initialStory);
       initialStory.id = savedStory.id;
       console.log('Initial story saved with ID:', initialStory.id);
-      
-      // Increment the stories_created counter for the kid
-      try {
-        await firestoreServerService.incrementStoriesCreated(validatedData.kidId);
-        console.log('[/api/story/generate-story] Incremented stories_created counter for kid:', validatedData.kidId);
-      } catch (incrementError) {
-        // Log the error but don't fail the story creation
-        console.error('[/api/story/generate-story] Failed to increment stories_created counter:', incrementError);
-      }
     } catch (error) {
       console.error('Failed to save initial story:', error);
+      // The story was counted against the kid's limit before it was saved
+      await releaseStoryQuota(validatedData.kidId);
       throw new Error('Failed to create story in database');
     }
     
@@ -111,6 +105,10 @@ export async function POST(req: NextRequest) {
     }, { status: 201 });
   } catch (error) {
     console.error("[STORY_API_ERROR]", error);
+
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
     
     if (error instanceof z.ZodError) {
       return NextResponse.json({
@@ -126,22 +124,14 @@ export async function POST(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error"
     }, { status: 500 });
   }
-}
+});
 
 /**
  * GET endpoint to fetch stories (either one story by ID or all stories for a kid)
+ * Access to the story or kid is checked by withAuth
  */
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const storyId = req.nextUrl.searchParams.get("storyId");
     const userId = req.nextUrl.searchParams.get("userId");
     const kidId = req.nextUrl.searchParams.get("kidId");
@@ -200,22 +190,14 @@ export async function GET(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error"
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE endpoint to delete a story
+ * Needs write access to the story's kid
  */
-export async function DELETE(req: NextRequest) {
+export const DELETE = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const userId = req.nextUrl.searchParams.get("userId");
     const storyId = req.nextUrl.searchParams.get("storyId");
     const kidId = req.nextUrl.searchParams.get("kidId");
@@ -229,7 +211,19 @@ export async function DELETE(req: NextRequest) {
     
     const validatedData = DeleteStorySchema.parse({ userId, storyId, kidId });
     
-    await firestoreServerService.deleteStory(validatedData.userId, validatedData.kidId, validatedData.storyId);
+    const story = await firestoreServerService.getStoryById(validatedData.storyId);
+    if (!story) {
+      return NextResponse.json({
+        success: false,
+        error: "Story not found"
+      }, { status: 404 });
+    }
+
+    const grant = await authorizeKidAccess(req, auth, { story }, 'write');
+    if (grant instanceof NextResponse) return grant;
+    
+    // The images are stored under the story's own account and kid, whoever deletes it
+    await firestoreServerService.deleteStory(story.accountId, story.kidId, validatedData.storyId);
     
     return NextResponse.json({
       success: true,
@@ -252,6 +246,6 @@ export async function DELETE(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error"
     }, { status: 500 });
   }
-}
+});
 
 // export const dynamic = "force-dynamic"; 
\ No newline at end of file
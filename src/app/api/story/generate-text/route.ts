@@ -3,6 +3,7 @@ import { GoogleGenerativeAI } from '@google/generative-ai';
 import { z } from 'zod';
 import { GenerateTextInputSchema } from './types';
 import OpenAI from 'openai';
+import { withAuth } from '@/app/utils/api-helpers';
 
 // Lazy initialization of OpenAI client to prevent build-time errors
 function getOpenAIClient(): OpenAI {
@@ -134,7 +135,7 @@ async function generateTextWithOpenAI(prompt: string, maxTokens?: number): Promi
   }
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest) => {
   try {
     // Parse and validate the request body
     const body = await req.json();
@@ -242,7 +243,7 @@ export async function POST(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error"
     }, { status: 500 });
   }
-}
+});
 
 // Ensure this route is only accessible via POST method
 export const dynamic = 'force-dynamic'; 
\ No newline at end of file
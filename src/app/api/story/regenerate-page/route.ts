@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import * as Sentry from "@sentry/nextjs";
+import firestoreServerService from "@/app/services/firestore.server";
+import { StoryPage, StoryPageRevision } from "@/models";
+import { authorizeKidAccess, withAuth } from "@/app/utils/api-helpers";
+
+// Older revisions are dropped so a page that is regenerated often doesn't grow the story document forever
+const MAX_PAGE_REVISIONS = 10;
+
+const RegeneratePageSchema = z.object({
+  storyId: z.string().min(1),
+  pageNum: z.number().int().nonnegative(),
+  instruction: z.string().max(500).optional(),
+});
+
+interface RegeneratedPageResult {
+  pageNum: number;
+  storyText: string;
+  imagePrompt: string;
+}
+
+/**
+ * Call the regenerateStoryPageText callable with the user's token
+ * Callables take {"data": ...} and answer {"result": ...} or {"error": {...}}
+ */
+async function callRegenerateStoryPageText(
+  authHeader: string,
+  data: z.infer<typeof RegeneratePageSchema>
+): Promise<RegeneratedPageResult> {
+  const isDevelopment = process.env.APP_ENV === 'development' || process.env.NEXT_PUBLIC_APP_ENV === 'development';
+  const functionName = isDevelopment ? 'devRegenerateStoryPageText' : 'regenerateStoryPageText';
+  const functionUrl = `https://us-central1-choicestory-b3135.cloudfunctions.net/${functionName}`;
+
+  console.log(`[API] Calling ${functionName} for story ${data.storyId}, page ${data.pageNum}`);
+
+  const response = await fetch(functionUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': authHeader,
+    },
+    body: JSON.stringify({ data }),
+  });
+
+  const responseBody = await response.json().catch(() => null);
+  if (!response.ok || !responseBody?.result) {
+    throw new Error(responseBody?.error?.message || `${functionName} failed with status ${response.status}`);
+  }
+
+  return responseBody.result as RegeneratedPageResult;
+}
+
+/**
+ * POST endpoint to regenerate the text of one story page
+ * The new text and image prompt replace the page's current ones, which are kept as a revision
+ *
+ * Request body:
+ * {
+ *   "storyId": "story_id",
+ *   "pageNum": 3,
+ *   "instruction": "make it funnier" (optional)
+ * }
+ */
+export const POST = withAuth(async (req: NextRequest, auth) => {
+  try {
+    const parsed = RegeneratePageSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        error: "Invalid request",
+        details: parsed.error.errors
+      }, { status: 400 });
+    }
+    const { storyId, pageNum, instruction } = parsed.data;
+
+    const story = await firestoreServerService.getStoryById(storyId);
+    if (!story) {
+      return NextResponse.json({
+        success: false,
+        error: "Story not found"
+      }, { status: 404 });
+    }
+    const grant = await authorizeKidAccess(req, auth, { story }, 'write');
+    if (grant instanceof NextResponse) return grant;
+    if (!story.pages || pageNum >= story.pages.length) {
+      return NextResponse.json({
+        success: false,
+        error: "Page not found"
+      }, { status: 404 });
+    }
+
+    const regenerated = await callRegenerateStoryPageText(auth.authHeader, { storyId, pageNum, instruction });
+
+    // The previous text is read inside the transaction, so a concurrent edit is kept as the revision
+    const updatedStory = await firestoreServerService.updateStoryWithTransaction(storyId, (existingStory) => ({
+      pages: existingStory.pages.map((page: StoryPage, index: number): StoryPage => {
+        if (index !== pageNum) return page;
+
+        const revision: StoryPageRevision = {
+          storyText: page.storyText,
+          imagePrompt: page.imagePrompt || '',
+          instruction: instruction || null,
+          createdAt: new Date(),
+        };
+
+        return {
+          ...page,
+          storyText: regenerated.storyText,
+          imagePrompt: regenerated.imagePrompt,
+          // The narration was of the previous text
+          audioUrl: null,
+          wordTimings: null,
+          revisions: [...(page.revisions || []), revision].slice(-MAX_PAGE_REVISIONS),
+        };
+      }),
+    }));
+
+    if (!updatedStory) {
+      return NextResponse.json({
+        success: false,
+        error: "Story not found"
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      page: updatedStory.pages[pageNum],
+      story: updatedStory
+    }, { status: 200 });
+  } catch (error) {
+    console.error("[REGENERATE_PAGE_API_ERROR]", error);
+    Sentry.captureException(error);
+
+    return NextResponse.json({
+      success: false,
+      error: "Failed to regenerate page",
+      message: error instanceof Error ? error.message : "Unknown error"
+    }, { status: 500 });
+  }
+});
+
+export const dynamic = "force-dynamic";
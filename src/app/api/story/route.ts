@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import firestoreServerService from "@/app/services/firestore.server";
 import { Story, StoryStatus, PageType } from "@/models";
-import { verifyAuthHeader } from "@/app/utils/auth-helpers";
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { authorizeKidAccess, quotaExceededResponse, withAuth } from "@/app/utils/api-helpers";
+import { releaseStoryQuota, reserveStoryQuota } from "@/app/services/quota.server";
+import { QuotaExceededError } from "@/app/utils/quota";
 
 // Schema for story validation
 const CreateStorySchema = z.object({
@@ -19,7 +20,13 @@ const CreateStorySchema = z.object({
     storyText: z.string(),
     selectedImageUrl: z.string().nullable().optional(),
     imagesUrls: z.array(z.string()).optional(),
-    imagePrompt: z.string().optional()
+    imagePrompt: z.string().optional(),
+    audioUrl: z.string().nullable().optional(),
+    wordTimings: z.array(z.object({
+      start: z.number(),
+      end: z.number(),
+      charIndex: z.number()
+    })).nullable().optional()
   }))
 });
 
@@ -43,18 +50,11 @@ const CreateStorySchema = z.object({
 
 /**
  * POST endpoint to create a new story
+ * Creating a story or saving over an existing one needs write access to the kid, a shared editor
+ * sends the owner's account IDs of the story it saves
  */
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const body = await req.json();
     const validatedData = CreateStorySchema.parse(body);
     
@@ -64,6 +64,20 @@ export async function POST(req: NextRequest) {
     if (!validatedData.title) throw new Error('Missing story title');
     if (!validatedData.problemDescription) throw new Error('Missing problem description');
     if (!validatedData.pages || validatedData.pages.length < 1) throw new Error('Missing pages');
+
+    const existingStory = validatedData.id ? await firestoreServerService.getStoryById(validatedData.id) : null;
+    const grant = await authorizeKidAccess(req, auth, existingStory ? { story: existingStory } : { kidId: validatedData.kidId }, 'write');
+    if (grant instanceof NextResponse) return grant;
+
+    // The story keeps its creator and kid when a shared editor saves it, a new story belongs to its creator
+    const owner = existingStory
+      ? { accountId: existingStory.accountId, userId: existingStory.userId, kidId: existingStory.kidId }
+      : { accountId: grant.uid, userId: grant.uid, kidId: validatedData.kidId };
+
+    // Updates of an existing story don't count against the story limit
+    if (!existingStory) {
+      await reserveStoryQuota(owner.accountId, owner.kidId);
+    }
     
     // Validate that all pages have required image URLs
     // const missingImages = validatedData.pages.filter((page: z.infer<typeof CreateStorySchema>['pages'][0]) => !page.selectedImageUrl);
@@ -75,6 +89,7 @@ export async function POST(req: NextRequest) {
     // Create initial story object with properly typed pages
     const initialStory: Story = {
       ...validatedData,
+      ...owner,
       id: validatedData.id || '', // Will be assigned by Firestore
       advantages: '',
       disadvantages: '',
@@ -102,15 +117,6 @@ export async function POST(req: NextRequest) {
         throw new Error('Failed to save story to database');
       }
       
-      // Increment the stories_created counter for the kid
-      try {
-        await firestoreServerService.incrementStoriesCreated(validatedData.kidId);
-        console.log('[/api/story] Incremented stories_created counter for kid:', validatedData.kidId);
-      } catch (incrementError) {
-        // Log the error but don't fail the story creation
-        console.error('[/api/story] Failed to increment stories_created counter:', incrementError);
-      }
-      
       console.log('[/api/story] Story saved successfully:', {
         id: savedStory.id,
         title: savedStory.title
@@ -125,31 +131,34 @@ export async function POST(req: NextRequest) {
       }, { status: 201 });
     } catch (error) {
       console.error('[/api/story] Database error:', error);
+      // The story was counted against the kid's limit before it was saved
+      if (!existingStory) {
+        await releaseStoryQuota(owner.kidId);
+      }
       throw new Error('Failed to save story to database');
     }
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
     console.error('[/api/story] Error handling story creation:', error);
     return NextResponse.json({
       success: false,
       error: error instanceof Error ? error.message : 'Failed to create story'
     }, { status: 500 });
   }
-}
+}, { allowOwnerIds: true });
 
 /**
  * GET endpoint to fetch stories
+ * Access to the story or kid is checked by withAuth, signed out readers open stories through share links
  */
-export async function GET(req: NextRequest): Promise<Response> {
+export const GET = withAuth(async (req: NextRequest): Promise<Response> => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
     const storyId = req.nextUrl.searchParams.get("storyId");
-    const userId = req.nextUrl.searchParams.get("userId");
     const kidId = req.nextUrl.searchParams.get("kidId");
 
-    // Get single story by ID - Allow public access for sharing
+    // Get single story by ID
     if (storyId) {
       const story = await firestoreServerService.getStoryById(storyId);
       
@@ -166,11 +175,6 @@ export async function GET(req: NextRequest): Promise<Response> {
       }, { status: 200 });
     }
 
-    // For listing stories (by kidId), require authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-
     // Get stories by kid ID
     if (kidId) {
       const stories = await firestoreServerService.getStoriesByKidId(kidId);
@@ -194,21 +198,14 @@ export async function GET(req: NextRequest): Promise<Response> {
       message: error instanceof Error ? error.message : "Unknown error"
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE endpoint to remove a story
+ * Needs write access to the story's kid
  */
-export async function DELETE(req: NextRequest): Promise<Response> {
+export const DELETE = withAuth(async (req: NextRequest, auth): Promise<Response> => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const userId = req.nextUrl.searchParams.get("userId");
     const storyId = req.nextUrl.searchParams.get("storyId");
     const kidId = req.nextUrl.searchParams.get("kidId");
@@ -220,7 +217,19 @@ export async function DELETE(req: NextRequest): Promise<Response> {
       }, { status: 400 });
     }
 
-    await firestoreServerService.deleteStory(userId, kidId, storyId);
+    const story = await firestoreServerService.getStoryById(storyId);
+    if (!story) {
+      return NextResponse.json({
+        success: false,
+        error: "Story not found"
+      }, { status: 404 });
+    }
+
+    const grant = await authorizeKidAccess(req, auth, { story }, 'write');
+    if (grant instanceof NextResponse) return grant;
+
+    // The images are stored under the story's own account and kid, whoever deletes it
+    await firestoreServerService.deleteStory(story.accountId, story.kidId, storyId);
     
     return NextResponse.json({
       success: true,
@@ -236,23 +245,15 @@ export async function DELETE(req: NextRequest): Promise<Response> {
       message: error instanceof Error ? error.message : "Unknown error"
     }, { status: 500 });
   }
-}
+});
 
 /**
  * PATCH endpoint for partial updates to a story
  * Uses Firestore transaction to prevent race conditions when multiple updates happen simultaneously
+ * Needs write access to the story's kid
  */
-export async function PATCH(req: NextRequest) {
+export const PATCH = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const storyId = req.nextUrl.searchParams.get("storyId");
     if (!storyId) {
       return NextResponse.json({
@@ -261,8 +262,20 @@ export async function PATCH(req: NextRequest) {
       }, { status: 400 });
     }
     
+    const story = await firestoreServerService.getStoryById(storyId);
+    if (!story) {
+      return NextResponse.json({
+        success: false,
+        error: "Story not found"
+      }, { status: 404 });
+    }
+
+    const grant = await authorizeKidAccess(req, auth, { story }, 'write');
+    if (grant instanceof NextResponse) return grant;
+    
     // Get the patch data from the request body
-    const patchData = await req.json();
+    // The story's ID, creator and kid decide who may access it, so a patch cannot change them
+    const { id: _id, accountId: _accountId, userId: _userId, kidId: _kidId, ...patchData } = await req.json();
     
     // Use transaction to prevent race conditions
     const updatedStory = await firestoreServerService.updateStoryWithTransaction(storyId, patchData);
@@ -287,6 +300,6 @@ export async function PATCH(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error"
     }, { status: 500 });
   }
-}
+});
 
 export const dynamic = "force-dynamic"; 
\ No newline at end of file
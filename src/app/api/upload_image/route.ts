@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { v4 as uuidv4 } from 'uuid';
 import { firebaseAdmin } from '@/app/services/firebase-admin.service';
+import { withAuth } from '@/app/utils/api-helpers';
 
 // Get bucket name from environment
 const bucketName = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
@@ -51,9 +52,9 @@ const UploadImageSchema = z.object({
   // Either base64 encoded image data or image URL must be provided
   base64Data: z.string().optional(),
   imageUrl: z.string().optional(),
-  // User ID for organizing storage paths (optional)
+  // User ID for organizing storage paths (optional, defaults to the signed in account)
   userId: z.string().optional(),
-  // Optional folder path to organize images
+  // Optional folder path to organize images, {root}/{accountId}/...
   folderPath: z.string().optional(),
   // Optional filename (will generate one if not provided)
   fileName: z.string().optional(),
@@ -64,7 +65,11 @@ const UploadImageSchema = z.object({
   path: ["base64Data"]
 });
 
-export async function POST(req: NextRequest) {
+/**
+ * POST endpoint to upload an image to storage
+ * The userId and folderPath are checked by withAuth, images go under the account's own folders
+ */
+export const POST = withAuth(async (req: NextRequest, auth) => {
   try {
     console.log("[UPLOAD_IMAGE -- REQUEST]", req.url);
     
@@ -121,16 +126,10 @@ export async function POST(req: NextRequest) {
       `image_${Date.now()}_${uuidv4().substring(0, 8)}.${fileType}`;
     
     // Determine the storage path
-    const userId = validatedInput.userId || "anonymous";
-    let filePath;
-    
-    if (validatedInput.folderPath) {
-      filePath = `${validatedInput.folderPath}/${fileName}`;
-    } else if (userId === "anonymous") {
-      filePath = `temp/anonymous/${fileName}`;
-    } else {
-      filePath = `users/${userId}/images/${fileName}`;
-    }
+    const userId = validatedInput.userId || auth.uid;
+    const filePath = validatedInput.folderPath
+      ? `${validatedInput.folderPath}/${fileName}`
+      : `users/${userId}/images/${fileName}`;
     
     console.log("[UPLOAD_IMAGE] Using path:", filePath);
     
@@ -239,6 +238,6 @@ export async function POST(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error"
     }, { status: 500 });
   }
-}
+});
 
 export const dynamic = "force-dynamic"; 
\ No newline at end of file
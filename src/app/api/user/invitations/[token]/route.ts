@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import firestoreServerService from "@/app/services/firestore.server";
+import { sendTemplateEmail } from "@/app/services/email.server";
+import { readInvitationToken } from "@/app/services/share-invitation.server";
+import { checkFirestoreReady, shareInvitationUnavailableResponse, withAuth, withOptionalAuth } from "@/app/utils/api-helpers";
+import { getInvitationStatus } from "@/app/utils/share-invitation";
+import { getEmailTemplateId } from "@/constants/email-templates";
+import { KidShareInvitationResponseRequestSchema } from "@/models";
+
+/**
+ * GET endpoint to view an invitation from its signed link
+ * The link is the credential here, the invitation page shows who invited before asking to sign in
+ */
+export const GET = withOptionalAuth(async (
+  request: NextRequest,
+  _auth,
+  { params }: { params: Promise<{ token: string }> }
+): Promise<Response> => {
+  try {
+    // Check if Firestore service is ready before proceeding
+    const readyCheck = checkFirestoreReady(request);
+    if (readyCheck) return readyCheck;
+
+    const { token } = await params;
+    const invitationId = readInvitationToken(token);
+    const invitation = invitationId ? await firestoreServerService.getKidShareInvitation(invitationId) : null;
+    if (!invitation) {
+      return shareInvitationUnavailableResponse({ reason: 'not_found' });
+    }
+
+    return NextResponse.json({
+      success: true,
+      invitation: { ...invitation, status: getInvitationStatus(invitation) },
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error(`[INVITATIONS_API_ERROR] GET /api/user/invitations/[token]:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: "Failed to fetch invitation",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, { status: 500 });
+  }
+});
+
+/**
+ * POST endpoint to accept or decline an invitation, only for the account signed in with the invited email
+ * Accepting shares the kid and emails the account that sent the invitation
+ * Body: { action: 'accept' | 'decline' }
+ */
+export const POST = withAuth(async (
+  request: NextRequest,
+  auth,
+  { params }: { params: Promise<{ token: string }> }
+): Promise<Response> => {
+  try {
+    const parsed = KidShareInvitationResponseRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        error: "Invalid request body",
+        details: parsed.error.flatten(),
+      }, { status: 400 });
+    }
+    const { action } = parsed.data;
+
+    const { token } = await params;
+    const invitationId = readInvitationToken(token);
+    if (!invitationId) {
+      return shareInvitationUnavailableResponse({ reason: 'not_found' });
+    }
+
+    const result = await firestoreServerService.respondToKidShareInvitation(invitationId, auth.email, action);
+    if ('unavailable' in result) {
+      return shareInvitationUnavailableResponse(result.unavailable);
+    }
+    const { invitation } = result;
+
+    console.log(`[/api/user/invitations] ${invitation.email} ${invitation.status} the invitation to kid ${invitation.kidId}`);
+
+    if (invitation.status === 'accepted' && invitation.invitedByEmail) {
+      // The share is already in place, a failed notification only gets logged
+      await sendTemplateEmail(auth.authHeader, {
+        to: invitation.invitedByEmail,
+        templateId: getEmailTemplateId(invitation.language, 'KID_INVITATION_ACCEPTED'),
+        variables: {
+          INVITEE_EMAIL: invitation.email,
+          KID_NAME: invitation.kidName,
+          DASHBOARD_URL: `${request.nextUrl.origin}/dashboard`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      invitation,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error(`[INVITATIONS_API_ERROR] POST /api/user/invitations/[token]:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: "Failed to respond to invitation",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, { status: 500 });
+  }
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import firestoreServerService from "@/app/services/firestore.server";
+import { createInvitationToken } from "@/app/services/share-invitation.server";
+import { withAuth } from "@/app/utils/api-helpers";
+import { getInvitationStatus } from "@/app/utils/share-invitation";
+
+/**
+ * GET endpoint to fetch the pending share invitations sent to the current user's email
+ * Each invitation comes with the token its accept/decline requests are sent with
+ */
+export const GET = withAuth(async (_request: NextRequest, auth): Promise<Response> => {
+  try {
+    if (!auth.email) {
+      return NextResponse.json({
+        success: false,
+        error: "Unauthorized or no email in token",
+      }, { status: 401 });
+    }
+
+    const pendingInvitations = await firestoreServerService.getPendingKidShareInvitations({ email: auth.email });
+    const invitations = pendingInvitations
+      .filter(invitation => getInvitationStatus(invitation) === 'pending')
+      .map(invitation => ({ ...invitation, token: createInvitationToken(invitation.id) }));
+
+    return NextResponse.json({
+      success: true,
+      invitations,
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error(`[INVITATIONS_API_ERROR] GET /api/user/invitations:`, error);
+
+    return NextResponse.json({
+      success: false,
+      error: "Failed to fetch invitations",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, { status: 500 });
+  }
+});
+
+export const dynamic = "force-dynamic";
@@ -0,0 +1,91 @@
+import { NextRequest } from 'next/server';
+import firestoreServerService from '@/app/services/firestore.server';
+import { addKidWithinQuota } from '@/app/services/quota.server';
+import { verifyAuthHeader } from '@/app/utils/auth-helpers';
+import { Gender, KidDetails } from '@/models';
+import { POST } from '../route';
+
+jest.mock('@sentry/nextjs', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@/app/services/firestore.server', () => ({
+  __esModule: true,
+  default: {
+    isReady: jest.fn(() => true),
+    getInitializationError: jest.fn(),
+    getAccountByUid: jest.fn(),
+    getKid: jest.fn(),
+    getStoryById: jest.fn(),
+    getKidSharePermission: jest.fn(),
+    saveKid: jest.fn(),
+  },
+}));
+
+jest.mock('@/app/services/remote-config.service', () => ({
+  RemoteConfigService: { getNumber: jest.fn() },
+}));
+
+jest.mock('@/app/utils/auth-helpers', () => ({
+  verifyAuthHeader: jest.fn(),
+}));
+
+jest.mock('@/app/services/quota.server', () => ({
+  addKidWithinQuota: jest.fn(),
+}));
+
+const firestore = firestoreServerService as jest.Mocked<typeof firestoreServerService>;
+const verifyToken = verifyAuthHeader as jest.MockedFunction<typeof verifyAuthHeader>;
+const addKid = addKidWithinQuota as jest.MockedFunction<typeof addKidWithinQuota>;
+
+const kid = { id: 'kid1', accountId: 'owner', names: [], age: 6, gender: Gender.female } as KidDetails;
+
+function saveKidAs(uid: string, body: object) {
+  verifyToken.mockResolvedValue({ uid, email: `${uid}@example.com` } as Awaited<ReturnType<typeof verifyAuthHeader>>);
+  const req = new NextRequest('http://localhost/api/user/kid', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer token', 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return POST(req, undefined);
+}
+
+describe('POST /api/user/kid', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    firestore.getAccountByUid.mockResolvedValue(null);
+    firestore.getKid.mockImplementation(async kidId => (kidId === kid.id ? kid : null));
+    firestore.getKidSharePermission.mockImplementation(async (_kidId, email) =>
+      ({ 'writer@example.com': 'write', 'reader@example.com': 'read' } as const)[email as 'writer@example.com'] || null);
+    firestore.saveKid.mockImplementation(async saved => saved);
+    addKid.mockImplementation(async added => ({ ...added, id: 'kid2' }));
+  });
+
+  it('lets a shared editor save the kid under its owner', async () => {
+    const response = await saveKidAs('writer', { userId: 'owner', kid: { ...kid, age: 7 } });
+
+    expect(response.status).toBe(200);
+    expect(firestore.saveKid).toHaveBeenCalledWith(expect.objectContaining({ id: kid.id, age: 7, accountId: 'owner' }));
+  });
+
+  it('does not let a read share save the kid with the owner ID', async () => {
+    const response = await saveKidAs('reader', { userId: 'owner', kid });
+
+    expect(response.status).toBe(403);
+    expect(firestore.saveKid).not.toHaveBeenCalled();
+  });
+
+  it('does not accept the owner ID for a new kid', async () => {
+    const response = await saveKidAs('writer', { userId: 'owner', kid: { ...kid, id: undefined } });
+
+    expect(response.status).toBe(403);
+    expect(addKid).not.toHaveBeenCalled();
+  });
+
+  it('adds a new kid to the signed in account', async () => {
+    const response = await saveKidAs('writer', { userId: 'writer', kid: { ...kid, id: undefined, accountId: undefined } });
+
+    expect(response.status).toBe(201);
+    expect(addKid).toHaveBeenCalledWith(expect.objectContaining({ accountId: 'writer' }));
+  });
+});
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import firestoreServerService from "@/app/services/firestore.server";
 import { KidDetails } from '@/models';
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { authorizeKidAccess, quotaExceededResponse, withAuth } from "@/app/utils/api-helpers";
+import { addKidWithinQuota } from "@/app/services/quota.server";
+import { QuotaExceededError } from "@/app/utils/quota";
 
 // Schema for kid data
 // const KidSchema = z.object({
@@ -20,32 +22,35 @@ import { checkFirestoreReady } from "@/app/utils/api-helpers";
 
 /**
  * POST endpoint to create or update a kid
+ * Updates need write access to the kid, see authorizeKidAccess, new kids are added to the signed in account
+ * within its kids limit. A shared editor sends the kid with its owner's accountId
  */
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
     const validatedInput: {
       userId: string;
       kid: KidDetails;
     } = await req.json();
     
-    // Ensure the kid has an accountId field
-    const kidToSave = {
-      ...validatedInput.kid,
-      accountId: validatedInput.userId, // userId in the request is actually the accountId
-    };
-    
-    const kidId = await firestoreServerService.saveKid(kidToSave);
+    let savedKid: KidDetails;
+    if (validatedInput.kid?.id) {
+      const grant = await authorizeKidAccess(req, auth, { kidId: validatedInput.kid.id }, 'write');
+      if (grant instanceof NextResponse) return grant;
+      // A shared editor saves the kid, it stays with its owner
+      savedKid = await firestoreServerService.saveKid({ ...validatedInput.kid, accountId: grant.kid?.accountId || grant.uid });
+    } else {
+      savedKid = await addKidWithinQuota({ ...validatedInput.kid, accountId: auth.uid });
+    }
     
     return NextResponse.json({
       success: true,
-      kidId,
+      kidId: savedKid,
       action: validatedInput.kid.id ? "updated" : "created",
     }, { status: validatedInput.kid.id ? 200 : 201 });
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
     console.error("[KID_API_ERROR]", error);
     
     if (error instanceof z.ZodError) {
@@ -62,17 +67,13 @@ export async function POST(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+}, { allowOwnerIds: true });
 
 /**
  * GET endpoint to fetch a kid by ID
  */
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
     const kidId = req.nextUrl.searchParams.get("kidId");
     
     if (!kidId) {
@@ -104,17 +105,13 @@ export async function GET(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 /**
- * DELETE endpoint to remove a kid
+ * DELETE endpoint to remove a kid (owner only)
  */
-export async function DELETE(req: NextRequest) {
+export const DELETE = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
     const kidId = req.nextUrl.searchParams.get("kidId");
     
     if (!kidId) {
@@ -124,6 +121,9 @@ export async function DELETE(req: NextRequest) {
       }, { status: 400 });
     }
     
+    const grant = await authorizeKidAccess(req, auth, { kidId }, 'owner');
+    if (grant instanceof NextResponse) return grant;
+    
     await firestoreServerService.deleteKid(kidId);
     
     return NextResponse.json({
@@ -139,6 +139,6 @@ export async function DELETE(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 export const dynamic = "force-dynamic"; 
\ No newline at end of file
@@ -1,32 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import firestoreServerService from "@/app/services/firestore.server";
-import { verifyAuthHeader } from "@/app/utils/auth-helpers";
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { authorizeKidAccess, withAuth } from "@/app/utils/api-helpers";
 
 /**
  * GET endpoint to fetch a specific kid by ID
+ * Access to the kid is checked by withAuth, shared kids are readable too
  */
-export async function GET(
-  request: NextRequest,
+export const GET = withAuth(async (
+  _request: NextRequest,
+  auth,
   { params }: { params: Promise<{ kidId: string }> }
-): Promise<Response> {
+): Promise<Response> => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(request);
-    if (readyCheck) return readyCheck;
-
     // Extract and await kidId before usage
     const { kidId } = await params;
     
-    // Verify authentication
-    const authHeader = request.headers.get('Authorization');
-    console.log(`[/api/user/kids/${kidId}] Auth header present: ${!!authHeader}`);
-    
-    const decodedToken = await verifyAuthHeader(authHeader);
-    console.log(`[/api/user/kids/${kidId}] Token verified: ${!!decodedToken}, uid: ${decodedToken?.uid || 'none'}`);
-    
-    const _authenticatedUid = decodedToken?.uid;
-    
+    console.log(`[/api/user/kids/${kidId}] Authenticated uid: ${auth.uid}`);
     console.log(`[/api/user/kids/${kidId}] Requested kidId: ${kidId}`);
     
     const kid = await firestoreServerService.getKid(kidId);
@@ -52,33 +41,25 @@ export async function GET(
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 /**
- * DELETE endpoint to remove a specific kid by ID
+ * DELETE endpoint to remove a specific kid by ID (owner only)
  */
-export async function DELETE(
+export const DELETE = withAuth(async (
   request: NextRequest,
+  auth,
   { params }: { params: Promise<{ kidId: string }> }
-): Promise<Response> {
+): Promise<Response> => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(request);
-    if (readyCheck) return readyCheck;
-
     // Extract and await kidId before usage
     const { kidId } = await params;
     
-    // Verify authentication
-    const authHeader = request.headers.get('Authorization');
-    console.log(`[/api/user/kids/${kidId}] DELETE - Auth header present: ${!!authHeader}`);
-    
-    const decodedToken = await verifyAuthHeader(authHeader);
-    console.log(`[/api/user/kids/${kidId}] DELETE - Token verified: ${!!decodedToken}, uid: ${decodedToken?.uid || 'none'}`);
-    
-    const _authenticatedUid = decodedToken?.uid;
+    // Accounts the kid is shared with cannot delete it, even with write access
+    const grant = await authorizeKidAccess(request, auth, { kidId }, 'owner');
+    if (grant instanceof NextResponse) return grant;
     
-    console.log(`[/api/user/kids/${kidId}] DELETE - Requested kidId: ${kidId}`);
+    console.log(`[/api/user/kids/${kidId}] DELETE - Owner verified, uid: ${grant.uid}`);
     
     await firestoreServerService.deleteKid(kidId);
     
@@ -96,6 +77,6 @@ export async function DELETE(
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 export const dynamic = "force-dynamic"; 
\ No newline at end of file
@@ -1,37 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import firestoreServerService from "@/app/services/firestore.server";
-import { verifyAuthHeader } from "@/app/utils/auth-helpers";
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { sendTemplateEmail } from "@/app/services/email.server";
+import { createInvitationToken } from "@/app/services/share-invitation.server";
+import { authorizeKidAccess, withAuth } from "@/app/utils/api-helpers";
+import { getInvitationStatus, getInvitationUrl, SHARE_INVITATION_TTL_DAYS } from "@/app/utils/share-invitation";
+import { getEmailTemplateId } from "@/constants/email-templates";
+import { getKidName, KidShareUpdateRequestSchema } from "@/models";
 
 /**
- * POST endpoint to share a kid with an email address
- * Body: { email: string, permission?: 'read' | 'write' }
+ * POST endpoint to invite an email address to share a kid (owner only)
+ * The kid is shared once the invitation is accepted. Inviting an email again refreshes its pending invitation.
+ * Body: { email: string, permission?: 'read' | 'write', language?: 'en' | 'he' }
  */
-export async function POST(
+export const POST = withAuth(async (
   request: NextRequest,
+  auth,
   { params }: { params: Promise<{ kidId: string }> }
-): Promise<Response> {
+): Promise<Response> => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(request);
-    if (readyCheck) return readyCheck;
-
     // Extract and await kidId before usage
     const { kidId } = await params;
     
-    // Verify authentication
-    const authHeader = request.headers.get('Authorization');
-    console.log(`[/api/user/kids/${kidId}/share] POST - Auth header present: ${!!authHeader}`);
-    
-    const decodedToken = await verifyAuthHeader(authHeader);
-    if (!decodedToken) {
-      return NextResponse.json({
-        success: false,
-        error: "Unauthorized",
-      }, { status: 401 });
-    }
+    // Only the owner shares the kid
+    const grant = await authorizeKidAccess(request, auth, { kidId }, 'owner');
+    if (grant instanceof NextResponse) return grant;
     
-    console.log(`[/api/user/kids/${kidId}/share] POST - Token verified, uid: ${decodedToken.uid}`);
+    console.log(`[/api/user/kids/${kidId}/share] POST - Owner verified, uid: ${grant.uid}`);
     
     // Parse request body
     const body = await request.json();
@@ -61,20 +55,55 @@ export async function POST(
       }, { status: 400 });
     }
     
-    console.log(`[/api/user/kids/${kidId}/share] Sharing with email: ${email}, permission: ${permission}`);
+    const normalizedEmail = email.trim().toLowerCase();
+    if (normalizedEmail === grant.email?.toLowerCase()) {
+      return NextResponse.json({
+        success: false,
+        error: "You cannot share a kid with yourself",
+      }, { status: 400 });
+    }
     
-    // Share the kid
-    const result = await firestoreServerService.shareKidWithEmail(
+    if (await firestoreServerService.isKidSharedWithEmail(kidId, normalizedEmail)) {
+      return NextResponse.json({
+        success: false,
+        error: "Kid is already shared with this email",
+      }, { status: 409 });
+    }
+    
+    console.log(`[/api/user/kids/${kidId}/share] Inviting email: ${normalizedEmail}, permission: ${permission}`);
+    
+    const language = body.language === 'he' ? 'he' : 'en';
+    const account = await firestoreServerService.getAccountByUid(grant.uid);
+    const invitedByName = account?.displayName || account?.email || grant.email || '';
+    const kidName = getKidName(grant.kid, language);
+    
+    const invitation = await firestoreServerService.savePendingKidShareInvitation({
       kidId,
-      email,
-      decodedToken.uid,
-      permission
-    );
+      kidName,
+      email: normalizedEmail,
+      permission,
+      invitedBy: grant.uid,
+      invitedByName,
+      invitedByEmail: account?.email || grant.email || null,
+      language,
+      expiresAt: new Date(Date.now() + SHARE_INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000),
+    });
+    
+    // The invitation stays valid when the email fails, the owner can send it again
+    const emailResult = await sendTemplateEmail(auth.authHeader, {
+      to: normalizedEmail,
+      templateId: getEmailTemplateId(language, 'KID_INVITATION'),
+      variables: {
+        INVITE_URL: getInvitationUrl(request.nextUrl.origin, createInvitationToken(invitation.id)),
+        INVITER_NAME: invitedByName,
+        KID_NAME: kidName,
+      },
+    });
     
     return NextResponse.json({
       success: true,
-      message: `Kid shared successfully with ${email}`,
-      data: result,
+      message: `Invitation sent to ${normalizedEmail}`,
+      data: { invitation, emailSent: emailResult.success },
     }, { status: 200 });
     
   } catch (error) {
@@ -87,38 +116,33 @@ export async function POST(
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 /**
- * GET endpoint to get all shares for a kid
+ * GET endpoint to get all shares and pending invitations for a kid (owner only)
  */
-export async function GET(
+export const GET = withAuth(async (
   request: NextRequest,
+  auth,
   { params }: { params: Promise<{ kidId: string }> }
-): Promise<Response> {
+): Promise<Response> => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(request);
-    if (readyCheck) return readyCheck;
-
     // Extract and await kidId before usage
     const { kidId } = await params;
     
-    // Verify authentication
-    const authHeader = request.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    if (!decodedToken) {
-      return NextResponse.json({
-        success: false,
-        error: "Unauthorized",
-      }, { status: 401 });
-    }
+    const grant = await authorizeKidAccess(request, auth, { kidId }, 'owner');
+    if (grant instanceof NextResponse) return grant;
     
-    const shares = await firestoreServerService.getKidShares(kidId);
+    const [shares, pendingInvitations] = await Promise.all([
+      firestoreServerService.getKidShares(kidId),
+      firestoreServerService.getPendingKidShareInvitations({ kidId }),
+    ]);
+    const invitations = pendingInvitations.filter(invitation => getInvitationStatus(invitation) === 'pending');
     
     return NextResponse.json({
       success: true,
       shares,
+      invitations,
     }, { status: 200 });
     
   } catch (error) {
@@ -131,7 +155,113 @@ export async function GET(
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
+
+/**
+ * PATCH endpoint to change the permission of an existing share (owner only)
+ * Body: { email: string, permission: 'read' | 'write' }
+ */
+export const PATCH = withAuth(async (
+  request: NextRequest,
+  auth,
+  { params }: { params: Promise<{ kidId: string }> }
+): Promise<Response> => {
+  try {
+    const { kidId } = await params;
+    
+    const grant = await authorizeKidAccess(request, auth, { kidId }, 'owner');
+    if (grant instanceof NextResponse) return grant;
+    
+    const parsed = KidShareUpdateRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({
+        success: false,
+        error: "Invalid request body",
+        details: parsed.error.flatten(),
+      }, { status: 400 });
+    }
+    const { email, permission } = parsed.data;
+    
+    console.log(`[/api/user/kids/${kidId}/share] PATCH - ${email} now has ${permission} permission`);
+    
+    const updated = await firestoreServerService.updateKidSharePermission(kidId, email, permission);
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: "Share not found",
+      }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      data: { email: email.toLowerCase(), permission },
+    }, { status: 200 });
+    
+  } catch (error) {
+    const { kidId } = await params;
+    console.error(`[KIDS_API_ERROR] PATCH /api/user/kids/${kidId}/share:`, error);
+    
+    return NextResponse.json({
+      success: false,
+      error: "Failed to update share",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, { status: 500 });
+  }
+});
+
+/**
+ * DELETE endpoint to stop sharing a kid with an email address (owner only)
+ * The account loses access to the kid and its stories at once, a pending invitation to the email is cancelled
+ * Query: ?email=
+ */
+export const DELETE = withAuth(async (
+  request: NextRequest,
+  auth,
+  { params }: { params: Promise<{ kidId: string }> }
+): Promise<Response> => {
+  try {
+    const { kidId } = await params;
+    
+    const grant = await authorizeKidAccess(request, auth, { kidId }, 'owner');
+    if (grant instanceof NextResponse) return grant;
+    
+    const email = request.nextUrl.searchParams.get("email");
+    if (!email) {
+      return NextResponse.json({
+        success: false,
+        error: "Email is required",
+      }, { status: 400 });
+    }
+    
+    console.log(`[/api/user/kids/${kidId}/share] DELETE - Removing share with ${email}`);
+    
+    const [removed, cancelledInvitations] = await Promise.all([
+      firestoreServerService.removeKidShare(kidId, email),
+      firestoreServerService.deletePendingKidShareInvitations(kidId, email),
+    ]);
+    if (!removed && cancelledInvitations === 0) {
+      return NextResponse.json({
+        success: false,
+        error: "Share not found",
+      }, { status: 404 });
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: `Kid is no longer shared with ${email}`,
+    }, { status: 200 });
+    
+  } catch (error) {
+    const { kidId } = await params;
+    console.error(`[KIDS_API_ERROR] DELETE /api/user/kids/${kidId}/share:`, error);
+    
+    return NextResponse.json({
+      success: false,
+      error: "Failed to remove share",
+      message: error instanceof Error ? error.message : "Unknown error",
+    }, { status: 500 });
+  }
+});
 
 export const dynamic = "force-dynamic";
 
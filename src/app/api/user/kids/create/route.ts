@@ -1,23 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
 import firestoreServerService from "@/app/services/firestore.server";
-import { KidCreateRequestSchema, KidUpdateRequestSchema } from "@choiceStoryWeb/models";
-import { verifyAuthHeader } from "@/app/utils/auth-helpers";
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { KidCreateRequestSchema, KidDetails, KidUpdateRequestSchema } from "@choiceStoryWeb/models";
+import { authorizeKidAccess, quotaExceededResponse, withAuth } from "@/app/utils/api-helpers";
+import { addKidWithinQuota } from "@/app/services/quota.server";
+import { QuotaExceededError } from "@/app/utils/quota";
 
 /**
  * POST endpoint to create or update a kid
+ * The userId is checked by withAuth, new kids are added to the signed in account. A shared editor
+ * sends the kid with its owner's accountId
  */
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const body = await req.json();
     const userId = body.userId;
     
@@ -46,20 +40,25 @@ export async function POST(req: NextRequest) {
     }
     
     const { kid } = body;
-    // Ensure the kid has an accountId field
-    const kidToSave = {
-      ...kid,
-      accountId: userId, // userId in the request is actually the accountId
-    };
-    
-    const kidId = await firestoreServerService.saveKid(kidToSave);
+    let savedKid: KidDetails;
+    if (isUpdate) {
+      const grant = await authorizeKidAccess(req, auth, { kidId: body.kid.id }, 'write');
+      if (grant instanceof NextResponse) return grant;
+      // A shared editor saves the kid, it stays with its owner
+      savedKid = await firestoreServerService.saveKid({ ...kid, accountId: grant.kid?.accountId || grant.uid });
+    } else {
+      savedKid = await addKidWithinQuota({ ...kid, accountId: auth.uid });
+    }
     
     return NextResponse.json({
       success: true,
-      kidId,
+      kidId: savedKid,
       message: isUpdate ? "Kid updated successfully" : "Kid created successfully",
     }, { status: 200 });
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
     console.error("[KID_CREATE_API_ERROR]", error);
     
     return NextResponse.json({
@@ -68,6 +67,6 @@ export async function POST(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+}, { allowOwnerIds: true });
 
 export const dynamic = "force-dynamic"; 
\ No newline at end of file
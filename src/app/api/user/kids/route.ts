@@ -1,25 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import firestoreServerService from "@/app/services/firestore.server";
-import { verifyAuthHeader } from "@/app/utils/auth-helpers";
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { withAuth } from "@/app/utils/api-helpers";
 
 /**
  * GET endpoint to fetch all kids for a user
+ * An account only lists its own kids, kids shared with it come from /api/user/kids/shared
  */
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    console.log(`[/api/user/kids] Auth header present: ${!!authHeader}`);
-    
-    const decodedToken = await verifyAuthHeader(authHeader);
-    console.log(`[/api/user/kids] Token verified: ${!!decodedToken}, uid: ${decodedToken?.uid || 'none'}`);
-    
-    const _authenticatedUid = decodedToken?.uid;
+    console.log(`[/api/user/kids] Authenticated uid: ${auth.uid}`);
     
     const userId = req.nextUrl.searchParams.get("userId");
     console.log(`[/api/user/kids] Requested userId: ${userId}`);
@@ -30,6 +19,14 @@ export async function GET(req: NextRequest) {
         error: "Missing user ID",
       }, { status: 400 });
     }
+    // withAuth checks it too, a kidId in the request never opens another account's kids
+    if (userId !== auth.uid) {
+      return NextResponse.json({
+        success: false,
+        error: "Forbidden",
+        message: "You can only list your own kids",
+      }, { status: 403 });
+    }
     
     const kids = await firestoreServerService.getKids(userId);
     
@@ -46,6 +43,6 @@ export async function GET(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 export const dynamic = "force-dynamic"; 
\ No newline at end of file
@@ -1,22 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import firestoreServerService from "@/app/services/firestore.server";
-import { verifyAuthHeader } from "@/app/utils/auth-helpers";
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { withAuth } from "@/app/utils/api-helpers";
 
 /**
  * GET endpoint to fetch kids shared with the current user's email
  */
-export async function GET(request: NextRequest): Promise<Response> {
+export const GET = withAuth(async (_request: NextRequest, auth): Promise<Response> => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(request);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = request.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    
-    if (!decodedToken || !decodedToken.email) {
+    if (!auth.email) {
       return NextResponse.json({
         success: false,
         error: "Unauthorized or no email in token",
@@ -24,7 +15,7 @@ export async function GET(request: NextRequest): Promise<Response> {
     }
     
     // Get kids shared with this email
-    const sharedKids = await firestoreServerService.getKidsSharedWithEmail(decodedToken.email);
+    const sharedKids = await firestoreServerService.getKidsSharedWithEmail(auth.email);
     
     return NextResponse.json({
       success: true,
@@ -40,7 +31,7 @@ export async function GET(request: NextRequest): Promise<Response> {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 export const dynamic = "force-dynamic";
 
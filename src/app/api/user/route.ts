@@ -1,39 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import firestoreServerService from "@/app/services/firestore.server";
 import { UserDataSchema, UpdateUserDataSchema } from "@/models";
-import { verifyAuthHeader } from "@/app/utils/auth-helpers";
-import { checkFirestoreReady } from "@/app/utils/api-helpers";
+import { withAuth } from "@/app/utils/api-helpers";
 import { UserData } from "@/app/network/UserApi";
-/**
- * Verify a user has permission to access/modify a profile by UID
- * @param requestUid The UID in the request
- * @param authenticatedUid The UID from the verified token
- * @returns true if authorized, false otherwise
- */
-function _isAuthorized(requestUid: string, authenticatedUid?: string): boolean {
-  // Not authenticated
-  if (!authenticatedUid) {
-    return false;
-  }
-  
-  // Only allow users to access their own data
-  return requestUid === authenticatedUid;
+
+// An account only reads and saves itself, the uid is checked by withAuth and again in each handler
+function otherAccountResponse(): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: "Forbidden",
+    message: "You can only access your own account",
+  }, { status: 403 });
 }
 
 /**
  * GET endpoint to fetch user data by UID
+ * The uid of every handler here must be the signed in account
  */
-export async function GET(req: NextRequest) {
+export const GET = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     // Get the requested user ID
     const uid = req.nextUrl.searchParams.get("uid");
     
@@ -43,6 +28,9 @@ export async function GET(req: NextRequest) {
         error: "Missing user ID",
       }, { status: 400 });
     }
+    if (uid !== auth.uid) {
+      return otherAccountResponse();
+    }
     
     const user = await firestoreServerService.getUserByUid(uid);
 
@@ -66,24 +54,18 @@ export async function GET(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 /**
  * POST endpoint to create or update a user
  */
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const body = await req.json();
     const validatedInput = UserDataSchema.parse(body);
+    if (validatedInput.uid !== auth.uid) {
+      return otherAccountResponse();
+    }
     
     console.log(`[/api/user] Received request to save user data for UID: ${validatedInput.uid}`);
     
@@ -152,24 +134,18 @@ export async function POST(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 /**
  * PATCH endpoint to update user data
  */
-export async function PATCH(req: NextRequest) {
+export const PATCH = withAuth(async (req: NextRequest, auth) => {
   try {
-    // Check if Firestore service is ready before proceeding
-    const readyCheck = checkFirestoreReady(req);
-    if (readyCheck) return readyCheck;
-
-    // Verify authentication
-    const authHeader = req.headers.get('Authorization');
-    const decodedToken = await verifyAuthHeader(authHeader);
-    const _authenticatedUid = decodedToken?.uid;
-    
     const body = await req.json();
     const validatedInput = UpdateUserDataSchema.parse(body);
+    if (validatedInput.uid !== auth.uid) {
+      return otherAccountResponse();
+    }
     
     // Check if user exists
     const existingUser = await firestoreServerService.getUserByUid(validatedInput.uid);
@@ -216,6 +192,6 @@ export async function PATCH(req: NextRequest) {
       message: error instanceof Error ? error.message : "Unknown error",
     }, { status: 500 });
   }
-}
+});
 
 export const dynamic = "force-dynamic"; 
\ No newline at end of file
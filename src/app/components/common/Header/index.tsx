@@ -4,7 +4,7 @@ import React, { useEffect, useState, useCallback } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import { cn } from "@/lib/utils";
 import { useTranslation } from '@/app/hooks/useTranslation';
-import { Menu, LogIn, LogOut, LayoutDashboard, Images, Shield, Plus } from 'lucide-react';
+import { Menu, LogIn, LogOut, LayoutDashboard, Images, Shield, Plus, Coins } from 'lucide-react';
 import { Drawer, DrawerTrigger, DrawerContent, DrawerTitle } from "@/components/ui/drawer";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
@@ -14,6 +14,7 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { Account } from '@/models';
 import * as Sentry from '@sentry/nextjs';
+import useCreditsState from '@/app/state/credits-state';
 
 // Israel Flag Component with PNG Star of David
 const IsraelFlag = ({ className }: { className?: string }) => (
@@ -149,6 +150,7 @@ export const Header = () => {
   const [isDrawerOpen, setIsDrawerOpen] = useState(false);
   const [userAccountData, setUserAccountData] = useState<Account | null>(null);
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
+  const { balance: creditBalance, unlimited: unlimitedCredits, fetchCredits, clearCredits } = useCreditsState();
 
   // Update path state whenever pathname changes
   useEffect(() => {
@@ -193,6 +195,20 @@ export const Header = () => {
     }
   }, [currentUser, firebaseUser, fetchUserAccount]);
 
+  // Fetch the credit balance once per sign in, the dashboard refreshes it after purchases
+  useEffect(() => {
+    if (currentUser && firebaseUser) {
+      if (creditBalance === null) {
+        fetchCredits();
+      }
+    } else {
+      clearCredits();
+    }
+  }, [currentUser, firebaseUser, creditBalance, fetchCredits, clearCredits]);
+
+  // Balance chip, hidden for accounts that are not charged
+  const showCredits = !!currentUser && creditBalance !== null && !unlimitedCredits;
+
 
   const handleAuth = async () => {
     if (currentUser) {
@@ -362,6 +378,18 @@ export const Header = () => {
                 </>
               )}
               
+              {/* Credits Button - Shows the balance, opens the dashboard to buy more */}
+              {showCredits && (
+                <>
+                  <ActionButton
+                    icon={<Coins className="h-6 w-6 text-amber-600" />}
+                    label={t.credits.balance(creditBalance ?? 0)}
+                    onClick={goToDashboard}
+                  />
+                  <div className="w-px h-20 bg-[#E5E7EB]" />
+                </>
+              )}
+
               {/* Library/Gallery Button - Available to ALL users */}
               <ActionButton
                 icon={
@@ -482,6 +510,15 @@ export const Header = () => {
                         )}>
                           {currentUser.email}
                         </div>
+                        {showCredits && (
+                          <div className={cn(
+                            "flex items-center gap-2 text-sm font-medium text-amber-700 mb-3",
+                            isRTL ? "flex-row-reverse" : "flex-row"
+                          )}>
+                            <Coins className="h-4 w-4" />
+                            {t.credits.balance(creditBalance ?? 0)}
+                          </div>
+                        )}
                         {/* Gallery - Available to all users */}
                         <Button
                           variant="ghost"
@@ -91,7 +91,7 @@ const imageExamples: ExampleItem[] = [
 
 export default function ImageUploadContent() {
   const { kidDetails, setKidDetails: _setKidDetails, currentImageUrl, setCurrentImageUrl, currentImageBase64, setCurrentImageBase64, imageRequirements, setImageRequirements, setSelectedImageFile } = useCreateKidState((state) => state);
-  const { currentUser } = useAuth();
+  const { currentUser, firebaseUser } = useAuth();
   const { language } = useLanguage();
   const t = translations[language].createStory.imageUpload;
 
@@ -143,15 +143,18 @@ export default function ImageUploadContent() {
       try {
         console.log("Uploading image to Firebase Storage...");
         
+        const token = await firebaseUser?.getIdToken();
         const uploadResponse = await fetch('/api/upload_image', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
           },
           body: JSON.stringify({
             base64Data: base64,
             userId: currentUser?.uid,
-            folderPath: kidDetails?.name ? `kids/${kidDetails.name}` : 'kids',
+            // Uploads go under the account's own folder
+            folderPath: `users/${currentUser?.uid}/kids`,
             fileName: `${kidDetails?.name || 'kid'}_${Date.now()}.png`,
             fileType: 'png'
           }),
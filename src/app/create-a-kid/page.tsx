@@ -17,6 +17,7 @@ import { UploadService } from "@/app/services/upload.service";
 import StepAccordionItem from "@/components/ui/accordion";
 import { KidApi } from "@/app/network/KidApi";
 import { KidDetails, ApiErrorResponse } from "@/models";
+import { getQuotaExceededDetails, getQuotaExceededMessage } from "@/app/utils/quota";
 
 export default function CreateAKidPage() {
   const router = useRouter();
@@ -226,6 +227,18 @@ export default function CreateAKidPage() {
       });
     } catch (error) {
       console.error("Error saving kid:", error);
+      const quotaExceeded = getQuotaExceededDetails(error);
+      if (quotaExceeded) {
+        const message = getQuotaExceededMessage(quotaExceeded, t);
+        setError(message);
+        toast({
+          title: t.quota.limitReachedTitle,
+          description: message,
+          variant: "destructive",
+          duration: 5000,
+        });
+        return;
+      }
       setError(error instanceof Error ? error.message : t.createKid.error.saveFailed);
       toast({
         title: "Error",
@@ -31,6 +31,7 @@ import ErrorMessage from "@/app/components/ui/ErrorMessage";
 import { StoryStatus, Story, StoryPage, PageType } from "@/models";
 import { ErrorBoundary as _ErrorBoundary } from "@/app/components/ui/ErrorBoundary";
 import useAccountState from "@/app/state/account-state";
+import { checkStoryQuota, getQuotaExceededMessage } from "@/app/utils/quota";
 
 export default function CreateAStoryPage() {
   const params = useParams();
@@ -185,19 +186,18 @@ export default function CreateAStoryPage() {
   useEffect(() => {
     // Only check after kid details and account data are loaded
     if (!kidLoading && kidDetails && accountData) {
-      const storiesCreated = kidDetails.stories_created || 0;
-      const limit = accountData.story_per_kid_limit;
+      const exceeded = checkStoryQuota(accountData, kidDetails);
 
-      if (limit !== undefined && storiesCreated >= limit) {
+      if (exceeded) {
         toast({
-          title: "Story Limit Reached",
-          description: `You have reached the maximum of ${limit} stories for this kid. Delete some stories to create new ones.`,
+          title: t.quota.limitReachedTitle,
+          description: getQuotaExceededMessage(exceeded, t),
           variant: "destructive",
         });
         router.push('/dashboard');
       }
     }
-  }, [kidDetails, accountData, kidLoading, router]);
+  }, [kidDetails, accountData, kidLoading, router, t]);
 
   // Loading states
   if (authLoading || kidLoading) {
@@ -22,6 +22,8 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import AccountPendingApproval from '../ui/components/AccountPendingApproval';
+import { CreditsCard } from '../features/credits/components/CreditsCard';
+import { InvitationsInbox } from '../features/sharing/components/InvitationsInbox';
 
 export default function Dashboard() {
   const { t } = useTranslation();
@@ -239,6 +241,8 @@ export default function Dashboard() {
             </Button> */}
           </div>
         </div>
+        <InvitationsInbox />
+        <CreditsCard />
         <div className="flex flex-col gap-6">
           {showLoading ? (
             // Loading placeholders
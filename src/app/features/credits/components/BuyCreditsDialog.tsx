@@ -0,0 +1,126 @@
+"use client";
+
+import { FC, useRef, useState } from 'react';
+import { PayPalButtons, PayPalScriptProvider } from '@paypal/react-paypal-js';
+import * as Sentry from '@sentry/nextjs';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+import { useTranslation } from '@/app/hooks/useTranslation';
+import { PaymentApi } from '@/app/network/PaymentApi';
+import { calculateCreditPackTotal, CREDIT_PACKS, CREDITS_CURRENCY, formatCreditPackPrice, getCreditPack } from '@/app/utils/credits';
+import { CheckoutDiscount } from '@/app/utils/promo-code';
+import { PromoCodeField } from './PromoCodeField';
+
+const PAYPAL_CLIENT_ID = process.env.NEXT_PUBLIC_PAYPAL_CLIENT_ID;
+
+interface BuyCreditsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  // Called once the credits were added, to refresh the balance
+  onPurchased: () => void;
+}
+
+/**
+ * Buy a credit pack with PayPal
+ * The server prices the pack, the dialog only sends the pack ID and the promo code
+ */
+export const BuyCreditsDialog: FC<BuyCreditsDialogProps> = ({ isOpen, onOpenChange, onPurchased }) => {
+  const { t } = useTranslation();
+  const [packId, setPackId] = useState(CREDIT_PACKS[0].id);
+  const [discount, setDiscount] = useState<CheckoutDiscount | null>(null);
+  const orderIdRef = useRef<string | null>(null);
+  const total = calculateCreditPackTotal(getCreditPack(packId) || CREDIT_PACKS[0], discount?.percentOff);
+
+  const handleCreateOrder = async (): Promise<string> => {
+    const response = await PaymentApi.createCreditsOrder(packId, discount?.code);
+    if (!response.success || !response.data) {
+      throw new Error(response.success ? t.credits.purchaseFailed : response.error);
+    }
+    orderIdRef.current = response.data.orderId;
+    return response.data.paypalOrderId;
+  };
+
+  const handlePaymentError = (error: unknown) => {
+    console.error('Error paying for credits:', error);
+    Sentry.captureException(error);
+    toast({
+      title: t.credits.purchaseFailed,
+      description: error instanceof Error ? error.message : undefined,
+      variant: "destructive"
+    });
+  };
+
+  const handleApprove = async () => {
+    const orderId = orderIdRef.current;
+    if (!orderId) return;
+
+    await Sentry.startSpan({ op: "ui.click", name: "Capture Credits Order" }, async (span) => {
+      span.setAttribute("order_id", orderId);
+      const response = await PaymentApi.capturePrintOrder(orderId);
+      if (!response.success || !response.data) {
+        throw new Error(response.success ? t.credits.purchaseFailed : response.error);
+      }
+      toast({ title: t.credits.purchaseSuccess(response.data.credits || 0) });
+      onPurchased();
+      onOpenChange(false);
+    }).catch(handlePaymentError);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t.credits.buyTitle}</DialogTitle>
+          <DialogDescription>{t.credits.buyDescription}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-2">
+          {CREDIT_PACKS.map(pack => (
+            <Button
+              key={pack.id}
+              type="button"
+              variant={packId === pack.id ? "default" : "outline"}
+              className="flex h-auto flex-col py-3"
+              onClick={() => setPackId(pack.id)}
+            >
+              <span className="font-bold">{t.credits.pack(pack.credits)}</span>
+              <span className="text-xs">{formatCreditPackPrice(pack)} {CREDITS_CURRENCY}</span>
+            </Button>
+          ))}
+        </div>
+
+        <PromoCodeField discount={discount} onChange={setDiscount} />
+        {discount && (
+          <div className="flex justify-between rounded-lg bg-purple-50 p-3 text-sm font-bold">
+            <span>{t.printOrder.total}</span>
+            <span>
+              <span className="me-2 font-normal text-gray-400 line-through">{total.itemTotal}</span>
+              {total.total} {total.currency}
+            </span>
+          </div>
+        )}
+
+        {PAYPAL_CLIENT_ID ? (
+          <PayPalScriptProvider options={{ clientId: PAYPAL_CLIENT_ID, currency: CREDITS_CURRENCY }}>
+            <PayPalButtons
+              style={{ layout: "vertical" }}
+              forceReRender={[packId, discount?.code]}
+              createOrder={handleCreateOrder}
+              onApprove={handleApprove}
+              onError={handlePaymentError}
+            />
+          </PayPalScriptProvider>
+        ) : (
+          <p className="text-sm text-red-600">{t.credits.paymentsUnavailable}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
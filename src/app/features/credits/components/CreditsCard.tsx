@@ -0,0 +1,120 @@
+"use client";
+
+import { FC, useEffect, useState } from 'react';
+import { Coins } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/components/ui/use-toast';
+import { useTranslation } from '@/app/hooks/useTranslation';
+import { PaymentApi } from '@/app/network/PaymentApi';
+import useCreditsState from '@/app/state/credits-state';
+import { getPromoCodeRejectedDetails, getPromoCodeRejectedMessage } from '@/app/utils/promo-code';
+import { BuyCreditsDialog } from './BuyCreditsDialog';
+
+/**
+ * Dashboard card with the account's credit balance, recent ledger entries and the credit packs
+ */
+export const CreditsCard: FC = () => {
+  const { t, language } = useTranslation();
+  const { balance, unlimited, entries, fetchCredits } = useCreditsState();
+  const [isBuyOpen, setIsBuyOpen] = useState(false);
+  const [giftCode, setGiftCode] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+
+  useEffect(() => {
+    fetchCredits();
+  }, [fetchCredits]);
+
+  const handleRedeem = async () => {
+    if (!giftCode.trim()) return;
+    setIsRedeeming(true);
+    try {
+      const response = await PaymentApi.redeemPromoCode(giftCode);
+      if (!response.success || !response.data) {
+        throw response;
+      }
+      toast({ title: t.promoCode.redeemed(response.data.credits) });
+      setGiftCode('');
+      await fetchCredits();
+    } catch (error) {
+      const rejected = getPromoCodeRejectedDetails(error);
+      toast({
+        title: rejected ? getPromoCodeRejectedMessage(rejected, t) : t.promoCode.failed,
+        variant: "destructive"
+      });
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  if (balance === null) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 rounded-xl border border-gray-100 bg-white p-5 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="flex h-12 w-12 items-center justify-center rounded-full bg-amber-100">
+            <Coins className="h-6 w-6 text-amber-600" />
+          </div>
+          <div>
+            <h2 className="font-semibold text-gray-800">{t.credits.title}</h2>
+            <p className="text-2xl font-bold text-gray-900">
+              {unlimited ? t.credits.unlimited : t.credits.balance(balance)}
+            </p>
+          </div>
+        </div>
+        {!unlimited && (
+          <Button
+            onClick={() => setIsBuyOpen(true)}
+            className="rounded-full bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600"
+          >
+            {t.credits.buyCredits}
+          </Button>
+        )}
+      </div>
+      <p className="mt-3 text-sm text-gray-500">{t.credits.description}</p>
+
+      {!unlimited && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-600">{t.promoCode.redeemTitle}</span>
+          <Input
+            value={giftCode}
+            placeholder={t.promoCode.placeholder}
+            maxLength={32}
+            className="h-9 max-w-[200px]"
+            onChange={(e) => setGiftCode(e.target.value)}
+          />
+          <Button variant="outline" size="sm" disabled={isRedeeming || !giftCode.trim()} onClick={handleRedeem}>
+            {t.promoCode.redeem}
+          </Button>
+        </div>
+      )}
+
+      {!unlimited && (
+        <div className="mt-4 border-t border-gray-100 pt-4">
+          <h3 className="mb-2 text-sm font-medium text-gray-600">{t.credits.history}</h3>
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-400">{t.credits.noHistory}</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {entries.slice(0, 5).map(entry => (
+                <li key={entry.id} className="flex justify-between gap-4">
+                  <span className="text-gray-600">
+                    {t.credits.entryTypes[entry.type]} · {new Date(entry.createdAt).toLocaleDateString(language)}
+                  </span>
+                  <span className={entry.amount < 0 ? 'text-red-600' : 'text-green-600'} dir="ltr">
+                    {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <BuyCreditsDialog isOpen={isBuyOpen} onOpenChange={setIsBuyOpen} onPurchased={fetchCredits} />
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+"use client";
+
+import { FC, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useTranslation } from '@/app/hooks/useTranslation';
+import { PaymentApi } from '@/app/network/PaymentApi';
+import { CheckoutDiscount, getPromoCodeRejectedDetails, getPromoCodeRejectedMessage } from '@/app/utils/promo-code';
+
+interface PromoCodeFieldProps {
+  discount: CheckoutDiscount | null;
+  onChange: (discount: CheckoutDiscount | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * percent_off promo code entry for the checkout dialogs
+ * The code is checked with the server before the discounted total is shown
+ */
+export const PromoCodeField: FC<PromoCodeFieldProps> = ({ discount, onChange, disabled }) => {
+  const { t } = useTranslation();
+  const [code, setCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      const response = await PaymentApi.checkPromoCode(code);
+      if (!response.success || !response.data) {
+        throw response;
+      }
+      onChange({ code: response.data.code, percentOff: response.data.percentOff });
+    } catch (error) {
+      const rejected = getPromoCodeRejectedDetails(error);
+      setError(rejected ? getPromoCodeRejectedMessage(rejected, t) : t.promoCode.failed);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (discount) {
+    return (
+      <div className="flex items-center justify-between rounded-lg bg-green-50 p-3 text-sm text-green-800">
+        <span>{discount.code} · {t.promoCode.applied(discount.percentOff)}</span>
+        <Button type="button" variant="ghost" size="sm" disabled={disabled} onClick={() => onChange(null)}>
+          {t.promoCode.remove}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor="promo-code">{t.promoCode.label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id="promo-code"
+          value={code}
+          placeholder={t.promoCode.placeholder}
+          maxLength={32}
+          disabled={disabled}
+          onChange={(e) => setCode(e.target.value)}
+        />
+        <Button type="button" variant="outline" disabled={disabled || isChecking || !code.trim()} onClick={handleApply}>
+          {t.promoCode.apply}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
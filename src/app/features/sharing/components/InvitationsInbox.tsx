@@ -0,0 +1,108 @@
+"use client";
+
+import { FC, useCallback, useEffect, useState } from 'react';
+import * as Sentry from '@sentry/nextjs';
+import { Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { toast } from '@/components/ui/use-toast';
+import { useTranslation } from '@/app/hooks/useTranslation';
+import { KidApi, ReceivedKidShareInvitation } from '@/app/network/KidApi';
+import { getShareInvitationUnavailableDetails, getShareInvitationUnavailableMessage } from '@/app/utils/share-invitation';
+
+/**
+ * Dashboard card with the share invitations sent to the account's email, hidden when there are none
+ */
+export const InvitationsInbox: FC = () => {
+  const { t, language } = useTranslation();
+  const [invitations, setInvitations] = useState<ReceivedKidShareInvitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  const fetchInvitations = useCallback(async () => {
+    try {
+      const response = await KidApi.getInvitations();
+      if (response.success && response.data) {
+        setInvitations(response.data.invitations);
+      }
+    } catch (error) {
+      console.error('Error fetching share invitations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const handleRespond = async (invitation: ReceivedKidShareInvitation, action: 'accept' | 'decline') => {
+    setRespondingId(invitation.id);
+    try {
+      await Sentry.startSpan({ op: "ui.click", name: "Respond To Share Invitation" }, async (span) => {
+        span.setAttribute("invitation_id", invitation.id);
+        span.setAttribute("action", action);
+        const response = await KidApi.respondToInvitation(invitation.token, action);
+        if (!response.success) {
+          throw response;
+        }
+      });
+      toast({ title: action === 'accept' ? t.shareInvitations.accepted : t.shareInvitations.declined });
+      setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+    } catch (error) {
+      console.error('Error responding to share invitation:', error);
+      const unavailable = getShareInvitationUnavailableDetails(error);
+      toast({
+        title: unavailable ? getShareInvitationUnavailableMessage(unavailable, t) : t.shareInvitations.respondFailed,
+        variant: "destructive"
+      });
+      if (unavailable) {
+        setInvitations(prev => prev.filter(item => item.id !== invitation.id));
+      }
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-8 rounded-xl border border-gray-100 bg-white p-5 shadow-sm">
+      <div className="mb-3 flex items-center gap-3">
+        <div className="flex h-10 w-10 items-center justify-center rounded-full bg-blue-100">
+          <Mail className="h-5 w-5 text-blue-600" />
+        </div>
+        <h2 className="font-semibold text-gray-800">{t.shareInvitations.inboxTitle}</h2>
+      </div>
+      <ul className="space-y-2">
+        {invitations.map(invitation => (
+          <li key={invitation.id} className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-gray-50 p-3 text-sm">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-800">
+                {t.shareInvitations.invitedBy(invitation.invitedByName, invitation.kidName)}
+              </p>
+              <p className="text-gray-500">
+                {t.shareInvitations.permissions[invitation.permission]} · {t.shareInvitations.expires(new Date(invitation.expiresAt).toLocaleDateString(language))}
+              </p>
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <Button
+                size="sm"
+                disabled={respondingId === invitation.id}
+                onClick={() => handleRespond(invitation, 'accept')}
+              >
+                {t.shareInvitations.accept}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={respondingId === invitation.id}
+                onClick={() => handleRespond(invitation, 'decline')}
+              >
+                {t.shareInvitations.decline}
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
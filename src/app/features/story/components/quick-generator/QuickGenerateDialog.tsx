@@ -2,6 +2,7 @@ import { FC, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -18,6 +19,14 @@ import { StoryApi } from '@/app/network';
 import { getFirebaseEnvironment } from '@/config/build-config';
 import { Badge } from "@/components/ui/badge";
 import { X } from "lucide-react";
+import { getQuotaExceededDetails, getQuotaExceededMessage } from '@/app/utils/quota';
+import { getRateLimitedDetails, getRateLimitedMessage } from '@/app/utils/rate-limit';
+import { getInsufficientCreditsDetails, getInsufficientCreditsMessage } from '@/app/utils/credits';
+import useCreditsState from '@/app/state/credits-state';
+import { getContentFlaggedDetails, getContentFlaggedMessage } from '@/app/utils/moderation';
+
+// Matches MAX_DECISION_POINTS in functions/src/lib/story-graph.ts
+const DECISION_POINT_OPTIONS = [1, 2, 3];
 
 interface QuickGenerateDialogProps {
   kidDetails: KidDetails;
@@ -39,8 +48,11 @@ export const QuickGenerateDialog: FC<QuickGenerateDialogProps> = ({
   const [disadvantagesInput, setDisadvantagesInput] = useState('');
   const [advantagesList, setAdvantagesList] = useState<string[]>([]);
   const [disadvantagesList, setDisadvantagesList] = useState<string[]>([]);
+  const [decisionPoints, setDecisionPoints] = useState(1);
+  const [reviewCharacters, setReviewCharacters] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
   const { t } = useTranslation();
+  const fetchCredits = useCreditsState(state => state.fetchCredits);
 
   const formatList = (items: string[]) => {
     if (!items.length) return '';
@@ -100,7 +112,9 @@ export const QuickGenerateDialog: FC<QuickGenerateDialogProps> = ({
         kidId: kidDetails.id,
         problemDescription: problem,
         advantages: formattedAdvantages,
-        disadvantages: formattedDisadvantages
+        disadvantages: formattedDisadvantages,
+        decisionPoints,
+        reviewCharacters
       });
 
       // Call the Firebase function to generate the story
@@ -109,11 +123,16 @@ export const QuickGenerateDialog: FC<QuickGenerateDialogProps> = ({
         kidId: kidDetails.id,
         problemDescription: problem,
         advantages: formattedAdvantages || undefined,
-        disadvantages: formattedDisadvantages || undefined
+        disadvantages: formattedDisadvantages || undefined,
+        decisionPoints,
+        reviewCharacters
       });
 
       console.log("[QuickGenerateDialog] Story generated successfully:", result);
 
+      // The story used a credit, or got it back when it was held for review
+      fetchCredits();
+
       // Fetch the complete story from Firestore
       const storyResponse = await StoryApi.getStoryById(result.storyId);
       
@@ -125,7 +144,11 @@ export const QuickGenerateDialog: FC<QuickGenerateDialogProps> = ({
       // Show success toast
       toast({
         title: "Success!",
-        description: `Story "${result.title}" created with ${result.imagesGenerated || 0} images!`,
+        description: result.needsReview
+          ? t.userCard.needsReview
+          : result.awaitingCharacterReview
+            ? t.userCard.awaitingCharacterReview
+            : `Story "${result.title}" created with ${result.imagesGenerated || 0} images!`,
       });
       
       // Reset the inputs after generation completes
@@ -134,16 +157,35 @@ export const QuickGenerateDialog: FC<QuickGenerateDialogProps> = ({
       setDisadvantagesInput('');
       setAdvantagesList([]);
       setDisadvantagesList([]);
+      setDecisionPoints(1);
+      setReviewCharacters(false);
 
       // Mark as no longer generating
       onGeneratingChange(false);
     } catch (error) {
       console.error("Error generating story:", error);
       onGeneratingChange(false);
-      
+      fetchCredits();
+
+      const quotaExceeded = getQuotaExceededDetails(error);
+      const rateLimited = getRateLimitedDetails(error);
+      const contentFlagged = getContentFlaggedDetails(error);
+      const insufficientCredits = getInsufficientCreditsDetails(error);
       toast({
-        title: "Generation Failed",
-        description: error instanceof Error ? error.message : "An unknown error occurred",
+        title: quotaExceeded
+          ? t.quota.limitReachedTitle
+          : rateLimited
+            ? t.rateLimit.title
+            : contentFlagged ? t.moderation.title : insufficientCredits ? t.credits.insufficientTitle : "Generation Failed",
+        description: quotaExceeded
+          ? getQuotaExceededMessage(quotaExceeded, t)
+          : rateLimited
+            ? getRateLimitedMessage(rateLimited, t)
+            : contentFlagged
+              ? getContentFlaggedMessage(contentFlagged, t)
+              : insufficientCredits
+                ? getInsufficientCreditsMessage(insufficientCredits, t)
+                : error instanceof Error ? error.message : "An unknown error occurred",
         variant: "destructive",
       });
     }
@@ -252,6 +294,33 @@ export const QuickGenerateDialog: FC<QuickGenerateDialogProps> = ({
               </div>
             </div>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="decision-points">{t.quickGenerateDialog.decisionPointsLabel}</Label>
+              <Select value={String(decisionPoints)} onValueChange={(value) => setDecisionPoints(Number(value))}>
+                <SelectTrigger id="decision-points">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DECISION_POINT_OPTIONS.map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 1
+                        ? t.quickGenerateDialog.singleDecision
+                        : t.quickGenerateDialog.multipleDecisions.replace('{count}', String(count))}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <input
+                id="review-characters"
+                type="checkbox"
+                className="h-4 w-4"
+                checked={reviewCharacters}
+                onChange={(e) => setReviewCharacters(e.target.checked)}
+              />
+              <Label htmlFor="review-characters">{t.quickGenerateDialog.reviewCharactersLabel}</Label>
+            </div>
             <Button
               className="w-full"
               onClick={handleSubmit}
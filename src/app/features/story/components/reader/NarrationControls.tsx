@@ -0,0 +1,89 @@
+"use client";
+
+import { motion } from "framer-motion";
+import { FastForward, Loader2, Pause, Play, Volume2 } from "lucide-react";
+
+export interface NarrationControlsProps {
+  // Whether any page of the story is narrated
+  hasNarration: boolean;
+  // Playback state from useNarrationPlayer
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  autoAdvance: boolean;
+  onToggleAutoAdvance: () => void;
+  // Owners of a story without narration can create it from the reader
+  canGenerate?: boolean;
+  generating?: boolean;
+  onGenerate?: () => void;
+  translations: {
+    play: string;
+    pause: string;
+    autoAdvance: string;
+    generateNarration: string;
+    generatingNarration: string;
+  };
+}
+
+/**
+ * Play / pause and auto-advance controls for the story narration
+ */
+export const NarrationControls = ({
+  hasNarration,
+  isPlaying,
+  onTogglePlay,
+  autoAdvance,
+  onToggleAutoAdvance,
+  canGenerate = false,
+  generating = false,
+  onGenerate,
+  translations,
+}: NarrationControlsProps) => {
+  if (!hasNarration) {
+    if (!canGenerate || !onGenerate) return null;
+
+    return (
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20">
+        <motion.button
+          whileHover={{ scale: generating ? 1 : 1.05 }}
+          whileTap={{ scale: generating ? 1 : 0.95 }}
+          onClick={onGenerate}
+          disabled={generating}
+          className="flex items-center gap-2 px-4 py-2 bg-white/80 backdrop-blur-sm hover:bg-white text-purple-600 rounded-full shadow-lg transition-colors disabled:opacity-70"
+        >
+          {generating ? <Loader2 className="h-5 w-5 animate-spin" /> : <Volume2 className="h-5 w-5" />}
+          <span className="text-sm font-semibold">
+            {generating ? translations.generatingNarration : translations.generateNarration}
+          </span>
+        </motion.button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-2 p-1 bg-white/80 backdrop-blur-sm rounded-full shadow-lg">
+      <motion.button
+        whileHover={{ scale: 1.1 }}
+        whileTap={{ scale: 0.9 }}
+        onClick={onTogglePlay}
+        className="p-3 bg-purple-600 hover:bg-purple-700 text-white rounded-full transition-colors"
+        aria-label={isPlaying ? translations.pause : translations.play}
+        title={isPlaying ? translations.pause : translations.play}
+      >
+        {isPlaying ? <Pause className="h-6 w-6" /> : <Play className="h-6 w-6" />}
+      </motion.button>
+      <motion.button
+        whileHover={{ scale: 1.1 }}
+        whileTap={{ scale: 0.9 }}
+        onClick={onToggleAutoAdvance}
+        className={`p-3 rounded-full transition-colors ${
+          autoAdvance ? "bg-purple-100 text-purple-700" : "text-gray-400 hover:text-purple-600"
+        }`}
+        aria-label={translations.autoAdvance}
+        aria-pressed={autoAdvance}
+        title={translations.autoAdvance}
+      >
+        <FastForward className="h-6 w-6" />
+      </motion.button>
+    </div>
+  );
+};
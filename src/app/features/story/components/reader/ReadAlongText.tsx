@@ -0,0 +1,80 @@
+"use client";
+
+import { Fragment } from "react";
+import type { WordTiming } from "@/models";
+
+interface ReadAlongTextProps {
+  text: string;
+  wordTimings: WordTiming[];
+  activeWordIndex: number;
+  onWordTap: (index: number) => void;
+}
+
+interface TextSegment {
+  // Set on spoken words, plain text between words has none
+  wordIndex?: number;
+  text: string;
+}
+
+// Cut the text at the timed words, keeping everything in reading order so the
+// paragraph direction lays Hebrew out right to left and English left to right
+const splitByTimings = (text: string, wordTimings: WordTiming[]): TextSegment[] | null => {
+  const segments: TextSegment[] = [];
+  let position = 0;
+
+  for (let index = 0; index < wordTimings.length; index++) {
+    const { charIndex } = wordTimings[index];
+    if (charIndex < position || charIndex >= text.length) return null;
+
+    const wordLength = text.slice(charIndex).search(/\s|$/);
+    if (charIndex > position) segments.push({ text: text.slice(position, charIndex) });
+    segments.push({ wordIndex: index, text: text.slice(charIndex, charIndex + wordLength) });
+    position = charIndex + wordLength;
+  }
+
+  if (position < text.length) segments.push({ text: text.slice(position) });
+  return segments;
+};
+
+/**
+ * Page text with the spoken word highlighted, each word can be tapped to hear it again
+ * Timings that do not fit the text (it was edited after narrating) show the plain text
+ */
+export const ReadAlongText = ({ text, wordTimings, activeWordIndex, onWordTap }: ReadAlongTextProps) => {
+  const segments = splitByTimings(text, wordTimings);
+  if (!segments) return <>{text}</>;
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.wordIndex === undefined ? (
+          <Fragment key={index}>{segment.text}</Fragment>
+        ) : (
+          <span
+            key={index}
+            role="button"
+            tabIndex={0}
+            onClick={(event) => {
+              event.stopPropagation();
+              onWordTap(segment.wordIndex!);
+            }}
+            onKeyDown={(event) => {
+              if (event.key === "Enter" || event.key === " ") {
+                event.preventDefault();
+                onWordTap(segment.wordIndex!);
+              }
+            }}
+            className="cursor-pointer rounded-md transition-colors duration-150"
+            style={
+              segment.wordIndex === activeWordIndex
+                ? { backgroundColor: "rgba(250, 204, 21, 0.75)", color: "#4c1d95", textShadow: "none" }
+                : undefined
+            }
+          >
+            {segment.text}
+          </span>
+        )
+      )}
+    </>
+  );
+};
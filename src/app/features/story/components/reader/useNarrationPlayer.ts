@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { WordTiming } from "@/models";
+
+// Pause between the end of a page's narration and turning to the next page
+const AUTO_ADVANCE_DELAY_MS = 800;
+
+/**
+ * Index of the word being spoken at the given time, -1 before the first word and after the last
+ * A word stays highlighted through the pause that follows it, until the next word starts
+ */
+export const findWordIndex = (wordTimings: WordTiming[], time: number): number => {
+  for (let index = wordTimings.length - 1; index >= 0; index--) {
+    if (time >= wordTimings[index].start) {
+      const isLast = index === wordTimings.length - 1;
+      return isLast && time > wordTimings[index].end ? -1 : index;
+    }
+  }
+  return -1;
+};
+
+interface UseNarrationPlayerOptions {
+  // Narration of the page on screen, screens without one (choices, endings) wait for the next page
+  audioUrl?: string | null;
+  wordTimings?: WordTiming[] | null;
+  canAdvance: boolean;
+  onAdvance: () => void;
+}
+
+/**
+ * Plays the story narration and follows it word by word for the read-along highlighting
+ * Once playing, every page the reader turns to is narrated until the reader pauses.
+ * Tapping a word plays just that word, or jumps to it while the page is being read.
+ */
+export const useNarrationPlayer = ({ audioUrl, wordTimings, canAdvance, onAdvance }: UseNarrationPlayerOptions) => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  // True while the audio element is actually playing, also for a single tapped word
+  const [audioActive, setAudioActive] = useState(false);
+  const [activeWordIndex, setActiveWordIndex] = useState(-1);
+  // End of the tapped word, playback pauses there
+  const stopAtRef = useRef<number | null>(null);
+
+  // The audio handlers are attached once, so they read the latest values through a ref
+  const latestRef = useRef({ isPlaying, autoAdvance, canAdvance, onAdvance });
+  latestRef.current = { isPlaying, autoAdvance, canAdvance, onAdvance };
+
+  useEffect(() => {
+    const audio = new Audio();
+    audioRef.current = audio;
+
+    let advanceTimeout: ReturnType<typeof setTimeout> | null = null;
+    const handlePlay = () => setAudioActive(true);
+    const handlePause = () => setAudioActive(false);
+    const handleEnded = () => {
+      stopAtRef.current = null;
+      setActiveWordIndex(-1);
+      const { isPlaying: playing, autoAdvance: shouldAdvance, canAdvance: ableToAdvance } = latestRef.current;
+      if (playing && shouldAdvance && ableToAdvance) {
+        advanceTimeout = setTimeout(() => latestRef.current.onAdvance(), AUTO_ADVANCE_DELAY_MS);
+      }
+    };
+    audio.addEventListener("play", handlePlay);
+    audio.addEventListener("pause", handlePause);
+    audio.addEventListener("ended", handleEnded);
+
+    return () => {
+      if (advanceTimeout) clearTimeout(advanceTimeout);
+      audio.removeEventListener("play", handlePlay);
+      audio.removeEventListener("pause", handlePause);
+      audio.removeEventListener("ended", handleEnded);
+      audio.pause();
+      audioRef.current = null;
+    };
+  }, []);
+
+  // Follow the page on screen: load its narration and keep playing if the reader was listening
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.pause();
+    stopAtRef.current = null;
+    setActiveWordIndex(-1);
+    if (!audioUrl) {
+      audio.removeAttribute("src");
+      return;
+    }
+
+    audio.src = audioUrl;
+    if (latestRef.current.isPlaying) {
+      audio.play().catch((error) => {
+        // Autoplay can be blocked until the reader interacts with the page
+        console.warn("[useNarrationPlayer] Could not play narration:", error);
+        setIsPlaying(false);
+      });
+    }
+  }, [audioUrl]);
+
+  // Track the spoken word on every frame while audio plays, re-rendering only when it changes
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !audioActive) return;
+
+    let frame = 0;
+    const tick = () => {
+      const stopAt = stopAtRef.current;
+      if (stopAt !== null && audio.currentTime >= stopAt) {
+        stopAtRef.current = null;
+        audio.pause();
+        return;
+      }
+      if (wordTimings?.length) {
+        const index = findWordIndex(wordTimings, audio.currentTime);
+        setActiveWordIndex((current) => (current === index ? current : index));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [audioActive, wordTimings]);
+
+  const togglePlay = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (latestRef.current.isPlaying) {
+      audio.pause();
+      setIsPlaying(false);
+      return;
+    }
+
+    setIsPlaying(true);
+    stopAtRef.current = null;
+    if (audioUrl) {
+      if (audio.ended) audio.currentTime = 0;
+      audio.play().catch((error) => {
+        console.warn("[useNarrationPlayer] Could not play narration:", error);
+        setIsPlaying(false);
+      });
+    }
+  }, [audioUrl]);
+
+  const toggleAutoAdvance = useCallback(() => setAutoAdvance((value) => !value), []);
+
+  const playWord = useCallback(
+    (index: number) => {
+      const audio = audioRef.current;
+      const timing = wordTimings?.[index];
+      if (!audio || !audioUrl || !timing) return;
+
+      audio.currentTime = timing.start;
+      setActiveWordIndex(index);
+      // While the page is being read the narration carries on from the word
+      stopAtRef.current = latestRef.current.isPlaying ? null : timing.end;
+      if (audio.paused) {
+        audio.play().catch((error) => {
+          console.warn("[useNarrationPlayer] Could not play word:", error);
+        });
+      }
+    },
+    [audioUrl, wordTimings]
+  );
+
+  return {
+    isPlaying,
+    togglePlay,
+    autoAdvance,
+    toggleAutoAdvance,
+    activeWordIndex,
+    playWord,
+  };
+};
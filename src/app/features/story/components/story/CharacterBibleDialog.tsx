@@ -0,0 +1,162 @@
+"use client";
+
+import { FC, useEffect, useState } from 'react';
+import { Story, StoryCharacter } from '@/models';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+import { useTranslation } from '@/app/hooks/useTranslation';
+import { StoryApi } from '@/app/network/StoryApi';
+import { Plus, Trash2 } from 'lucide-react';
+
+// Matches MAX_CHARACTERS and MAX_APPEARANCE_LENGTH in functions/src/lib/character-bible.ts
+const MAX_CHARACTERS = 8;
+const MAX_APPEARANCE_LENGTH = 500;
+
+interface CharacterBibleDialogProps {
+  story: Story;
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  // Called after the characters were saved, typically resumes the story generation
+  onSaved: (story: Story) => void;
+}
+
+/**
+ * Lets the parent review and edit the story's character bible before the illustrations are drawn
+ */
+export const CharacterBibleDialog: FC<CharacterBibleDialogProps> = ({
+  story,
+  isOpen,
+  onOpenChange,
+  onSaved,
+}) => {
+  const { t } = useTranslation();
+  const [characters, setCharacters] = useState<StoryCharacter[]>(story.characterBible || []);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the stored bible every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setCharacters(story.characterBible || []);
+    }
+  }, [isOpen, story.characterBible]);
+
+  const updateCharacter = (index: number, changes: Partial<StoryCharacter>) => {
+    setCharacters(prev => prev.map((character, i) => i === index ? { ...character, ...changes } : character));
+  };
+
+  const handleAddCharacter = () => {
+    setCharacters(prev => [...prev, { name: '', role: '', appearance: '' }]);
+  };
+
+  const handleRemoveCharacter = (index: number) => {
+    setCharacters(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const characterBible = characters
+      .map(character => ({
+        name: character.name.trim(),
+        role: character.role.trim(),
+        appearance: character.appearance.trim(),
+      }))
+      .filter(character => character.name && character.appearance);
+
+    setIsSaving(true);
+    try {
+      const response = await StoryApi.updateStoryPartial(story.id, { characterBible });
+      if (!response.success) {
+        throw new Error(response.error || t.characterBible.saveFailed);
+      }
+      onSaved({ ...story, characterBible });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving character bible:', error);
+      toast({
+        title: t.characterBible.saveFailed,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.characterBible.title}</DialogTitle>
+          <DialogDescription>{t.characterBible.description}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {characters.map((character, index) => (
+            <div key={index} className="space-y-2 rounded-lg border border-gray-200 p-3">
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor={`character-name-${index}`}>{t.characterBible.nameLabel}</Label>
+                  <Input
+                    id={`character-name-${index}`}
+                    value={character.name}
+                    onChange={(e) => updateCharacter(index, { name: e.target.value })}
+                  />
+                </div>
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor={`character-role-${index}`}>{t.characterBible.roleLabel}</Label>
+                  <Input
+                    id={`character-role-${index}`}
+                    value={character.role}
+                    onChange={(e) => updateCharacter(index, { role: e.target.value })}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemoveCharacter(index)}
+                  aria-label={t.characterBible.removeCharacter}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`character-appearance-${index}`}>{t.characterBible.appearanceLabel}</Label>
+                <Textarea
+                  id={`character-appearance-${index}`}
+                  value={character.appearance}
+                  maxLength={MAX_APPEARANCE_LENGTH}
+                  onChange={(e) => updateCharacter(index, { appearance: e.target.value })}
+                />
+              </div>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={handleAddCharacter}
+            disabled={characters.length >= MAX_CHARACTERS}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {t.characterBible.addCharacter}
+          </Button>
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? t.characterBible.saving : t.characterBible.saveAndContinue}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
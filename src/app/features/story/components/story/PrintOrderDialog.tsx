@@ -0,0 +1,243 @@
+"use client";
+
+import { FC, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { PayPalButtons, PayPalScriptProvider } from '@paypal/react-paypal-js';
+import * as Sentry from '@sentry/nextjs';
+import { PrintFormat, PrintOrderCreateRequestSchema, ShippingAddress, Story } from '@/models';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+import { useTranslation } from '@/app/hooks/useTranslation';
+import { PaymentApi } from '@/app/network/PaymentApi';
+import { calculatePrintOrderTotal, MAX_PRINT_QUANTITY, PRINT_FORMAT_PRICES } from '@/app/utils/print-order';
+import { CheckoutDiscount } from '@/app/utils/promo-code';
+import { PromoCodeField } from '@/app/features/credits/components/PromoCodeField';
+
+const PAYPAL_CLIENT_ID = process.env.NEXT_PUBLIC_PAYPAL_CLIENT_ID;
+
+const EMPTY_ADDRESS: ShippingAddress = {
+  fullName: '',
+  addressLine1: '',
+  addressLine2: '',
+  city: '',
+  region: '',
+  postalCode: '',
+  countryCode: 'IL',
+};
+
+interface PrintOrderDialogProps {
+  story: Story;
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+
+/**
+ * Order printed copies of a story: format, quantity and shipping address, then PayPal checkout
+ * The price shown is computed with the same rules the server charges
+ */
+export const PrintOrderDialog: FC<PrintOrderDialogProps> = ({ story, isOpen, onOpenChange }) => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const [format, setFormat] = useState<PrintFormat>('hardcover');
+  const [quantity, setQuantity] = useState(1);
+  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>(EMPTY_ADDRESS);
+  const [step, setStep] = useState<'details' | 'payment'>('details');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [discount, setDiscount] = useState<CheckoutDiscount | null>(null);
+  const orderIdRef = useRef<string | null>(null);
+
+  // Every order starts from the details step
+  useEffect(() => {
+    if (isOpen) {
+      setStep('details');
+      setFormError(null);
+      orderIdRef.current = null;
+    }
+  }, [isOpen]);
+
+  const total = calculatePrintOrderTotal(format, quantity, discount?.percentOff);
+  const orderRequest = {
+    storyId: story.id,
+    format,
+    quantity,
+    promoCode: discount?.code,
+    shippingAddress: {
+      ...shippingAddress,
+      addressLine2: shippingAddress.addressLine2 || undefined,
+      region: shippingAddress.region || undefined,
+    },
+  };
+
+  const updateAddress = (changes: Partial<ShippingAddress>) => {
+    setShippingAddress(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleContinue = () => {
+    const parsed = PrintOrderCreateRequestSchema.safeParse(orderRequest);
+    if (!parsed.success) {
+      setFormError(parsed.error.issues[0]?.message || t.printOrder.invalidDetails);
+      return;
+    }
+    setFormError(null);
+    setStep('payment');
+  };
+
+  const handleCreateOrder = async (): Promise<string> => {
+    const response = await PaymentApi.createPrintOrder(orderRequest);
+    if (!response.success || !response.data) {
+      throw new Error(response.success ? t.printOrder.orderFailed : response.error);
+    }
+    orderIdRef.current = response.data.orderId;
+    return response.data.paypalOrderId;
+  };
+
+  const handlePaymentError = (error: unknown) => {
+    console.error('Error paying for print order:', error);
+    Sentry.captureException(error);
+    toast({
+      title: t.printOrder.orderFailed,
+      description: error instanceof Error ? error.message : undefined,
+      variant: "destructive"
+    });
+  };
+
+  const handleApprove = async () => {
+    const orderId = orderIdRef.current;
+    if (!orderId) return;
+
+    await Sentry.startSpan({ op: "ui.click", name: "Capture Print Order" }, async (span) => {
+      span.setAttribute("order_id", orderId);
+      const response = await PaymentApi.capturePrintOrder(orderId);
+      if (!response.success) {
+        throw new Error(response.error);
+      }
+      onOpenChange(false);
+      router.push(`/success-order?orderId=${encodeURIComponent(orderId)}`);
+    }).catch(handlePaymentError);
+  };
+
+  const addressFields: Array<{ key: keyof ShippingAddress; label: string; required: boolean }> = [
+    { key: 'fullName', label: t.printOrder.fullName, required: true },
+    { key: 'addressLine1', label: t.printOrder.addressLine1, required: true },
+    { key: 'addressLine2', label: t.printOrder.addressLine2, required: false },
+    { key: 'city', label: t.printOrder.city, required: true },
+    { key: 'region', label: t.printOrder.region, required: false },
+    { key: 'postalCode', label: t.printOrder.postalCode, required: true },
+    { key: 'countryCode', label: t.printOrder.countryCode, required: true },
+  ];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t.printOrder.title}</DialogTitle>
+          <DialogDescription>{t.printOrder.description}</DialogDescription>
+        </DialogHeader>
+
+        {step === 'details' ? (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>{t.printOrder.format}</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(PRINT_FORMAT_PRICES) as PrintFormat[]).map(option => (
+                  <Button
+                    key={option}
+                    type="button"
+                    variant={format === option ? "default" : "outline"}
+                    onClick={() => setFormat(option)}
+                  >
+                    {t.printOrder.formats[option]} · {calculatePrintOrderTotal(option, 1).unitPrice} {total.currency}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="print-quantity">{t.printOrder.quantity}</Label>
+              <Input
+                id="print-quantity"
+                type="number"
+                min={1}
+                max={MAX_PRINT_QUANTITY}
+                value={quantity}
+                onChange={(e) => setQuantity(Math.min(MAX_PRINT_QUANTITY, Math.max(1, Number(e.target.value) || 1)))}
+              />
+            </div>
+            <div className="space-y-2 rounded-lg border border-gray-200 p-3">
+              <p className="font-semibold">{t.printOrder.shippingAddress}</p>
+              {addressFields.map(field => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`shipping-${field.key}`}>
+                    {field.label}{field.required ? ' *' : ''}
+                  </Label>
+                  <Input
+                    id={`shipping-${field.key}`}
+                    value={shippingAddress[field.key] || ''}
+                    maxLength={field.key === 'countryCode' ? 2 : undefined}
+                    onChange={(e) => updateAddress({ [field.key]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+            <PromoCodeField discount={discount} onChange={setDiscount} />
+            {formError && <p className="text-sm text-red-600">{formError}</p>}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {PAYPAL_CLIENT_ID ? (
+              <PayPalScriptProvider options={{ clientId: PAYPAL_CLIENT_ID, currency: total.currency }}>
+                <PayPalButtons
+                  style={{ layout: "vertical" }}
+                  forceReRender={[format, quantity, total.total, discount?.code]}
+                  createOrder={handleCreateOrder}
+                  onApprove={handleApprove}
+                  onError={handlePaymentError}
+                />
+              </PayPalScriptProvider>
+            ) : (
+              <p className="text-sm text-red-600">{t.printOrder.paymentsUnavailable}</p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-1 rounded-lg bg-purple-50 p-3 text-sm">
+          <div className="flex justify-between">
+            <span>{t.printOrder.books(quantity)}</span>
+            <span>{total.itemTotal} {total.currency}</span>
+          </div>
+          {discount && (
+            <div className="flex justify-between text-green-700">
+              <span>{t.promoCode.discount} ({discount.percentOff}%)</span>
+              <span>-{total.discount} {total.currency}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>{t.printOrder.shipping}</span>
+            <span>{total.shipping} {total.currency}</span>
+          </div>
+          <div className="flex justify-between font-bold">
+            <span>{t.printOrder.total}</span>
+            <span>{total.total} {total.currency}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          {step === 'details' ? (
+            <Button onClick={handleContinue}>{t.printOrder.continueToPayment}</Button>
+          ) : (
+            <Button variant="outline" onClick={() => setStep('details')}>{t.printOrder.back}</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
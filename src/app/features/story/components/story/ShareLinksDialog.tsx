@@ -0,0 +1,201 @@
+"use client";
+
+import { FC, useCallback, useEffect, useState } from 'react';
+import * as Sentry from '@sentry/nextjs';
+import { Copy, Eye, Lock } from 'lucide-react';
+import { Story, StoryShareLink } from '@/models';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { toast } from '@/components/ui/use-toast';
+import { useTranslation } from '@/app/hooks/useTranslation';
+import { StoryApi } from '@/app/network/StoryApi';
+import { checkShareLink, getShareLinkUrl, SHARE_PASSCODE_MIN_LENGTH } from '@/app/utils/story-share';
+
+// Expiry choices in days, null for a link that never expires
+const EXPIRY_OPTIONS: Array<number | null> = [7, 30, null];
+
+interface ShareLinksDialogProps {
+  story: Story;
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+
+/**
+ * Create, copy and revoke the public read-only links of a story, with their view counts
+ */
+export const ShareLinksDialog: FC<ShareLinksDialogProps> = ({ story, isOpen, onOpenChange }) => {
+  const { t, language } = useTranslation();
+  const [links, setLinks] = useState<StoryShareLink[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(EXPIRY_OPTIONS[0]);
+  const [passcode, setPasscode] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchLinks = useCallback(async () => {
+    try {
+      const response = await StoryApi.getShareLinks(story.id);
+      if (response.success && response.data) {
+        setLinks(response.data.links);
+      }
+    } catch (error) {
+      console.error('Error fetching share links:', error);
+      toast({ title: t.shareLinks.loadFailed, variant: "destructive" });
+    }
+  }, [story.id, t]);
+
+  // View counts change while the dialog is closed, reload them every time it opens
+  useEffect(() => {
+    if (isOpen) {
+      fetchLinks();
+    }
+  }, [isOpen, fetchLinks]);
+
+  const handleCopy = async (link: StoryShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(window.location.origin, link.token));
+      toast({ title: t.shareLinks.copied });
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      toast({ title: t.common.error, description: t.storyPage.failedToCopyLink, variant: "destructive" });
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      await Sentry.startSpan({ op: "ui.click", name: "Create Story Share Link" }, async (span) => {
+        span.setAttribute("story_id", story.id);
+        span.setAttribute("has_passcode", !!passcode.trim());
+        const response = await StoryApi.createShareLink(story.id, {
+          expiresInDays,
+          passcode: passcode.trim() || undefined,
+        });
+        if (!response.success || !response.data) {
+          throw new Error(t.shareLinks.createFailed);
+        }
+        const link = response.data.link;
+        setLinks(prev => [link, ...prev]);
+        setPasscode('');
+        await handleCopy(link);
+      });
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast({
+        title: t.shareLinks.createFailed,
+        description: (error as { message?: string })?.message,
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevoke = async (link: StoryShareLink) => {
+    try {
+      const response = await StoryApi.revokeShareLink(story.id, link.token);
+      if (response.success && response.data) {
+        const revoked = response.data.link;
+        setLinks(prev => prev.map(item => item.token === revoked.token ? revoked : item));
+      }
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      Sentry.captureException(error);
+      toast({ title: t.shareLinks.revokeFailed, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t.shareLinks.title}</DialogTitle>
+          <DialogDescription>{t.shareLinks.description}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>{t.shareLinks.expiry}</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {EXPIRY_OPTIONS.map(option => (
+                <Button
+                  key={option ?? 'never'}
+                  type="button"
+                  variant={expiresInDays === option ? "default" : "outline"}
+                  onClick={() => setExpiresInDays(option)}
+                >
+                  {option ? t.shareLinks.days(option) : t.shareLinks.never}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="share-passcode">{t.shareLinks.passcode}</Label>
+            <Input
+              id="share-passcode"
+              value={passcode}
+              placeholder={t.shareLinks.passcodePlaceholder}
+              maxLength={32}
+              onChange={(e) => setPasscode(e.target.value)}
+            />
+          </div>
+          <Button
+            className="w-full"
+            disabled={isSaving || (passcode.trim().length > 0 && passcode.trim().length < SHARE_PASSCODE_MIN_LENGTH)}
+            onClick={handleCreate}
+          >
+            {t.shareLinks.create}
+          </Button>
+        </div>
+
+        <div className="border-t border-gray-100 pt-4">
+          {links.length === 0 ? (
+            <p className="text-sm text-gray-400">{t.shareLinks.noLinks}</p>
+          ) : (
+            <ul className="max-h-64 space-y-2 overflow-y-auto">
+              {links.map(link => {
+                const unavailable = checkShareLink(link);
+                return (
+                  <li key={link.token} className="flex items-center justify-between gap-2 rounded-lg bg-gray-50 p-2 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate font-mono text-xs text-gray-500" dir="ltr">…/shared/{link.token.slice(0, 8)}</p>
+                      <p className="flex flex-wrap items-center gap-2 text-gray-600">
+                        <span className="flex items-center gap-1"><Eye size={14} />{t.shareLinks.views(link.viewCount)}</span>
+                        {link.hasPasscode && (
+                          <span className="flex items-center gap-1"><Lock size={14} />{t.shareLinks.withPasscode}</span>
+                        )}
+                        {unavailable ? (
+                          <span className="text-red-600">
+                            {unavailable.reason === 'revoked' ? t.shareLinks.revoked : t.shareLinks.expired}
+                          </span>
+                        ) : link.expiresAt && (
+                          <span>{t.shareLinks.expires(new Date(link.expiresAt).toLocaleDateString(language))}</span>
+                        )}
+                      </p>
+                    </div>
+                    {!unavailable && (
+                      <div className="flex shrink-0 gap-1">
+                        <Button type="button" variant="ghost" size="sm" onClick={() => handleCopy(link)} aria-label={t.shareLinks.copy}>
+                          <Copy size={16} />
+                        </Button>
+                        <Button type="button" variant="outline" size="sm" onClick={() => handleRevoke(link)}>
+                          {t.shareLinks.revoke}
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,7 +2,7 @@
 
 import ImageUrl from '@/app/components/common/ImageUrl';
 import { PageType, StoryPage, Story, KidDetails } from '@/models';
-import { useState, useEffect, forwardRef, useImperativeHandle } from 'react';
+import { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
 import { useAuth } from '@/app/context/AuthContext';
 import { useTranslation } from '@/app/hooks/useTranslation';
 import { useErrorReporting } from '@/app/hooks/useErrorReporting';
@@ -12,7 +12,24 @@ import { calculateImageGenerationCost } from '@/app/utils/openai-cost-calculator
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
-import { RefreshCw, Pencil, Check } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { toast } from '@/components/ui/use-toast';
+import { StoryApi } from '@/app/network/StoryApi';
+import functionClientAPI from '@/app/network/functions/FunctionClientAPI';
+import { RefreshCw, Pencil, Check, Wand2, Mic, Loader2 } from 'lucide-react';
+
+// Recordings the server accepts as page narration, matching uploadStoryPageNarration
+const NARRATION_AUDIO_TYPES = ['audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/webm', 'audio/mp4', 'audio/x-m4a', 'audio/ogg'];
+const MAX_NARRATION_BYTES = 5 * 1024 * 1024;
+
+// Base64 content of the file, without the data URL prefix
+const readFileAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 
 type StoryPageCardProps = {
   page: StoryPage;
@@ -46,6 +63,11 @@ export const StoryPageCard = forwardRef<StoryPageCardHandle, StoryPageCardProps>
   const [editedText, setEditedText] = useState(initialPage.storyText);
   const [showGeneratedImages, setShowGeneratedImages] = useState(false);
   const [isHoveringText, setIsHoveringText] = useState(false);
+  const [showRegenerateText, setShowRegenerateText] = useState(false);
+  const [regenerateInstruction, setRegenerateInstruction] = useState('');
+  const [isRegeneratingText, setIsRegeneratingText] = useState(false);
+  const [isUploadingNarration, setIsUploadingNarration] = useState(false);
+  const narrationInputRef = useRef<HTMLInputElement | null>(null);
   const { currentUser } = useAuth();
   const { t } = useTranslation();
   const { recordError } = useErrorReporting();
@@ -143,8 +165,11 @@ export const StoryPageCard = forwardRef<StoryPageCardHandle, StoryPageCardProps>
   // Handle edit mode toggle
   const handleEditToggle = () => {
     if (isEditingText) {
-      // Saving changes
-      const updatedPage = { ...page, storyText: editedText.trim() };
+      // Saving changes - narration of the previous text no longer matches the words
+      const storyText = editedText.trim();
+      const updatedPage = storyText === page.storyText
+        ? page
+        : { ...page, storyText, audioUrl: null, wordTimings: null };
       setPage(updatedPage);
       onPageUpdate?.(updatedPage);
     } else {
@@ -160,6 +185,84 @@ export const StoryPageCard = forwardRef<StoryPageCardHandle, StoryPageCardProps>
     setIsEditingText(false);
   };
 
+  // Rewrite the page text with AI - the server keeps the previous text as a revision
+  const handleRegenerateText = async () => {
+    if (!story?.id) return;
+
+    setIsRegeneratingText(true);
+    try {
+      const response = await StoryApi.regeneratePageText(story.id, page.pageNum, regenerateInstruction.trim());
+      if (!response.success || !response.data) {
+        throw new Error(response.success ? 'Empty response' : response.error);
+      }
+
+      const updatedPage = { ...page, ...response.data.page };
+      setPage(updatedPage);
+      setEditedText(updatedPage.storyText);
+      onPageUpdate?.(updatedPage, { skipPersist: true });
+      setShowRegenerateText(false);
+      setRegenerateInstruction('');
+    } catch (error) {
+      recordError(error instanceof Error ? error : new Error(String(error)), {
+        component: 'StoryPageCard',
+        action: 'regenerateText',
+        pageType: page.pageType,
+        pageNum: page.pageNum,
+        storyId: story.id
+      });
+      toast({
+        title: t.storyPageCard.regenerateTextFailed,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRegeneratingText(false);
+    }
+  };
+
+  // Save a parent's recording as the page narration, the server aligns it for read-along
+  const handleNarrationFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !story?.id) return;
+
+    if (!NARRATION_AUDIO_TYPES.includes(file.type) || file.size > MAX_NARRATION_BYTES) {
+      toast({ title: t.storyPageCard.unsupportedAudio, variant: 'destructive' });
+      return;
+    }
+
+    setIsUploadingNarration(true);
+    try {
+      const audioBase64 = await readFileAsBase64(file);
+      const { audioUrl, wordTimings } = await functionClientAPI.uploadStoryPageNarration({
+        storyId: story.id,
+        pageNum: page.pageNum,
+        audioBase64,
+        contentType: file.type,
+      });
+      // The server already saved the page
+      const updatedPage = { ...page, audioUrl, wordTimings };
+      setPage(updatedPage);
+      onPageUpdate?.(updatedPage, { skipPersist: true });
+      toast({ title: t.storyPageCard.narrationUploaded });
+    } catch (error) {
+      recordError(error instanceof Error ? error : new Error(String(error)), {
+        component: 'StoryPageCard',
+        action: 'uploadNarration',
+        pageType: page.pageType,
+        pageNum: page.pageNum,
+        storyId: story.id
+      });
+      toast({
+        title: t.storyPageCard.uploadNarrationFailed,
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploadingNarration(false);
+    }
+  };
+
   useEffect(() => {
     setPage(initialPage);
     setEditedText(initialPage.storyText);
@@ -279,6 +382,66 @@ export const StoryPageCard = forwardRef<StoryPageCardHandle, StoryPageCardProps>
             >
               <Pencil className="h-4 w-4" />
             </Button>
+            {story?.id && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowRegenerateText(!showRegenerateText)}
+                className="h-8 w-8 p-0"
+                title={t.storyPageCard.regenerateText}
+                disabled={isRegeneratingText}
+              >
+                <Wand2 className="h-4 w-4" />
+              </Button>
+            )}
+            {story?.id && page.storyText.trim() && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => narrationInputRef.current?.click()}
+                  className="h-8 w-8 p-0"
+                  title={isUploadingNarration ? t.storyPageCard.uploadingNarration : t.storyPageCard.uploadNarration}
+                  disabled={isUploadingNarration}
+                >
+                  {isUploadingNarration ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mic className="h-4 w-4" />}
+                </Button>
+                <input
+                  ref={narrationInputRef}
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  onChange={handleNarrationFile}
+                />
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Rewrite the text with an optional instruction */}
+        {showRegenerateText && !isEditingText && (
+          <div className="flex items-center gap-2">
+            <Input
+              value={regenerateInstruction}
+              onChange={(e) => setRegenerateInstruction(e.target.value)}
+              placeholder={t.storyPageCard.regenerateInstructionPlaceholder}
+              maxLength={500}
+              disabled={isRegeneratingText}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') {
+                  event.preventDefault();
+                  handleRegenerateText();
+                }
+              }}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRegenerateText}
+              disabled={isRegeneratingText}
+            >
+              {isRegeneratingText ? t.storyPageCard.regeneratingText : t.storyPageCard.regenerateText}
+            </Button>
           </div>
         )}
 
@@ -1,12 +1,13 @@
-import { FC, useState, useCallback, memo } from 'react';
+import { FC, useState, useCallback, useEffect, memo } from 'react';
 import { useRouter } from "next/navigation";
 import { toast } from "@/components/ui/use-toast";
-import { KidDetails, Story, StoryStatus, Account } from "@/models";
+import { KidDetails, KidShare, KidShareInvitation, KidSharePermission, Story, StoryStatus, Account } from "@/models";
 import { useAuth } from '@/app/context/AuthContext';
 import { useAvatarHandling } from '../../hooks/useAvatarHandling';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import ImageUrl from "@/app/components/common/ImageUrl";
 import {
   Dialog,
@@ -20,11 +21,12 @@ import { KidApi, ImageGenerationApi } from '@/app/network';
 import useStoryOperations from './hooks/useStoryOperations';
 import { getImageUrl } from '@/app/utils/imagePlaceholder';
 import { StoryImage } from '@/app/features/story/components/story/StoryImage';
+import { CharacterBibleDialog } from '@/app/features/story/components/story/CharacterBibleDialog';
+import { checkStoryQuota } from '@/app/utils/quota';
 import { PLACEHOLDER_IMAGE } from '@/app/utils/imagePlaceholder';
 import { useTranslation } from '@/app/hooks/useTranslation';
 import { FirebaseError } from 'firebase/app';
 import { getAuth } from 'firebase/auth';
-import { getEmailTemplateId } from '@/constants/email-templates';
 
 
 // Types 
@@ -264,6 +266,7 @@ const AvatarDialog: FC<{
 };
 
 // Share Kid Dialog Component
+// Invites an email to share the kid and manages the shares and pending invitations, only shown to the kid's owner
 const ShareKidDialog: FC<{
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
@@ -284,6 +287,18 @@ const ShareKidDialog: FC<{
         shareSuccess: string;
         shareError: string;
         invalidEmail: string;
+        permissionLabel: string;
+        permissionRead: string;
+        permissionWrite: string;
+        sharedWithTitle: string;
+        notShared: string;
+        remove: string;
+        removeSuccess: string;
+        removeError: string;
+        updateError: string;
+        loadError: string;
+        pending: string;
+        emailFailed: string;
       };
     };
   };
@@ -296,9 +311,54 @@ const ShareKidDialog: FC<{
   t,
 }) => {
   const [email, setEmail] = useState('');
+  const [permission, setPermission] = useState<KidSharePermission>('read');
+  const [shares, setShares] = useState<KidShare[]>([]);
+  const [invitations, setInvitations] = useState<KidShareInvitation[]>([]);
   const [isSharing, setIsSharing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const fetchShares = useCallback(async () => {
+    try {
+      const response = await KidApi.getKidShares(kidId);
+      if (response.success && response.data) {
+        setShares(response.data.shares);
+        setInvitations(response.data.invitations || []);
+      }
+    } catch (err) {
+      console.error('Error fetching kid shares:', err);
+      toast({ title: t.userCard.shareDialog.loadError, variant: 'destructive' });
+    }
+  }, [kidId, t]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchShares();
+    }
+  }, [isOpen, fetchShares]);
+
+  const handlePermissionChange = async (share: KidShare, newPermission: KidSharePermission) => {
+    try {
+      await KidApi.updateKidShare(kidId, share.email, newPermission);
+      setShares(prev => prev.map(item => item.email === share.email ? { ...item, permission: newPermission } : item));
+    } catch (err) {
+      console.error('Error updating kid share:', err);
+      toast({ title: t.userCard.shareDialog.updateError, variant: 'destructive' });
+    }
+  };
+
+  // Removing also cancels a pending invitation to the email
+  const handleRemove = async (share: Pick<KidShare, 'email'>) => {
+    try {
+      await KidApi.removeKidShare(kidId, share.email);
+      setShares(prev => prev.filter(item => item.email !== share.email));
+      setInvitations(prev => prev.filter(item => item.email !== share.email));
+      toast({ title: t.userCard.shareDialog.removeSuccess.replace('{email}', share.email) });
+    } catch (err) {
+      console.error('Error removing kid share:', err);
+      toast({ title: t.userCard.shareDialog.removeError, variant: 'destructive' });
+    }
+  };
+
   const validateEmail = (email: string) => {
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     return emailRegex.test(email);
@@ -338,7 +398,7 @@ const ShareKidDialog: FC<{
         return;
       }
       
-      // Use server-side API to share the kid
+      // The server saves the invitation and sends its email
       const response = await fetch(`/api/user/kids/${kidId}/share`, {
         method: 'POST',
         headers: {
@@ -347,56 +407,29 @@ const ShareKidDialog: FC<{
         },
         body: JSON.stringify({
           email: email.trim(),
-          permission: 'read',
+          permission,
+          language,
         }),
       });
       
       const result = await response.json();
       
       if (!response.ok || !result.success) {
-        setError(result.error || t.userCard.shareDialog.shareError);
+        setError(response.status === 409 ? t.userCard.shareDialog.alreadyShared : (result.error || t.userCard.shareDialog.shareError));
         setIsSharing(false);
         return;
       }
       
-      toast({
-        title: t.userCard.shareDialog.shareSuccess.replace('{email}', email.trim()),
-        description: `${kidName} is now shared with ${email.trim()}`,
-      });
-      
-      // Send email notification
-      try {
-        const emailResponse = await fetch('/api/email/send', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            to: email.trim(),
-            templateId: getEmailTemplateId(language, 'SHARE_KID'),
-            variables: {
-              SHARE_URL: `${window.location.origin}/dashboard`
-            },
-          }),
-        });
-
-        const emailResult = await emailResponse.json();
-        
-        if (!emailResult.success) {
-          console.error('Failed to send email notification:', emailResult.error);
-          // Don't show error to user since sharing was successful
-        } else {
-          console.log('Email notification sent successfully:', emailResult.id);
-        }
-      } catch (emailErr) {
-        console.error('Error sending email notification:', emailErr);
-        // Don't show error to user since sharing was successful
+      if (result.data?.emailSent === false) {
+        toast({ title: t.userCard.shareDialog.emailFailed, variant: 'destructive' });
+      } else {
+        toast({ title: t.userCard.shareDialog.shareSuccess.replace('{email}', email.trim()) });
       }
       
-      // Reset and close
+      // Reset and show the new invitation in the list
       setEmail('');
-      onOpenChange(false);
+      setPermission('read');
+      await fetchShares();
     } catch (err) {
       console.error('Error sharing kid:', err);
       setError(t.userCard.shareDialog.shareError);
@@ -415,6 +448,7 @@ const ShareKidDialog: FC<{
     <Dialog open={isOpen} onOpenChange={(open) => {
       if (!open) {
         setEmail('');
+        setPermission('read');
         setError(null);
       }
       onOpenChange(open);
@@ -462,6 +496,66 @@ const ShareKidDialog: FC<{
               <p className="text-sm text-red-500">{error}</p>
             )}
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="share-permission">{t.userCard.shareDialog.permissionLabel}</Label>
+            <Select value={permission} onValueChange={(value) => setPermission(value as KidSharePermission)} disabled={isSharing}>
+              <SelectTrigger id="share-permission">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="read">{t.userCard.shareDialog.permissionRead}</SelectItem>
+                <SelectItem value="write">{t.userCard.shareDialog.permissionWrite}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-100 pt-4">
+          <h4 className="mb-2 text-sm font-medium text-gray-800">{t.userCard.shareDialog.sharedWithTitle}</h4>
+          {shares.length === 0 && invitations.length === 0 ? (
+            <p className="text-sm text-gray-400">{t.userCard.shareDialog.notShared}</p>
+          ) : (
+            <ul className="max-h-48 space-y-2 overflow-y-auto">
+              {shares.map(share => (
+                <li key={share.email} className="flex items-center justify-between gap-2 rounded-lg bg-gray-50 p-2 text-sm">
+                  <span className="min-w-0 truncate text-gray-700" dir="ltr">{share.email}</span>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Select
+                      value={share.permission}
+                      onValueChange={(value) => handlePermissionChange(share, value as KidSharePermission)}
+                    >
+                      <SelectTrigger className="h-8 w-28" aria-label={t.userCard.shareDialog.permissionLabel}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="read">{t.userCard.shareDialog.permissionRead}</SelectItem>
+                        <SelectItem value="write">{t.userCard.shareDialog.permissionWrite}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button type="button" variant="outline" size="sm" onClick={() => handleRemove(share)}>
+                      {t.userCard.shareDialog.remove}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+              {invitations.map(invitation => (
+                <li key={invitation.id} className="flex items-center justify-between gap-2 rounded-lg bg-gray-50 p-2 text-sm">
+                  <span className="min-w-0 truncate text-gray-700" dir="ltr">{invitation.email}</span>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs text-amber-700">
+                      {t.userCard.shareDialog.pending}
+                    </span>
+                    <span className="w-24 truncate text-xs text-gray-500">
+                      {invitation.permission === 'write' ? t.userCard.shareDialog.permissionWrite : t.userCard.shareDialog.permissionRead}
+                    </span>
+                    <Button type="button" variant="outline" size="sm" onClick={() => handleRemove(invitation)}>
+                      {t.userCard.shareDialog.remove}
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         
         <DialogFooter className="gap-2">
@@ -503,6 +597,7 @@ export const UserCard: React.FC<UserCardProps> = memo(({
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [showStoryLimitDialog, setShowStoryLimitDialog] = useState(false);
   const [showShareDialog, setShowShareDialog] = useState(false);
+  const [reviewingStory, setReviewingStory] = useState<Story | null>(null);
   
   // Hooks
   const router = useRouter();
@@ -512,10 +607,12 @@ export const UserCard: React.FC<UserCardProps> = memo(({
   
   // Use custom hooks
   const { setImageError, displayAvatarUrl, shouldUseDefaultAvatar } = useAvatarHandling({ kid });
+  const isOwner = !!currentUser && kid.accountId === currentUser.uid;
   const { 
     stories, 
     isLoading, 
-    fetchStories } = useStoryOperations(kid.id, currentUser?.uid);
+    fetchStories,
+    resumeStory } = useStoryOperations(kid.id, currentUser?.uid);
 
 
   // Handler for selecting an avatar
@@ -564,9 +661,8 @@ export const UserCard: React.FC<UserCardProps> = memo(({
 
   const handleCreateStory = useCallback(() => {
     // Check if user has reached their story per kid limit
-    // Use stories_created (total created including deleted) instead of current story count
-    const storiesCreatedCount = kid.stories_created || 0;
-    if (userAccountData?.story_per_kid_limit !== undefined && storiesCreatedCount >= userAccountData.story_per_kid_limit) {
+    // Uses stories_created (total created including deleted) instead of current story count
+    if (checkStoryQuota(userAccountData || null, kid)) {
       // Show custom dialog instead of alert
       setShowStoryLimitDialog(true);
       return;
@@ -578,6 +674,26 @@ export const UserCard: React.FC<UserCardProps> = memo(({
     router.push(`/stories/${storyId}`);
   }, [router]);
 
+  const handleResumeStory = useCallback(async (storyId: string) => {
+    toast({ title: t.userCard.resumingGeneration });
+    try {
+      await resumeStory(storyId);
+    } catch (error) {
+      console.error('Error resuming story generation:', error);
+      toast({
+        title: t.userCard.resumeGenerationFailed,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive"
+      });
+    }
+  }, [resumeStory, t]);
+
+  // The characters are saved by the dialog, generation continues with the edited bible
+  const handleCharactersSaved = useCallback((story: Story) => {
+    setReviewingStory(null);
+    handleResumeStory(story.id);
+  }, [handleResumeStory]);
+
   // Get the kid's name with proper type safety
   const kidName = (() => {
     // First try to use the name property if it's a string
@@ -673,28 +789,30 @@ export const UserCard: React.FC<UserCardProps> = memo(({
               {t.userCard.createStory}
             </Button>
             
-            {/* Share Button */}
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={() => setShowShareDialog(true)}
-              className="w-full mb-4 rounded-full border-blue-300 text-blue-600 hover:bg-blue-50 hover:border-blue-400 px-4"
-            >
-              <svg 
-                className="h-4 w-4 mr-2" 
-                fill="none" 
-                viewBox="0 0 24 24" 
-                stroke="currentColor"
+            {/* Share Button, only the owner manages who the kid is shared with */}
+            {isOwner && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowShareDialog(true)}
+                className="w-full mb-4 rounded-full border-blue-300 text-blue-600 hover:bg-blue-50 hover:border-blue-400 px-4"
               >
-                <path 
-                  strokeLinecap="round" 
-                  strokeLinejoin="round" 
-                  strokeWidth={2} 
-                  d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" 
-                />
-              </svg>
-              {t.userCard.share}
-            </Button>
+                <svg 
+                  className="h-4 w-4 mr-2" 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  stroke="currentColor"
+                >
+                  <path 
+                    strokeLinecap="round" 
+                    strokeLinejoin="round" 
+                    strokeWidth={2} 
+                    d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" 
+                  />
+                </svg>
+                {t.userCard.share}
+              </Button>
+            )}
             
             {/* <QuickGenerateDialog 
               kidDetails={kid}
@@ -789,6 +907,41 @@ export const UserCard: React.FC<UserCardProps> = memo(({
                       <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
                     </div>
                   )}
+                  {story.status === StoryStatus.FAILED && (
+                    <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-1 p-1">
+                      <span className="text-[10px] text-white text-center">{t.userCard.generationFailed}</span>
+                      <Button
+                        size="sm"
+                        className="h-6 px-2 text-xs rounded-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleResumeStory(story.id);
+                        }}
+                      >
+                        {t.userCard.resumeGeneration}
+                      </Button>
+                    </div>
+                  )}
+                  {story.status === StoryStatus.AWAITING_CHARACTER_REVIEW && (
+                    <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center gap-1 p-1">
+                      <span className="text-[10px] text-white text-center">{t.userCard.awaitingCharacterReview}</span>
+                      <Button
+                        size="sm"
+                        className="h-6 px-2 text-xs rounded-full bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setReviewingStory(story);
+                        }}
+                      >
+                        {t.userCard.reviewCharacters}
+                      </Button>
+                    </div>
+                  )}
+                  {story.status === StoryStatus.NEEDS_REVIEW && (
+                    <div className="absolute inset-0 bg-black/60 flex items-center justify-center p-1">
+                      <span className="text-[10px] text-white text-center">{t.userCard.needsReview}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -814,6 +967,16 @@ export const UserCard: React.FC<UserCardProps> = memo(({
         t={t}
       />
 
+      {/* Character Review Dialog */}
+      {reviewingStory && (
+        <CharacterBibleDialog
+          story={reviewingStory}
+          isOpen={!!reviewingStory}
+          onOpenChange={(isOpen) => !isOpen && setReviewingStory(null)}
+          onSaved={handleCharactersSaved}
+        />
+      )}
+
       {/* Story Limit Dialog */}
       <Dialog open={showStoryLimitDialog} onOpenChange={setShowStoryLimitDialog}>
         <DialogContent className="sm:max-w-md">
@@ -853,14 +1016,16 @@ export const UserCard: React.FC<UserCardProps> = memo(({
       </Dialog>
 
       {/* Share Kid Dialog */}
-      <ShareKidDialog
-        isOpen={showShareDialog}
-        onOpenChange={setShowShareDialog}
-        kidId={kid.id}
-        kidName={kidName}
-        language={language}
-        t={t}
-      />
+      {isOwner && (
+        <ShareKidDialog
+          isOpen={showShareDialog}
+          onOpenChange={setShowShareDialog}
+          kidId={kid.id}
+          kidName={kidName}
+          language={language}
+          t={t}
+        />
+      )}
     </div>
   );
 });
@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from 'react';
 import { StoryApi } from '@/app/network';
-import { Story } from '@/models';
+import { functionClientAPI } from '@/app/network/functions';
+import { Story, StoryStatus } from '@/models';
 import { toast } from "@/components/ui/use-toast";
 
 /**
@@ -68,6 +69,21 @@ const useStoryOperations = (kidId: string, userId?: string) => {
     }
   };
 
+  /**
+   * Resume a story whose server-side generation failed or timed out.
+   * Resolves once the pipeline finished and the stories list was refreshed.
+   */
+  const resumeStory = useCallback(async (storyId: string) => {
+    setStories(prev => prev.map(s => s.id === storyId ? { ...s, status: StoryStatus.GENERATING } : s));
+    try {
+      await functionClientAPI.resumeStoryGeneration({ storyId });
+    } catch (error) {
+      setStories(prev => prev.map(s => s.id === storyId ? { ...s, status: StoryStatus.FAILED } : s));
+      throw error;
+    }
+    await fetchStories(true);
+  }, [fetchStories]);
+
   // Polling removed - users can manually refresh to check story generation status
 
   // Fetch stories only once on mount
@@ -82,7 +98,8 @@ const useStoryOperations = (kidId: string, userId?: string) => {
     isLoading, 
     deleteStory, 
     setStories, 
-    fetchStories
+    fetchStories,
+    resumeStory
   };
 };
 
@@ -9,15 +9,15 @@ export const useFirestore = (user: User | null) => {
     // Only run on the client side
     if (typeof window === 'undefined') return;
 
-    if (user?.email) {
-      // When user logs in, fetch their account data using email
-      console.log('Fetching account for email:', user.email);
-      fetchAccount(user.email);
+    if (user?.uid) {
+      // When user logs in, fetch their account data
+      console.log('Fetching account for uid:', user.uid);
+      fetchAccount(user.uid);
     } else {
       // When user logs out, reset the state
       reset();
     }
-  }, [user?.email, fetchAccount, reset]);
+  }, [user?.uid, fetchAccount, reset]);
 
   useEffect(() => {
     // Only run on the client side
@@ -0,0 +1,11 @@
+import { Metadata } from 'next';
+
+// Invitation links are private to the email they were sent to, keep them out of search results
+export const metadata: Metadata = {
+  title: 'Choice Story',
+  robots: { index: false, follow: false },
+};
+
+export default function InvitationLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,144 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import * as Sentry from "@sentry/nextjs";
+import { Mail } from "lucide-react";
+import { KidShareInvitation } from "@/models";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import LoadingIndicator from "@/app/components/ui/LoadingIndicator";
+import { useAuth } from "@/app/context/AuthContext";
+import { useTranslation } from "@/app/hooks/useTranslation";
+import { KidApi } from "@/app/network/KidApi";
+import {
+  getShareInvitationUnavailableDetails,
+  getShareInvitationUnavailableMessage,
+  ShareInvitationUnavailableDetails,
+} from "@/app/utils/share-invitation";
+
+/**
+ * Landing page of the link in an invitation email, shows the invitation and lets the invited account answer it
+ */
+export default function InvitationPage() {
+  const { token } = useParams();
+  const router = useRouter();
+  const { t, language } = useTranslation();
+  const { currentUser, googleSignIn, loading: authLoading } = useAuth();
+  const [invitation, setInvitation] = useState<KidShareInvitation | null>(null);
+  const [unavailable, setUnavailable] = useState<ShareInvitationUnavailableDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isResponding, setIsResponding] = useState(false);
+
+  const fetchInvitation = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await KidApi.getInvitation(String(token));
+      if (!response.success || !response.data) {
+        throw response;
+      }
+      const { invitation } = response.data;
+      setInvitation(invitation);
+      if (invitation.status === "expired") {
+        setUnavailable({ reason: "expired" });
+      } else if (invitation.status !== "pending") {
+        setUnavailable({ reason: "already_responded" });
+      }
+    } catch (error) {
+      console.error("Error fetching invitation:", error);
+      setUnavailable(getShareInvitationUnavailableDetails(error) || { reason: "not_found" });
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchInvitation();
+  }, [fetchInvitation]);
+
+  const handleRespond = async (action: "accept" | "decline") => {
+    setIsResponding(true);
+    try {
+      await Sentry.startSpan({ op: "ui.click", name: "Respond To Share Invitation" }, async (span) => {
+        span.setAttribute("action", action);
+        const response = await KidApi.respondToInvitation(String(token), action);
+        if (!response.success || !response.data) {
+          throw response;
+        }
+        setInvitation(response.data.invitation);
+      });
+    } catch (error) {
+      console.error("Error responding to invitation:", error);
+      const details = getShareInvitationUnavailableDetails(error);
+      if (details) {
+        setUnavailable(details);
+      } else {
+        Sentry.captureException(error);
+        toast({ title: t.shareInvitations.respondFailed, variant: "destructive" });
+      }
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  if (loading || authLoading) {
+    return <LoadingIndicator message={t.common.loading} />;
+  }
+
+  const renderContent = () => {
+    if (unavailable || !invitation) {
+      return (
+        <p className="text-gray-700">
+          {getShareInvitationUnavailableMessage(unavailable || { reason: "not_found" }, t)}
+        </p>
+      );
+    }
+    if (invitation.status === "accepted" || invitation.status === "declined") {
+      return (
+        <>
+          <p className="text-gray-700">
+            {invitation.status === "accepted" ? t.shareInvitations.accepted : t.shareInvitations.declined}
+          </p>
+          <Button className="w-full" onClick={() => router.push("/dashboard")}>
+            {t.shareInvitations.goToDashboard}
+          </Button>
+        </>
+      );
+    }
+    return (
+      <>
+        <p className="text-gray-700">{t.shareInvitations.invitedBy(invitation.invitedByName, invitation.kidName)}</p>
+        <p className="text-sm text-gray-500">
+          {t.shareInvitations.permissions[invitation.permission]} · {t.shareInvitations.expires(new Date(invitation.expiresAt).toLocaleDateString(language))}
+        </p>
+        {currentUser ? (
+          <div className="flex gap-2">
+            <Button className="flex-1" disabled={isResponding} onClick={() => handleRespond("accept")}>
+              {t.shareInvitations.accept}
+            </Button>
+            <Button className="flex-1" variant="outline" disabled={isResponding} onClick={() => handleRespond("decline")}>
+              {t.shareInvitations.decline}
+            </Button>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">{t.shareInvitations.signInToRespond(invitation.email)}</p>
+            <Button className="w-full" onClick={googleSignIn}>
+              {t.shareInvitations.signIn}
+            </Button>
+          </>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50 px-4">
+      <div className="w-full max-w-sm space-y-4 rounded-xl bg-white p-6 text-center shadow-lg">
+        <Mail className="mx-auto h-10 w-10 text-purple-500" />
+        <h1 className="text-xl font-bold text-gray-800">{t.shareInvitations.pageTitle}</h1>
+        {renderContent()}
+      </div>
+    </div>
+  );
+}
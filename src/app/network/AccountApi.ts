@@ -1,6 +1,6 @@
 import { apiClient } from './NetworkClient';
 import { ApiResponse } from '@/models';
-import { Account } from '@/models';
+import { Account, CreditLedgerEntry } from '@/models';
 
 /**
  * Response for account operations
@@ -32,12 +32,25 @@ export interface AccountResponse {
   error?: string;
 }
 
+/**
+ * Response for the account's story credits
+ */
+export interface CreditsResponse {
+  success: boolean;
+  balance: number;
+  // Accounts with a role are not charged for stories
+  unlimited: boolean;
+  // Latest ledger entries, newest first
+  entries: CreditLedgerEntry[];
+}
+
 /**
  * AccountApi for handling account-related API calls
  */
 export class AccountApi {
   private static readonly ACCOUNT_ENDPOINT = '/api/account';
   private static readonly ME_ENDPOINT = '/api/account/me';
+  private static readonly CREDITS_ENDPOINT = '/api/account/credits';
   
   /**
    * Update or create an account in the database
@@ -68,4 +81,13 @@ export class AccountApi {
   static async getAccountByEmail(email: string): Promise<ApiResponse<AccountResponse>> {
     return apiClient.get<AccountResponse>(`${this.ACCOUNT_ENDPOINT}?email=${encodeURIComponent(email)}`);
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Get the signed in account's credit balance and latest ledger entries
+   * 
+   * @returns API response with the balance and entries
+   */
+  static async getCredits(): Promise<ApiResponse<CreditsResponse>> {
+    return apiClient.get<CreditsResponse>(this.CREDITS_ENDPOINT);
+  }
+}
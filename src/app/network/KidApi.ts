@@ -1,5 +1,5 @@
 import { apiClient } from './NetworkClient';
-import { KidDetails, ApiResponse } from '@/models';
+import { KidDetails, KidShare, KidShareInvitation, KidSharePermission, ApiResponse } from '@/models';
 import { logger } from '@/lib/logger';
 
 /**
@@ -62,12 +62,64 @@ export interface DeleteKidResponse {
   message?: string;
 }
 
+/**
+ * Response for getting who a kid is shared with
+ */
+export interface GetKidSharesResponse {
+  /**
+   * The kid's shares, one per email
+   */
+  shares: KidShare[];
+  
+  /**
+   * Invitations to the kid that were not answered yet
+   */
+  invitations: KidShareInvitation[];
+  
+  /**
+   * Success indicator
+   */
+  success: boolean;
+}
+
+/**
+ * Response for changing the permission of a share
+ */
+export interface UpdateKidShareResponse {
+  email: string;
+  permission: KidSharePermission;
+}
+
+/**
+ * Invitation in the inbox of the invited account, with the token to answer it
+ */
+export interface ReceivedKidShareInvitation extends KidShareInvitation {
+  token: string;
+}
+
+/**
+ * Response for getting the invitations sent to the current user
+ */
+export interface GetInvitationsResponse {
+  invitations: ReceivedKidShareInvitation[];
+  success: boolean;
+}
+
+/**
+ * Response for viewing or answering an invitation
+ */
+export interface InvitationResponse {
+  invitation: KidShareInvitation;
+  success: boolean;
+}
+
 /**
  * KidApi for handling kid-related API calls
  */
 export class KidApi {
   private static readonly KIDS_ENDPOINT = '/api/user/kids';
   private static readonly KID_ENDPOINT = '/api/user/kid';
+  private static readonly INVITATIONS_ENDPOINT = '/api/user/invitations';
   
   /**
    * Get a list of kids for an account
@@ -131,4 +183,77 @@ export class KidApi {
   static async deleteKid(kidId: string): Promise<ApiResponse<DeleteKidResponse>> {
     return apiClient.delete<DeleteKidResponse>(`${this.KIDS_ENDPOINT}/${kidId}`);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get the emails a kid is shared with (owner only)
+   * 
+   * @param kidId The kid ID
+   * @returns API response with the kid's shares
+   */
+  static async getKidShares(kidId: string): Promise<ApiResponse<GetKidSharesResponse>> {
+    return apiClient.get<GetKidSharesResponse>(`${this.KIDS_ENDPOINT}/${kidId}/share`);
+  }
+  
+  /**
+   * Change what an email the kid is shared with may do (owner only)
+   * 
+   * @param kidId The kid ID
+   * @param email The email the kid is shared with
+   * @param permission The new permission
+   * @returns API response with the updated share
+   */
+  static async updateKidShare(
+    kidId: string,
+    email: string,
+    permission: KidSharePermission
+  ): Promise<ApiResponse<UpdateKidShareResponse>> {
+    return apiClient.patch<UpdateKidShareResponse>(
+      `${this.KIDS_ENDPOINT}/${kidId}/share`,
+      JSON.stringify({ email, permission })
+    );
+  }
+  
+  /**
+   * Stop sharing a kid with an email (owner only)
+   * 
+   * @param kidId The kid ID
+   * @param email The email the kid is shared with
+   * @returns API response with the removal result
+   */
+  static async removeKidShare(kidId: string, email: string): Promise<ApiResponse<DeleteKidResponse>> {
+    return apiClient.delete<DeleteKidResponse>(`${this.KIDS_ENDPOINT}/${kidId}/share`, { params: { email } });
+  }
+  
+  /**
+   * Get the pending invitations sent to the current user's email
+   * 
+   * @returns API response with the invitations and their tokens
+   */
+  static async getInvitations(): Promise<ApiResponse<GetInvitationsResponse>> {
+    return apiClient.get<GetInvitationsResponse>(this.INVITATIONS_ENDPOINT);
+  }
+  
+  /**
+   * View an invitation from its signed link
+   * 
+   * @param token The token of the invitation link
+   * @returns API response with the invitation
+   */
+  static async getInvitation(token: string): Promise<ApiResponse<InvitationResponse>> {
+    return apiClient.get<InvitationResponse>(`${this.INVITATIONS_ENDPOINT}/${encodeURIComponent(token)}`);
+  }
+  
+  /**
+   * Accept or decline an invitation sent to the current user's email
+   * 
+   * @param token The token of the invitation link
+   * @param action Whether the invitation is accepted or declined
+   * @returns API response with the answered invitation
+   */
+  static async respondToInvitation(
+    token: string,
+    action: 'accept' | 'decline'
+  ): Promise<ApiResponse<InvitationResponse>> {
+    return apiClient.post<InvitationResponse>(`${this.INVITATIONS_ENDPOINT}/${encodeURIComponent(token)}`, { action });
+  }
+}
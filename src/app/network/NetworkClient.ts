@@ -73,6 +73,11 @@ export interface RequestOptions {
    * Request body (will be JSON stringified)
    */
   body?: BodyInit;
+
+  /**
+   * How to read a successful response, 'blob' for file downloads
+   */
+  responseType?: 'json' | 'blob';
   
   /**
    * Whether to include auth token (overrides global setting)
@@ -208,7 +213,7 @@ export class NetworkClient {
     return headers;
   }
   
-  private async handleResponse<T>(response: Response): Promise<ApiResponse<T>> {
+  private async handleResponse<T>(response: Response, responseType: RequestOptions['responseType'] = 'json'): Promise<ApiResponse<T>> {
     if (!response.ok) {
       logger.error({
         message: `Request failed with status ${response.status}`,
@@ -222,20 +227,10 @@ export class NetworkClient {
       const responseText = await response.text();
 
       // Try to parse as JSON
+      let errorData: { error?: string; message?: string; details?: unknown } | null = null;
       try {
-        const errorData = JSON.parse(responseText);
-        logger.error({
-          message: 'Error response from server',
-          error: errorData,
-          context: { endpoint: response.url }
-        });
-        throw {
-          success: false,
-          error: errorData.error || errorData.message || 'Network request failed',
-          message: errorData.message,
-          status: response.status
-        } as ApiErrorResponse;
-      } catch (parseError) {
+        errorData = JSON.parse(responseText);
+      } catch (_parseError) {
         // If JSON parsing fails, use the text as error message
         logger.error({
           message: 'Non-JSON error response from server',
@@ -248,6 +243,29 @@ export class NetworkClient {
           status: response.status
         } as ApiErrorResponse;
       }
+
+      logger.error({
+        message: 'Error response from server',
+        error: errorData,
+        context: { endpoint: response.url }
+      });
+      // details carries structured errors such as the quota-exceeded limits
+      throw {
+        success: false,
+        error: errorData?.error || errorData?.message || 'Network request failed',
+        message: errorData?.message,
+        details: errorData?.details,
+        status: response.status
+      } as ApiErrorResponse;
+    }
+
+    if (responseType === 'blob') {
+      const blob: unknown = await response.blob();
+      return {
+        success: true,
+        data: blob as T,
+        status: response.status
+      } as ApiSuccessResponse<T>;
     }
 
     try {
@@ -290,7 +308,7 @@ export class NetworkClient {
           continue;
         }
         
-        return await this.handleResponse<T>(response);
+        return await this.handleResponse<T>(response, options.responseType);
       } catch (error) {
         lastError = error;
         
@@ -324,7 +342,7 @@ export class NetworkClient {
    */
   async get<T>(endpoint: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
     const url = options.params ? this.addQueryParams(endpoint, options.params) : endpoint;
-    return this.makeRequest<T>('GET', url, { headers: options.headers });
+    return this.makeRequest<T>('GET', url, { headers: options.headers, responseType: options.responseType });
   }
   
   /**
@@ -0,0 +1,122 @@
+import { apiClient } from './NetworkClient';
+import { ApiResponse, PrintFormat, PrintOrderStatus, ShippingAddress } from '@/models';
+import type { PrintOrderTotal } from '@/app/utils/print-order';
+import type { CreditPackTotal } from '@/app/utils/credits';
+
+/**
+ * Request to order printed copies of a story
+ */
+export interface CreatePrintOrderRequest {
+  storyId: string;
+  format: PrintFormat;
+  quantity: number;
+  shippingAddress: ShippingAddress;
+  // percent_off promo code
+  promoCode?: string;
+}
+
+/**
+ * Response for a new print order
+ */
+export interface CreatePrintOrderResponse {
+  success: boolean;
+  orderId: string;
+  // Passed to the PayPal buttons to approve the payment
+  paypalOrderId: string;
+  total: PrintOrderTotal;
+}
+
+/**
+ * Response for a new credit pack order
+ */
+export interface CreateCreditsOrderResponse {
+  success: boolean;
+  orderId: string;
+  paypalOrderId: string;
+  credits: number;
+  total: CreditPackTotal;
+}
+
+/**
+ * Response after the payment of an order was captured
+ */
+export interface CapturePrintOrderResponse {
+  success: boolean;
+  orderId: string;
+  status: PrintOrderStatus;
+  // Credits added by a credit pack order
+  credits?: number;
+}
+
+/**
+ * Response for a percent_off promo code checked before checkout
+ */
+export interface CheckPromoCodeResponse {
+  success: boolean;
+  code: string;
+  percentOff: number;
+}
+
+/**
+ * Response after a free_credits promo code was redeemed
+ */
+export interface RedeemPromoCodeResponse {
+  success: boolean;
+  code: string;
+  credits: number;
+  balance: number;
+}
+
+/**
+ * PaymentApi for printed book and credit pack orders paid with PayPal, and their promo codes
+ */
+export class PaymentApi {
+  private static readonly BASE_ENDPOINT = '/api/payment';
+  private static readonly PROMO_CODES_ENDPOINT = '/api/promo-codes';
+
+  /**
+   * Save a print order and open its PayPal payment
+   * @param request Story, format, quantity and shipping address
+   * @returns API response with the order and PayPal order IDs
+   */
+  static async createPrintOrder(request: CreatePrintOrderRequest): Promise<ApiResponse<CreatePrintOrderResponse>> {
+    return apiClient.post<CreatePrintOrderResponse>(`${this.BASE_ENDPOINT}/create`, request);
+  }
+
+  /**
+   * Save a credit pack order and open its PayPal payment
+   * @param packId One of CREDIT_PACKS
+   * @param promoCode Optional percent_off promo code
+   * @returns API response with the order and PayPal order IDs
+   */
+  static async createCreditsOrder(packId: string, promoCode?: string): Promise<ApiResponse<CreateCreditsOrderResponse>> {
+    return apiClient.post<CreateCreditsOrderResponse>(`${this.BASE_ENDPOINT}/create`, { type: 'credits', packId, promoCode });
+  }
+
+  /**
+   * Capture the approved PayPal payment of a print order or credit pack order
+   * @param orderId Order ID
+   * @returns API response with the order status
+   */
+  static async capturePrintOrder(orderId: string): Promise<ApiResponse<CapturePrintOrderResponse>> {
+    return apiClient.post<CapturePrintOrderResponse>(`${this.BASE_ENDPOINT}/capture`, { orderId });
+  }
+
+  /**
+   * Check a percent_off promo code before checkout
+   * @param code Promo code as entered
+   * @returns API response with the percentage, or a promo-code-rejected error
+   */
+  static async checkPromoCode(code: string): Promise<ApiResponse<CheckPromoCodeResponse>> {
+    return apiClient.get<CheckPromoCodeResponse>(`${this.PROMO_CODES_ENDPOINT}/check?code=${encodeURIComponent(code)}`);
+  }
+
+  /**
+   * Redeem a free_credits promo code
+   * @param code Promo code as entered
+   * @returns API response with the credits added and the new balance
+   */
+  static async redeemPromoCode(code: string): Promise<ApiResponse<RedeemPromoCodeResponse>> {
+    return apiClient.post<RedeemPromoCodeResponse>(`${this.PROMO_CODES_ENDPOINT}/redeem`, { code });
+  }
+}
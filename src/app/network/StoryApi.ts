@@ -1,5 +1,6 @@
 import { apiClient } from './NetworkClient';
-import { PageType, Story, StoryPage, StoryStatus, ApiResponse } from '@/models';
+import { PageType, Story, StoryPage, StoryShareLink, StoryStatus, ApiResponse } from '@/models';
+import { SHARE_PASSCODE_HEADER } from '@/app/utils/story-share';
 
 /**
  * Response for story generation
@@ -16,12 +17,27 @@ export interface StoriesListResponse {
   stories: Story[];
 }
 
+/**
+ * Response for the public share links of a story
+ */
+export interface StoryShareLinksResponse {
+  links: StoryShareLink[];
+}
+
+/**
+ * Response for a new or revoked share link
+ */
+export interface StoryShareLinkResponse {
+  link: StoryShareLink;
+}
+
 /**
  * StoryApi for handling all story-related API calls
  */
 export class StoryApi {
   private static readonly BASE_ENDPOINT = '/api/story';
   private static readonly STORY_PAGES_ENDPOINT = '/api/story/story-pages';
+  private static readonly SHARED_ENDPOINT = '/api/shared';
 
   /**
    * Create a new story or update an existing one
@@ -114,6 +130,89 @@ export class StoryApi {
     });
   }
 
+  /**
+   * Regenerate the text of one page, keeping the previous text as a revision
+   * @param storyId Story ID
+   * @param pageNum Index of the page in story.pages
+   * @param instruction Optional instruction for the new text (e.g. "make it funnier")
+   * @returns API response with the updated page and story
+   */
+  static async regeneratePageText(storyId: string, pageNum: number, instruction?: string): Promise<ApiResponse<{ page: StoryPage; story: Story }>> {
+    return apiClient.post<{ page: StoryPage; story: Story }>(`${this.BASE_ENDPOINT}/regenerate-page`, {
+      storyId,
+      pageNum,
+      instruction: instruction || undefined
+    });
+  }
+
+  /**
+   * Download the story as a print-ready PDF
+   * @param storyId Story ID
+   * @returns API response with the PDF file
+   */
+  static async exportStoryPdf(storyId: string): Promise<ApiResponse<Blob>> {
+    return apiClient.get<Blob>(`${this.BASE_ENDPOINT}/${encodeURIComponent(storyId)}/export/pdf`, {
+      responseType: 'blob'
+    });
+  }
+
+  /**
+   * Download the story as an EPUB 3 book
+   * @param storyId Story ID
+   * @returns API response with the EPUB file
+   */
+  static async exportStoryEpub(storyId: string): Promise<ApiResponse<Blob>> {
+    return apiClient.get<Blob>(`${this.BASE_ENDPOINT}/${encodeURIComponent(storyId)}/export/epub`, {
+      responseType: 'blob'
+    });
+  }
+
+  /**
+   * Get the public share links of a story with their view counts
+   * @param storyId Story ID
+   * @returns API response with the links, newest first
+   */
+  static async getShareLinks(storyId: string): Promise<ApiResponse<StoryShareLinksResponse>> {
+    return apiClient.get<StoryShareLinksResponse>(`${this.BASE_ENDPOINT}/${encodeURIComponent(storyId)}/share-links`);
+  }
+
+  /**
+   * Create a public read-only link to a story
+   * @param storyId Story ID
+   * @param options Days until the link expires (none for no expiry) and an optional passcode
+   * @returns API response with the new link
+   */
+  static async createShareLink(
+    storyId: string,
+    options: { expiresInDays?: number | null; passcode?: string }
+  ): Promise<ApiResponse<StoryShareLinkResponse>> {
+    return apiClient.post<StoryShareLinkResponse>(`${this.BASE_ENDPOINT}/${encodeURIComponent(storyId)}/share-links`, options);
+  }
+
+  /**
+   * Revoke a public share link
+   * @param storyId Story ID
+   * @param token Link token
+   * @returns API response with the revoked link
+   */
+  static async revokeShareLink(storyId: string, token: string): Promise<ApiResponse<StoryShareLinkResponse>> {
+    return apiClient.delete<StoryShareLinkResponse>(
+      `${this.BASE_ENDPOINT}/${encodeURIComponent(storyId)}/share-links/${encodeURIComponent(token)}`
+    );
+  }
+
+  /**
+   * Read a story through a public share link, works without signing in
+   * @param token Link token
+   * @param passcode Passcode of a protected link
+   * @returns API response with the reader's copy of the story, or a share-link-unavailable error
+   */
+  static async getSharedStory(token: string, passcode?: string): Promise<ApiResponse<{ story: Story }>> {
+    return apiClient.get<{ story: Story }>(`${this.SHARED_ENDPOINT}/${encodeURIComponent(token)}`, {
+      headers: passcode ? { [SHARE_PASSCODE_HEADER]: passcode } : undefined
+    });
+  }
+
   /**
    * Update story status
    * @param storyId Story ID
@@ -6,6 +6,7 @@
  */
 
 import * as Sentry from "@sentry/nextjs";
+import { getAuth } from "firebase/auth";
 
 export interface ImageAnalysisResponse {
   success: boolean;
@@ -18,6 +19,20 @@ export interface ImageAnalysisResponse {
  * Image Analysis AI Client
  */
 export class ImageAnalysisAI {
+  /**
+   * Headers with the signed in user's ID token, the ai-bots routes need it
+   */
+  private static async getHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = await getAuth().currentUser?.getIdToken();
+
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    return headers;
+  }
+
   /**
    * Analyze a general image for detailed visual characteristics
    * Used for analyzing kid photos for avatar generation
@@ -34,7 +49,7 @@ export class ImageAnalysisAI {
         try {
           const response = await fetch('/api/ai-bots/analyze-image', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: await ImageAnalysisAI.getHeaders(),
             body: JSON.stringify({ imageUrl })
           });
 
@@ -86,7 +101,7 @@ export class ImageAnalysisAI {
         try {
           const response = await fetch('/api/ai-bots/analyze-avatar', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: await ImageAnalysisAI.getHeaders(),
             body: JSON.stringify({ imageUrl })
           });
 
@@ -150,7 +165,7 @@ export class ImageAnalysisAI {
 
           const response = await fetch(endpoint, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: await ImageAnalysisAI.getHeaders(),
             body: JSON.stringify({ imageUrl })
           });
 
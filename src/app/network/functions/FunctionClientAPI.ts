@@ -2,6 +2,11 @@ import { httpsCallable, FunctionsError } from 'firebase/functions';
 import { getAuth } from 'firebase/auth';
 import { functions } from '../../../../firebase';
 import { getFirebaseEnvironment } from '../../../config/build-config';
+import type { StoryGenerationStep, WordTiming } from '@/models';
+import { QUOTA_EXCEEDED, QuotaExceededDetails, QuotaExceededError } from '@/app/utils/quota';
+import { RATE_LIMITED, RateLimitedDetails, RateLimitedError } from '@/app/utils/rate-limit';
+import { INSUFFICIENT_CREDITS, InsufficientCreditsDetails, InsufficientCreditsError } from '@/app/utils/credits';
+import { CONTENT_FLAGGED, ContentFlaggedDetails, ContentFlaggedError } from '@/app/utils/moderation';
 
 /**
  * Function Client API
@@ -184,6 +189,10 @@ export interface GenerateFullStoryRequest {
   problemDescription: string;
   advantages?: string;
   disadvantages?: string;
+  /** Number of decision points (1-3), more than 1 generates a branching story */
+  decisionPoints?: number;
+  /** Pause after the character bible so the parent can edit it before the images are drawn */
+  reviewCharacters?: boolean;
 }
 
 export interface GenerateFullStoryResponse {
@@ -198,9 +207,61 @@ export interface GenerateFullStoryResponse {
     imageUrl?: string;
     error?: string;
   }>;
+  /** True when generation paused for character review - resume it with resumeStoryGeneration */
+  awaitingCharacterReview?: boolean;
+  /** True when the generated text failed the safety review - the story is held with status needs_review */
+  needsReview?: boolean;
   message: string;
 }
 
+export interface GenerateStoryNarrationRequest {
+  storyId: string;
+  /** Pages to narrate, defaults to every page without audio */
+  pageNums?: number[];
+  /** Narrate pages that already have audio again */
+  force?: boolean;
+}
+
+export interface GenerateStoryNarrationResponse {
+  success: boolean;
+  storyId: string;
+  language?: 'en' | 'he';
+  narrated: number;
+  results: Array<{
+    pageNum: number;
+    success: boolean;
+    audioUrl?: string;
+    error?: string;
+  }>;
+  message: string;
+}
+
+export interface UploadStoryPageNarrationRequest {
+  storyId: string;
+  pageNum: number;
+  /** The recorded audio, base64 encoded without the data URL prefix */
+  audioBase64: string;
+  contentType: string;
+}
+
+export interface UploadStoryPageNarrationResponse {
+  success: boolean;
+  storyId: string;
+  pageNum: number;
+  audioUrl: string;
+  /** Null when the words could not be aligned, the page plays without highlighting */
+  wordTimings: WordTiming[] | null;
+  message: string;
+}
+
+export interface ResumeStoryGenerationRequest {
+  storyId: string;
+}
+
+export interface ResumeStoryGenerationResponse extends GenerateFullStoryResponse {
+  resumedFromStep: StoryGenerationStep;
+}
+
 // ============================================================================
 // FUNCTION CLIENT CLASS
 // ============================================================================
@@ -429,11 +490,112 @@ export class FunctionClientAPI {
     }
   }
 
+  /**
+   * Resume Story Generation
+   * Continues a failed or timed out generateFullStory run from its last checkpoint
+   */
+  async resumeStoryGeneration(
+    request: ResumeStoryGenerationRequest
+  ): Promise<ResumeStoryGenerationResponse> {
+    try {
+      const functionsInstance = this.ensureFunctionsInitialized();
+      const resumeStoryGeneration = httpsCallable<
+        ResumeStoryGenerationRequest,
+        ResumeStoryGenerationResponse
+      >(functionsInstance, getFunctionName('resumeStoryGeneration'), {
+        timeout: 540000 // 540 seconds (9 minutes) to match server timeout
+      });
+
+      const result = await resumeStoryGeneration(request);
+      return result.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Generate Story Narration
+   * Narrates the story pages in the story's language and saves audioUrl on each page
+   */
+  async generateStoryNarration(
+    request: GenerateStoryNarrationRequest
+  ): Promise<GenerateStoryNarrationResponse> {
+    try {
+      const functionsInstance = this.ensureFunctionsInitialized();
+      const generateStoryNarration = httpsCallable<
+        GenerateStoryNarrationRequest,
+        GenerateStoryNarrationResponse
+      >(functionsInstance, getFunctionName('generateStoryNarration'), {
+        timeout: 300000 // 300 seconds (5 minutes) to match server timeout
+      });
+
+      const result = await generateStoryNarration(request);
+      return result.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
+  /**
+   * Upload Story Page Narration
+   * Saves a parent's recording as the narration of one page and aligns it to the page text
+   */
+  async uploadStoryPageNarration(
+    request: UploadStoryPageNarrationRequest
+  ): Promise<UploadStoryPageNarrationResponse> {
+    try {
+      const functionsInstance = this.ensureFunctionsInitialized();
+      const uploadStoryPageNarration = httpsCallable<
+        UploadStoryPageNarrationRequest,
+        UploadStoryPageNarrationResponse
+      >(functionsInstance, getFunctionName('uploadStoryPageNarration'), {
+        timeout: 120000 // 120 seconds to match server timeout
+      });
+
+      const result = await uploadStoryPageNarration(request);
+      return result.data;
+    } catch (error) {
+      throw this.handleError(error);
+    }
+  }
+
   /**
    * Handle Firebase Functions errors
    */
   private handleError(error: unknown): Error {
     if (error instanceof FunctionsError) {
+      // Quota errors keep their details so the UI can show the limit
+      const details = error.details as (QuotaExceededDetails & { code?: string }) | undefined;
+      if (details?.code === QUOTA_EXCEEDED) {
+        return new QuotaExceededError({ quota: details.quota, limit: details.limit, used: details.used });
+      }
+
+      // Rate limit errors keep retryAfter so the UI can say when to try again
+      const rateLimitDetails = error.details as (RateLimitedDetails & { code?: string }) | undefined;
+      if (rateLimitDetails?.code === RATE_LIMITED) {
+        return new RateLimitedError({
+          action: rateLimitDetails.action,
+          limit: rateLimitDetails.limit,
+          retryAfter: rateLimitDetails.retryAfter,
+        });
+      }
+
+      // Credit errors keep the balance so the UI can offer a credit pack
+      const creditsDetails = error.details as (InsufficientCreditsDetails & { code?: string }) | undefined;
+      if (creditsDetails?.code === INSUFFICIENT_CREDITS) {
+        return new InsufficientCreditsError({ balance: creditsDetails.balance, required: creditsDetails.required });
+      }
+
+      // Moderation errors keep the reason so the UI can explain it in the parent's language
+      const moderationDetails = error.details as (ContentFlaggedDetails & { code?: string }) | undefined;
+      if (moderationDetails?.code === CONTENT_FLAGGED) {
+        return new ContentFlaggedError({
+          reason: moderationDetails.reason,
+          categories: moderationDetails.categories || [],
+          fields: moderationDetails.fields || [],
+        });
+      }
+
       // Firebase Functions specific error
       switch (error.code) {
         case 'unauthenticated':
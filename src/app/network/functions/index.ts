@@ -10,6 +10,8 @@ export type {
   StoryPageImageResponse,
   StoryCoverImageRequest,
   StoryCoverImageResponse,
+  ResumeStoryGenerationRequest,
+  ResumeStoryGenerationResponse,
 } from './FunctionClientAPI';
 
 // Export client
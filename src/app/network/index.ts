@@ -10,7 +10,9 @@ export {
 export {
   StoryApi,
   type GenerateStoryResponse,
-  type StoriesListResponse
+  type StoriesListResponse,
+  type StoryShareLinksResponse,
+  type StoryShareLinkResponse
 } from './StoryApi';
 
 // Export KidApi
@@ -19,7 +21,8 @@ export {
   type GetKidsResponse,
   type GetKidResponse,
   type CreateKidResponse,
-  type DeleteKidResponse
+  type DeleteKidResponse,
+  type ReceivedKidShareInvitation
 } from './KidApi';
 
 // Export UserApi
@@ -32,7 +35,8 @@ export {
 // Export AccountApi
 export {
   AccountApi,
-  type AccountResponse
+  type AccountResponse,
+  type CreditsResponse
 } from './AccountApi';
 
 // Export TextGenerationApi
@@ -52,4 +56,15 @@ export {
   AvatarApi,
   type AvatarAnalysisResponse,
   type AvatarRequirementsResponse
-} from './AvatarApi'; 
\ No newline at end of file
+} from './AvatarApi';
+
+// Export PaymentApi
+export {
+  PaymentApi,
+  type CreatePrintOrderRequest,
+  type CreatePrintOrderResponse,
+  type CreateCreditsOrderResponse,
+  type CapturePrintOrderResponse,
+  type CheckPromoCodeResponse,
+  type RedeemPromoCodeResponse
+} from './PaymentApi';
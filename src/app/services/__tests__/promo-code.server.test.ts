@@ -0,0 +1,75 @@
+import * as Sentry from '@sentry/nextjs';
+import firestoreServerService from '@/app/services/firestore.server';
+import { CreditsOrder, PrintOrderStatus, PromoCode } from '@/models';
+import { redeemOrderPromoCode } from '../promo-code.server';
+
+jest.mock('@sentry/nextjs', () => ({
+  captureException: jest.fn(),
+  captureMessage: jest.fn(),
+}));
+
+jest.mock('@/app/services/firestore.server', () => ({
+  __esModule: true,
+  default: {
+    confirmPromoCodeReservation: jest.fn(),
+    redeemPromoCode: jest.fn(),
+  },
+}));
+
+const firestore = firestoreServerService as jest.Mocked<typeof firestoreServerService>;
+
+const order: CreditsOrder = {
+  id: 'order1',
+  type: 'credits',
+  accountId: 'alice',
+  packId: 'medium',
+  credits: 15,
+  currency: 'USD',
+  total: '51.75',
+  status: PrintOrderStatus.PAID,
+  promoCode: 'SPRING',
+  discount: '17.25',
+  createdAt: new Date(),
+  lastUpdated: new Date(),
+};
+
+describe('redeemOrderPromoCode', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('confirms the reservation of the order without counting the code again', async () => {
+    firestore.confirmPromoCodeReservation.mockResolvedValue(true);
+
+    await redeemOrderPromoCode(order);
+
+    expect(firestore.confirmPromoCodeReservation).toHaveBeenCalledWith('SPRING', 'alice', 'order1');
+    expect(firestore.redeemPromoCode).not.toHaveBeenCalled();
+  });
+
+  it('redeems the code of an order that lost its reservation', async () => {
+    firestore.confirmPromoCodeReservation.mockResolvedValue(false);
+    firestore.redeemPromoCode.mockResolvedValue({ promo: {} as PromoCode });
+
+    await redeemOrderPromoCode(order);
+
+    expect(firestore.redeemPromoCode).toHaveBeenCalledWith('SPRING', 'alice', 'percent_off', 'order1');
+    expect(Sentry.captureMessage).not.toHaveBeenCalled();
+  });
+
+  it('reports an order paid with a code that ran out after its reservation expired', async () => {
+    firestore.confirmPromoCodeReservation.mockResolvedValue(false);
+    firestore.redeemPromoCode.mockResolvedValue({ rejected: { reason: 'exhausted' } });
+
+    await redeemOrderPromoCode(order);
+
+    expect(Sentry.captureMessage).toHaveBeenCalledWith('Promo code SPRING used past its limits', expect.anything());
+  });
+
+  it('does nothing for an order without a promo code', async () => {
+    await redeemOrderPromoCode({ ...order, promoCode: undefined });
+
+    expect(firestore.confirmPromoCodeReservation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import { createInvitationToken, readInvitationToken } from '../share-invitation.server';
+
+describe('Invitation tokens', () => {
+  const originalSecret = process.env.SHARE_INVITATION_SECRET;
+
+  beforeEach(() => {
+    process.env.SHARE_INVITATION_SECRET = 'invitation-test-secret';
+  });
+
+  afterAll(() => {
+    if (originalSecret === undefined) {
+      delete process.env.SHARE_INVITATION_SECRET;
+    } else {
+      process.env.SHARE_INVITATION_SECRET = originalSecret;
+    }
+  });
+
+  it('reads the invitation id of a token it signed', () => {
+    expect(readInvitationToken(createInvitationToken('invitation1'))).toBe('invitation1');
+  });
+
+  it('rejects a token whose id or signature was changed', () => {
+    const [, signature] = createInvitationToken('invitation1').split('.');
+    const otherSignature = createInvitationToken('invitation2').split('.')[1];
+
+    expect(readInvitationToken(`invitation2.${signature}`)).toBeNull();
+    expect(readInvitationToken(`invitation1.${otherSignature}`)).toBeNull();
+    expect(readInvitationToken(`invitation1.${signature.slice(0, -1)}`)).toBeNull();
+  });
+
+  it('rejects a token without a signature or with extra parts', () => {
+    const token = createInvitationToken('invitation1');
+
+    expect(readInvitationToken('invitation1')).toBeNull();
+    expect(readInvitationToken('invitation1.')).toBeNull();
+    expect(readInvitationToken(`${token}.extra`)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = createInvitationToken('invitation1');
+    process.env.SHARE_INVITATION_SECRET = 'rotated-secret';
+
+    expect(readInvitationToken(token)).toBeNull();
+  });
+
+  it('accepts no token and signs none without a secret', () => {
+    const token = createInvitationToken('invitation1');
+    delete process.env.SHARE_INVITATION_SECRET;
+
+    expect(readInvitationToken(token)).toBeNull();
+    expect(() => createInvitationToken('invitation1')).toThrow('SHARE_INVITATION_SECRET is not configured');
+  });
+});
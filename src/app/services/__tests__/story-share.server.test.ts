@@ -0,0 +1,82 @@
+import firestoreServerService from '@/app/services/firestore.server';
+import { getRetryAfterSeconds, slideWindow } from '@/app/utils/rate-limit';
+import { SHARE_LINK_PASSCODE_ATTEMPTS_PER_DAY, SHARE_PASSCODE_ATTEMPTS_PER_DAY } from '@/app/utils/story-share';
+import { Story, StoryShareLink } from '@/models';
+import { hashSharePasscode, openSharedStory } from '../story-share.server';
+
+jest.mock('@/app/services/firestore.server', () => ({
+  __esModule: true,
+  default: {
+    getStoryShareLink: jest.fn(),
+    getStoryById: jest.fn(),
+    recordStoryShareView: jest.fn(),
+    recordRateLimitHit: jest.fn(),
+  },
+}));
+
+const firestore = firestoreServerService as jest.Mocked<typeof firestoreServerService>;
+
+const TOKEN = 'share-token';
+const PASSCODE = 'open-sesame';
+
+const link: StoryShareLink = {
+  token: TOKEN,
+  storyId: 'story1',
+  accountId: 'alice',
+  hasPasscode: true,
+  viewCount: 0,
+  createdAt: new Date(),
+};
+
+describe('openSharedStory', () => {
+  const counters = new Map<string, number[]>();
+
+  beforeAll(async () => {
+    const passcodeHash = await hashSharePasscode(PASSCODE);
+    firestore.getStoryShareLink.mockResolvedValue({ link, passcodeHash });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    counters.clear();
+    firestore.getStoryById.mockResolvedValue({ id: 'story1', title: 'The brave day', pages: [] } as unknown as Story);
+    // Same window logic as the Firestore transaction
+    firestore.recordRateLimitHit.mockImplementation(async (requested, now) => {
+      const windows = requested.map(counter => slideWindow(counters.get(counter.key), now));
+      for (let i = 0; i < requested.length; i++) {
+        const retryAfter = getRetryAfterSeconds(windows[i], requested[i].limit, now);
+        if (retryAfter !== null) {
+          return { limit: requested[i].limit, retryAfter };
+        }
+      }
+      requested.forEach((counter, i) => counters.set(counter.key, [...windows[i], now]));
+      return null;
+    });
+  });
+
+  it('opens the story with the right passcode', async () => {
+    const result = await openSharedStory(TOKEN, PASSCODE, '203.0.113.7');
+
+    expect(result).toEqual({ story: expect.objectContaining({ id: 'story1', accountId: '' }) });
+    expect(firestore.recordStoryShareView).toHaveBeenCalledWith(TOKEN);
+  });
+
+  it('locks an IP out after its passcode attempts', async () => {
+    for (let i = 0; i < SHARE_PASSCODE_ATTEMPTS_PER_DAY; i++) {
+      expect(await openSharedStory(TOKEN, 'wrong-guess', '203.0.113.7')).toEqual({ unavailable: { reason: 'wrong_passcode' } });
+    }
+
+    expect(await openSharedStory(TOKEN, PASSCODE, '203.0.113.7')).toEqual({ unavailable: { reason: 'too_many_attempts' } });
+    expect(await openSharedStory(TOKEN, PASSCODE, '198.51.100.1')).toEqual({ story: expect.anything() });
+  });
+
+  it('locks the link out after its passcode attempts from changing IPs', async () => {
+    for (let i = 0; i < SHARE_LINK_PASSCODE_ATTEMPTS_PER_DAY; i++) {
+      expect(await openSharedStory(TOKEN, 'wrong-guess', `10.0.0.${i}`)).toEqual({ unavailable: { reason: 'wrong_passcode' } });
+    }
+
+    expect(await openSharedStory(TOKEN, PASSCODE, '198.51.100.1')).toEqual({ unavailable: { reason: 'too_many_attempts' } });
+    expect(await openSharedStory(TOKEN, PASSCODE, null)).toEqual({ unavailable: { reason: 'too_many_attempts' } });
+    expect(firestore.getStoryById).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,19 @@
+import * as Sentry from "@sentry/nextjs";
+import { AdminAuditEntry } from "@/models";
+import firestoreServerService from "./firestore.server";
+
+/**
+ * Add an admin panel action to the audit log, after the action succeeded
+ * The action is not undone when the entry cannot be saved, the failure is reported instead
+ */
+export async function recordAdminAction(entry: Omit<AdminAuditEntry, 'id' | 'createdAt'>): Promise<void> {
+  try {
+    await firestoreServerService.addAdminAuditEntry(entry);
+  } catch (error) {
+    console.error(`[ADMIN_AUDIT] Failed to record ${entry.action} on ${entry.targetId} by ${entry.actorUid}:`, error);
+    Sentry.captureException(error, {
+      tags: { admin_action: entry.action, target_id: entry.targetId },
+      extra: { changes: entry.changes, reason: entry.reason }
+    });
+  }
+}
@@ -7,6 +7,7 @@
 
 import * as Sentry from "@sentry/nextjs";
 import { toast } from "@/components/ui/use-toast";
+import { getRateLimitedDetails } from "@/app/utils/rate-limit";
 
 export interface AIError {
   code: string;
@@ -149,6 +150,20 @@ export class AIErrorHandlerService {
    * Classify error and provide appropriate handling information
    */
   private static classifyError(error: unknown, context: AIOperationContext): AIError {
+    // Daily limit of the account or IP, retrying before retryAfter is always rejected
+    const rateLimited = getRateLimitedDetails(error);
+    if (rateLimited) {
+      const minutes = Math.max(1, Math.ceil(rateLimited.retryAfter / 60));
+      return {
+        code: 'DAILY_LIMIT_REACHED',
+        message: error instanceof Error ? error.message : String(error),
+        userMessage: `You have reached today's AI generation limit. Please try again in ${minutes < 60 ? `${minutes} minutes` : `${Math.ceil(minutes / 60)} hours`}.`,
+        retryable: false,
+        recoverable: true,
+        context: { ...context, retryAfter: rateLimited.retryAfter } as unknown as Record<string, unknown>
+      };
+    }
+
     if (error instanceof Error) {
       const message = error.message.toLowerCase();
       
@@ -286,6 +301,9 @@ export class AIErrorHandlerService {
       case 'RATE_LIMIT_EXCEEDED':
         suggestions.push('Wait a few minutes before trying again');
         break;
+      case 'DAILY_LIMIT_REACHED':
+        suggestions.push('Try again once the daily limit resets');
+        break;
       case 'CONTENT_POLICY_VIOLATION':
         suggestions.push('Try with different or more appropriate content');
         suggestions.push('Ensure all details are suitable for children');
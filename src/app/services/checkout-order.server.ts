@@ -0,0 +1,41 @@
+import { CheckoutOrder, PrintOrderStatus } from "@/models";
+import firestoreServerService from "./firestore.server";
+import { sendPrintOrderToPrinter } from "./print-order.server";
+import { redeemOrderPromoCode } from "./promo-code.server";
+
+/**
+ * Check that a PayPal capture completed the full amount of the order
+ */
+export function isCaptureForOrder(
+  order: CheckoutOrder,
+  capture: { status?: string; amount?: { currency_code: string; value: string } } | undefined
+): boolean {
+  return capture?.status === 'COMPLETED' &&
+    capture.amount?.currency_code === order.currency &&
+    capture.amount?.value === order.total;
+}
+
+/**
+ * Mark an order paid by its capture and count its promo code, then send a print order to the
+ * printer or add the credits of a credit pack. The browser capture and the PayPal webhook both
+ * end here, whichever comes second finds the order paid and changes nothing.
+ * Returns the order as it is afterwards.
+ */
+export async function completeOrderPayment(order: CheckoutOrder, paypalCaptureId: string): Promise<CheckoutOrder> {
+  if (order.type === 'credits') {
+    const completed = await firestoreServerService.completeCreditsOrder(order.id, paypalCaptureId);
+    if (!completed) {
+      return (await firestoreServerService.getOrder(order.id)) || order;
+    }
+    await redeemOrderPromoCode(completed);
+    return completed;
+  }
+
+  const paid = await firestoreServerService.transitionPrintOrder(order.id, PrintOrderStatus.PAID, { paypalCaptureId });
+  // Another request captured the order in the meantime
+  if (!paid) {
+    return (await firestoreServerService.getOrder(order.id)) || order;
+  }
+  await redeemOrderPromoCode(paid);
+  return sendPrintOrderToPrinter(paid);
+}
@@ -0,0 +1,37 @@
+import * as Sentry from "@sentry/nextjs";
+import { EmailTemplateId, SendEmailRequest, SendEmailResponse } from "@/constants/email-templates";
+
+/**
+ * Send a templated email from an API route through the sendEmailFunction Firebase function
+ * The function only sends for a signed in user, so the Authorization header of the request is forwarded.
+ * Failures are logged and reported to Sentry, never thrown, the caller decides whether they matter.
+ */
+export async function sendTemplateEmail<T extends EmailTemplateId>(
+  authHeader: string,
+  request: SendEmailRequest<T>
+): Promise<SendEmailResponse> {
+  const isDevelopment = process.env.APP_ENV === 'development' || process.env.NEXT_PUBLIC_APP_ENV === 'development';
+  const functionName = isDevelopment ? 'devSendEmailFunction' : 'sendEmailFunction';
+  const functionUrl = `https://us-central1-choicestory-b3135.cloudfunctions.net/${functionName}`;
+
+  try {
+    const response = await fetch(functionUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': authHeader,
+      },
+      body: JSON.stringify(request),
+    });
+
+    const responseBody = await response.json().catch(() => null);
+    if (!response.ok || !responseBody?.success) {
+      throw new Error(responseBody?.error || `${functionName} failed with status ${response.status}`);
+    }
+    return { success: true, id: responseBody.id };
+  } catch (error) {
+    console.error(`[EMAIL] Failed to send ${request.templateId}:`, error);
+    Sentry.captureException(error, { tags: { email_template: request.templateId } });
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
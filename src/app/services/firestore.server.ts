@@ -1,9 +1,15 @@
-import { KidDetails, Story, Account } from '@/models';
+import { KidDetails, Story, Account, PrintOrder, PrintOrderStatus, CreditsOrder, CreditLedgerEntry, CheckoutOrder, PaymentEventStatus, PromoCode, PromoCodeRedemption, PromoCodeType, StoryShareLink, KidShare, KidSharePermission, KidShareInvitation, Language, AdminAuditEntry } from '@/models';
 import { UserData } from '../network/UserApi';
 import { firebaseAdmin } from './firebase-admin.service';
 import { storageService } from './storage.service';
-import { Firestore } from '@google-cloud/firestore';
+import { DocumentData, DocumentReference, FieldValue, Firestore, Query, Transaction } from '@google-cloud/firestore';
 import { getFirebaseEnvironment } from '@/config/build-config';
+import { getRetryAfterSeconds, slideWindow } from '@/app/utils/rate-limit';
+import { canTransitionPrintOrder, formatPrintAmount, parsePrintAmount } from '@/app/utils/print-order';
+import { calculateRefundedCredits, WELCOME_CREDITS } from '@/app/utils/credits';
+import { checkKidsQuota, checkStoryQuota, QuotaExceededDetails } from '@/app/utils/quota';
+import { checkCheckoutPromoCode, checkPromoCode, PROMO_CODE_RESERVATION_MS, PromoCodeRejectedDetails, PromoCodeRejectedError } from '@/app/utils/promo-code';
+import { checkInvitationResponse, ShareInvitationUnavailableDetails } from '@/app/utils/share-invitation';
 
 interface FirestoreData {
   [key: string]: unknown;
@@ -11,6 +17,9 @@ interface FirestoreData {
   lastUpdated?: Date;
 }
 
+// A PayPal webhook event still processing after this long was left by a crashed or timed out run
+const PAYMENT_EVENT_LEASE_MS = 5 * 60 * 1000;
+
 /**
  * Server-side version of FirestoreService that uses Firebase Admin SDK
  * Only for use in API routes and server components
@@ -194,42 +203,100 @@ class FirestoreServerService {
   }
 
   /**
-   * Increment the stories_created counter for a kid
-   * This tracks the total number of stories created, even if some are deleted
-   * @param kidId The ID of the kid
-   * @returns The updated stories_created count
+   * Count a new story against the kid's story limit, the check and the increment of
+   * stories_created run in one transaction so parallel requests cannot both pass the check
+   * The limit of the account that owns the kid applies, accountId is used for a kid without an owner
+   * @returns The quota details when the kid is at its limit, null when the story was counted
    */
-  async incrementStoriesCreated(kidId: string): Promise<number> {
+  async reserveStoryCreated(kidId: string, accountId: string): Promise<QuotaExceededDetails | null> {
     try {
       this.ensureInitialized();
-      
+
       const kidRef = this.db.collection(this.getUsersCollection()).doc(kidId);
-      
-      // Check if kid exists
-      const kidDoc = await kidRef.get();
-      if (!kidDoc.exists) {
-        throw new Error(`Kid with ID ${kidId} doesn't exist.`);
-      }
-      
-      const existingData = kidDoc.data() || {};
-      const currentCount = existingData.stories_created || 0;
-      const newCount = currentCount + 1;
-      
-      // Use atomic increment operation
-      await kidRef.update({
-        stories_created: newCount,
-        lastUpdated: new Date(),
+      return await this.db.runTransaction(async (transaction) => {
+        const kidDoc = await transaction.get(kidRef);
+        if (!kidDoc.exists) {
+          throw new Error(`Kid with ID ${kidId} doesn't exist.`);
+        }
+
+        const kidData = kidDoc.data()!;
+        const accountRef = this.db.collection(this.getAccountsCollection()).doc(kidData.accountId || accountId);
+        const accountDoc = await transaction.get(accountRef);
+        const exceeded = checkStoryQuota(accountDoc.data(), kidData);
+        if (exceeded) {
+          return exceeded;
+        }
+
+        transaction.update(kidRef, {
+          stories_created: (kidData.stories_created || 0) + 1,
+          lastUpdated: new Date(),
+        });
+        return null;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error reserving stories_created:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Give back a story counted by reserveStoryCreated whose save failed
+   */
+  async releaseStoryCreated(kidId: string): Promise<void> {
+    try {
+      this.ensureInitialized();
+
+      const kidRef = this.db.collection(this.getUsersCollection()).doc(kidId);
+      await this.db.runTransaction(async (transaction) => {
+        const kidDoc = await transaction.get(kidRef);
+        const storiesCreated = kidDoc.data()?.stories_created || 0;
+        if (storiesCreated > 0) {
+          transaction.update(kidRef, { stories_created: storiesCreated - 1, lastUpdated: new Date() });
+        }
       });
-      
-      console.log(`[FIRESTORE_SERVER] Incremented stories_created for kid ${kidId}: ${currentCount} -> ${newCount}`);
-      
-      return newCount;
     } catch (error) {
-      console.error('[FIRESTORE_SERVER] Error incrementing stories_created:', error);
+      console.error('[FIRESTORE_SERVER] Error releasing stories_created:', error);
       throw error;
     }
   }
 
+  /**
+   * Add a new kid to its account within the account's kids limit
+   * The kids are counted and the kid is created in one transaction that also writes the account,
+   * so parallel adds for the same account conflict and the retried one counts the other's kid
+   */
+  async addKidWithinQuota(kidDetails: KidDetails): Promise<{ exceeded: QuotaExceededDetails } | { kid: KidDetails }> {
+    try {
+      this.ensureInitialized();
+
+      // stories_created enforces the story limit, a new kid always starts at 0
+      const { stories_created: _storiesCreated, ...editableDetails } = kidDetails;
+      const kidsCollection = this.db.collection(this.getUsersCollection());
+      const accountRef = this.db.collection(this.getAccountsCollection()).doc(kidDetails.accountId);
+      const newKidRef = kidsCollection.doc();
+
+      return await this.db.runTransaction(async (transaction) => {
+        const accountDoc = await transaction.get(accountRef);
+        const kids = await transaction.get(kidsCollection.where('accountId', '==', kidDetails.accountId));
+        const exceeded = checkKidsQuota(accountDoc.data(), kids.size);
+        if (exceeded) {
+          return { exceeded };
+        }
+
+        const now = new Date();
+        transaction.create(newKidRef, { ...editableDetails, id: newKidRef.id, createdAt: now, lastUpdated: now });
+        if (accountDoc.exists) {
+          transaction.update(accountRef, { lastUpdated: now });
+        }
+        return { kid: { ...kidDetails, id: newKidRef.id, stories_created: 0 } };
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error adding kid:', error);
+      throw error;
+    }
+  }
+
+
   /**
    * Get all kids for a user (account)
    * Kids are stored in users_{environment} collection, not as subcollections
@@ -297,38 +364,28 @@ class FirestoreServerService {
   }
 
   /**
-   * Save a kid (create or update)
+   * Update an existing kid, new kids are added with addKidWithinQuota
    * Kids are stored as documents in users_{environment} collection
    */
   async saveKid(kidDetails: KidDetails) : Promise<KidDetails> {
     try {
       this.ensureInitialized();
+
+      // stories_created enforces the story limit, only reserveStoryCreated changes it
+      const { stories_created: _storiesCreated, ...editableDetails } = kidDetails;
       
       if (!kidDetails.id || kidDetails.id.trim() === '') {
-        // Create new kid - ensure all required fields are present
-        const kidsCollection = this.db.collection(this.getUsersCollection());
-        const kidData = {
-          ...kidDetails,
-          createdAt: new Date(),
-          lastUpdated: new Date()
-        };
-        const newKidRef = await kidsCollection.add(kidData as unknown as Record<string, unknown>);
-        await newKidRef.update({
-          id: newKidRef.id,
-        });
-        return {
-          ...kidDetails,
-          id: newKidRef.id
-        };
-      } else {
-        const kidRef = this.db.collection(this.getUsersCollection()).doc(kidDetails.id);
-        const updateData = {
-          ...kidDetails,
-          lastUpdated: new Date()
-        };
-        await kidRef.update(updateData as unknown as Record<string, unknown>);
-        return kidDetails;
+        // New kids count against the kids limit
+        throw new Error('New kids are added with addKidWithinQuota');
       }
+
+      const kidRef = this.db.collection(this.getUsersCollection()).doc(kidDetails.id);
+      const updateData = {
+        ...editableDetails,
+        lastUpdated: new Date()
+      };
+      await kidRef.update(updateData as unknown as Record<string, unknown>);
+      return kidDetails;
     } catch (error) {
       console.error('Error saving kid:', error);
       throw error;
@@ -464,8 +521,12 @@ class FirestoreServerService {
   /**
    * Update a story with transaction to prevent race conditions
    * Use this for partial updates (PATCH operations)
+   * Pass a function to build the patch from the story as it is read inside the transaction
    */
-  async updateStoryWithTransaction(storyId: string, patchData: Partial<Story>): Promise<Story | null> {
+  async updateStoryWithTransaction(
+    storyId: string,
+    patchData: Partial<Story> | ((existingStory: Story) => Partial<Story>)
+  ): Promise<Story | null> {
     try {
       this.ensureInitialized();
       
@@ -480,11 +541,12 @@ class FirestoreServerService {
         }
         
         const existingStory = storyDoc.data() as Story;
+        const patch = typeof patchData === 'function' ? patchData(existingStory) : patchData;
         
         // Merge patch data with existing story
         const updatedData: Story = {
           ...existingStory,
-          ...patchData,
+          ...patch,
           id: storyId, // Ensure ID remains correct
           userId: existingStory.userId, // Don't allow userId changes
           lastUpdated: new Date()
@@ -799,7 +861,7 @@ class FirestoreServerService {
     kidId: string,
     email: string,
     sharedByAccountId: string,
-    permission: 'read' | 'write' = 'read'
+    permission: KidSharePermission = 'read'
   ): Promise<{ success: boolean; email: string; permission: string }> {
     try {
       this.ensureInitialized();
@@ -842,15 +904,31 @@ class FirestoreServerService {
     }
   }
 
+  /**
+   * Get the permission a kid is shared with an email, null when it is not shared (server-side)
+   */
+  async getKidSharePermission(kidId: string, email: string): Promise<KidSharePermission | null> {
+    try {
+      this.ensureInitialized();
+      
+      const normalizedEmail = email.toLowerCase().replace(/\./g, '_');
+      const shareRef = this.db.collection(this.getUsersCollection()).doc(kidId).collection('sharedWith').doc(normalizedEmail);
+      const doc = await shareRef.get();
+      if (!doc.exists) {
+        return null;
+      }
+      
+      return doc.data()?.permission === 'write' ? 'write' : 'read';
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error getting kid share permission:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all shares for a kid (server-side)
    */
-  async getKidShares(kidId: string): Promise<{
-    email: string;
-    permission: string;
-    sharedBy: string;
-    sharedAt?: Date;
-  }[]> {
+  async getKidShares(kidId: string): Promise<KidShare[]> {
     try {
       this.ensureInitialized();
       
@@ -862,7 +940,7 @@ class FirestoreServerService {
         const data = doc.data();
         return {
           email: data.email || doc.id.replace(/_/g, '.'),
-          permission: data.permission || 'read',
+          permission: data.permission === 'write' ? 'write' : 'read',
           sharedBy: data.sharedBy || '',
           sharedAt: data.sharedAt?.toDate ? data.sharedAt.toDate() : undefined
         };
@@ -873,6 +951,228 @@ class FirestoreServerService {
     }
   }
 
+  /**
+   * Change the permission of an existing share (server-side)
+   * @returns false when the kid is not shared with the email
+   */
+  async updateKidSharePermission(kidId: string, email: string, permission: KidSharePermission): Promise<boolean> {
+    try {
+      this.ensureInitialized();
+      
+      const normalizedEmail = email.toLowerCase().replace(/\./g, '_');
+      const shareRef = this.db.collection(this.getUsersCollection()).doc(kidId).collection('sharedWith').doc(normalizedEmail);
+      
+      return await this.db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(shareRef);
+        if (!doc.exists) {
+          return false;
+        }
+        transaction.update(shareRef, { permission });
+        return true;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error updating kid share:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop sharing a kid with an email (server-side)
+   * @returns false when the kid was not shared with the email
+   */
+  async removeKidShare(kidId: string, email: string): Promise<boolean> {
+    try {
+      this.ensureInitialized();
+      
+      const normalizedEmail = email.toLowerCase().replace(/\./g, '_');
+      const shareRef = this.db.collection(this.getUsersCollection()).doc(kidId).collection('sharedWith').doc(normalizedEmail);
+      
+      return await this.db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(shareRef);
+        if (!doc.exists) {
+          return false;
+        }
+        transaction.delete(shareRef);
+        return true;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error removing kid share:', error);
+      throw error;
+    }
+  }
+
+  private getShareInvitationsCollection() {
+    this.ensureInitialized();
+    return `share_invitations_${this.environment}`;
+  }
+
+  private toKidShareInvitation(id: string, data: DocumentData): KidShareInvitation {
+    // Timestamps when read back, Dates when building an invitation that was just saved
+    const toDate = (value: Date | { toDate?: () => Date } | undefined) =>
+      value instanceof Date ? value : (value?.toDate ? value.toDate() : undefined);
+    return {
+      id,
+      kidId: data.kidId,
+      kidName: data.kidName || '',
+      email: data.email,
+      permission: data.permission === 'write' ? 'write' : 'read',
+      invitedBy: data.invitedBy,
+      invitedByName: data.invitedByName || '',
+      invitedByEmail: data.invitedByEmail || null,
+      language: data.language === 'he' ? 'he' : 'en',
+      status: data.status || 'pending',
+      expiresAt: toDate(data.expiresAt) || new Date(0),
+      respondedAt: toDate(data.respondedAt) || null,
+      createdAt: toDate(data.createdAt) || new Date(),
+    };
+  }
+
+  /**
+   * Invite an email to share a kid (server-side)
+   * A pending invitation for the same kid and email is refreshed instead of adding another one
+   */
+  async savePendingKidShareInvitation(invitation: {
+    kidId: string;
+    kidName: string;
+    email: string;
+    permission: KidSharePermission;
+    invitedBy: string;
+    invitedByName: string;
+    invitedByEmail: string | null;
+    language: Language;
+    expiresAt: Date;
+  }): Promise<KidShareInvitation> {
+    try {
+      this.ensureInitialized();
+
+      const collection = this.db.collection(this.getShareInvitationsCollection());
+      const email = invitation.email.toLowerCase();
+      const pending = await collection
+        .where('kidId', '==', invitation.kidId)
+        .where('email', '==', email)
+        .where('status', '==', 'pending')
+        .limit(1)
+        .get();
+
+      const now = new Date();
+      const invitationRef = pending.empty ? collection.doc() : pending.docs[0].ref;
+      const data = {
+        ...invitation,
+        email,
+        status: 'pending',
+        respondedAt: null,
+        createdAt: pending.empty ? now : pending.docs[0].data().createdAt,
+        lastUpdated: now,
+      };
+      await invitationRef.set(data);
+      return this.toKidShareInvitation(invitationRef.id, data);
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error saving kid share invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an invitation by ID (server-side)
+   */
+  async getKidShareInvitation(invitationId: string): Promise<KidShareInvitation | null> {
+    try {
+      this.ensureInitialized();
+
+      const invitationDoc = await this.db.collection(this.getShareInvitationsCollection()).doc(invitationId).get();
+      return invitationDoc.exists ? this.toKidShareInvitation(invitationDoc.id, invitationDoc.data()!) : null;
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching kid share invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the pending invitations of a kid, or sent to an email, newest first (server-side)
+   * Pending invitations that expired are included, callers check getInvitationStatus
+   */
+  async getPendingKidShareInvitations(filter: { kidId: string } | { email: string }): Promise<KidShareInvitation[]> {
+    try {
+      this.ensureInitialized();
+
+      const collection = this.db.collection(this.getShareInvitationsCollection());
+      const query = 'kidId' in filter
+        ? collection.where('kidId', '==', filter.kidId)
+        : collection.where('email', '==', filter.email.toLowerCase());
+      const snapshot = await query.where('status', '==', 'pending').get();
+      return snapshot.docs
+        .map(doc => this.toKidShareInvitation(doc.id, doc.data()))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching kid share invitations:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Accept or decline an invitation for the account signed in with the email (server-side)
+   * Accepting shares the kid with the email in the same transaction
+   */
+  async respondToKidShareInvitation(
+    invitationId: string,
+    email: string | null,
+    action: 'accept' | 'decline'
+  ): Promise<{ unavailable: ShareInvitationUnavailableDetails } | { invitation: KidShareInvitation }> {
+    try {
+      this.ensureInitialized();
+
+      const invitationRef = this.db.collection(this.getShareInvitationsCollection()).doc(invitationId);
+
+      return await this.db.runTransaction(async (transaction) => {
+        const invitationDoc = await transaction.get(invitationRef);
+        const invitation = invitationDoc.exists ? this.toKidShareInvitation(invitationDoc.id, invitationDoc.data()!) : null;
+        const unavailable = checkInvitationResponse(invitation, email);
+        if (unavailable || !invitation) {
+          return { unavailable: unavailable || { reason: 'not_found' as const } };
+        }
+
+        const now = new Date();
+        const status = action === 'accept' ? 'accepted' as const : 'declined' as const;
+        transaction.update(invitationRef, { status, respondedAt: now, lastUpdated: now });
+        if (action === 'accept') {
+          const normalizedEmail = invitation.email.replace(/\./g, '_');
+          const shareRef = this.db.collection(this.getUsersCollection()).doc(invitation.kidId).collection('sharedWith').doc(normalizedEmail);
+          transaction.set(shareRef, {
+            email: invitation.email,
+            permission: invitation.permission,
+            sharedBy: invitation.invitedBy,
+            sharedAt: now
+          });
+        }
+        return { invitation: { ...invitation, status, respondedAt: now } };
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error responding to kid share invitation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel the pending invitations of a kid to an email (server-side)
+   * @returns The number of invitations that were cancelled
+   */
+  async deletePendingKidShareInvitations(kidId: string, email: string): Promise<number> {
+    try {
+      this.ensureInitialized();
+
+      const snapshot = await this.db.collection(this.getShareInvitationsCollection())
+        .where('kidId', '==', kidId)
+        .where('email', '==', email.toLowerCase())
+        .where('status', '==', 'pending')
+        .get();
+      await Promise.all(snapshot.docs.map(doc => doc.ref.delete()));
+      return snapshot.size;
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error deleting kid share invitations:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get all kids shared with an email address (server-side)
    * Uses collection group query on 'sharedWith' subcollections
@@ -952,6 +1252,990 @@ class FirestoreServerService {
       throw error;
     }
   }
+
+  private getOrdersCollection() {
+    this.ensureInitialized();
+    return `orders_${this.environment}`;
+  }
+
+  private toPrintOrder(id: string, data: DocumentData): PrintOrder {
+    const toDate = (value: { toDate?: () => Date } | undefined) => (value?.toDate ? value.toDate() : undefined);
+    return {
+      ...data,
+      id,
+      createdAt: toDate(data.createdAt) || new Date(),
+      paidAt: toDate(data.paidAt),
+      sentToPrinterAt: toDate(data.sentToPrinterAt),
+      shippedAt: toDate(data.shippedAt),
+      refundedAt: toDate(data.refundedAt),
+      lastUpdated: toDate(data.lastUpdated) || new Date(),
+    } as PrintOrder;
+  }
+
+  /**
+   * Write a new order, and reserve its promo code for it in the same transaction
+   * Throws PromoCodeRejectedError when the code cannot be used anymore, the order is then not saved
+   */
+  private async saveNewOrder(orderRef: DocumentReference, data: { accountId: string; promoCode?: string; createdAt: Date }): Promise<void> {
+    const { promoCode } = data;
+    if (!promoCode) {
+      await orderRef.set(data);
+      return;
+    }
+
+    const rejected = await this.db.runTransaction(async (transaction) => {
+      const rejected = await this.reservePromoCode(transaction, promoCode, data.accountId, orderRef.id, data.createdAt);
+      if (!rejected) {
+        transaction.set(orderRef, data);
+      }
+      return rejected;
+    });
+    if (rejected) {
+      throw new PromoCodeRejectedError(rejected);
+    }
+  }
+
+  /**
+   * Save a new print order in the created status
+   * A promo code is reserved for the order, see saveNewOrder
+   */
+  async createPrintOrder(order: Omit<PrintOrder, 'id' | 'status' | 'createdAt' | 'lastUpdated'>): Promise<PrintOrder> {
+    try {
+      this.ensureInitialized();
+
+      const now = new Date();
+      const orderRef = this.db.collection(this.getOrdersCollection()).doc();
+      const data = { ...order, type: 'print' as const, status: PrintOrderStatus.CREATED, createdAt: now, lastUpdated: now };
+      await this.saveNewOrder(orderRef, data);
+
+      return { ...data, id: orderRef.id };
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error creating print order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a print order by ID
+   */
+  async getPrintOrder(orderId: string): Promise<PrintOrder | null> {
+    try {
+      this.ensureInitialized();
+
+      const orderDoc = await this.db.collection(this.getOrdersCollection()).doc(orderId).get();
+      return orderDoc.exists && orderDoc.data()!.type !== 'credits' ? this.toPrintOrder(orderDoc.id, orderDoc.data()!) : null;
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching print order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update print order fields that do not change its status (PayPal and vendor references)
+   */
+  async updatePrintOrder(
+    orderId: string,
+    fields: Partial<Pick<PrintOrder, 'paypalOrderId' | 'vendorOrderId' | 'trackingNumber'>>
+  ): Promise<void> {
+    try {
+      this.ensureInitialized();
+
+      await this.db.collection(this.getOrdersCollection()).doc(orderId).update({ ...fields, lastUpdated: new Date() });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error updating print order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Move a print order to its next status in a transaction
+   * Returns null when the order is not in the status before `status` (already moved or out of order),
+   * so repeated calls for the same step do nothing
+   */
+  async transitionPrintOrder(
+    orderId: string,
+    status: PrintOrderStatus,
+    fields: Partial<Pick<PrintOrder, 'paypalCaptureId' | 'vendorOrderId' | 'trackingNumber'>> = {}
+  ): Promise<PrintOrder | null> {
+    try {
+      this.ensureInitialized();
+
+      const orderRef = this.db.collection(this.getOrdersCollection()).doc(orderId);
+      return await this.db.runTransaction(async (transaction) => {
+        const orderDoc = await transaction.get(orderRef);
+        if (!orderDoc.exists) {
+          throw new Error(`Print order ${orderId} not found`);
+        }
+
+        const order = this.toPrintOrder(orderDoc.id, orderDoc.data()!);
+        if (!canTransitionPrintOrder(order.status, status)) {
+          return null;
+        }
+
+        const now = new Date();
+        const timestampField = {
+          [PrintOrderStatus.CREATED]: 'createdAt',
+          [PrintOrderStatus.PAID]: 'paidAt',
+          [PrintOrderStatus.SENT_TO_PRINTER]: 'sentToPrinterAt',
+          [PrintOrderStatus.SHIPPED]: 'shippedAt',
+        }[status];
+        const update = { ...fields, status, [timestampField]: now, lastUpdated: now };
+        transaction.update(orderRef, update);
+
+        return { ...order, ...update } as PrintOrder;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error updating print order status:', error);
+      throw error;
+    }
+  }
+
+  private getCreditsCollection() {
+    this.ensureInitialized();
+    return `credits_${this.environment}`;
+  }
+
+  private toCreditsOrder(id: string, data: DocumentData): CreditsOrder {
+    const toDate = (value: { toDate?: () => Date } | undefined) => (value?.toDate ? value.toDate() : undefined);
+    return {
+      ...data,
+      id,
+      createdAt: toDate(data.createdAt) || new Date(),
+      paidAt: toDate(data.paidAt),
+      refundedAt: toDate(data.refundedAt),
+      lastUpdated: toDate(data.lastUpdated) || new Date(),
+    } as CreditsOrder;
+  }
+
+  /**
+   * Save a new credit pack order in the created status
+   * A promo code is reserved for the order, see saveNewOrder
+   */
+  async createCreditsOrder(
+    order: Omit<CreditsOrder, 'id' | 'type' | 'status' | 'createdAt' | 'lastUpdated'>
+  ): Promise<CreditsOrder> {
+    try {
+      this.ensureInitialized();
+
+      const now = new Date();
+      const orderRef = this.db.collection(this.getOrdersCollection()).doc();
+      const data = { ...order, type: 'credits' as const, status: PrintOrderStatus.CREATED as const, createdAt: now, lastUpdated: now };
+      await this.saveNewOrder(orderRef, data);
+
+      return { ...data, id: orderRef.id };
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error creating credits order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Keep the PayPal order ID of a credit pack order
+   */
+  async updateCreditsOrder(orderId: string, fields: Pick<CreditsOrder, 'paypalOrderId'>): Promise<void> {
+    try {
+      this.ensureInitialized();
+
+      await this.db.collection(this.getOrdersCollection()).doc(orderId).update({ ...fields, lastUpdated: new Date() });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error updating credits order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a credit pack order paid and add its credits in one transaction
+   * The purchase entry is keyed by the order ID. Returns null when the order was already paid,
+   * so a repeated capture never adds the credits twice.
+   */
+  async completeCreditsOrder(orderId: string, paypalCaptureId: string): Promise<CreditsOrder | null> {
+    try {
+      this.ensureInitialized();
+
+      const orderRef = this.db.collection(this.getOrdersCollection()).doc(orderId);
+      return await this.db.runTransaction(async (transaction) => {
+        const orderDoc = await transaction.get(orderRef);
+        if (!orderDoc.exists || orderDoc.data()!.type !== 'credits') {
+          throw new Error(`Credits order ${orderId} not found`);
+        }
+
+        const order = this.toCreditsOrder(orderDoc.id, orderDoc.data()!);
+        if (order.status !== PrintOrderStatus.CREATED) {
+          return null;
+        }
+
+        const balanceRef = this.db.collection(this.getCreditsCollection()).doc(order.accountId);
+        const ledger = balanceRef.collection('ledger');
+        const balanceDoc = await transaction.get(balanceRef);
+        const now = new Date();
+
+        // A new account gets its welcome credits first, as when it generates its first story
+        let balance = balanceDoc.exists ? Number(balanceDoc.data()?.balance) || 0 : 0;
+        if (!balanceDoc.exists) {
+          balance = WELCOME_CREDITS;
+          transaction.set(ledger.doc('welcome'), {
+            type: 'grant',
+            amount: WELCOME_CREDITS,
+            balanceAfter: balance,
+            reason: 'welcome',
+            createdAt: now,
+          });
+        }
+        balance += order.credits;
+
+        transaction.set(balanceRef, { balance, updatedAt: now });
+        transaction.set(ledger.doc(`purchase_${orderId}`), {
+          type: 'purchase',
+          amount: order.credits,
+          balanceAfter: balance,
+          orderId,
+          createdAt: now,
+        });
+        const update = { status: PrintOrderStatus.PAID as const, paypalCaptureId, paidAt: now, lastUpdated: now };
+        transaction.update(orderRef, update);
+
+        return { ...order, ...update };
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error completing credits order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an account's credit balance and its latest ledger entries, newest first
+   * An account that never used its credits has the welcome credits
+   */
+  async getCreditBalance(accountId: string, entriesLimit = 20): Promise<{ balance: number; entries: CreditLedgerEntry[] }> {
+    try {
+      this.ensureInitialized();
+
+      const balanceRef = this.db.collection(this.getCreditsCollection()).doc(accountId);
+      const [balanceDoc, entriesSnapshot] = await Promise.all([
+        balanceRef.get(),
+        balanceRef.collection('ledger').orderBy('createdAt', 'desc').limit(entriesLimit).get(),
+      ]);
+
+      const entries = entriesSnapshot.docs.map(doc => {
+        const data = doc.data();
+        return {
+          ...data,
+          id: doc.id,
+          createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+        } as CreditLedgerEntry;
+      });
+
+      return {
+        balance: balanceDoc.exists ? Number(balanceDoc.data()?.balance) || 0 : WELCOME_CREDITS,
+        entries,
+      };
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching credit balance:', error);
+      throw error;
+    }
+  }
+
+  private toCheckoutOrder(id: string, data: DocumentData): CheckoutOrder {
+    return data.type === 'credits' ? this.toCreditsOrder(id, data) : this.toPrintOrder(id, data);
+  }
+
+  /**
+   * Get a print or credit pack order by ID
+   */
+  async getOrder(orderId: string): Promise<CheckoutOrder | null> {
+    try {
+      this.ensureInitialized();
+
+      const orderDoc = await this.db.collection(this.getOrdersCollection()).doc(orderId).get();
+      return orderDoc.exists ? this.toCheckoutOrder(orderDoc.id, orderDoc.data()!) : null;
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching order:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the order paid by a PayPal capture
+   */
+  async getOrderByPaypalCaptureId(captureId: string): Promise<CheckoutOrder | null> {
+    try {
+      this.ensureInitialized();
+
+      const snapshot = await this.db.collection(this.getOrdersCollection())
+        .where('paypalCaptureId', '==', captureId)
+        .limit(1)
+        .get();
+      return snapshot.empty ? null : this.toCheckoutOrder(snapshot.docs[0].id, snapshot.docs[0].data());
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching order by capture:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a refund or reversal of the payment of an order
+   * A credit pack loses credits in proportion to the amount refunded so far, all of them once the
+   * whole total is refunded (the balance never goes below zero); a print order only keeps the
+   * refunds for support. Returns null when the refund was already recorded.
+   * @param refund PayPal refund ID and amount ("10.00"), a null amount refunds the rest of the total
+   */
+  async refundOrder(orderId: string, refund: { id: string; amount: string | null }): Promise<CheckoutOrder | null> {
+    try {
+      this.ensureInitialized();
+
+      const orderRef = this.db.collection(this.getOrdersCollection()).doc(orderId);
+      return await this.db.runTransaction(async (transaction) => {
+        const orderDoc = await transaction.get(orderRef);
+        if (!orderDoc.exists) {
+          throw new Error(`Order ${orderId} not found`);
+        }
+
+        const order = this.toCheckoutOrder(orderDoc.id, orderDoc.data()!);
+        const refundIds = order.paypalRefundIds || [];
+        if (refundIds.includes(refund.id)) {
+          return null;
+        }
+
+        const totalMinor = parsePrintAmount(order.total);
+        const refundMinor = refund.amount === null ? totalMinor : parsePrintAmount(refund.amount);
+        const refundedAmount = formatPrintAmount(Math.min(totalMinor, parsePrintAmount(order.refundedAmount || '0') + refundMinor));
+
+        const now = new Date();
+        const update: Partial<CreditsOrder> = { paypalRefundIds: [...refundIds, refund.id], refundedAmount, refundedAt: now, lastUpdated: now };
+        if (order.type === 'credits' && order.status === PrintOrderStatus.PAID) {
+          // Credits the earlier refunds took back are not taken again
+          const refundedCredits = calculateRefundedCredits(order.credits, order.total, refundedAmount);
+          const balanceRef = this.db.collection(this.getCreditsCollection()).doc(order.accountId);
+          const balanceDoc = await transaction.get(balanceRef);
+          const current = Number(balanceDoc.data()?.balance) || 0;
+          const taken = Math.min(Math.max(0, refundedCredits - (order.refundedCredits || 0)), current);
+
+          transaction.set(balanceRef, { balance: current - taken, updatedAt: now });
+          transaction.set(balanceRef.collection('ledger').doc(`refund_${orderId}_${refund.id}`), {
+            type: 'refund',
+            amount: -taken,
+            balanceAfter: current - taken,
+            orderId,
+            reason: 'payment_refunded',
+            createdAt: now,
+          });
+          update.refundedCredits = refundedCredits;
+        }
+
+        transaction.update(orderRef, update);
+
+        return { ...order, ...update } as CheckoutOrder;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error refunding order:', error);
+      throw error;
+    }
+  }
+
+  private getPromoCodesCollection() {
+    this.ensureInitialized();
+    return `promo_codes_${this.environment}`;
+  }
+
+  private toPromoCode(code: string, data: DocumentData): PromoCode {
+    const toDate = (value: { toDate?: () => Date } | undefined) => (value?.toDate ? value.toDate() : undefined);
+    return {
+      ...data,
+      code,
+      redemptionCount: Number(data.redemptionCount) || 0,
+      expiresAt: toDate(data.expiresAt) || null,
+      createdAt: toDate(data.createdAt) || new Date(),
+      lastUpdated: toDate(data.lastUpdated) || new Date(),
+    } as PromoCode;
+  }
+
+  /**
+   * Save a new promo code, returns null when the code already exists
+   */
+  async createPromoCode(promo: Omit<PromoCode, 'redemptionCount' | 'active' | 'createdAt' | 'lastUpdated'>): Promise<PromoCode | null> {
+    try {
+      this.ensureInitialized();
+
+      const now = new Date();
+      const data = { ...promo, redemptionCount: 0, active: true, createdAt: now, lastUpdated: now };
+      try {
+        await this.db.collection(this.getPromoCodesCollection()).doc(promo.code).create(data);
+      } catch (error) {
+        // ALREADY_EXISTS
+        if ((error as { code?: number }).code === 6) {
+          return null;
+        }
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error creating promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all promo codes, newest first
+   */
+  async getAllPromoCodes(): Promise<PromoCode[]> {
+    try {
+      this.ensureInitialized();
+
+      const snapshot = await this.db.collection(this.getPromoCodesCollection()).orderBy('createdAt', 'desc').get();
+      return snapshot.docs.map(doc => this.toPromoCode(doc.id, doc.data()));
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching promo codes:', error);
+      throw error;
+    }
+  }
+
+  private toPromoCodeRedemption(data: DocumentData): PromoCodeRedemption {
+    const toDate = (value: { toDate?: () => Date } | undefined) => (value?.toDate ? value.toDate() : undefined);
+    return {
+      ...data,
+      orderId: data.orderId || null,
+      reservedAt: toDate(data.reservedAt),
+      expiresAt: toDate(data.expiresAt) || null,
+      redeemedAt: toDate(data.redeemedAt),
+    } as PromoCodeRedemption;
+  }
+
+  /**
+   * Query for a reservation of another account that expired unpaid
+   * Redeemed uses have no expiry and never match
+   */
+  private expiredReservationsQuery(promoRef: DocumentReference, now: Date): Query {
+    return promoRef.collection('redemptions').where('expiresAt', '<=', now).limit(2);
+  }
+
+  /**
+   * Get a promo code with the account's use of it, and whether another account holds an expired
+   * reservation whose slot a new checkout can take
+   */
+  async getPromoCodeForAccount(
+    code: string,
+    accountId: string
+  ): Promise<{ promo: PromoCode | null; redemption: PromoCodeRedemption | null; expiredReservation: boolean }> {
+    try {
+      this.ensureInitialized();
+
+      const promoRef = this.db.collection(this.getPromoCodesCollection()).doc(code);
+      const [promoDoc, redemptionDoc, expiredSnapshot] = await Promise.all([
+        promoRef.get(),
+        promoRef.collection('redemptions').doc(accountId).get(),
+        this.expiredReservationsQuery(promoRef, new Date()).get(),
+      ]);
+      return {
+        promo: promoDoc.exists ? this.toPromoCode(promoDoc.id, promoDoc.data()!) : null,
+        redemption: redemptionDoc.exists ? this.toPromoCodeRedemption(redemptionDoc.data()!) : null,
+        expiredReservation: expiredSnapshot.docs.some(doc => doc.id !== accountId),
+      };
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Update the fields admins may change after a code is created
+   * Returns the code before and after the change, or null when the code does not exist
+   */
+  async updatePromoCode(
+    code: string,
+    fields: Partial<Pick<PromoCode, 'active' | 'expiresAt' | 'maxRedemptions'>>
+  ): Promise<{ previous: PromoCode; promoCode: PromoCode } | null> {
+    try {
+      this.ensureInitialized();
+
+      const promoRef = this.db.collection(this.getPromoCodesCollection()).doc(code);
+      const promoDoc = await promoRef.get();
+      if (!promoDoc.exists) {
+        return null;
+      }
+
+      const update = { ...fields, lastUpdated: new Date() };
+      await promoRef.update(update);
+      const previous = this.toPromoCode(promoDoc.id, promoDoc.data()!);
+      return { previous, promoCode: { ...previous, ...update } };
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error updating promo code:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve a percent_off code for a new order inside the transaction that saves the order
+   * The account's reservation for an unpaid order moves to the new one, otherwise the code counts
+   * one more use, taking over the slot of an expired reservation when the code is at its limit.
+   * Returns why the code was rejected, or null once it is reserved
+   */
+  private async reservePromoCode(
+    transaction: Transaction,
+    code: string,
+    accountId: string,
+    orderId: string,
+    now: Date
+  ): Promise<PromoCodeRejectedDetails | null> {
+    const promoRef = this.db.collection(this.getPromoCodesCollection()).doc(code);
+    const redemptionRef = promoRef.collection('redemptions').doc(accountId);
+    const [promoDoc, redemptionDoc, expiredSnapshot] = await Promise.all([
+      transaction.get(promoRef),
+      transaction.get(redemptionRef),
+      transaction.get(this.expiredReservationsQuery(promoRef, now)),
+    ]);
+    const promo = promoDoc.exists ? this.toPromoCode(promoDoc.id, promoDoc.data()!) : null;
+    const redemption = redemptionDoc.exists ? this.toPromoCodeRedemption(redemptionDoc.data()!) : null;
+    const expired = expiredSnapshot.docs.find(doc => doc.id !== accountId);
+
+    // The expired slot is only taken when the code is at its limit without it
+    const rejected = checkCheckoutPromoCode(promo, redemption, false, now);
+    const rejectedWithExpired = rejected?.reason === 'exhausted' && expired
+      ? checkCheckoutPromoCode(promo, redemption, true, now)
+      : rejected;
+    if (rejectedWithExpired || !promo) {
+      return rejectedWithExpired || { reason: 'not_found' };
+    }
+
+    const takesExpiredSlot = !!rejected && !!expired;
+    const countChange = (redemption?.status === 'reserved' ? 0 : 1) - (takesExpiredSlot ? 1 : 0);
+    if (takesExpiredSlot) {
+      transaction.delete(expired.ref);
+    }
+    if (countChange !== 0) {
+      transaction.update(promoRef, { redemptionCount: Math.max(0, promo.redemptionCount + countChange), lastUpdated: now });
+    }
+    transaction.set(redemptionRef, {
+      accountId,
+      orderId,
+      status: 'reserved',
+      reservedAt: now,
+      expiresAt: new Date(now.getTime() + PROMO_CODE_RESERVATION_MS),
+    });
+    return null;
+  }
+
+  /**
+   * Turn the reservation of a paid order into a redemption
+   * Returns false when the order holds no reservation (it expired and went to another checkout, or
+   * the account moved it to a newer order), the code then has to be redeemed again
+   */
+  async confirmPromoCodeReservation(code: string, accountId: string, orderId: string): Promise<boolean> {
+    try {
+      this.ensureInitialized();
+
+      const redemptionRef = this.db.collection(this.getPromoCodesCollection()).doc(code).collection('redemptions').doc(accountId);
+      return await this.db.runTransaction(async (transaction) => {
+        const redemptionDoc = await transaction.get(redemptionRef);
+        const redemption = redemptionDoc.exists ? this.toPromoCodeRedemption(redemptionDoc.data()!) : null;
+        if (redemption?.orderId !== orderId) {
+          return false;
+        }
+        // A repeated capture finds the code redeemed
+        if (redemption.status === 'reserved') {
+          transaction.update(redemptionRef, { status: 'redeemed', expiresAt: null, redeemedAt: new Date() });
+        }
+        return true;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error confirming promo code reservation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Give back the reservation of an order that will not be paid
+   * Returns false when the order holds no unpaid reservation
+   */
+  async releasePromoCodeReservation(code: string, accountId: string, orderId: string): Promise<boolean> {
+    try {
+      this.ensureInitialized();
+
+      const promoRef = this.db.collection(this.getPromoCodesCollection()).doc(code);
+      const redemptionRef = promoRef.collection('redemptions').doc(accountId);
+      return await this.db.runTransaction(async (transaction) => {
+        const [promoDoc, redemptionDoc] = await Promise.all([
+          transaction.get(promoRef),
+          transaction.get(redemptionRef),
+        ]);
+        const redemption = redemptionDoc.exists ? this.toPromoCodeRedemption(redemptionDoc.data()!) : null;
+        if (!promoDoc.exists || redemption?.orderId !== orderId || redemption.status !== 'reserved') {
+          return false;
+        }
+
+        const promo = this.toPromoCode(promoDoc.id, promoDoc.data()!);
+        transaction.update(promoRef, { redemptionCount: Math.max(0, promo.redemptionCount - 1), lastUpdated: new Date() });
+        transaction.delete(redemptionRef);
+        return true;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error releasing promo code reservation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Redeem a promo code for an account in one transaction
+   * The code is checked again inside the transaction, so the redemption limit and the single use
+   * per account hold under concurrent requests. A free_credits code adds its credits to the
+   * balance with a grant entry. A paid order whose percent_off reservation was lost redeems its code here.
+   * @param orderId The order a percent_off code was used on
+   */
+  async redeemPromoCode(
+    code: string,
+    accountId: string,
+    type: PromoCodeType,
+    orderId?: string
+  ): Promise<{ rejected: PromoCodeRejectedDetails } | { promo: PromoCode; balance?: number }> {
+    try {
+      this.ensureInitialized();
+
+      const promoRef = this.db.collection(this.getPromoCodesCollection()).doc(code);
+      const redemptionRef = promoRef.collection('redemptions').doc(accountId);
+      const balanceRef = this.db.collection(this.getCreditsCollection()).doc(accountId);
+
+      return await this.db.runTransaction(async (transaction) => {
+        const [promoDoc, redemptionDoc, balanceDoc] = await Promise.all([
+          transaction.get(promoRef),
+          transaction.get(redemptionRef),
+          transaction.get(balanceRef),
+        ]);
+        const promo = promoDoc.exists ? this.toPromoCode(promoDoc.id, promoDoc.data()!) : null;
+        const rejected = checkPromoCode(promo, type, redemptionDoc.exists);
+        if (rejected || !promo) {
+          return { rejected: rejected || { reason: 'not_found' as const } };
+        }
+
+        const now = new Date();
+        transaction.update(promoRef, { redemptionCount: promo.redemptionCount + 1, lastUpdated: now });
+        transaction.set(redemptionRef, { accountId, orderId: orderId || null, status: 'redeemed', redeemedAt: now });
+
+        if (promo.type !== 'free_credits') {
+          return { promo: { ...promo, redemptionCount: promo.redemptionCount + 1 } };
+        }
+
+        // A new account gets its welcome credits first, as when it generates its first story
+        const ledger = balanceRef.collection('ledger');
+        let balance = balanceDoc.exists ? Number(balanceDoc.data()?.balance) || 0 : 0;
+        if (!balanceDoc.exists) {
+          balance = WELCOME_CREDITS;
+          transaction.set(ledger.doc('welcome'), {
+            type: 'grant',
+            amount: WELCOME_CREDITS,
+            balanceAfter: balance,
+            reason: 'welcome',
+            createdAt: now,
+          });
+        }
+        balance += promo.value;
+
+        transaction.set(balanceRef, { balance, updatedAt: now });
+        transaction.set(ledger.doc(`promo_${code}`), {
+          type: 'grant',
+          amount: promo.value,
+          balanceAfter: balance,
+          reason: `promo:${code}`,
+          createdAt: now,
+        });
+
+        return { promo: { ...promo, redemptionCount: promo.redemptionCount + 1 }, balance };
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error redeeming promo code:', error);
+      throw error;
+    }
+  }
+
+  private getPaymentEventsCollection() {
+    this.ensureInitialized();
+    return `payment_events_${this.environment}`;
+  }
+
+  /**
+   * Claim a PayPal webhook event before handling it
+   * Returns false when the event was already handled or is being handled, PayPal delivers
+   * events more than once. A failed event can be claimed again when PayPal retries it, and so can
+   * an event left processing for longer than PAYMENT_EVENT_LEASE_MS by a crashed or timed out run.
+   */
+  async beginPaymentEvent(eventId: string, event: { eventType: string; resourceId: string | null; payload: unknown }): Promise<boolean> {
+    try {
+      this.ensureInitialized();
+
+      const eventRef = this.db.collection(this.getPaymentEventsCollection()).doc(eventId);
+      return await this.db.runTransaction(async (transaction) => {
+        const eventDoc = await transaction.get(eventRef);
+        const now = new Date();
+        if (eventDoc.exists) {
+          const data = eventDoc.data()!;
+          const lastUpdated: Date | undefined = data.lastUpdated?.toDate ? data.lastUpdated.toDate() : undefined;
+          const leaseExpired = data.status === 'processing'
+            && (!lastUpdated || now.getTime() - lastUpdated.getTime() > PAYMENT_EVENT_LEASE_MS);
+          if (data.status !== 'failed' && !leaseExpired) {
+            return false;
+          }
+        }
+
+        transaction.set(eventRef, {
+          ...event,
+          status: 'processing' as PaymentEventStatus,
+          attempts: (Number(eventDoc.data()?.attempts) || 0) + 1,
+          receivedAt: eventDoc.data()?.receivedAt || now,
+          lastUpdated: now,
+        });
+        return true;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error recording payment event:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save how a PayPal webhook event was handled
+   */
+  async finishPaymentEvent(
+    eventId: string,
+    status: Exclude<PaymentEventStatus, 'processing'>,
+    fields: { orderId?: string | null; error?: string } = {}
+  ): Promise<void> {
+    try {
+      this.ensureInitialized();
+
+      const now = new Date();
+      await this.db.collection(this.getPaymentEventsCollection()).doc(eventId).update({
+        ...fields,
+        status,
+        processedAt: now,
+        lastUpdated: now,
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error updating payment event:', error);
+      throw error;
+    }
+  }
+
+  private getStorySharesCollection() {
+    this.ensureInitialized();
+    return `story_shares_${this.environment}`;
+  }
+
+  private toStoryShareLink(token: string, data: DocumentData): StoryShareLink {
+    // Timestamps when read back, Dates when building the link that was just created
+    const toDate = (value: Date | { toDate?: () => Date } | undefined) =>
+      value instanceof Date ? value : (value?.toDate ? value.toDate() : undefined);
+    return {
+      token,
+      storyId: data.storyId,
+      accountId: data.accountId,
+      expiresAt: toDate(data.expiresAt) || null,
+      hasPasscode: !!data.passcodeHash,
+      revokedAt: toDate(data.revokedAt) || null,
+      viewCount: Number(data.viewCount) || 0,
+      lastViewedAt: toDate(data.lastViewedAt) || null,
+      createdAt: toDate(data.createdAt) || new Date(),
+    };
+  }
+
+  /**
+   * Save a new public share link for a story
+   * @param passcodeHash Hash of the passcode readers must enter, see story-share.server.ts
+   */
+  async createStoryShareLink(link: {
+    token: string;
+    storyId: string;
+    accountId: string;
+    expiresAt: Date | null;
+    passcodeHash: string | null;
+  }): Promise<StoryShareLink> {
+    try {
+      this.ensureInitialized();
+
+      const data = { ...link, revokedAt: null, viewCount: 0, lastViewedAt: null, createdAt: new Date() };
+      await this.db.collection(this.getStorySharesCollection()).doc(link.token).create(data);
+      return this.toStoryShareLink(link.token, data);
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error creating story share link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a share link with its passcode hash, for checking a reader's passcode
+   */
+  async getStoryShareLink(token: string): Promise<{ link: StoryShareLink; passcodeHash: string | null } | null> {
+    try {
+      this.ensureInitialized();
+
+      const linkDoc = await this.db.collection(this.getStorySharesCollection()).doc(token).get();
+      if (!linkDoc.exists) {
+        return null;
+      }
+      const data = linkDoc.data()!;
+      return { link: this.toStoryShareLink(linkDoc.id, data), passcodeHash: data.passcodeHash || null };
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching story share link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the share links an account created for a story, newest first
+   */
+  async getStoryShareLinks(storyId: string, accountId: string): Promise<StoryShareLink[]> {
+    try {
+      this.ensureInitialized();
+
+      const snapshot = await this.db.collection(this.getStorySharesCollection())
+        .where('storyId', '==', storyId)
+        .where('accountId', '==', accountId)
+        .get();
+      return snapshot.docs
+        .map(doc => this.toStoryShareLink(doc.id, doc.data()))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching story share links:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Revoke a share link of the account, the link stays listed with its view count
+   * Returns null when the account has no such link
+   */
+  async revokeStoryShareLink(token: string, accountId: string): Promise<StoryShareLink | null> {
+    try {
+      this.ensureInitialized();
+
+      const linkRef = this.db.collection(this.getStorySharesCollection()).doc(token);
+      const linkDoc = await linkRef.get();
+      if (!linkDoc.exists || linkDoc.data()?.accountId !== accountId) {
+        return null;
+      }
+
+      const link = this.toStoryShareLink(linkDoc.id, linkDoc.data()!);
+      if (link.revokedAt) {
+        return link;
+      }
+      const revokedAt = new Date();
+      await linkRef.update({ revokedAt });
+      return { ...link, revokedAt };
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error revoking story share link:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count a view of a share link
+   */
+  async recordStoryShareView(token: string): Promise<void> {
+    try {
+      this.ensureInitialized();
+
+      await this.db.collection(this.getStorySharesCollection()).doc(token).update({
+        viewCount: FieldValue.increment(1),
+        lastViewedAt: new Date(),
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error recording story share view:', error);
+      throw error;
+    }
+  }
+
+  private getRateLimitsCollection() {
+    this.ensureInitialized();
+    return `rate_limits_${this.environment}`;
+  }
+
+  /**
+   * Record a hit on every rate limit counter in one transaction
+   * Nothing is recorded when any counter is full, the blocked counter is returned instead
+   * Counter documents: rate_limits_{environment}/{key} with the hit timestamps of the window
+   */
+  async recordRateLimitHit(
+    counters: Array<{ key: string; limit: number }>,
+    now: number
+  ): Promise<{ limit: number; retryAfter: number } | null> {
+    try {
+      this.ensureInitialized();
+
+      const refs = counters.map(counter => this.db.collection(this.getRateLimitsCollection()).doc(counter.key));
+
+      return await this.db.runTransaction(async (transaction) => {
+        const snapshots = await Promise.all(refs.map(ref => transaction.get(ref)));
+        const windows = snapshots.map(snapshot => slideWindow(snapshot.data()?.hits, now));
+
+        for (let i = 0; i < counters.length; i++) {
+          const retryAfter = getRetryAfterSeconds(windows[i], counters[i].limit, now);
+          if (retryAfter !== null) {
+            return { limit: counters[i].limit, retryAfter };
+          }
+        }
+
+        refs.forEach((ref, i) => {
+          transaction.set(ref, { hits: [...windows[i], now], updatedAt: new Date() });
+        });
+        return null;
+      });
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error recording rate limit hit:', error);
+      throw error;
+    }
+  }
+
+  private getAdminAuditCollection() {
+    this.ensureInitialized();
+    return `admin_audit_${this.environment}`;
+  }
+
+  private toAdminAuditEntry(id: string, data: DocumentData): AdminAuditEntry {
+    return {
+      ...data,
+      id,
+      changes: data.changes || {},
+      reason: data.reason || null,
+      createdAt: data.createdAt?.toDate ? data.createdAt.toDate() : new Date(),
+    } as AdminAuditEntry;
+  }
+
+  /**
+   * Add an entry to the admin audit log
+   * The log is append-only, there is no update or delete for it
+   */
+  async addAdminAuditEntry(entry: Omit<AdminAuditEntry, 'id' | 'createdAt'>): Promise<AdminAuditEntry> {
+    try {
+      this.ensureInitialized();
+
+      const data = { ...entry, createdAt: new Date() };
+      const entryRef = await this.db.collection(this.getAdminAuditCollection()).add(data);
+      return { ...data, id: entryRef.id };
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error adding admin audit entry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get admin audit entries, newest first, optionally only of one actor and/or one target
+   * Filtered queries use the admin_audit composite indexes in firestore.indexes.json
+   */
+  async getAdminAuditEntries(filter: { actorUid?: string; targetId?: string }, limit: number): Promise<AdminAuditEntry[]> {
+    try {
+      this.ensureInitialized();
+
+      let query: Query = this.db.collection(this.getAdminAuditCollection());
+      if (filter.actorUid) {
+        query = query.where('actorUid', '==', filter.actorUid);
+      }
+      if (filter.targetId) {
+        query = query.where('targetId', '==', filter.targetId);
+      }
+      const snapshot = await query.orderBy('createdAt', 'desc').limit(limit).get();
+      return snapshot.docs.map(doc => this.toAdminAuditEntry(doc.id, doc.data()));
+    } catch (error) {
+      console.error('[FIRESTORE_SERVER] Error fetching admin audit entries:', error);
+      throw error;
+    }
+  }
 }
 
 // Export a singleton instance
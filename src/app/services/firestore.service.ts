@@ -1,4 +1,4 @@
-import { getFirestore, collection, doc, getDoc, getDocs, query, where, Firestore, addDoc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { getFirestore, collection, doc, getDoc, getDocs, query, where, Firestore, serverTimestamp, updateDoc } from 'firebase/firestore';
 import { app } from '@choiceStoryWeb/firebase';
 import { Account, KidDetails } from '@choiceStoryWeb/models';
 import { getFirebaseEnvironment } from '@/config/build-config';
@@ -151,8 +151,7 @@ class FirestoreService {
     // Check if the document exists first
     const docSnap = await getDoc(kidRef);
     if (!docSnap.exists()) {
-      console.log(`Kid with ID ${kidId} doesn't exist. Creating a new document instead.`);
-      return this.addNewKid(kidDetails as KidDetails, avatarUrl);
+      throw new Error(`Kid with ID ${kidId} doesn't exist`);
     }
     
     const updateData = {
@@ -171,42 +170,16 @@ class FirestoreService {
     return kidId;
   }
 
-  private async addNewKid(kidDetails: KidDetails, avatarUrl?: string): Promise<string> {
-    if (!this.db) {
-      throw new Error('Firestore not initialized. This service can only be used on the client side.');
-    }
-
-    // Ensure we have all required fields
-    if (!kidDetails.name || !kidDetails.age || !kidDetails.gender) {
-      throw new Error('Missing required kid fields (name, age, gender)');
-    }
-
-    const kidsCollection = collection(this.db, this.getUsersCollection());
-    
-    const kidData = {
-      ...kidDetails,
-      avatarUrl, // Don't use a default avatarUrl
-      createdAt: serverTimestamp(),
-      lastUpdated: serverTimestamp(),
-      storiesCount: 0
-    };
-
-    console.log('Creating new kid in Firestore:', kidData);
-
-    const docRef = await addDoc(kidsCollection, kidData);
-    await updateDoc(docRef, { id: docRef.id });
-    return docRef.id;
-  }
-
+  /**
+   * Save the details of an existing kid
+   * New kids are created with KidApi.createOrUpdateKid, the API checks the account's kids limit
+   */
   async saveKid(kidDetails: KidDetails, avatarUrl?: string): Promise<string> {
     try {
-      // If we have an ID, update the existing document
-      if (kidDetails.id) {
-        return this.updateExistingKid(kidDetails.id, kidDetails, avatarUrl);
+      if (!kidDetails.id) {
+        throw new Error('New kids are created through the API');
       }
-
-      // If no ID, create a new document
-      return this.addNewKid(kidDetails, avatarUrl);
+      return await this.updateExistingKid(kidDetails.id, kidDetails, avatarUrl);
     } catch (error) {
       console.error('Error saving kid:', error);
       throw error;
@@ -291,42 +264,6 @@ class FirestoreService {
       throw error;
     }
   }
-
-  /**
-   * Get account data by email
-   * @param email Account's email address
-   */
-  async getAccountByEmail(email: string): Promise<Account | null> {
-    try {
-      this.ensureInitialized();
-      
-      const accountsRef = collection(this.db!, this.getAccountsCollection());
-      const q = query(accountsRef, where('email', '==', email));
-      const querySnapshot = await getDocs(q);
-
-      if (querySnapshot.empty) {
-        console.log('No account found for email:', email);
-        return null;
-      }
-
-      const docSnap = querySnapshot.docs[0];
-      const data = docSnap.data();
-      const account: Account = {
-        uid: docSnap.id,
-        email: data.email || email,
-        displayName: data.displayName,
-        photoURL: data.photoURL,
-        phoneNumber: data.phoneNumber,
-        metadata: data.metadata,
-        createAt: data.createAt?.toDate ? data.createAt.toDate() : new Date(),
-        lastUpdated: data.lastUpdated?.toDate ? data.lastUpdated.toDate() : new Date(),
-      };
-      return account;
-    } catch (error) {
-      console.error('Error fetching account by email:', error);
-      throw error;
-    }
-  }
 }
 
 // Create a single instance
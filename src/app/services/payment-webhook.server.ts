@@ -0,0 +1,93 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { PaymentService, WebhookEvent, WebhookSignatureHeaders } from "@/app/_lib/services/payment-service";
+
+/**
+ * Verification of PayPal webhook deliveries
+ *
+ * PAYPAL_WEBHOOK_VERIFIER selects the implementation: "paypal" asks PayPal to check the signature,
+ * "local" checks an HMAC of the raw body so tests and local tools can send signed events
+ * without a PayPal webhook. The local verifier is refused in production.
+ */
+
+export interface WebhookDelivery {
+  // Body exactly as received, the local signature is computed over it
+  rawBody: string;
+  event: WebhookEvent;
+  headers: WebhookSignatureHeaders;
+}
+
+export interface WebhookVerifier {
+  readonly name: string;
+  verify(delivery: WebhookDelivery): Promise<boolean>;
+}
+
+/**
+ * Verifies with PayPal's verify-webhook-signature API
+ */
+export class PayPalWebhookVerifier implements WebhookVerifier {
+  readonly name = "paypal";
+
+  async verify({ event, headers }: WebhookDelivery): Promise<boolean> {
+    if (!headers.transmissionId || !headers.transmissionSig || !headers.certUrl) {
+      return false;
+    }
+    return PaymentService.verifyWebhookSignature(headers, event);
+  }
+}
+
+/**
+ * Stub verifier for tests: paypal-transmission-sig must be the hex HMAC-SHA256 of the raw body
+ */
+export class LocalWebhookVerifier implements WebhookVerifier {
+  readonly name = "local";
+
+  constructor(private readonly secret = process.env.PAYPAL_WEBHOOK_LOCAL_SECRET || "") {}
+
+  static sign(rawBody: string, secret: string): string {
+    return createHmac("sha256", secret).update(rawBody).digest("hex");
+  }
+
+  async verify({ rawBody, headers }: WebhookDelivery): Promise<boolean> {
+    if (!this.secret || !headers.transmissionSig) {
+      return false;
+    }
+    const expected = Buffer.from(LocalWebhookVerifier.sign(rawBody, this.secret));
+    const received = Buffer.from(headers.transmissionSig);
+    return expected.length === received.length && timingSafeEqual(expected, received);
+  }
+}
+
+export const WEBHOOK_VERIFIER_NAMES = ["paypal", "local"] as const;
+export type WebhookVerifierName = typeof WEBHOOK_VERIFIER_NAMES[number];
+
+export function getWebhookVerifierName(): WebhookVerifierName {
+  const configured = (process.env.PAYPAL_WEBHOOK_VERIFIER || "paypal").toLowerCase();
+  if (!WEBHOOK_VERIFIER_NAMES.includes(configured as WebhookVerifierName)) {
+    throw new Error(`Unknown PAYPAL_WEBHOOK_VERIFIER "${configured}". Expected one of: ${WEBHOOK_VERIFIER_NAMES.join(", ")}`);
+  }
+  if (configured === "local" && process.env.NODE_ENV === "production") {
+    throw new Error("The local webhook verifier cannot be used in production");
+  }
+  return configured as WebhookVerifierName;
+}
+
+let verifierOverride: WebhookVerifier | null = null;
+
+export function getWebhookVerifier(): WebhookVerifier {
+  if (verifierOverride) {
+    return verifierOverride;
+  }
+  switch (getWebhookVerifierName()) {
+    case "paypal":
+      return new PayPalWebhookVerifier();
+    case "local":
+      return new LocalWebhookVerifier();
+  }
+}
+
+/**
+ * Replace the verifier (tests only), pass null to restore the configured one
+ */
+export function setWebhookVerifierForTesting(verifier: WebhookVerifier | null): void {
+  verifierOverride = verifier;
+}
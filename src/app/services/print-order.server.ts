@@ -0,0 +1,35 @@
+import * as Sentry from "@sentry/nextjs";
+import { PrintOrder, PrintOrderStatus } from "@/models";
+import firestoreServerService from "./firestore.server";
+import { renderStoryPdf } from "./story-pdf.server";
+import { getPrintVendor } from "./print-vendor.server";
+
+/**
+ * Send a paid order to the print vendor and move it to sent_to_printer
+ * Failures are reported and leave the order paid so it can be sent again,
+ * the buyer's payment is never undone by a printing problem.
+ * Returns the order as it is afterwards.
+ */
+export async function sendPrintOrderToPrinter(order: PrintOrder): Promise<PrintOrder> {
+  if (order.status !== PrintOrderStatus.PAID) {
+    return order;
+  }
+
+  try {
+    const story = await firestoreServerService.getStoryById(order.storyId);
+    if (!story) {
+      throw new Error(`Story ${order.storyId} of print order ${order.id} no longer exists`);
+    }
+
+    const vendor = getPrintVendor();
+    const bookPdf = await renderStoryPdf(story);
+    const { vendorOrderId } = await vendor.submitOrder(order, bookPdf);
+
+    const sent = await firestoreServerService.transitionPrintOrder(order.id, PrintOrderStatus.SENT_TO_PRINTER, { vendorOrderId });
+    return sent || { ...order, vendorOrderId };
+  } catch (error) {
+    console.error(`[PRINT_ORDER] Failed to send order ${order.id} to the printer:`, error);
+    Sentry.captureException(error, { tags: { print_order_id: order.id } });
+    return order;
+  }
+}
@@ -0,0 +1,69 @@
+import { mkdir, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { PrintOrder } from "@/models";
+
+/**
+ * Print vendor that produces and ships the printed books
+ *
+ * The vendor receives the print-ready PDF with the order. PRINT_VENDOR selects the
+ * implementation, only the local stub exists until a vendor contract is signed.
+ */
+
+export interface PrintSubmission {
+  // The vendor's reference for the job, kept on the order for support and tracking
+  vendorOrderId: string;
+}
+
+export interface PrintVendor {
+  readonly name: string;
+  submitOrder(order: PrintOrder, bookPdf: Uint8Array): Promise<PrintSubmission>;
+}
+
+/**
+ * Stub vendor for development: writes the book to the temp directory instead of printing it
+ */
+export class LocalPrintVendor implements PrintVendor {
+  readonly name = "local";
+
+  constructor(private readonly outputDir = path.join(os.tmpdir(), "print-orders")) {}
+
+  async submitOrder(order: PrintOrder, bookPdf: Uint8Array): Promise<PrintSubmission> {
+    await mkdir(this.outputDir, { recursive: true });
+    const filePath = path.join(this.outputDir, `${order.id}.pdf`);
+    await writeFile(filePath, bookPdf);
+
+    console.log(`[PrintVendor] Local print job for order ${order.id}: ${order.quantity} x ${order.format} -> ${filePath}`);
+    return { vendorOrderId: `local-${order.id}` };
+  }
+}
+
+export const PRINT_VENDOR_NAMES = ["local"] as const;
+export type PrintVendorName = typeof PRINT_VENDOR_NAMES[number];
+
+export function getPrintVendorName(): PrintVendorName {
+  const configured = (process.env.PRINT_VENDOR || "local").toLowerCase();
+  if (!PRINT_VENDOR_NAMES.includes(configured as PrintVendorName)) {
+    throw new Error(`Unknown PRINT_VENDOR "${configured}". Expected one of: ${PRINT_VENDOR_NAMES.join(", ")}`);
+  }
+  return configured as PrintVendorName;
+}
+
+let vendorOverride: PrintVendor | null = null;
+
+export function getPrintVendor(): PrintVendor {
+  if (vendorOverride) {
+    return vendorOverride;
+  }
+  switch (getPrintVendorName()) {
+    case "local":
+      return new LocalPrintVendor();
+  }
+}
+
+/**
+ * Replace the vendor (tests only), pass null to restore the configured one
+ */
+export function setPrintVendorForTesting(vendor: PrintVendor | null): void {
+  vendorOverride = vendor;
+}
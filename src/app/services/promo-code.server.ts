@@ -0,0 +1,66 @@
+import * as Sentry from "@sentry/nextjs";
+import { CheckoutOrder } from "@/models";
+import { CheckoutDiscount, checkCheckoutPromoCode, normalizePromoCode, PromoCodeRejectedError } from "@/app/utils/promo-code";
+import firestoreServerService from "./firestore.server";
+
+/**
+ * Check a percent_off code entered at checkout, before the order is saved
+ * Saving the order reserves the code for it, see firestoreServerService.createPrintOrder
+ * Returns null without a code, throws PromoCodeRejectedError when the code cannot be used
+ */
+export async function getCheckoutDiscount(promoCode: string | undefined, accountId: string): Promise<CheckoutDiscount | null> {
+  if (!promoCode) {
+    return null;
+  }
+  const code = normalizePromoCode(promoCode);
+  const { promo, redemption, expiredReservation } = await firestoreServerService.getPromoCodeForAccount(code, accountId);
+  const rejected = checkCheckoutPromoCode(promo, redemption, expiredReservation);
+  if (rejected || !promo) {
+    throw new PromoCodeRejectedError(rejected || { reason: 'not_found' });
+  }
+  return { code, percentOff: promo.value };
+}
+
+/**
+ * Confirm the promo code reservation of an order once it is paid
+ * An order that lost its reservation (it expired, or the buyer started a newer checkout) redeems
+ * the code again. A code that ran out in the meantime is reported, the buyer already paid the
+ * discounted price.
+ */
+export async function redeemOrderPromoCode(order: CheckoutOrder): Promise<void> {
+  if (!order.promoCode) {
+    return;
+  }
+  try {
+    if (await firestoreServerService.confirmPromoCodeReservation(order.promoCode, order.accountId, order.id)) {
+      return;
+    }
+    const result = await firestoreServerService.redeemPromoCode(order.promoCode, order.accountId, 'percent_off', order.id);
+    if ('rejected' in result) {
+      console.warn(`[PROMO_CODE] Order ${order.id} was paid with ${order.promoCode} after it became unusable:`, result.rejected.reason);
+      Sentry.captureMessage(`Promo code ${order.promoCode} used past its limits`, {
+        level: 'warning',
+        tags: { order_id: order.id, reason: result.rejected.reason }
+      });
+    }
+  } catch (error) {
+    console.error(`[PROMO_CODE] Failed to redeem the promo code of order ${order.id}:`, error);
+    Sentry.captureException(error, { tags: { order_id: order.id } });
+  }
+}
+
+/**
+ * Give back the promo code reserved for an order that will not be paid, e.g. when its PayPal
+ * order could not be opened. Failures are reported, the reservation then expires on its own.
+ */
+export async function releaseOrderPromoCode(order: CheckoutOrder): Promise<void> {
+  if (!order.promoCode) {
+    return;
+  }
+  try {
+    await firestoreServerService.releasePromoCodeReservation(order.promoCode, order.accountId, order.id);
+  } catch (error) {
+    console.error(`[PROMO_CODE] Failed to release the promo code of order ${order.id}:`, error);
+    Sentry.captureException(error, { tags: { order_id: order.id } });
+  }
+}
@@ -0,0 +1,44 @@
+import firestoreServerService from "./firestore.server";
+import { KidDetails } from "@/models";
+import { QuotaExceededError } from "@/app/utils/quota";
+
+/**
+ * Server-side quota enforcement for the API routes
+ * The limits are read from the account document, so they cannot be bypassed by calling the routes directly.
+ * Each check runs in the same transaction as the write it allows, so parallel requests cannot all pass it
+ */
+
+/**
+ * Add a new kid to its account, or throw a QuotaExceededError when the account cannot add another kid
+ * @returns The saved kid with its new ID
+ */
+export async function addKidWithinQuota(kid: KidDetails): Promise<KidDetails> {
+  const result = await firestoreServerService.addKidWithinQuota(kid);
+  if ('exceeded' in result) {
+    throw new QuotaExceededError(result.exceeded);
+  }
+  return result.kid;
+}
+
+/**
+ * Count a new story against the kid's limit, or throw a QuotaExceededError when no more stories can be created for it
+ * The limit of the account that owns the kid applies, whoever makes the request.
+ * Call releaseStoryQuota when the story is then not saved
+ */
+export async function reserveStoryQuota(accountId: string, kidId: string): Promise<void> {
+  const exceeded = await firestoreServerService.reserveStoryCreated(kidId, accountId);
+  if (exceeded) {
+    throw new QuotaExceededError(exceeded);
+  }
+}
+
+/**
+ * Give back a story counted by reserveStoryQuota, logging instead of throwing so the save error reaches the caller
+ */
+export async function releaseStoryQuota(kidId: string): Promise<void> {
+  try {
+    await firestoreServerService.releaseStoryCreated(kidId);
+  } catch (error) {
+    console.error('[QUOTA] Failed to release a reserved story for kid:', kidId, error);
+  }
+}
@@ -0,0 +1,74 @@
+import firestoreServerService from "./firestore.server";
+import { RemoteConfigKey, RemoteConfigService } from "./remote-config.service";
+import { RateLimitAction, RateLimitedError, rateLimitKey } from "@/app/utils/rate-limit";
+
+/**
+ * Server-side daily rate limits for the API routes
+ * Counters live in Firestore, so they hold across instances and cannot be bypassed from the browser
+ */
+
+const RATE_LIMIT_CONFIG_KEYS: Record<RateLimitAction, RemoteConfigKey> = {
+  stories: 'max_stories_per_day',
+  images: 'max_images_per_day',
+  ai_requests: 'max_ai_requests_per_day',
+};
+
+// Used when remote config is not available on the server, matches SERVER_CONFIG_DEFAULTS in functions/src/lib/remote-config.ts
+const RATE_LIMIT_DEFAULTS: Partial<Record<RemoteConfigKey, number>> = {
+  max_stories_per_day: 5,
+  max_images_per_day: 100,
+  max_ai_requests_per_day: 200,
+  rate_limit_ip_multiplier: 3,
+};
+
+async function getConfigNumber(key: RemoteConfigKey): Promise<number> {
+  try {
+    const value = await RemoteConfigService.getNumber(key);
+    if (Number.isFinite(value)) {
+      return value;
+    }
+  } catch (error) {
+    console.warn(`[RATE_LIMIT] Remote config "${key}" not available, using the default:`, error instanceof Error ? error.message : error);
+  }
+  return RATE_LIMIT_DEFAULTS[key] ?? 0;
+}
+
+/**
+ * Record the request for the account and the IP, or throw a RateLimitedError when either is over its limit
+ * Accounts with a role (admins) are exempt. A limit of 0 or less turns the check off for that action.
+ */
+export async function enforceRateLimit(
+  action: RateLimitAction,
+  accountId: string | null,
+  ip: string | null,
+  now: number = Date.now()
+): Promise<void> {
+  if (accountId) {
+    const account = await firestoreServerService.getAccountByUid(accountId);
+    if (account?.role) {
+      return;
+    }
+  }
+
+  const limit = await getConfigNumber(RATE_LIMIT_CONFIG_KEYS[action]);
+  if (limit <= 0) {
+    return;
+  }
+
+  const counters: Array<{ key: string; limit: number }> = [];
+  if (accountId) {
+    counters.push({ key: rateLimitKey('account', accountId, action), limit });
+  }
+  if (ip) {
+    const ipMultiplier = await getConfigNumber('rate_limit_ip_multiplier');
+    counters.push({ key: rateLimitKey('ip', ip, action), limit: Math.max(limit, Math.floor(limit * ipMultiplier)) });
+  }
+  if (counters.length === 0) {
+    return;
+  }
+
+  const exceeded = await firestoreServerService.recordRateLimitHit(counters, now);
+  if (exceeded) {
+    throw new RateLimitedError({ action, ...exceeded });
+  }
+}
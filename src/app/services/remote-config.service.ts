@@ -15,7 +15,10 @@ export interface RemoteConfigSchema {
   feature_premium_content: boolean;
   
   // App settings
-  max_stories_per_day: number;
+  max_stories_per_day: number; // Daily limits, see src/app/utils/rate-limit.ts
+  max_images_per_day: number;
+  max_ai_requests_per_day: number;
+  rate_limit_ip_multiplier: number; // IP limit = account limit x multiplier
   story_generation_timeout_ms: number;
   
   // Maintenance
@@ -25,6 +28,7 @@ export interface RemoteConfigSchema {
   // Image generation
   image_generation_enabled: boolean;
   image_generation_provider: string;
+  image_generation_concurrency: number; // Page images rendered in parallel by generateFullStory
   
   // App info
   welcome_message: string;
@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signed invitation links, "<invitation id>.<HMAC of the id>"
+ * The signature keeps invitation ids from being guessed or enumerated through the public link.
+ */
+function sign(invitationId: string, secret: string): string {
+  return createHmac("sha256", secret).update(invitationId).digest("base64url");
+}
+
+function getSecret(): string {
+  return process.env.SHARE_INVITATION_SECRET || "";
+}
+
+/**
+ * Token of the link sent in the invitation email
+ */
+export function createInvitationToken(invitationId: string): string {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error("SHARE_INVITATION_SECRET is not configured");
+  }
+  return `${invitationId}.${sign(invitationId, secret)}`;
+}
+
+/**
+ * Invitation id of a token from createInvitationToken, null when the signature does not match
+ */
+export function readInvitationToken(token: string): string | null {
+  const secret = getSecret();
+  const [invitationId, signature, ...rest] = token.split(".");
+  if (!secret || !invitationId || !signature || rest.length > 0) {
+    return null;
+  }
+  const expected = Buffer.from(sign(invitationId, secret));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received) ? invitationId : null;
+}
@@ -0,0 +1,277 @@
+import JSZip from "jszip";
+import { Story } from "@/models";
+import { translations } from "@/app/translations";
+import { BookPage, buildStoryBook, StoryBook } from "@/app/utils/story-book";
+import { isRtlText } from "@/app/utils/bidi";
+import { EXPORT_FONT_FILES, ExportFontSubset, loadExportFont, loadIllustration } from "./story-export.server";
+
+/**
+ * EPUB 3 edition of a story for e-reader apps
+ *
+ * Fixed layout, one square page per book page in the same order as the PDF. Choices link to
+ * the first page of their path and pages that join an earlier path link back to it, so the
+ * book can be read as a choose-your-path story without page numbers. Illustrations and fonts
+ * are embedded, the book needs no network once downloaded.
+ */
+
+// Pixel size of the fixed-layout viewport and the illustrations
+const PAGE_PIXELS = 1200;
+
+const FONT_UNICODE_RANGES: Record<ExportFontSubset, string> = {
+  latin: "U+0000-00FF, U+0131, U+0152-0153, U+02BB-02BC, U+02C6, U+02DA, U+02DC, U+2000-206F, U+20AC, U+2122, U+2191, U+2193, U+2212, U+2215, U+FEFF, U+FFFD",
+  hebrew: "U+0307-0308, U+0590-05FF, U+200C-2010, U+20AA, U+25CC, U+FB1D-FB4F",
+};
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const pageFileName = (pageNumber: number) => `page-${pageNumber}.xhtml`;
+const imageFileName = (pageNumber: number) => `images/page-${pageNumber}.jpg`;
+
+// Text paragraphs, each marked with its own direction so mixed-language stories read correctly
+const paragraphs = (text: string): string =>
+  text
+    .split(/\n+/)
+    .filter(paragraph => paragraph.trim())
+    .map(paragraph => `<p dir="${isRtlText(paragraph) ? "rtl" : "ltr"}">${escapeXml(paragraph)}</p>`)
+    .join("\n        ");
+
+const buildPageXhtml = (book: StoryBook, bookPage: BookPage, hasImage: boolean): string => {
+  const t = translations[book.language].storyExport;
+  const dir = book.language === "he" ? "rtl" : "ltr";
+  const text = bookPage.kind === "cover" ? bookPage.text || book.title : bookPage.text;
+
+  let body = paragraphs(text);
+  if (bookPage.turnTo !== null) {
+    const link = `<a href="${pageFileName(bookPage.turnTo)}">${escapeXml(t.turnToPage(bookPage.turnTo))}</a>`;
+    // A choice is read by tapping it, the whole panel leads to its path
+    body = bookPage.kind === "choice"
+      ? `<a class="choice" href="${pageFileName(bookPage.turnTo)}">${body}</a>\n        <p class="turn-to">${link}</p>`
+      : `${body}\n        <p class="turn-to">${link}</p>`;
+  } else if (bookPage.ending) {
+    body = `${body}\n        <p class="the-end">${escapeXml(t.theEnd)}</p>`;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${book.language}" xml:lang="${book.language}" dir="${dir}">
+  <head>
+    <meta charset="UTF-8"/>
+    <meta name="viewport" content="width=${PAGE_PIXELS}, height=${PAGE_PIXELS}"/>
+    <title>${escapeXml(book.title)} - ${bookPage.pageNumber}</title>
+    <link rel="stylesheet" type="text/css" href="styles.css"/>
+  </head>
+  <body class="${bookPage.kind}${hasImage ? "" : " no-image"}" epub:type="${bookPage.kind === "cover" ? "cover" : "bodymatter"}">
+    ${hasImage ? `<img class="illustration" src="${imageFileName(bookPage.pageNumber)}" alt=""/>` : ""}
+    <div class="panel">
+        ${body}
+    </div>
+    ${bookPage.kind === "cover" ? "" : `<div class="page-number">${bookPage.pageNumber}</div>`}
+  </body>
+</html>
+`;
+};
+
+const buildStylesheet = (): string => `${(Object.keys(EXPORT_FONT_FILES) as ExportFontSubset[])
+  .map(subset => `@font-face {
+  font-family: "Varela Round";
+  src: url("fonts/${EXPORT_FONT_FILES[subset]}") format("woff");
+  unicode-range: ${FONT_UNICODE_RANGES[subset]};
+}`)
+  .join("\n")}
+html, body {
+  margin: 0;
+  padding: 0;
+  width: ${PAGE_PIXELS}px;
+  height: ${PAGE_PIXELS}px;
+  overflow: hidden;
+}
+body {
+  position: relative;
+  font-family: "Varela Round", sans-serif;
+  color: #4c1d95;
+  background: #faf5ff;
+}
+.illustration {
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: ${PAGE_PIXELS}px;
+  height: ${PAGE_PIXELS}px;
+}
+.panel {
+  position: absolute;
+  left: 80px;
+  right: 80px;
+  bottom: 110px;
+  padding: 36px 48px;
+  background: rgba(255, 255, 255, 0.85);
+  border-radius: 36px;
+  text-align: center;
+  font-size: 40px;
+  line-height: 1.35;
+}
+.cover .panel {
+  top: 80px;
+  bottom: auto;
+  font-size: 68px;
+}
+.no-image .panel {
+  top: 50%;
+  bottom: auto;
+  transform: translateY(-50%);
+  background: none;
+}
+.choice .panel {
+  font-size: 48px;
+}
+.panel p {
+  margin: 0 0 16px;
+}
+.panel a {
+  color: inherit;
+  text-decoration: none;
+}
+.turn-to, .the-end {
+  font-size: 32px;
+  color: #9333ea;
+}
+.turn-to a {
+  text-decoration: underline;
+}
+.page-number {
+  position: absolute;
+  bottom: 40px;
+  width: 100%;
+  text-align: center;
+  font-size: 24px;
+}
+`;
+
+const buildNavXhtml = (book: StoryBook): string => {
+  const t = translations[book.language].storyExport;
+  const dir = book.language === "he" ? "rtl" : "ltr";
+  // The table of contents lists the cover and every choice, the reader jumps straight to a path
+  const entries = book.pages
+    .filter(bookPage => bookPage.kind === "cover" || bookPage.kind === "choice")
+    .map(bookPage => {
+      const label = bookPage.kind === "cover" ? book.title : bookPage.text;
+      return `<li><a href="${pageFileName(bookPage.pageNumber)}">${escapeXml(label || t.turnToPage(bookPage.pageNumber))}</a></li>`;
+    });
+  const pageList = book.pages.map(bookPage => `<li><a href="${pageFileName(bookPage.pageNumber)}">${bookPage.pageNumber}</a></li>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${book.language}" xml:lang="${book.language}" dir="${dir}">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(book.title)}</title>
+  </head>
+  <body>
+    <nav epub:type="toc" id="toc">
+      <h1>${escapeXml(book.title)}</h1>
+      <ol>
+        ${entries.join("\n        ")}
+      </ol>
+    </nav>
+    <nav epub:type="page-list" hidden="hidden">
+      <ol>
+        ${pageList.join("\n        ")}
+      </ol>
+    </nav>
+  </body>
+</html>
+`;
+};
+
+const buildPackageOpf = (story: Story, book: StoryBook, imagePages: Set<number>): string => {
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+  const manifest = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="styles" href="styles.css" media-type="text/css"/>`,
+    ...(Object.keys(EXPORT_FONT_FILES) as ExportFontSubset[]).map(
+      subset => `<item id="font-${subset}" href="fonts/${EXPORT_FONT_FILES[subset]}" media-type="font/woff"/>`
+    ),
+    ...book.pages.map(bookPage => `<item id="page-${bookPage.pageNumber}" href="${pageFileName(bookPage.pageNumber)}" media-type="application/xhtml+xml"/>`),
+    ...book.pages
+      .filter(bookPage => imagePages.has(bookPage.pageNumber))
+      .map(bookPage => `<item id="image-${bookPage.pageNumber}" href="${imageFileName(bookPage.pageNumber)}" media-type="image/jpeg"${bookPage.kind === "cover" ? ` properties="cover-image"` : ""}/>`),
+  ];
+  const spine = book.pages.map(bookPage => `<itemref idref="page-${bookPage.pageNumber}"/>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${book.language}" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:choice-story:${escapeXml(story.id)}</dc:identifier>
+    <dc:title>${escapeXml(book.title)}</dc:title>
+    <dc:language>${book.language}</dc:language>
+    <dc:publisher>Choice Story</dc:publisher>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">auto</meta>
+    <meta property="rendition:spread">none</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join("\n    ")}
+  </manifest>
+  <spine page-progression-direction="${book.language === "he" ? "rtl" : "ltr"}">
+    ${spine.join("\n    ")}
+  </spine>
+</package>
+`;
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/package.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+/**
+ * Render the story as an EPUB 3 fixed-layout book
+ * Illustrations that cannot be loaded leave their page text-only instead of failing the export
+ */
+export async function renderStoryEpub(story: Story): Promise<Buffer> {
+  const book = buildStoryBook(story);
+  const zip = new JSZip();
+
+  // The mimetype entry must come first and stay uncompressed for readers to recognize the file
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file("META-INF/container.xml", CONTAINER_XML);
+
+  const oebps = zip.folder("OEBPS")!;
+  const [latin, hebrew] = await Promise.all([loadExportFont("latin"), loadExportFont("hebrew")]);
+  oebps.file(`fonts/${EXPORT_FONT_FILES.latin}`, latin);
+  oebps.file(`fonts/${EXPORT_FONT_FILES.hebrew}`, hebrew);
+
+  const illustrations = await Promise.all(
+    book.pages.map(bookPage => (bookPage.imageUrl ? loadIllustration(bookPage.imageUrl, PAGE_PIXELS) : Promise.resolve(null)))
+  );
+
+  const imagePages = new Set<number>();
+  book.pages.forEach((bookPage, index) => {
+    const illustration = illustrations[index];
+    if (illustration) {
+      imagePages.add(bookPage.pageNumber);
+      oebps.file(imageFileName(bookPage.pageNumber), illustration);
+    }
+    oebps.file(pageFileName(bookPage.pageNumber), buildPageXhtml(book, bookPage, !!illustration));
+  });
+
+  oebps.file("styles.css", buildStylesheet());
+  oebps.file("nav.xhtml", buildNavXhtml(book));
+  oebps.file("package.opf", buildPackageOpf(story, book, imagePages));
+
+  return zip.generateAsync({
+    type: "nodebuffer",
+    mimeType: "application/epub+zip",
+    compression: "DEFLATE",
+  });
+}
@@ -0,0 +1,42 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+
+/**
+ * Assets shared by the story exports (PDF and EPUB)
+ *
+ * Text uses Varela Round, the app font, from @fontsource. The package ships it split by
+ * script, so a Latin and a Hebrew file are embedded side by side.
+ */
+
+export const EXPORT_FONT_FILES = {
+  latin: "varela-round-latin-400-normal.woff",
+  hebrew: "varela-round-hebrew-400-normal.woff",
+} as const;
+
+export type ExportFontSubset = keyof typeof EXPORT_FONT_FILES;
+
+const ILLUSTRATION_FETCH_TIMEOUT_MS = 20000;
+
+export const loadExportFont = (subset: ExportFontSubset): Promise<Buffer> =>
+  readFile(path.join(process.cwd(), "node_modules", "@fontsource", "varela-round", "files", EXPORT_FONT_FILES[subset]));
+
+/**
+ * Download a page illustration from Storage, cropped to a square JPEG of the given size
+ * Returns null when it cannot be loaded, the page is then exported without it
+ */
+export async function loadIllustration(url: string, pixels: number): Promise<Buffer | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(ILLUSTRATION_FETCH_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return await sharp(Buffer.from(await response.arrayBuffer()))
+      .resize(pixels, pixels, { fit: "cover" })
+      .jpeg({ quality: 88 })
+      .toBuffer();
+  } catch (error) {
+    console.warn(`[StoryExport] Could not load illustration ${url}, exporting the page without it:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,225 @@
+import fontkit from "@pdf-lib/fontkit";
+import { PDFDocument, PDFFont, PDFPage, rgb } from "pdf-lib";
+import { Story } from "@/models";
+import { translations } from "@/app/translations";
+import { BookPage, buildStoryBook, StoryBook } from "@/app/utils/story-book";
+import { isRtlText, toVisualOrder } from "@/app/utils/bidi";
+import { loadExportFont, loadIllustration } from "./story-export.server";
+
+/**
+ * Print-ready PDF of a story
+ *
+ * Square 8.5in pages with 0.125in bleed on every side: illustrations fill the bleed and
+ * text stays inside the safe area. The trim and bleed boxes are set on every page for the printer.
+ * Both font subsets are embedded and each character is drawn with the one that has it.
+ */
+
+const POINTS_PER_INCH = 72;
+const TRIM_SIZE = 8.5 * POINTS_PER_INCH;
+const BLEED = 0.125 * POINTS_PER_INCH;
+const PAGE_SIZE = TRIM_SIZE + BLEED * 2;
+// Distance from the trim edge that printing and binding never cut into
+const SAFE_MARGIN = 0.5 * POINTS_PER_INCH;
+const SAFE_LEFT = BLEED + SAFE_MARGIN;
+const SAFE_WIDTH = TRIM_SIZE - SAFE_MARGIN * 2;
+
+// Illustrations are cropped to the full page, bleed included, at print resolution
+const PRINT_DPI = 300;
+const IMAGE_PIXELS = Math.round((PAGE_SIZE / POINTS_PER_INCH) * PRINT_DPI);
+
+const PANEL_PADDING = 18;
+const LINE_HEIGHT = 1.35;
+const TEXT_SIZES = { cover: 34, page: 18, choice: 22 } as const;
+const MIN_TEXT_SIZE = 11;
+// Text panels cover at most this share of the illustration
+const MAX_PANEL_HEIGHT = TRIM_SIZE * 0.45;
+const FOOTER_SIZE = 14;
+const PAGE_NUMBER_SIZE = 10;
+
+const TEXT_COLOR = rgb(0.298, 0.114, 0.584);
+const ACCENT_COLOR = rgb(0.576, 0.2, 0.918);
+const PANEL_COLOR = rgb(1, 1, 1);
+const BLANK_PAGE_COLOR = rgb(0.98, 0.96, 1);
+
+interface BookFonts {
+  latin: PDFFont;
+  hebrew: PDFFont;
+  latinChars: Set<number>;
+  hebrewChars: Set<number>;
+}
+
+interface TextSegment {
+  font: PDFFont;
+  text: string;
+}
+
+// Group the characters by the font subset that can draw them, dropping those neither has (emoji)
+const toSegments = (text: string, fonts: BookFonts): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  for (const char of Array.from(text)) {
+    const codePoint = char.codePointAt(0)!;
+    const font = fonts.hebrewChars.has(codePoint)
+      ? fonts.hebrew
+      : fonts.latinChars.has(codePoint)
+      ? fonts.latin
+      : null;
+    if (!font) continue;
+
+    const last = segments[segments.length - 1];
+    if (last && last.font === font) {
+      last.text += char;
+    } else {
+      segments.push({ font, text: char });
+    }
+  }
+  return segments;
+};
+
+const measure = (text: string, size: number, fonts: BookFonts): number =>
+  toSegments(text, fonts).reduce((width, segment) => width + segment.font.widthOfTextAtSize(segment.text, size), 0);
+
+// Wrap in logical order, lines are reordered for drawing afterwards
+const wrapText = (text: string, size: number, maxWidth: number, fonts: BookFonts): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\n+/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measure(candidate, size, fonts) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+};
+
+// The largest size up to the preferred one at which the text fits the height
+const fitText = (text: string, preferredSize: number, maxWidth: number, maxHeight: number, fonts: BookFonts) => {
+  let size = preferredSize;
+  let lines = wrapText(text, size, maxWidth, fonts);
+  while (size > MIN_TEXT_SIZE && lines.length * size * LINE_HEIGHT > maxHeight) {
+    size -= 1;
+    lines = wrapText(text, size, maxWidth, fonts);
+  }
+  return { size, lines };
+};
+
+// Draw a line centered on the page, the top of the line at `top`
+const drawCenteredLine = (
+  pdfPage: PDFPage,
+  line: string,
+  direction: "rtl" | "ltr",
+  top: number,
+  size: number,
+  color: ReturnType<typeof rgb>,
+  fonts: BookFonts
+) => {
+  const visual = toVisualOrder(line, direction);
+  const segments = toSegments(visual, fonts);
+  const width = segments.reduce((sum, segment) => sum + segment.font.widthOfTextAtSize(segment.text, size), 0);
+  let x = PAGE_SIZE / 2 - width / 2;
+  for (const segment of segments) {
+    pdfPage.drawText(segment.text, { x, y: top - size, size, font: segment.font, color });
+    x += segment.font.widthOfTextAtSize(segment.text, size);
+  }
+};
+
+const drawBookPage = async (
+  pdfDoc: PDFDocument,
+  book: StoryBook,
+  bookPage: BookPage,
+  illustration: Buffer | null,
+  fonts: BookFonts
+) => {
+  const t = translations[book.language].storyExport;
+  const pdfPage = pdfDoc.addPage([PAGE_SIZE, PAGE_SIZE]);
+  pdfPage.setBleedBox(0, 0, PAGE_SIZE, PAGE_SIZE);
+  pdfPage.setTrimBox(BLEED, BLEED, TRIM_SIZE, TRIM_SIZE);
+
+  if (illustration) {
+    const image = await pdfDoc.embedJpg(illustration);
+    pdfPage.drawImage(image, { x: 0, y: 0, width: PAGE_SIZE, height: PAGE_SIZE });
+  } else {
+    pdfPage.drawRectangle({ x: 0, y: 0, width: PAGE_SIZE, height: PAGE_SIZE, color: BLANK_PAGE_COLOR });
+  }
+
+  const text = bookPage.kind === "cover" ? bookPage.text || book.title : bookPage.text;
+  const footer = bookPage.turnTo !== null ? t.turnToPage(bookPage.turnTo) : bookPage.ending ? t.theEnd : null;
+  const textWidth = SAFE_WIDTH - PANEL_PADDING * 2;
+  const { size, lines } = fitText(text, TEXT_SIZES[bookPage.kind], textWidth, MAX_PANEL_HEIGHT, fonts);
+  const footerHeight = footer ? FOOTER_SIZE * LINE_HEIGHT + PANEL_PADDING / 2 : 0;
+  const panelHeight = lines.length * size * LINE_HEIGHT + footerHeight + PANEL_PADDING * 2;
+
+  // Over an illustration the text sits on a panel, the cover title at the top and page text at the bottom
+  const safeTop = PAGE_SIZE - BLEED - SAFE_MARGIN;
+  const safeBottom = BLEED + SAFE_MARGIN + PAGE_NUMBER_SIZE * 2;
+  const panelTop = !illustration
+    ? PAGE_SIZE / 2 + panelHeight / 2
+    : bookPage.kind === "cover"
+    ? safeTop
+    : safeBottom + panelHeight;
+
+  if (illustration) {
+    pdfPage.drawRectangle({
+      x: SAFE_LEFT,
+      y: panelTop - panelHeight,
+      width: SAFE_WIDTH,
+      height: panelHeight,
+      color: PANEL_COLOR,
+      opacity: 0.85,
+    });
+  }
+
+  const direction = isRtlText(text) ? "rtl" : "ltr";
+  let top = panelTop - PANEL_PADDING;
+  for (const line of lines) {
+    drawCenteredLine(pdfPage, line, direction, top, size, TEXT_COLOR, fonts);
+    top -= size * LINE_HEIGHT;
+  }
+  if (footer) {
+    drawCenteredLine(pdfPage, footer, direction, top - PANEL_PADDING / 2, FOOTER_SIZE, ACCENT_COLOR, fonts);
+  }
+
+  if (bookPage.kind !== "cover") {
+    drawCenteredLine(pdfPage, String(bookPage.pageNumber), "ltr", BLEED + SAFE_MARGIN, PAGE_NUMBER_SIZE, TEXT_COLOR, fonts);
+  }
+};
+
+/**
+ * Render the story as a print-ready PDF
+ * Illustrations that cannot be loaded leave their page text-only instead of failing the export
+ */
+export async function renderStoryPdf(story: Story): Promise<Uint8Array> {
+  const book = buildStoryBook(story);
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  pdfDoc.setTitle(book.title);
+  pdfDoc.setLanguage(book.language);
+  pdfDoc.setCreator("Choice Story");
+
+  const [latin, hebrew] = await Promise.all([
+    loadExportFont("latin").then(bytes => pdfDoc.embedFont(bytes, { subset: true })),
+    loadExportFont("hebrew").then(bytes => pdfDoc.embedFont(bytes, { subset: true })),
+  ]);
+  const fonts: BookFonts = {
+    latin,
+    hebrew,
+    latinChars: new Set(latin.getCharacterSet()),
+    hebrewChars: new Set(hebrew.getCharacterSet()),
+  };
+
+  const illustrations = await Promise.all(
+    book.pages.map(bookPage => (bookPage.imageUrl ? loadIllustration(bookPage.imageUrl, IMAGE_PIXELS) : Promise.resolve(null)))
+  );
+
+  for (const [index, bookPage] of book.pages.entries()) {
+    await drawBookPage(pdfDoc, book, bookPage, illustrations[index], fonts);
+  }
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,89 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { Story } from "@/models";
+import {
+  checkShareLink,
+  SHARE_LINK_PASSCODE_ATTEMPTS_PER_DAY,
+  SHARE_PASSCODE_ATTEMPTS_PER_DAY,
+  ShareLinkUnavailableDetails,
+  toSharedStory,
+} from "@/app/utils/story-share";
+import firestoreServerService from "./firestore.server";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const PASSCODE_KEY_LENGTH = 32;
+
+/**
+ * New share link token, 192 random bits in base64url
+ */
+export function createShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Hash a share link passcode for storage, as "scrypt$<salt>$<hash>"
+ */
+export async function hashSharePasscode(passcode: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(passcode, salt, PASSCODE_KEY_LENGTH);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+/**
+ * Check a passcode against a hash from hashSharePasscode
+ */
+export async function verifySharePasscode(passcode: string, passcodeHash: string): Promise<boolean> {
+  const [scheme, salt, hash] = passcodeHash.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(passcode, Buffer.from(salt, "base64url"), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Open the story behind a share link for a reader
+ * Checks expiry, revocation and the passcode, counts the view and returns the reader's copy
+ * of the story. Passcode attempts are limited per link and IP, and per link from all IPs
+ * together, so a passcode cannot be guessed by trying them all from changing addresses.
+ */
+export async function openSharedStory(
+  token: string,
+  passcode: string | null,
+  ip: string | null
+): Promise<{ story: Story } | { unavailable: ShareLinkUnavailableDetails }> {
+  const shared = await firestoreServerService.getStoryShareLink(token);
+  const unavailable = checkShareLink(shared?.link || null);
+  if (unavailable || !shared) {
+    return { unavailable: unavailable || { reason: "not_found" } };
+  }
+
+  if (shared.passcodeHash) {
+    if (!passcode) {
+      return { unavailable: { reason: "passcode_required" } };
+    }
+    const exceeded = await firestoreServerService.recordRateLimitHit(
+      [
+        { key: `share_${token}`, limit: SHARE_LINK_PASSCODE_ATTEMPTS_PER_DAY },
+        { key: `share_${token}_${(ip || "unknown").replace(/[^\w.:-]/g, "_")}`, limit: SHARE_PASSCODE_ATTEMPTS_PER_DAY },
+      ],
+      Date.now()
+    );
+    if (exceeded) {
+      return { unavailable: { reason: "too_many_attempts" } };
+    }
+    if (!(await verifySharePasscode(passcode, shared.passcodeHash))) {
+      return { unavailable: { reason: "wrong_passcode" } };
+    }
+  }
+
+  const story = await firestoreServerService.getStoryById(shared.link.storyId);
+  if (!story) {
+    return { unavailable: { reason: "not_found" } };
+  }
+
+  await firestoreServerService.recordStoryShareView(token);
+  return { story: toSharedStory(story) };
+}
@@ -0,0 +1,11 @@
+import { Metadata } from 'next';
+
+// Share links are private to the people they were sent to, keep them out of search results
+export const metadata: Metadata = {
+  title: 'Choice Story',
+  robots: { index: false, follow: false },
+};
+
+export default function SharedStoryLayout({ children }: { children: React.ReactNode }) {
+  return children;
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { Lock } from "lucide-react";
+import { Story } from "@/models";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import LoadingIndicator from "@/app/components/ui/LoadingIndicator";
+import { useTranslation } from "@/app/hooks/useTranslation";
+import { StoryApi } from "@/app/network/StoryApi";
+import { StoryReaderScreen } from "@/app/features/story/components/reader/StoryReaderScreen";
+import {
+  getShareLinkUnavailableDetails,
+  getShareLinkUnavailableMessage,
+  ShareLinkUnavailableDetails,
+} from "@/app/utils/story-share";
+
+/**
+ * Read-only story reader for public share links, no sign in needed
+ */
+export default function SharedStoryPage() {
+  const { token } = useParams();
+  const { t } = useTranslation();
+  const [story, setStory] = useState<Story | null>(null);
+  const [unavailable, setUnavailable] = useState<ShareLinkUnavailableDetails | null>(null);
+  const [passcode, setPasscode] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  const openStory = useCallback(async (enteredPasscode?: string) => {
+    setLoading(true);
+    try {
+      const response = await StoryApi.getSharedStory(String(token), enteredPasscode);
+      if (!response.success || !response.data) {
+        throw response;
+      }
+      setStory(response.data.story);
+      setUnavailable(null);
+    } catch (error) {
+      console.error("Error opening shared story:", error);
+      setUnavailable(getShareLinkUnavailableDetails(error) || { reason: "not_found" });
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    openStory();
+  }, [openStory]);
+
+  const handleSubmitPasscode = (e: FormEvent) => {
+    e.preventDefault();
+    if (passcode.trim()) {
+      openStory(passcode.trim());
+    }
+  };
+
+  if (story) {
+    return <StoryReaderScreen storyId={story.id} sharedStory={story} />;
+  }
+
+  if (loading && !unavailable) {
+    return <LoadingIndicator message={t.common.loading} />;
+  }
+
+  const needsPasscode = unavailable?.reason === "passcode_required" || unavailable?.reason === "wrong_passcode";
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-purple-50 via-pink-50 to-blue-50 px-4">
+      <div className="w-full max-w-sm rounded-xl bg-white p-6 text-center shadow-lg">
+        {needsPasscode ? (
+          <form onSubmit={handleSubmitPasscode} className="space-y-4">
+            <Lock className="mx-auto h-10 w-10 text-purple-500" />
+            <h1 className="text-xl font-bold text-gray-800">{t.shareLinks.passcodeTitle}</h1>
+            <p className="text-sm text-gray-600">{t.shareLinks.passcodePrompt}</p>
+            <Input
+              type="password"
+              value={passcode}
+              maxLength={32}
+              autoFocus
+              onChange={(e) => setPasscode(e.target.value)}
+            />
+            {unavailable?.reason === "wrong_passcode" && (
+              <p className="text-sm text-red-600">{getShareLinkUnavailableMessage(unavailable, t)}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={loading || !passcode.trim()}>
+              {t.shareLinks.open}
+            </Button>
+          </form>
+        ) : (
+          <p className="text-gray-700">
+            {getShareLinkUnavailableMessage(unavailable || { reason: "not_found" }, t)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
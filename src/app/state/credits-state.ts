@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+import * as Sentry from '@sentry/nextjs';
+import { AccountApi } from '@/app/network/AccountApi';
+import { CreditLedgerEntry } from '@/models';
+
+interface CreditsState {
+  // Story credits of the signed in account, null until fetched
+  balance: number | null;
+  // Accounts with a role are not charged
+  unlimited: boolean;
+  entries: CreditLedgerEntry[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchCredits: () => Promise<void>;
+  clearCredits: () => void;
+}
+
+// The Header and the dashboard share the balance, refetched after a purchase or a generation
+const useCreditsState = create<CreditsState>((set) => ({
+  balance: null,
+  unlimited: false,
+  entries: [],
+  isLoading: false,
+  error: null,
+
+  fetchCredits: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const response = await AccountApi.getCredits();
+      if (!response.success || !response.data) {
+        throw new Error(response.success ? 'Failed to fetch credits' : response.error);
+      }
+
+      set({
+        balance: response.data.balance,
+        unlimited: response.data.unlimited,
+        entries: response.data.entries,
+        isLoading: false
+      });
+    } catch (error) {
+      console.error('[CREDITS STATE] ❌ Error fetching credits:', error);
+      Sentry.captureException(error, {
+        tags: {
+          component: 'credits-state',
+          operation: 'fetchCredits'
+        }
+      });
+      set({
+        error: error instanceof Error ? error.message : 'Failed to fetch credits',
+        isLoading: false
+      });
+    }
+  },
+
+  clearCredits: () => set({ balance: null, unlimited: false, entries: [], error: null }),
+}));
+
+export default useCreditsState;
@@ -7,7 +7,7 @@ interface FirestoreState {
   users: KidDetails[];
   loading: boolean;
   error: string | null;
-  fetchAccount: (email: string) => Promise<void>;
+  fetchAccount: (uid: string) => Promise<void>;
   fetchUsers: (accountId: string) => Promise<void>;
   reset: () => void;
 }
@@ -18,10 +18,11 @@ const useFirestoreState = create<FirestoreState>((set) => ({
   loading: false,
   error: null,
 
-  fetchAccount: async (email: string) => {
+  fetchAccount: async (uid: string) => {
     try {
       set({ loading: true, error: null });
-      const account = await firestoreService.getAccountByEmail(email);
+      // Clients may only read their own account document, see firestore.rules
+      const account = await firestoreService.getUserByUid(uid);
       console.log('Fetched account:', account);
       set({ account, loading: false });
     } catch (error) {
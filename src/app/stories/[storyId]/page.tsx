@@ -15,8 +15,11 @@ import {
 import { useTranslation } from "@/app/hooks/useTranslation";
 import { useStoryReadingAnalytics } from "@/app/hooks/useStoryAnalytics";
 import { toast } from "@/components/ui/use-toast";
-import { Share2, Copy, Check } from "lucide-react";
+import { Share2, Copy, Check, FileDown, BookOpen, Loader2, Printer, Link2 } from "lucide-react";
 import { Header } from "@/app/components/common/Header";
+import { downloadBlob } from "@/app/utils/download";
+import { PrintOrderDialog } from "@/app/features/story/components/story/PrintOrderDialog";
+import { ShareLinksDialog } from "@/app/features/story/components/story/ShareLinksDialog";
 
 export default function StoryPageComponent() {
   const { storyId, kidId } = useParams();
@@ -32,6 +35,9 @@ export default function StoryPageComponent() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
+  const [exporting, setExporting] = useState<"pdf" | "epub" | null>(null);
+  const [printOrderOpen, setPrintOrderOpen] = useState(false);
+  const [shareLinksOpen, setShareLinksOpen] = useState(false);
   const storyPageRefs = useRef<Record<string, StoryPageCardHandle | null>>({});
   const autoGenerateTriggered = useRef(false);
 
@@ -181,6 +187,31 @@ export default function StoryPageComponent() {
     }
   };
 
+  // Handler for downloading the print-ready PDF or the EPUB book
+  const handleDownload = async (format: "pdf" | "epub") => {
+    if (!story) return;
+
+    setExporting(format);
+    try {
+      const response = format === "pdf"
+        ? await StoryApi.exportStoryPdf(story.id)
+        : await StoryApi.exportStoryEpub(story.id);
+      if (!response.success || !response.data) {
+        throw new Error(response.success ? t.storyExport.exportFailed : response.error);
+      }
+      downloadBlob(response.data, `${story.title || "story"}.${format}`);
+    } catch (error) {
+      console.error(`Error exporting story ${format.toUpperCase()}:`, error);
+      toast({
+        title: t.storyExport.exportFailed,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
   // Handler for saving story to server
   const handleSaveStory = async (updatedStory: Story) => {
     if (!currentUser) {
@@ -265,6 +296,8 @@ export default function StoryPageComponent() {
 
   const isMissingImages =
     currentUser && kid && story.pages.some((page) => !page.selectedImageUrl);
+  const isOwner =
+    !!currentUser && (story.accountId === currentUser.uid || story.userId === currentUser.uid);
 
   return (
     <>
@@ -312,6 +345,40 @@ export default function StoryPageComponent() {
                 {copied ? <Check size={18} /> : <Copy size={18} />}
                 {copied ? `${t.story.linkCopied}` : `${t.story.copyLink}`}
               </button>
+              {isOwner && (
+                <>
+                  <button
+                    onClick={() => handleDownload("pdf")}
+                    disabled={exporting !== null}
+                    className="px-6 py-2 rounded-md bg-amber-500 text-white font-bold hover:bg-amber-600 transition-colors shadow-md flex items-center gap-2 disabled:opacity-70"
+                  >
+                    {exporting === "pdf" ? <Loader2 size={18} className="animate-spin" /> : <FileDown size={18} />}
+                    {exporting === "pdf" ? t.storyExport.exportingPdf : t.storyExport.downloadPdf}
+                  </button>
+                  <button
+                    onClick={() => handleDownload("epub")}
+                    disabled={exporting !== null}
+                    className="px-6 py-2 rounded-md bg-sky-500 text-white font-bold hover:bg-sky-600 transition-colors shadow-md flex items-center gap-2 disabled:opacity-70"
+                  >
+                    {exporting === "epub" ? <Loader2 size={18} className="animate-spin" /> : <BookOpen size={18} />}
+                    {exporting === "epub" ? t.storyExport.exportingEpub : t.storyExport.downloadEpub}
+                  </button>
+                  <button
+                    onClick={() => setPrintOrderOpen(true)}
+                    className="px-6 py-2 rounded-md bg-pink-500 text-white font-bold hover:bg-pink-600 transition-colors shadow-md flex items-center gap-2"
+                  >
+                    <Printer size={18} />
+                    {t.printOrder.orderPrintedBook}
+                  </button>
+                  <button
+                    onClick={() => setShareLinksOpen(true)}
+                    className="px-6 py-2 rounded-md bg-teal-600 text-white font-bold hover:bg-teal-700 transition-colors shadow-md flex items-center gap-2"
+                  >
+                    <Link2 size={18} />
+                    {t.shareLinks.publicLink}
+                  </button>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -365,6 +432,21 @@ export default function StoryPageComponent() {
           ))}
         </div>
       </div>
+
+      {isOwner && (
+        <>
+          <PrintOrderDialog
+            story={story}
+            isOpen={printOrderOpen}
+            onOpenChange={setPrintOrderOpen}
+          />
+          <ShareLinksDialog
+            story={story}
+            isOpen={shareLinksOpen}
+            onOpenChange={setShareLinksOpen}
+          />
+        </>
+      )}
     </>
   );
 }
@@ -1,13 +1,89 @@
-import { Story, PageType } from '@/models';
+import { Story, StoryPage, PageType, StoryGraphChoice, StoryGraphNode } from '@/models';
+
+/**
+ * A choice of a decision point, with the pages it uses
+ */
+export interface StoryDecisionChoice {
+  choice: StoryGraphChoice;
+  choicePage?: StoryPage;
+  targetPage?: StoryPage;
+}
+
+/**
+ * A decision point of a story - the page before the choice and the available choices
+ */
+export interface StoryDecision {
+  nodeId: string;
+  page?: StoryPage;
+  choices: StoryDecisionChoice[];
+}
+
+/**
+ * Lists the decision points of a branching story in reading order (breadth first from the start)
+ * @param story The story to read the decisions from
+ * @returns The decisions, or an empty array for flat stories
+ */
+export const getStoryDecisions = (story: Story | null): StoryDecision[] => {
+  if (!story || !story.graph || !Story.isBranching(story)) return [];
+
+  const { nodes, startNodeId } = story.graph;
+  const decisions: StoryDecision[] = [];
+  const visited = new Set<string>();
+  const queue: string[] = [startNodeId];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (visited.has(nodeId)) continue;
+    visited.add(nodeId);
+
+    const node: StoryGraphNode | undefined = nodes[nodeId];
+    if (!node) continue;
+
+    if (node.choices && node.choices.length > 0) {
+      decisions.push({
+        nodeId,
+        page: story.pages[node.pageNum],
+        choices: node.choices.map(choice => ({
+          choice,
+          choicePage: typeof choice.choicePageNum === 'number' ? story.pages[choice.choicePageNum] : undefined,
+          targetPage: nodes[choice.targetNodeId] ? story.pages[nodes[choice.targetNodeId].pageNum] : undefined,
+        })),
+      });
+      queue.push(...node.choices.map(choice => choice.targetNodeId));
+    } else if (node.next) {
+      queue.push(node.next);
+    }
+  }
+
+  return decisions;
+};
 
 /**
  * Extracts the story choices (good/bad) from a story
+ * For branching stories the good/bad fields describe the first decision point
+ * and `decisions` lists every decision point
  * @param story The story to extract choices from
  * @returns An object containing the good and bad choice pages or null
  */
 export const extractStoryChoices = (story: Story | null) => {
   if (!story) return null;
-  
+
+  const decisions = getStoryDecisions(story);
+
+  if (decisions.length > 0) {
+    const firstDecision = decisions[0];
+    const good = firstDecision.choices.find(c => c.choice.kind === 'good') || firstDecision.choices[0];
+    const bad = firstDecision.choices.find(c => c.choice.kind === 'bad') || firstDecision.choices[1];
+
+    return {
+      goodChoice: good?.choicePage,
+      badChoice: bad?.choicePage,
+      goodPage: good?.targetPage,
+      badPage: bad?.targetPage,
+      decisions
+    };
+  }
+
   // Find good and bad choices from the normalized story
   const goodChoice = story.pages.find(choice => choice.pageType === PageType.GOOD_CHOICE);
   const badChoice = story.pages.find(choice => choice.pageType === PageType.BAD_CHOICE);
@@ -15,11 +91,12 @@ export const extractStoryChoices = (story: Story | null) => {
   // Get page content
   const goodPage = story.pages.find(page => page.pageType === PageType.GOOD);
   const badPage = story.pages.find(page => page.pageType === PageType.BAD);
-  
+
   return {
     goodChoice,
     badChoice,
     goodPage,
-    badPage
+    badPage,
+    decisions
   };
-}; 
\ No newline at end of file
+};
@@ -205,9 +205,21 @@ export const enTranslations: Translation = {
       sharing: "Sharing...",
       cancel: "Cancel",
       alreadyShared: "Kid is already shared with this email",
-      shareSuccess: "Kid shared with {email}",
+      shareSuccess: "Invitation sent to {email}",
       shareError: "Failed to share kid",
       invalidEmail: "Please enter a valid email address",
+      permissionLabel: "Permission",
+      permissionRead: "Can view",
+      permissionWrite: "Can edit",
+      sharedWithTitle: "Shared with",
+      notShared: "Not shared with anyone yet",
+      remove: "Remove",
+      removeSuccess: "{email} no longer has access",
+      removeError: "Failed to remove access",
+      updateError: "Failed to change the permission",
+      loadError: "Failed to load who this kid is shared with",
+      pending: "Invited",
+      emailFailed: "The invitation was saved but its email could not be sent, try inviting again",
     },
     toasts: {
       analysisCompleteTitle: "Analysis Complete",
@@ -238,6 +250,13 @@ export const enTranslations: Translation = {
     generateStory: "Generate Story",
     male: "Male",
     female: "Female",
+    generationFailed: "Story generation stopped",
+    resumeGeneration: "Resume",
+    resumingGeneration: "Resuming story generation...",
+    resumeGenerationFailed: "Failed to resume story generation",
+    awaitingCharacterReview: "Characters are ready for review",
+    needsReview: "This story is being reviewed for safety",
+    reviewCharacters: "Review",
   },
   quickGenerateDialog: {
     add: "Add",
@@ -252,6 +271,10 @@ export const enTranslations: Translation = {
     disadvantagesPlaceholder: "Describe disadvantages (optional)",
     inputRequiredTitle: "Input Required",
     inputRequiredDescription: "Please enter a problem for the story",
+    decisionPointsLabel: "Decision points",
+    singleDecision: "One decision (classic story)",
+    multipleDecisions: "{count} decisions (branching story)",
+    reviewCharactersLabel: "Review the characters before the illustrations are drawn",
     progressDialog: {
       title: "Generating Story",
       description: "This might take a few minutes. Please don't close this window.",
@@ -279,8 +302,182 @@ export const enTranslations: Translation = {
         default:
           return String(type);
       }
+    },
+    regenerateText: "Rewrite text",
+    regenerateInstructionPlaceholder: "Optional: what should change? (e.g. \"make it funnier\")",
+    regeneratingText: "Rewriting...",
+    regenerateTextFailed: "Failed to rewrite the page text",
+    uploadNarration: "Upload your own narration",
+    uploadingNarration: "Uploading narration...",
+    narrationUploaded: "Your narration was added to the page",
+    uploadNarrationFailed: "Failed to upload the narration",
+    unsupportedAudio: "Please choose an MP3, WAV, M4A, WebM or OGG file up to 5 MB"
+  },
+  storyExport: {
+    turnToPage: (page: number) => `Turn to page ${page}`,
+    theEnd: "The End",
+    downloadPdf: "Download PDF",
+    exportingPdf: "Preparing PDF...",
+    downloadEpub: "Download EPUB",
+    exportingEpub: "Preparing EPUB...",
+    exportFailed: "Failed to export the story"
+  },
+  printOrder: {
+    orderPrintedBook: "Order printed book",
+    title: "Order a printed book",
+    description: "A square 8.5 inch book of this story, printed and shipped to your door.",
+    format: "Format",
+    formats: {
+      hardcover: "Hardcover",
+      softcover: "Softcover"
+    },
+    quantity: "Copies",
+    shippingAddress: "Shipping address",
+    fullName: "Full name",
+    addressLine1: "Street and number",
+    addressLine2: "Apartment, floor (optional)",
+    city: "City",
+    region: "State or district (optional)",
+    postalCode: "Postal code",
+    countryCode: "Country code (e.g. IL)",
+    books: (quantity: number) => quantity === 1 ? "1 book" : `${quantity} books`,
+    shipping: "Shipping",
+    total: "Total",
+    continueToPayment: "Continue to payment",
+    back: "Back",
+    invalidDetails: "Please check the order details",
+    orderFailed: "The order could not be completed",
+    paymentsUnavailable: "Payments are not available right now"
+  },
+  credits: {
+    title: "Story credits",
+    description: "Each new story uses one credit. If a story fails, its credit is returned automatically.",
+    balance: (count: number) => count === 1 ? "1 credit" : `${count} credits`,
+    unlimited: "Unlimited stories",
+    buyCredits: "Buy credits",
+    buyTitle: "Buy story credits",
+    buyDescription: "Choose a pack and pay with PayPal. The credits are added as soon as the payment goes through.",
+    pack: (credits: number) => `${credits} stories`,
+    purchaseSuccess: (credits: number) => `${credits} credits were added to your account`,
+    purchaseFailed: "The purchase could not be completed",
+    paymentsUnavailable: "Payments are not available right now",
+    insufficientTitle: "Out of credits",
+    insufficientMessage: "You have {balance} credits left and a story needs {required}. Buy more credits from the dashboard.",
+    history: "Recent activity",
+    noHistory: "No activity yet",
+    entryTypes: {
+      purchase: "Purchase",
+      grant: "Gift",
+      consumption: "Story",
+      refund: "Refund"
+    }
+  },
+  promoCode: {
+    label: "Promo code",
+    placeholder: "Enter a code",
+    apply: "Apply",
+    remove: "Remove",
+    applied: (percentOff: number) => `${percentOff}% off`,
+    discount: "Discount",
+    redeemTitle: "Have a gift code?",
+    redeem: "Redeem",
+    redeemed: (credits: number) => `${credits} credits were added to your account`,
+    failed: "The code could not be checked, please try again",
+    rejected: {
+      not_found: "This code does not exist",
+      inactive: "This code is no longer active",
+      expired: "This code has expired",
+      exhausted: "This code has been used up",
+      already_redeemed: "You already used this code",
+      wrong_type: "This code cannot be used here"
+    }
+  },
+  shareLinks: {
+    publicLink: "Public link",
+    title: "Public links",
+    description: "Anyone with the link can read this story without signing in. Your kid's photo and your account details stay private.",
+    expiry: "Link expires after",
+    never: "Never",
+    days: (days: number) => days === 1 ? "1 day" : `${days} days`,
+    passcode: "Passcode (optional)",
+    passcodePlaceholder: "At least 8 characters",
+    create: "Create link",
+    createFailed: "The link could not be created, please try again",
+    loadFailed: "The links could not be loaded",
+    copy: "Copy link",
+    copied: "Link copied",
+    revoke: "Revoke",
+    revokeFailed: "The link could not be revoked, please try again",
+    revoked: "Revoked",
+    expired: "Expired",
+    expires: (date: string) => `Expires ${date}`,
+    views: (count: number) => count === 1 ? "1 view" : `${count} views`,
+    withPasscode: "Passcode",
+    noLinks: "No public links yet",
+    passcodeTitle: "This story is protected",
+    passcodePrompt: "Enter the passcode you got with the link",
+    open: "Open story",
+    unavailable: {
+      not_found: "This link does not exist",
+      revoked: "This link was turned off by the story's owner",
+      expired: "This link has expired",
+      passcode_required: "This story needs a passcode",
+      wrong_passcode: "The passcode is not correct",
+      too_many_attempts: "Too many wrong passcodes, please try again tomorrow"
     }
   },
+  shareInvitations: {
+    inboxTitle: "Invitations",
+    pageTitle: "Story invitation",
+    invitedBy: (name: string, kidName: string) => `${name} invited you to the stories of ${kidName}`,
+    permissions: {
+      read: "You will be able to read the stories",
+      write: "You will be able to read and create stories"
+    },
+    expires: (date: string) => `Expires on ${date}`,
+    accept: "Accept",
+    decline: "Decline",
+    accepted: "Invitation accepted",
+    declined: "Invitation declined",
+    respondFailed: "Failed to answer the invitation",
+    signInToRespond: (email: string) => `Sign in as ${email} to answer the invitation`,
+    signIn: "Sign in",
+    goToDashboard: "Go to dashboard",
+    unavailable: {
+      not_found: "This invitation does not exist",
+      expired: "This invitation has expired, ask for a new one",
+      already_responded: "This invitation was already answered",
+      wrong_account: "This invitation was sent to another email, sign in with that email to answer it"
+    }
+  },
+  quota: {
+    limitReachedTitle: "Limit reached",
+    kidsLimitReached: "You have reached the maximum of {limit} kids for your account.",
+    storiesLimitReached: "You have reached the maximum of {limit} stories for this kid.",
+  },
+  rateLimit: {
+    title: "Daily limit reached",
+    tryAgainIn: "You have used today's AI generations. Please try again in {time}.",
+    minutes: "{count} minutes",
+    hours: "{count} hours",
+  },
+  moderation: {
+    title: "We can't create this story",
+    selfHarm: "The description mentions self-harm. That is too serious for a story, please talk to a doctor or a mental health professional about it. If a child is in danger, contact your local emergency services.",
+    unsafe: "The description includes content that isn't suitable for a children's story. Please rephrase it and try again.",
+  },
+  characterBible: {
+    title: "Story Characters",
+    description: "These descriptions are used for every illustration, so each character looks the same on every page.",
+    nameLabel: "Name",
+    roleLabel: "Role",
+    appearanceLabel: "Appearance",
+    addCharacter: "Add character",
+    removeCharacter: "Remove character",
+    saveAndContinue: "Save and draw illustrations",
+    saving: "Saving...",
+    saveFailed: "Failed to save the characters",
+  },
   gallery: {
     title: "Library",
     selectKid: "Select a kid to view their stories",
@@ -328,7 +525,16 @@ export const enTranslations: Translation = {
     startReading: "Start Reading",
     gallery: "Library",
     rotateDevice: "Rotate your device",
-    rotateDeviceMessage: "For the best reading experience, please rotate your device to landscape. This helps us keep the story immersive on smaller screens."
+    rotateDeviceMessage: "For the best reading experience, please rotate your device to landscape. This helps us keep the story immersive on smaller screens.",
+    endingsFound: "Endings found: {found}/{total}",
+    allEndingsFound: "You found all the endings!",
+    backToLastDecision: "Back to the last choice",
+    playNarration: "Read to me",
+    pauseNarration: "Pause",
+    autoAdvance: "Turn pages automatically",
+    generateNarration: "Add narration",
+    generatingNarration: "Recording the narration...",
+    narrationFailed: "Could not create the narration",
   },
   common: {
     loading: "Loading...",
@@ -403,7 +609,7 @@ export const enTranslations: Translation = {
   },
   successOrder: {
     thankYou: "Thank You for Your Order!",
-    generatingMessage: "We're generating your custom storybook now. You'll receive an email when it's ready.",
+    generatingMessage: "Your book is on its way to the printer. We'll let you know when it ships.",
     orderId: "Order ID:",
     returnHome: "Return Home",
   },
@@ -205,9 +205,21 @@ export const heTranslations: Translation = {
       sharing: "משתף...",
       cancel: "ביטול",
       alreadyShared: "הילד כבר משותף עם אימייל זה",
-      shareSuccess: "הילד שותף עם {email}",
+      shareSuccess: "ההזמנה נשלחה אל {email}",
       shareError: "שיתוף הילד נכשל",
       invalidEmail: "אנא הזן כתובת אימייל תקינה",
+      permissionLabel: "הרשאה",
+      permissionRead: "צפייה בלבד",
+      permissionWrite: "עריכה",
+      sharedWithTitle: "משותף עם",
+      notShared: "הילד עדיין לא שותף עם אף אחד",
+      remove: "הסר",
+      removeSuccess: "ל-{email} כבר אין גישה",
+      removeError: "הסרת הגישה נכשלה",
+      updateError: "שינוי ההרשאה נכשל",
+      loadError: "טעינת רשימת השיתופים נכשלה",
+      pending: "הוזמן",
+      emailFailed: "ההזמנה נשמרה אבל שליחת האימייל נכשלה, נסו להזמין שוב",
     },
     toasts: {
       analysisCompleteTitle: "הניתוח הושלם",
@@ -238,6 +250,13 @@ export const heTranslations: Translation = {
     generateStory: "יצירת סיפור",
     male: "זכר",
     female: "נקבה",
+    generationFailed: "יצירת הסיפור נעצרה",
+    resumeGeneration: "המשך",
+    resumingGeneration: "ממשיך ביצירת הסיפור...",
+    resumeGenerationFailed: "נכשל בהמשך יצירת הסיפור",
+    awaitingCharacterReview: "הדמויות מוכנות לבדיקה",
+    needsReview: "הסיפור נמצא בבדיקת בטיחות",
+    reviewCharacters: "בדיקה",
   },
   quickGenerateDialog: {
     add: "הוסף",
@@ -252,6 +271,10 @@ export const heTranslations: Translation = {
     disadvantagesPlaceholder: "תאר חסרונות (אופציונלי)",
     inputRequiredTitle: "נדרש קלט",
     inputRequiredDescription: "אנא הזן בעיה לסיפור",
+    decisionPointsLabel: "נקודות החלטה",
+    singleDecision: "החלטה אחת (סיפור רגיל)",
+    multipleDecisions: "{count} החלטות (סיפור מסתעף)",
+    reviewCharactersLabel: "בדיקת הדמויות לפני ציור האיורים",
     progressDialog: {
       title: "יוצר סיפור",
       description: "זה עשוי לקחת מספר דקות. אנא אל תסגור חלון זה.",
@@ -279,8 +302,182 @@ export const heTranslations: Translation = {
         default:
           return String(type);
       }
+    },
+    regenerateText: "כתיבה מחדש",
+    regenerateInstructionPlaceholder: "אופציונלי: מה לשנות? (למשל \"יותר מצחיק\")",
+    regeneratingText: "כותב מחדש...",
+    regenerateTextFailed: "כתיבת הטקסט מחדש נכשלה",
+    uploadNarration: "העלו הקראה משלכם",
+    uploadingNarration: "מעלה הקראה...",
+    narrationUploaded: "ההקראה שלכם נוספה לעמוד",
+    uploadNarrationFailed: "העלאת ההקראה נכשלה",
+    unsupportedAudio: "נא לבחור קובץ MP3, WAV, M4A, WebM או OGG עד 5MB"
+  },
+  storyExport: {
+    turnToPage: (page: number) => `המשיכו לעמוד ${page}`,
+    theEnd: "הסוף",
+    downloadPdf: "הורדת PDF",
+    exportingPdf: "מכין PDF...",
+    downloadEpub: "הורדת EPUB",
+    exportingEpub: "מכין EPUB...",
+    exportFailed: "ייצוא הסיפור נכשל"
+  },
+  printOrder: {
+    orderPrintedBook: "הזמנת ספר מודפס",
+    title: "הזמנת ספר מודפס",
+    description: "ספר מרובע בגודל 21.5 ס\"מ של הסיפור הזה, מודפס ונשלח עד הבית.",
+    format: "כריכה",
+    formats: {
+      hardcover: "כריכה קשה",
+      softcover: "כריכה רכה"
+    },
+    quantity: "עותקים",
+    shippingAddress: "כתובת למשלוח",
+    fullName: "שם מלא",
+    addressLine1: "רחוב ומספר",
+    addressLine2: "דירה, קומה (לא חובה)",
+    city: "עיר",
+    region: "מחוז (לא חובה)",
+    postalCode: "מיקוד",
+    countryCode: "קוד מדינה (למשל IL)",
+    books: (quantity: number) => quantity === 1 ? "ספר אחד" : `${quantity} ספרים`,
+    shipping: "משלוח",
+    total: "סה\"כ",
+    continueToPayment: "המשך לתשלום",
+    back: "חזרה",
+    invalidDetails: "נא לבדוק את פרטי ההזמנה",
+    orderFailed: "לא ניתן היה להשלים את ההזמנה",
+    paymentsUnavailable: "תשלומים אינם זמינים כרגע"
+  },
+  credits: {
+    title: "קרדיטים לסיפורים",
+    description: "כל סיפור חדש משתמש בקרדיט אחד. אם יצירת הסיפור נכשלת, הקרדיט מוחזר אוטומטית.",
+    balance: (count: number) => count === 1 ? "קרדיט אחד" : `${count} קרדיטים`,
+    unlimited: "סיפורים ללא הגבלה",
+    buyCredits: "קניית קרדיטים",
+    buyTitle: "קניית קרדיטים לסיפורים",
+    buyDescription: "בחרו חבילה ושלמו ב-PayPal. הקרדיטים נוספים מיד כשהתשלום עובר.",
+    pack: (credits: number) => `${credits} סיפורים`,
+    purchaseSuccess: (credits: number) => `${credits} קרדיטים נוספו לחשבון שלך`,
+    purchaseFailed: "לא ניתן היה להשלים את הרכישה",
+    paymentsUnavailable: "תשלומים אינם זמינים כרגע",
+    insufficientTitle: "נגמרו הקרדיטים",
+    insufficientMessage: "נשארו לך {balance} קרדיטים וסיפור דורש {required}. אפשר לקנות קרדיטים נוספים בלוח הבקרה.",
+    history: "פעילות אחרונה",
+    noHistory: "אין פעילות עדיין",
+    entryTypes: {
+      purchase: "רכישה",
+      grant: "מתנה",
+      consumption: "סיפור",
+      refund: "החזר"
+    }
+  },
+  promoCode: {
+    label: "קוד הטבה",
+    placeholder: "הזינו קוד",
+    apply: "החלה",
+    remove: "הסרה",
+    applied: (percentOff: number) => `${percentOff}% הנחה`,
+    discount: "הנחה",
+    redeemTitle: "יש לכם קוד מתנה?",
+    redeem: "מימוש",
+    redeemed: (credits: number) => `${credits} קרדיטים נוספו לחשבון שלך`,
+    failed: "לא ניתן היה לבדוק את הקוד, נסו שוב",
+    rejected: {
+      not_found: "הקוד הזה לא קיים",
+      inactive: "הקוד הזה כבר לא פעיל",
+      expired: "תוקף הקוד פג",
+      exhausted: "הקוד הזה כבר נוצל עד תומו",
+      already_redeemed: "כבר השתמשת בקוד הזה",
+      wrong_type: "אי אפשר להשתמש בקוד הזה כאן"
+    }
+  },
+  shareLinks: {
+    publicLink: "קישור ציבורי",
+    title: "קישורים ציבוריים",
+    description: "כל מי שיש לו את הקישור יכול לקרוא את הסיפור בלי להתחבר. התמונה של הילד ופרטי החשבון שלך נשארים פרטיים.",
+    expiry: "תוקף הקישור",
+    never: "ללא הגבלה",
+    days: (days: number) => days === 1 ? "יום אחד" : `${days} ימים`,
+    passcode: "קוד גישה (לא חובה)",
+    passcodePlaceholder: "לפחות 8 תווים",
+    create: "יצירת קישור",
+    createFailed: "לא ניתן היה ליצור את הקישור, נסו שוב",
+    loadFailed: "לא ניתן היה לטעון את הקישורים",
+    copy: "העתקת קישור",
+    copied: "הקישור הועתק",
+    revoke: "ביטול",
+    revokeFailed: "לא ניתן היה לבטל את הקישור, נסו שוב",
+    revoked: "בוטל",
+    expired: "פג תוקף",
+    expires: (date: string) => `בתוקף עד ${date}`,
+    views: (count: number) => count === 1 ? "צפייה אחת" : `${count} צפיות`,
+    withPasscode: "קוד גישה",
+    noLinks: "עדיין אין קישורים ציבוריים",
+    passcodeTitle: "הסיפור הזה מוגן",
+    passcodePrompt: "הזינו את קוד הגישה שקיבלתם עם הקישור",
+    open: "פתיחת הסיפור",
+    unavailable: {
+      not_found: "הקישור הזה לא קיים",
+      revoked: "בעל הסיפור ביטל את הקישור הזה",
+      expired: "תוקף הקישור פג",
+      passcode_required: "לסיפור הזה נדרש קוד גישה",
+      wrong_passcode: "קוד הגישה שגוי",
+      too_many_attempts: "יותר מדי ניסיונות שגויים, נסו שוב מחר"
+    }
+  },
+  shareInvitations: {
+    inboxTitle: "הזמנות",
+    pageTitle: "הזמנה לסיפורים",
+    invitedBy: (name: string, kidName: string) => `${name} הזמין/ה אותך לסיפורים של ${kidName}`,
+    permissions: {
+      read: "תוכלו לקרוא את הסיפורים",
+      write: "תוכלו לקרוא וליצור סיפורים"
+    },
+    expires: (date: string) => `בתוקף עד ${date}`,
+    accept: "אישור",
+    decline: "דחייה",
+    accepted: "ההזמנה אושרה",
+    declined: "ההזמנה נדחתה",
+    respondFailed: "מענה להזמנה נכשל",
+    signInToRespond: (email: string) => `התחברו בתור ${email} כדי לענות להזמנה`,
+    signIn: "התחברות",
+    goToDashboard: "ללוח הבקרה",
+    unavailable: {
+      not_found: "ההזמנה לא קיימת",
+      expired: "תוקף ההזמנה פג, בקשו הזמנה חדשה",
+      already_responded: "כבר ענית להזמנה הזו",
+      wrong_account: "ההזמנה נשלחה לאימייל אחר, התחברו עם האימייל הזה כדי לענות לה"
     }
   },
+  quota: {
+    limitReachedTitle: "הגעת למגבלה",
+    kidsLimitReached: "הגעת למספר המרבי של {limit} ילדים בחשבון שלך.",
+    storiesLimitReached: "הגעת למספר המרבי של {limit} סיפורים לילד זה.",
+  },
+  rateLimit: {
+    title: "הגעת למגבלה היומית",
+    tryAgainIn: "ניצלת את יצירות ה-AI של היום. אפשר לנסות שוב בעוד {time}.",
+    minutes: "{count} דקות",
+    hours: "{count} שעות",
+  },
+  moderation: {
+    title: "לא ניתן ליצור את הסיפור הזה",
+    selfHarm: "התיאור מזכיר פגיעה עצמית. זה נושא רציני מדי לסיפור, מומלץ לשוחח עליו עם רופא או איש מקצוע בתחום בריאות הנפש. אם ילד נמצא בסכנה, פנו מיד לשירותי החירום.",
+    unsafe: "התיאור כולל תוכן שאינו מתאים לסיפור ילדים. נסו לנסח אותו מחדש ולנסות שוב.",
+  },
+  characterBible: {
+    title: "דמויות הסיפור",
+    description: "התיאורים משמשים לכל האיורים, כך שכל דמות נראית אותו דבר בכל עמוד.",
+    nameLabel: "שם",
+    roleLabel: "תפקיד",
+    appearanceLabel: "מראה",
+    addCharacter: "הוספת דמות",
+    removeCharacter: "הסרת דמות",
+    saveAndContinue: "שמירה וציור האיורים",
+    saving: "שומר...",
+    saveFailed: "שמירת הדמויות נכשלה",
+  },
   gallery: {
     title: "ספריה",
     selectKid: "בחר ילד כדי לצפות בסיפורים שלו",
@@ -328,7 +525,16 @@ export const heTranslations: Translation = {
     startReading: "התחל לקרוא",
     gallery: "ספריה",
     rotateDevice: "סובבו את המכשיר",
-    rotateDeviceMessage: "לחוויית קריאה הטובה ביותר, אנא סובבו את המכשיר למצב אופקי. זה עוזר לנו לשמור על הסיפור סוחף במסכים קטנים יותר."
+    rotateDeviceMessage: "לחוויית קריאה הטובה ביותר, אנא סובבו את המכשיר למצב אופקי. זה עוזר לנו לשמור על הסיפור סוחף במסכים קטנים יותר.",
+    endingsFound: "סופים שנמצאו: {found}/{total}",
+    allEndingsFound: "מצאת את כל הסופים!",
+    backToLastDecision: "חזרה לבחירה האחרונה",
+    playNarration: "הקריאו לי",
+    pauseNarration: "השהיה",
+    autoAdvance: "דפדוף אוטומטי",
+    generateNarration: "הוספת הקראה",
+    generatingNarration: "מקליטים את ההקראה...",
+    narrationFailed: "לא ניתן ליצור את ההקראה",
   },
   common: {
     loading: "טוען...",
@@ -403,7 +609,7 @@ export const heTranslations: Translation = {
   },
   successOrder: {
     thankYou: "תודה על ההזמנה!",
-    generatingMessage: "אנחנו מייצרים את ספר הסיפורים המותאם אישית שלך כעת. תקבל אימייל כשהוא יהיה מוכן.",
+    generatingMessage: "הספר שלך נשלח לדפוס. נעדכן כשהוא יישלח אליך.",
     orderId: "מספר הזמנה:",
     returnHome: "חזור לדף הבית",
   },
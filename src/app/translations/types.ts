@@ -203,6 +203,18 @@ export interface Translation {
       shareSuccess: string;
       shareError: string;
       invalidEmail: string;
+      permissionLabel: string;
+      permissionRead: string;
+      permissionWrite: string;
+      sharedWithTitle: string;
+      notShared: string;
+      remove: string;
+      removeSuccess: string;
+      removeError: string;
+      updateError: string;
+      loadError: string;
+      pending: string;
+      emailFailed: string;
     };
     toasts: {
       analysisCompleteTitle: string;
@@ -233,6 +245,13 @@ export interface Translation {
     generateStory: string;
     male: string;
     female: string;
+    generationFailed: string;
+    resumeGeneration: string;
+    resumingGeneration: string;
+    resumeGenerationFailed: string;
+    awaitingCharacterReview: string;
+    needsReview: string;
+    reviewCharacters: string;
   };
   quickGenerateDialog: {
     add: string;
@@ -247,6 +266,10 @@ export interface Translation {
     disadvantagesPlaceholder: string;
     inputRequiredTitle: string;
     inputRequiredDescription: string;
+    decisionPointsLabel: string;
+    singleDecision: string;
+    multipleDecisions: string;
+    reviewCharactersLabel: string;
     progressDialog: {
       title: string;
       description: string;
@@ -258,6 +281,150 @@ export interface Translation {
   };
   storyPageCard: {
     title: (type: PageType) => string;
+    regenerateText: string;
+    regenerateInstructionPlaceholder: string;
+    regeneratingText: string;
+    regenerateTextFailed: string;
+    uploadNarration: string;
+    uploadingNarration: string;
+    narrationUploaded: string;
+    uploadNarrationFailed: string;
+    unsupportedAudio: string;
+  };
+  storyExport: {
+    turnToPage: (page: number) => string;
+    theEnd: string;
+    downloadPdf: string;
+    exportingPdf: string;
+    downloadEpub: string;
+    exportingEpub: string;
+    exportFailed: string;
+  };
+  printOrder: {
+    orderPrintedBook: string;
+    title: string;
+    description: string;
+    format: string;
+    formats: Record<'hardcover' | 'softcover', string>;
+    quantity: string;
+    shippingAddress: string;
+    fullName: string;
+    addressLine1: string;
+    addressLine2: string;
+    city: string;
+    region: string;
+    postalCode: string;
+    countryCode: string;
+    books: (quantity: number) => string;
+    shipping: string;
+    total: string;
+    continueToPayment: string;
+    back: string;
+    invalidDetails: string;
+    orderFailed: string;
+    paymentsUnavailable: string;
+  };
+  credits: {
+    title: string;
+    description: string;
+    balance: (count: number) => string;
+    unlimited: string;
+    buyCredits: string;
+    buyTitle: string;
+    buyDescription: string;
+    pack: (credits: number) => string;
+    purchaseSuccess: (credits: number) => string;
+    purchaseFailed: string;
+    paymentsUnavailable: string;
+    insufficientTitle: string;
+    insufficientMessage: string;
+    history: string;
+    noHistory: string;
+    entryTypes: Record<'purchase' | 'grant' | 'consumption' | 'refund', string>;
+  };
+  promoCode: {
+    label: string;
+    placeholder: string;
+    apply: string;
+    remove: string;
+    applied: (percentOff: number) => string;
+    discount: string;
+    redeemTitle: string;
+    redeem: string;
+    redeemed: (credits: number) => string;
+    failed: string;
+    rejected: Record<'not_found' | 'inactive' | 'expired' | 'exhausted' | 'already_redeemed' | 'wrong_type', string>;
+  };
+  shareLinks: {
+    publicLink: string;
+    title: string;
+    description: string;
+    expiry: string;
+    never: string;
+    days: (days: number) => string;
+    passcode: string;
+    passcodePlaceholder: string;
+    create: string;
+    createFailed: string;
+    loadFailed: string;
+    copy: string;
+    copied: string;
+    revoke: string;
+    revokeFailed: string;
+    revoked: string;
+    expired: string;
+    expires: (date: string) => string;
+    views: (count: number) => string;
+    withPasscode: string;
+    noLinks: string;
+    passcodeTitle: string;
+    passcodePrompt: string;
+    open: string;
+    unavailable: Record<'not_found' | 'revoked' | 'expired' | 'passcode_required' | 'wrong_passcode' | 'too_many_attempts', string>;
+  };
+  shareInvitations: {
+    inboxTitle: string;
+    pageTitle: string;
+    invitedBy: (name: string, kidName: string) => string;
+    permissions: Record<'read' | 'write', string>;
+    expires: (date: string) => string;
+    accept: string;
+    decline: string;
+    accepted: string;
+    declined: string;
+    respondFailed: string;
+    signInToRespond: (email: string) => string;
+    signIn: string;
+    goToDashboard: string;
+    unavailable: Record<'not_found' | 'expired' | 'already_responded' | 'wrong_account', string>;
+  };
+  quota: {
+    limitReachedTitle: string;
+    kidsLimitReached: string;
+    storiesLimitReached: string;
+  };
+  rateLimit: {
+    title: string;
+    tryAgainIn: string;
+    minutes: string;
+    hours: string;
+  };
+  moderation: {
+    title: string;
+    selfHarm: string;
+    unsafe: string;
+  };
+  characterBible: {
+    title: string;
+    description: string;
+    nameLabel: string;
+    roleLabel: string;
+    appearanceLabel: string;
+    addCharacter: string;
+    removeCharacter: string;
+    saveAndContinue: string;
+    saving: string;
+    saveFailed: string;
   };
   gallery: {
     title: string;
@@ -307,6 +474,15 @@ export interface Translation {
     gallery: string;
     rotateDevice: string;
     rotateDeviceMessage: string;
+    endingsFound: string;
+    allEndingsFound: string;
+    backToLastDecision: string;
+    playNarration: string;
+    pauseNarration: string;
+    autoAdvance: string;
+    generateNarration: string;
+    generatingNarration: string;
+    narrationFailed: string;
   };
   common: {
     loading: string;
@@ -0,0 +1,220 @@
+import { NextRequest } from 'next/server';
+import firestoreServerService from '@/app/services/firestore.server';
+import { RemoteConfigService } from '@/app/services/remote-config.service';
+import { verifyAuthHeader } from '@/app/utils/auth-helpers';
+import { getRetryAfterSeconds, slideWindow } from '@/app/utils/rate-limit';
+import { KidDetails, Story } from '@/models';
+import { authorizeKidAccess, checkRateLimit, getClientIp, RouteAuth, withAuth } from '../api-helpers';
+
+jest.mock('@sentry/nextjs', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('@/app/services/firestore.server', () => ({
+  __esModule: true,
+  default: {
+    isReady: jest.fn(() => true),
+    getInitializationError: jest.fn(),
+    getAccountByUid: jest.fn(),
+    getKid: jest.fn(),
+    getStoryById: jest.fn(),
+    getKidSharePermission: jest.fn(),
+    recordRateLimitHit: jest.fn(),
+  },
+}));
+
+jest.mock('@/app/services/remote-config.service', () => ({
+  RemoteConfigService: { getNumber: jest.fn() },
+}));
+
+jest.mock('@/app/utils/auth-helpers', () => ({
+  verifyAuthHeader: jest.fn(),
+}));
+
+const firestore = firestoreServerService as jest.Mocked<typeof firestoreServerService>;
+const remoteConfig = RemoteConfigService as jest.Mocked<typeof RemoteConfigService>;
+const verifyToken = verifyAuthHeader as jest.MockedFunction<typeof verifyAuthHeader>;
+
+const PROXY_HOP = '203.0.113.7';
+
+function routeAuth(uid: string, email: string | null = null): RouteAuth {
+  return { uid, email, account: null, authHeader: 'Bearer token', accountIds: [uid] };
+}
+
+const kid = { id: 'kid1', accountId: 'owner' } as KidDetails;
+
+describe('API helpers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getClientIp', () => {
+    const request = (headers: Record<string, string>) => new NextRequest('http://localhost/api/ai-bots/generate-image', { headers });
+
+    it('should use the entry the proxy appended to x-forwarded-for', () => {
+      expect(getClientIp(request({ 'x-forwarded-for': `1.1.1.1, ${PROXY_HOP}` }))).toBe(PROXY_HOP);
+      expect(getClientIp(request({ 'x-forwarded-for': PROXY_HOP }))).toBe(PROXY_HOP);
+      expect(getClientIp(request({ 'x-real-ip': PROXY_HOP }))).toBe(PROXY_HOP);
+      expect(getClientIp(request({}))).toBeNull();
+    });
+
+    it('should not change when the client spoofs x-forwarded-for', () => {
+      const spoofed = ['1.1.1.1', '2.2.2.2, 3.3.3.3', 'not-an-ip'].map(value =>
+        getClientIp(request({ 'x-forwarded-for': `${value}, ${PROXY_HOP}` })));
+
+      expect(spoofed).toEqual([PROXY_HOP, PROXY_HOP, PROXY_HOP]);
+    });
+  });
+
+  describe('withAuth', () => {
+    const handler = jest.fn(async (_req: NextRequest, auth: RouteAuth) => Response.json({ accountIds: auth.accountIds }));
+    const story = { id: 'story1', kidId: kid.id, accountId: 'owner', userId: 'owner' } as Story;
+
+    const send = (uid: string, body: object, options: Parameters<typeof withAuth>[1] = {}) => {
+      verifyToken.mockResolvedValue({ uid, email: `${uid}@example.com` } as Awaited<ReturnType<typeof verifyAuthHeader>>);
+      const req = new NextRequest('http://localhost/api/story', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer token', 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      return withAuth(handler, options)(req, undefined);
+    };
+
+    beforeEach(() => {
+      firestore.getAccountByUid.mockResolvedValue(null);
+      firestore.getKid.mockImplementation(async kidId => (kidId === kid.id ? kid : null));
+      firestore.getStoryById.mockImplementation(async storyId => (storyId === story.id ? story : null));
+      firestore.getKidSharePermission.mockImplementation(async (_kidId, email) => (email === 'writer@example.com' ? 'write' : null));
+    });
+
+    it('should reject a request without a valid token', async () => {
+      verifyToken.mockResolvedValue(null);
+      const req = new NextRequest('http://localhost/api/story', { method: 'POST', body: '{}' });
+
+      expect((await withAuth(handler)(req, undefined)).status).toBe(401);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject the account ID of another account', async () => {
+      const response = await send('stranger', { accountId: 'owner' });
+
+      expect(response.status).toBe(403);
+      expect((await response.json()).details).toEqual({ field: 'accountId' });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject a kid or story of an account it is not shared with, at any depth of the body', async () => {
+      expect((await send('stranger', { kid: { id: kid.id } })).status).toBe(403);
+      expect((await send('stranger', { additionalParams: { storyId: story.id } })).status).toBe(403);
+      expect((await send('stranger', { kidId: 'missing' })).status).toBe(404);
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should reject a storage folder outside the account', async () => {
+      expect((await send('stranger', { folderPath: 'uploads/owner/kid1' })).status).toBe(403);
+      expect((await send('stranger', { folderPath: 'uploads/stranger/../owner' })).status).toBe(403);
+      expect((await send('stranger', { folderPath: 'uploads/stranger/kid1' })).status).toBe(200);
+    });
+
+    it('should accept the owner ID from a shared editor only on routes with allowOwnerIds', async () => {
+      expect((await send('writer', { storyId: story.id, accountId: 'owner' })).status).toBe(403);
+
+      const response = await send('writer', { storyId: story.id, accountId: 'owner' }, { allowOwnerIds: true });
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).accountIds).toEqual(['writer', 'owner']);
+    });
+
+    it('should not accept an owner ID unrelated to the kid or story of the request', async () => {
+      const response = await send('writer', { storyId: story.id, accountId: 'someone-else' }, { allowOwnerIds: true });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('authorizeKidAccess', () => {
+    const req = new NextRequest('http://localhost/api/user/kid');
+
+    beforeEach(() => {
+      firestore.getKid.mockImplementation(async kidId => (kidId === kid.id ? kid : null));
+      firestore.getKidSharePermission.mockImplementation(async (_kidId, email) =>
+        ({ 'reader@example.com': 'read', 'writer@example.com': 'write' } as const)[email as 'reader@example.com'] || null);
+    });
+
+    it('should grant the owner every access', async () => {
+      const grant = await authorizeKidAccess(req, routeAuth('owner'), { kidId: kid.id }, 'owner');
+
+      expect(grant).toEqual({ uid: 'owner', email: null, kid, access: 'owner' });
+      expect(firestore.getKidSharePermission).not.toHaveBeenCalled();
+    });
+
+    it('should reject an account the kid is not shared with', async () => {
+      const response = await authorizeKidAccess(req, routeAuth('stranger', 'stranger@example.com'), { kidId: kid.id }, 'read');
+
+      expect((response as Response).status).toBe(403);
+    });
+
+    it('should let a read share read but not write', async () => {
+      const reader = routeAuth('reader', 'reader@example.com');
+
+      expect(await authorizeKidAccess(req, reader, { kidId: kid.id }, 'read')).toMatchObject({ access: 'read' });
+      expect(((await authorizeKidAccess(req, reader, { kidId: kid.id }, 'write')) as Response).status).toBe(403);
+    });
+
+    it('should let a write share write but not act as the owner', async () => {
+      const writer = routeAuth('writer', 'writer@example.com');
+      const story = { id: 'story1', kidId: kid.id, accountId: 'owner', userId: 'owner' } as Story;
+
+      expect(await authorizeKidAccess(req, writer, { story }, 'write')).toMatchObject({ access: 'write' });
+      expect(((await authorizeKidAccess(req, writer, { kidId: kid.id }, 'owner')) as Response).status).toBe(403);
+    });
+
+    it('should answer 404 for a missing kid', async () => {
+      const response = await authorizeKidAccess(req, routeAuth('owner'), { kidId: 'missing' }, 'read');
+
+      expect((response as Response).status).toBe(404);
+    });
+  });
+
+  describe('checkRateLimit', () => {
+    const counters = new Map<string, number[]>();
+
+    beforeEach(() => {
+      counters.clear();
+      const config: Record<string, number> = { max_ai_requests_per_day: 2, rate_limit_ip_multiplier: 1 };
+      remoteConfig.getNumber.mockImplementation(async key => config[key] ?? 0);
+      firestore.getAccountByUid.mockResolvedValue(null);
+      // Same window logic as the Firestore transaction
+      firestore.recordRateLimitHit.mockImplementation(async (requested, now) => {
+        const windows = requested.map(counter => slideWindow(counters.get(counter.key), now));
+        for (let i = 0; i < requested.length; i++) {
+          const retryAfter = getRetryAfterSeconds(windows[i], requested[i].limit, now);
+          if (retryAfter !== null) {
+            return { limit: requested[i].limit, retryAfter };
+          }
+        }
+        requested.forEach((counter, i) => counters.set(counter.key, [...windows[i], now]));
+        return null;
+      });
+    });
+
+    it('should keep limiting an IP that spoofs x-forwarded-for from new accounts', async () => {
+      const check = (spoofedIp: string, uid: string) => checkRateLimit(
+        new NextRequest('http://localhost/api/ai-bots/generate-image', {
+          method: 'POST',
+          headers: { 'x-forwarded-for': `${spoofedIp}, ${PROXY_HOP}` },
+        }),
+        routeAuth(uid),
+        'ai_requests'
+      );
+
+      expect(await check('1.1.1.1', 'account-1')).toBeNull();
+      expect(await check('2.2.2.2', 'account-2')).toBeNull();
+      const blocked = await check('3.3.3.3', 'account-3');
+
+      expect(blocked?.status).toBe(429);
+      expect(blocked?.headers.get('Retry-After')).toBeTruthy();
+      expect(Array.from(counters.keys()).filter(key => key.startsWith('ip_'))).toEqual([`ip_${PROXY_HOP}_ai_requests`]);
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { calculateRefundedCredits } from '../credits';
+
+describe('Credits', () => {
+  describe('calculateRefundedCredits', () => {
+    it('should take back credits in proportion to the amount refunded', () => {
+      expect(calculateRefundedCredits(15, '69.00', '0.00')).toBe(0);
+      expect(calculateRefundedCredits(15, '69.00', '23.00')).toBe(5);
+      expect(calculateRefundedCredits(15, '69.00', '34.50')).toBe(8);
+    });
+
+    it('should take back every credit once the whole total is refunded', () => {
+      expect(calculateRefundedCredits(15, '69.00', '69.00')).toBe(15);
+      expect(calculateRefundedCredits(15, '69.00', '80.00')).toBe(15);
+      expect(calculateRefundedCredits(15, '0.00', '0.00')).toBe(15);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import type { AdminAuditChange, AdminAuditEntry } from '@/models';
+
+/**
+ * Admin audit log
+ * Every change made from the admin panel is added to admin_audit_{environment} with who made it,
+ * what it changed and why. The log is append-only, the server never edits or deletes entries.
+ */
+
+export const ADMIN_AUDIT_REASON_MAX_LENGTH = 500;
+
+// Entries shown in the Activity tab and exported to CSV, newest first
+export const ADMIN_AUDIT_LIST_LIMIT = 200;
+export const ADMIN_AUDIT_EXPORT_LIMIT = 5000;
+
+// The optional reason an admin gives for an action, trimmed and cut to the maximum length
+export const normalizeAuditReason = (reason: unknown): string | null =>
+  typeof reason === 'string' && reason.trim() ? reason.trim().slice(0, ADMIN_AUDIT_REASON_MAX_LENGTH) : null;
+
+// Dates are stored as ISO strings and missing values as null, so they compare and export the same way
+function toAuditValue(value: unknown): unknown {
+  if (value === undefined || value === '') {
+    return null;
+  }
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * The fields that differ between two versions of a document
+ * A created document is compared with null, every field it sets is a change
+ */
+export function diffAuditFields<T extends object>(
+  before: T | null,
+  after: T,
+  fields: Array<keyof T & string>
+): Record<string, AdminAuditChange> {
+  const changes: Record<string, AdminAuditChange> = {};
+  for (const field of fields) {
+    const beforeValue = toAuditValue(before?.[field]);
+    const afterValue = toAuditValue(after[field]);
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes[field] = { before: beforeValue, after: afterValue };
+    }
+  }
+  return changes;
+}
+
+// Values starting with these run as formulas in spreadsheets
+const FORMULA_PREFIXES = ['=', '+', '-', '@'];
+
+function toCsvCell(value: unknown): string {
+  let text = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  if (FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = ['createdAt', 'action', 'actorUid', 'actorEmail', 'targetType', 'targetId', 'field', 'before', 'after', 'reason'];
+
+/**
+ * Audit entries as CSV, one row per changed field so the export can be filtered in a spreadsheet
+ * An entry without changes gets one row with empty field columns
+ */
+export function adminAuditToCsv(entries: AdminAuditEntry[]): string {
+  const rows = entries.flatMap(entry => {
+    const base = [new Date(entry.createdAt).toISOString(), entry.action, entry.actorUid, entry.actorEmail, entry.targetType, entry.targetId];
+    const changes = Object.entries(entry.changes);
+    if (changes.length === 0) {
+      return [[...base, null, null, null, entry.reason]];
+    }
+    return changes.map(([field, change]) => [...base, field, change.before, change.after, entry.reason]);
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(toCsvCell).join(',')).join('\r\n');
+}
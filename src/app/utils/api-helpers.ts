@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import * as Sentry from "@sentry/nextjs";
 import firestoreServerService from "@/app/services/firestore.server";
+import { QUOTA_EXCEEDED, QuotaExceededError } from "@/app/utils/quota";
+import { RATE_LIMITED, RateLimitAction, RateLimitedError } from "@/app/utils/rate-limit";
+import { PROMO_CODE_REJECTED, PromoCodeRejectedError } from "@/app/utils/promo-code";
+import { SHARE_LINK_UNAVAILABLE, ShareLinkUnavailableDetails, ShareLinkUnavailableReason } from "@/app/utils/story-share";
+import {
+  SHARE_INVITATION_UNAVAILABLE,
+  ShareInvitationUnavailableDetails,
+  ShareInvitationUnavailableReason
+} from "@/app/utils/share-invitation";
+import { getKidAccess, hasKidAccess, KidAccess } from "@/app/utils/kid-access";
+import { enforceRateLimit } from "@/app/services/rate-limit.server";
+import { verifyAuthHeader } from "@/app/utils/auth-helpers";
+import { Account, KidDetails, Story } from "@/models";
 
 /**
  * Checks if Firestore service is ready and returns an appropriate error response if not
@@ -32,3 +45,459 @@ export function checkFirestoreReady(req: NextRequest): NextResponse | null {
   return null;
 }
 
+/**
+ * Builds the response for a request that is over one of the account quotas
+ * The UI reads `error` and `details` with getQuotaExceededDetails
+ */
+export function quotaExceededResponse(error: QuotaExceededError): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: QUOTA_EXCEEDED,
+    message: error.message,
+    details: error.details
+  }, { status: 403 });
+}
+
+/**
+ * Builds the response for a request that is over one of the daily rate limits
+ * The UI reads `error` and `details.retryAfter` with getRateLimitedDetails
+ */
+export function rateLimitedResponse(error: RateLimitedError): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: RATE_LIMITED,
+    message: error.message,
+    details: error.details
+  }, {
+    status: 429,
+    headers: { 'Retry-After': String(error.details.retryAfter) }
+  });
+}
+
+/**
+ * Builds the response for a promo code that cannot be used
+ * The UI reads `error` and `details.reason` with getPromoCodeRejectedDetails
+ */
+export function promoCodeRejectedResponse(error: PromoCodeRejectedError): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: PROMO_CODE_REJECTED,
+    message: error.message,
+    details: error.details
+  }, { status: error.details.reason === 'not_found' ? 404 : 409 });
+}
+
+const SHARE_LINK_UNAVAILABLE_STATUS: Record<ShareLinkUnavailableReason, number> = {
+  not_found: 404,
+  revoked: 410,
+  expired: 410,
+  passcode_required: 403,
+  wrong_passcode: 403,
+  too_many_attempts: 429,
+};
+
+/**
+ * Builds the response for a share link that cannot be opened
+ * The shared reader reads `error` and `details.reason` with getShareLinkUnavailableDetails
+ */
+export function shareLinkUnavailableResponse(details: ShareLinkUnavailableDetails): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: SHARE_LINK_UNAVAILABLE,
+    message: `Share link unavailable: ${details.reason}`,
+    details
+  }, { status: SHARE_LINK_UNAVAILABLE_STATUS[details.reason] });
+}
+
+const SHARE_INVITATION_UNAVAILABLE_STATUS: Record<ShareInvitationUnavailableReason, number> = {
+  not_found: 404,
+  expired: 410,
+  already_responded: 409,
+  wrong_account: 403,
+};
+
+/**
+ * Builds the response for a share invitation that cannot be viewed or answered
+ * The client reads `error` and `details.reason` with getShareInvitationUnavailableDetails
+ */
+export function shareInvitationUnavailableResponse(details: ShareInvitationUnavailableDetails): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: SHARE_INVITATION_UNAVAILABLE,
+    message: `Share invitation unavailable: ${details.reason}`,
+    details
+  }, { status: SHARE_INVITATION_UNAVAILABLE_STATUS[details.reason] });
+}
+
+export interface KidAccessGrant {
+  uid: string;
+  email: string | null;
+  // Null only when the kid of an owned story was deleted
+  kid: KidDetails | null;
+  access: KidAccess;
+}
+
+/**
+ * Access of the signed in account to a kid, or to a story through its kid
+ */
+async function resolveKidAccess(
+  uid: string,
+  email: string | null,
+  kid: KidDetails | null,
+  story?: Story
+): Promise<KidAccess | null> {
+  const sharePermission = kid && email && kid.accountId !== uid
+    ? await firestoreServerService.getKidSharePermission(kid.id, email)
+    : null;
+  return getKidAccess(uid, kid, sharePermission, story);
+}
+
+/**
+ * Checks that the signed in account may act on a kid, or on a story through its kid
+ * Kid and story mutation routes go through here with the access they need, see src/app/utils/kid-access.ts
+ * @returns The account and its access, or the 403/404 response to send back
+ */
+export async function authorizeKidAccess(
+  req: NextRequest,
+  auth: RouteAuth,
+  target: { kidId: string } | { story: Story },
+  required: KidAccess
+): Promise<KidAccessGrant | NextResponse> {
+  const story = 'story' in target ? target.story : undefined;
+  const kidId = story ? story.kidId : (target as { kidId: string }).kidId;
+  const kid = kidId ? await firestoreServerService.getKid(kidId) : null;
+  if (!kid && !story) {
+    return NextResponse.json({
+      success: false,
+      error: "Kid not found"
+    }, { status: 404 });
+  }
+
+  const access = await resolveKidAccess(auth.uid, auth.email, kid, story);
+  if (!access || !hasKidAccess(access, required)) {
+    console.warn(`[API_AUTH] ${req.nextUrl.pathname}: ${auth.uid} has ${access || 'no'} access to kid ${kidId}, ${required} required`);
+    return NextResponse.json({
+      success: false,
+      error: "Forbidden",
+      message: required === 'owner' ? "Only the kid's owner can do this" : `${required} access to the kid required`
+    }, { status: 403 });
+  }
+  return { uid: auth.uid, email: auth.email, kid, access };
+}
+
+/**
+ * The signed in account a route runs for, injected by withAuth
+ */
+export interface RouteAuth {
+  uid: string;
+  email: string | null;
+  // Null until the account is saved with POST /api/account
+  account: Account | null;
+  // Forwarded when the route calls a function or another route for the account
+  authHeader: string;
+  // The account, and with allowOwnerIds the owners of the kids and stories named in the request
+  accountIds: string[];
+}
+
+interface WithAuthOptions {
+  // Routes of the admin panel: 'any' lets every account with a role in, 'admin' only the admin role.
+  // They act on other accounts, so the IDs of the request are not checked.
+  role?: 'any' | 'admin';
+  // Kid and story mutation routes: account IDs of the request may also name the owner of the kid or
+  // story the route acts on, such as a shared editor saving the owner's story. Everywhere else they
+  // must be the signed in account.
+  allowOwnerIds?: boolean;
+}
+
+type RouteHandler<A, C> = (req: NextRequest, auth: A, context: C) => Promise<Response>;
+
+// Request fields that name an account, a kid, a story or a storage folder of an account
+const ACCOUNT_ID_FIELDS = ['uid', 'accountId', 'userId'];
+const KID_ID_FIELDS = ['kidId'];
+const STORY_ID_FIELDS = ['storyId'];
+const STORAGE_FOLDER_FIELDS = ['folderPath'];
+
+interface RequestField {
+  name: string;
+  // Where it was found, e.g. additionalParams.kidId, sent back in the 403 details
+  path: string;
+  value: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The ID fields of the query, the route params and the JSON or form body
+ * Body objects are read one level down, such as the additionalParams of the ai-bots routes, and the
+ * id of a kid object is its kid ID
+ */
+async function readRequestFields(req: NextRequest, context: unknown): Promise<RequestField[]> {
+  const fields: RequestField[] = [];
+  const add = (name: string, path: string, value: unknown) => {
+    if (typeof value === 'string' && value) {
+      fields.push({ name, path, value });
+    }
+  };
+
+  req.nextUrl.searchParams.forEach((value, key) => add(key, key, value));
+
+  const params = isRecord(context) ? await context.params : null;
+  if (isRecord(params)) {
+    Object.entries(params).forEach(([key, value]) => add(key, key, value));
+  }
+
+  if (req.method === 'GET' || req.method === 'HEAD') {
+    return fields;
+  }
+
+  // The handler reads the body itself, so it is read here from a copy
+  const contentType = req.headers.get('content-type') || '';
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await req.clone().formData().catch(() => null);
+    formData?.forEach((value, key) => add(key, key, value));
+    return fields;
+  }
+
+  const body: unknown = await req.clone().json().catch(() => null);
+  if (isRecord(body)) {
+    Object.entries(body).forEach(([key, value]) => {
+      if (!isRecord(value)) {
+        add(key, key, value);
+        return;
+      }
+      Object.entries(value).forEach(([nestedKey, nestedValue]) => {
+        const name = key === 'kid' && nestedKey === 'id' ? 'kidId' : nestedKey;
+        add(name, `${key}.${nestedKey}`, nestedValue);
+      });
+    });
+  }
+  return fields;
+}
+
+function forbiddenFieldResponse(req: NextRequest, uid: string, field: RequestField, message: string): NextResponse {
+  console.warn(`[API_AUTH] ${req.nextUrl.pathname}: ${uid} sent ${field.path}=${field.value}, ${message}`);
+  return NextResponse.json({
+    success: false,
+    error: "Forbidden",
+    message,
+    details: { field: field.path }
+  }, { status: 403 });
+}
+
+/**
+ * Checks that the IDs of the request belong to the signed in account, or to a kid it has access to
+ * Account IDs name the account itself, or with allowOwnerIds also the owner of a kid or story of the
+ * request. Storage folders are {root}/{accountId}/... with one of those accounts
+ * @returns The accounts the request may refer to, or the 403/404 response to send back
+ */
+async function authorizeRequestIds(
+  req: NextRequest,
+  context: unknown,
+  uid: string,
+  email: string | null,
+  allowOwnerIds: boolean
+): Promise<string[] | NextResponse> {
+  const fields = await readRequestFields(req, context);
+  const accountIds = new Set([uid]);
+  // Kids of the stories are checked with the story, the kid of an owned story may be deleted
+  const storyKidIds = new Set<string>();
+
+  for (const field of fields.filter(({ name }) => STORY_ID_FIELDS.includes(name))) {
+    const story = await firestoreServerService.getStoryById(field.value);
+    if (!story) {
+      return NextResponse.json({
+        success: false,
+        error: "Story not found"
+      }, { status: 404 });
+    }
+    const kid = story.kidId ? await firestoreServerService.getKid(story.kidId) : null;
+    if (!await resolveKidAccess(uid, email, kid, story)) {
+      return forbiddenFieldResponse(req, uid, field, "No access to the story");
+    }
+    if (allowOwnerIds) {
+      [story.accountId, story.userId, kid?.accountId].forEach(id => id && accountIds.add(id));
+    }
+    storyKidIds.add(story.kidId);
+  }
+
+  for (const field of fields.filter(({ name }) => KID_ID_FIELDS.includes(name))) {
+    if (storyKidIds.has(field.value)) continue;
+    const kid = await firestoreServerService.getKid(field.value);
+    if (!kid) {
+      return NextResponse.json({
+        success: false,
+        error: "Kid not found"
+      }, { status: 404 });
+    }
+    if (!await resolveKidAccess(uid, email, kid)) {
+      return forbiddenFieldResponse(req, uid, field, "No access to the kid");
+    }
+    if (allowOwnerIds) {
+      accountIds.add(kid.accountId);
+    }
+  }
+
+  for (const field of fields.filter(({ name }) => ACCOUNT_ID_FIELDS.includes(name))) {
+    if (!accountIds.has(field.value)) {
+      return forbiddenFieldResponse(req, uid, field, allowOwnerIds ? "The account is not yours or shared with you" : "The account is not yours");
+    }
+  }
+
+  for (const field of fields.filter(({ name }) => STORAGE_FOLDER_FIELDS.includes(name))) {
+    const segments = field.value.split('/');
+    if (segments.some(segment => !segment || segment === '.' || segment === '..') || !accountIds.has(segments[1])) {
+      return forbiddenFieldResponse(req, uid, field, "The folder is not under your account");
+    }
+  }
+
+  return Array.from(accountIds);
+}
+
+function unauthorizedResponse(): NextResponse {
+  return NextResponse.json({
+    success: false,
+    error: "Unauthorized",
+    message: "Authentication required"
+  }, { status: 401 });
+}
+
+/**
+ * Resolves the signed in account of the request and checks its IDs, see authorizeRequestIds
+ */
+async function resolveRouteAuth(
+  req: NextRequest,
+  context: unknown,
+  options: WithAuthOptions
+): Promise<RouteAuth | NextResponse> {
+  const readyCheck = checkFirestoreReady(req);
+  if (readyCheck) return readyCheck;
+
+  const authHeader = req.headers.get('Authorization');
+  const decodedToken = await verifyAuthHeader(authHeader);
+  if (!authHeader || !decodedToken) {
+    return unauthorizedResponse();
+  }
+
+  const { uid } = decodedToken;
+  const email = decodedToken.email || null;
+  const account = await firestoreServerService.getAccountByUid(uid);
+
+  if (options.role) {
+    const hasRole = options.role === 'admin' ? account?.role === 'admin' : !!account?.role;
+    if (!hasRole) {
+      console.warn(`[API_AUTH] ${req.nextUrl.pathname}: ${uid} does not have the ${options.role === 'admin' ? 'admin' : 'a'} role`);
+      return NextResponse.json({
+        success: false,
+        error: "Forbidden",
+        message: options.role === 'admin' ? "Admin role required" : "Role required"
+      }, { status: 403 });
+    }
+    return { uid, email, account, authHeader, accountIds: [uid] };
+  }
+
+  const accountIds = await authorizeRequestIds(req, context, uid, email, !!options.allowOwnerIds);
+  if (accountIds instanceof NextResponse) return accountIds;
+  return { uid, email, account, authHeader, accountIds };
+}
+
+function authErrorResponse(req: NextRequest, error: unknown): NextResponse {
+  console.error(`[API_AUTH] ${req.nextUrl.pathname}: Failed to authorize the request:`, error);
+  Sentry.captureException(error, {
+    tags: {
+      api_endpoint: req.nextUrl.pathname,
+      method: req.method
+    }
+  });
+  return NextResponse.json({
+    success: false,
+    error: "Failed to authorize the request",
+    message: error instanceof Error ? error.message : "Unknown error"
+  }, { status: 500 });
+}
+
+/**
+ * Wraps a route handler that needs a signed in account
+ * Answers 401 without a valid token and 403/404 when a kid or story ID of the request does not belong
+ * to the account or to a kid shared with it, or an account or folder ID is not the account's (see
+ * allowOwnerIds), then runs the handler with the account.
+ *
+ * export const POST = withAuth(async (req, auth) => { ... });
+ */
+export function withAuth<C = unknown>(
+  handler: RouteHandler<RouteAuth, C>,
+  options: WithAuthOptions = {}
+): (req: NextRequest, context: C) => Promise<Response> {
+  return async (req, context) => {
+    let auth: RouteAuth | NextResponse;
+    try {
+      auth = await resolveRouteAuth(req, context, options);
+    } catch (error) {
+      return authErrorResponse(req, error);
+    }
+    if (auth instanceof NextResponse) return auth;
+    return handler(req, auth, context);
+  };
+}
+
+/**
+ * Wraps a route handler that also answers signed out requests, such as public links and webhooks
+ * The handler gets null without an Authorization header or with a token that is not valid,
+ * a signed in request is checked like withAuth
+ */
+export function withOptionalAuth<C = unknown>(
+  handler: RouteHandler<RouteAuth | null, C>
+): (req: NextRequest, context: C) => Promise<Response> {
+  return async (req, context) => {
+    let auth: RouteAuth | NextResponse | null = null;
+    try {
+      if (req.headers.get('Authorization') && firestoreServerService.isReady()) {
+        auth = await resolveRouteAuth(req, context, {});
+      }
+    } catch (error) {
+      return authErrorResponse(req, error);
+    }
+    if (auth instanceof NextResponse && auth.status !== 401) return auth;
+    return handler(req, auth instanceof NextResponse ? null : auth, context);
+  };
+}
+
+/**
+ * Client IP of the request, the last x-forwarded-for entry when behind the proxy
+ * The proxy appends the address it got the request from, the entries before it come from the
+ * client and are not trusted, so sending a different header does not change the per-IP limits
+ */
+export function getClientIp(req: NextRequest): string | null {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    const hops = forwardedFor.split(',').map(hop => hop.trim()).filter(Boolean);
+    return hops[hops.length - 1] || null;
+  }
+  return req.headers.get('x-real-ip');
+}
+
+/**
+ * Counts the request against the daily rate limit of the signed in account and of the client IP
+ * @returns A 429 response when the request is over the limit, null when it may continue
+ * Failures of the counter itself are reported and let the request through
+ */
+export async function checkRateLimit(req: NextRequest, auth: RouteAuth, action: RateLimitAction): Promise<NextResponse | null> {
+  try {
+    await enforceRateLimit(action, auth.uid, getClientIp(req));
+    return null;
+  } catch (error) {
+    if (error instanceof RateLimitedError) {
+      console.warn(`[API_RATE_LIMIT] ${req.nextUrl.pathname}: ${error.message}`);
+      return rateLimitedResponse(error);
+    }
+    console.error("[API_ERROR] Rate limit check failed:", error);
+    Sentry.captureException(error, {
+      tags: {
+        api_endpoint: req.nextUrl.pathname,
+        method: req.method
+      }
+    });
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Minimal bidirectional text ordering for drawing text without a layout engine (PDF export)
+ *
+ * Text is stored in logical order. Hebrew needs no shaping, so a line only has to be
+ * reordered: in a right-to-left line the runs are drawn from right to left, the letters of
+ * Hebrew runs are reversed, and Latin words and numbers keep their own left-to-right order.
+ * Neutral characters (spaces, punctuation) take the direction of the text around them.
+ */
+
+type Direction = 'rtl' | 'ltr';
+
+const HEBREW = /[\u0590-\u05FF\uFB1D-\uFB4F]/;
+const STRONG_LTR = /[\p{L}\p{N}]/u;
+
+// Brackets swap sides when drawn right to left
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<' };
+
+export const isRtlText = (text: string): boolean => HEBREW.test(text);
+
+const charDirection = (char: string): Direction | null => {
+  if (HEBREW.test(char[0])) return 'rtl';
+  if (STRONG_LTR.test(char[0])) return 'ltr';
+  return null;
+};
+
+/**
+ * Reorder one line from logical to visual (left to right drawing) order
+ * @param paragraphDirection - Direction of the paragraph the line belongs to
+ */
+export const toVisualOrder = (line: string, paragraphDirection: Direction): string => {
+  // Niqqud and other combining marks stay with their letter when a run is reversed
+  const chars = line.match(/\P{M}\p{M}*|\p{M}+/gu) || [];
+  const strong = chars.map(charDirection);
+
+  // Neutrals between two runs of the same direction join them, other neutrals follow the paragraph
+  const resolved = strong.map((direction, index) => {
+    if (direction) return direction;
+    const before = strong.slice(0, index).reverse().find(Boolean) || paragraphDirection;
+    const after = strong.slice(index + 1).find(Boolean) || paragraphDirection;
+    return before === after ? before : paragraphDirection;
+  });
+
+  const runs: Array<{ direction: Direction; text: string[] }> = [];
+  chars.forEach((char, index) => {
+    const last = runs[runs.length - 1];
+    if (last && last.direction === resolved[index]) {
+      last.text.push(char);
+    } else {
+      runs.push({ direction: resolved[index], text: [char] });
+    }
+  });
+
+  const visualRuns = runs.map(run =>
+    run.direction === 'rtl' ? run.text.reverse().map(char => MIRRORED[char] || char).join('') : run.text.join('')
+  );
+  return (paragraphDirection === 'rtl' ? visualRuns.reverse() : visualRuns).join('');
+};
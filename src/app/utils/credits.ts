@@ -0,0 +1,117 @@
+import type { Translation } from '@/app/translations/types';
+import { formatPrintAmount, parsePrintAmount, PRINT_CURRENCY } from './print-order';
+import { calculateDiscount } from './promo-code';
+
+/**
+ * Story credits
+ * Each generated story costs one credit. The ledger lives in credits_{env}/{accountId}: the
+ * Firebase functions reserve, consume and refund the credit of a generation
+ * (functions/src/lib/credits.ts mirrors this file), the payment routes add purchased packs.
+ * Accounts with a role (admins) are not charged.
+ */
+
+// Error code carried in the details of the functions error
+export const INSUFFICIENT_CREDITS = 'insufficient-credits';
+
+// Credits a new account starts with, granted when its balance is first used
+export const WELCOME_CREDITS = 3;
+
+export const STORY_CREDIT_COST = 1;
+
+export interface CreditPack {
+  id: string;
+  credits: number;
+  // Price in agorot, same currency as the printed books
+  price: number;
+}
+
+export const CREDIT_PACKS: CreditPack[] = [
+  { id: 'small', credits: 5, price: 2900 },
+  { id: 'medium', credits: 15, price: 6900 },
+  { id: 'large', credits: 40, price: 14900 },
+];
+
+export const CREDITS_CURRENCY = PRINT_CURRENCY;
+
+export const getCreditPack = (packId: string): CreditPack | null =>
+  CREDIT_PACKS.find(pack => pack.id === packId) || null;
+
+// "29.00", the amount format PayPal expects
+export const formatCreditPackPrice = (pack: CreditPack): string => formatPrintAmount(pack.price);
+
+export interface CreditPackTotal {
+  currency: string;
+  itemTotal: string;
+  discount: string;
+  total: string;
+}
+
+/**
+ * @param percentOff Percentage of a percent_off promo code
+ */
+export function calculateCreditPackTotal(pack: CreditPack, percentOff = 0): CreditPackTotal {
+  const discount = calculateDiscount(pack.price, percentOff);
+  return {
+    currency: CREDITS_CURRENCY,
+    itemTotal: formatPrintAmount(pack.price),
+    discount: formatPrintAmount(discount),
+    total: formatPrintAmount(pack.price - discount),
+  };
+}
+
+/**
+ * Credits the refunds of a credit pack take back, in proportion to the amount refunded
+ * @param refundedAmount Amount of all the refunds of the order so far, "14.50"
+ * @returns Every credit of the pack once its whole total is refunded
+ */
+export function calculateRefundedCredits(credits: number, total: string, refundedAmount: string): number {
+  const totalMinor = parsePrintAmount(total);
+  if (totalMinor <= 0) {
+    return credits;
+  }
+  const refundedMinor = Math.min(parsePrintAmount(refundedAmount), totalMinor);
+  return Math.round(credits * refundedMinor / totalMinor);
+}
+
+export interface InsufficientCreditsDetails {
+  balance: number;
+  required: number;
+}
+
+/**
+ * Thrown when the account cannot pay for a story
+ */
+export class InsufficientCreditsError extends Error {
+  readonly code = INSUFFICIENT_CREDITS;
+
+  constructor(public readonly details: InsufficientCreditsDetails) {
+    super(`Not enough credits: ${details.required} needed, ${details.balance} left`);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+/**
+ * Read the credit details from an error thrown by the API client or FunctionClientAPI
+ * Returns null for any other error
+ */
+export function getInsufficientCreditsDetails(error: unknown): InsufficientCreditsDetails | null {
+  if (error instanceof InsufficientCreditsError) {
+    return error.details;
+  }
+  if (error && typeof error === 'object' && (error as { error?: unknown }).error === INSUFFICIENT_CREDITS) {
+    const details = (error as { details?: Partial<InsufficientCreditsDetails> }).details;
+    if (details && typeof details.balance === 'number') {
+      return { balance: details.balance, required: details.required ?? STORY_CREDIT_COST };
+    }
+  }
+  return null;
+}
+
+/**
+ * Localized message for an insufficient credits error
+ */
+export function getInsufficientCreditsMessage(details: InsufficientCreditsDetails, t: Translation): string {
+  return t.credits.insufficientMessage
+    .replace('{balance}', String(details.balance))
+    .replace('{required}', String(details.required));
+}
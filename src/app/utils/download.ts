@@ -0,0 +1,14 @@
+/**
+ * Save a file the app fetched itself (e.g. an authenticated export) through the browser's download
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,42 @@
+import type { KidDetails, KidSharePermission, Story } from '@/models';
+
+/**
+ * Access to a kid and its stories
+ * The account that owns the kid (KidDetails.accountId) can do everything. An account the kid is
+ * shared with gets the permission of the share: 'write' edits the kid and its stories, 'read' only
+ * views them. Only the owner deletes the kid and manages who it is shared with.
+ * The API routes check this with withAuth for the IDs of a request and authorizeKidAccess for the access
+ * a route needs (src/app/utils/api-helpers.ts).
+ */
+
+export type KidAccess = 'owner' | KidSharePermission;
+
+const ACCESS_RANK: Record<KidAccess, number> = {
+  read: 1,
+  write: 2,
+  owner: 3,
+};
+
+/**
+ * Whether an access level allows what the required level allows
+ */
+export function hasKidAccess(access: KidAccess | null, required: KidAccess): boolean {
+  return !!access && ACCESS_RANK[access] >= ACCESS_RANK[required];
+}
+
+/**
+ * Access of an account to a kid, or to one of the kid's stories
+ * The account that created a story owns it, even when the kid belongs to another account.
+ * @param sharePermission The permission the kid is shared with the account's email, null when not shared
+ */
+export function getKidAccess(
+  uid: string,
+  kid: Pick<KidDetails, 'accountId'> | null,
+  sharePermission: KidSharePermission | null,
+  story?: Pick<Story, 'accountId' | 'userId'>
+): KidAccess | null {
+  if (kid?.accountId === uid || (story && (story.accountId === uid || story.userId === uid))) {
+    return 'owner';
+  }
+  return kid ? sharePermission : null;
+}
@@ -0,0 +1,46 @@
+import type { Translation } from '@/app/translations/types';
+
+/**
+ * Content moderation of story requests
+ * The Firebase functions screen the parent's free text (functions/src/lib/moderation.ts)
+ * and reject unsafe requests with a content-flagged error, explained here in the parent's language.
+ */
+
+// Error code carried in the details of the functions error
+export const CONTENT_FLAGGED = 'content-flagged';
+
+export type ContentFlaggedReason = 'self_harm' | 'unsafe';
+
+export interface ContentFlaggedDetails {
+  reason: ContentFlaggedReason;
+  categories: string[];
+  // The request fields that were flagged, e.g. problemDescription
+  fields: string[];
+}
+
+/**
+ * Thrown when a story request does not pass moderation
+ */
+export class ContentFlaggedError extends Error {
+  readonly code = CONTENT_FLAGGED;
+
+  constructor(public readonly details: ContentFlaggedDetails) {
+    super(`Content flagged: ${details.reason} in ${details.fields.join(', ') || 'request'}`);
+    this.name = 'ContentFlaggedError';
+  }
+}
+
+/**
+ * Read the moderation details from an error thrown by FunctionClientAPI
+ * Returns null for any other error
+ */
+export function getContentFlaggedDetails(error: unknown): ContentFlaggedDetails | null {
+  return error instanceof ContentFlaggedError ? error.details : null;
+}
+
+/**
+ * Localized explanation for a flagged request
+ */
+export function getContentFlaggedMessage(details: ContentFlaggedDetails, t: Translation): string {
+  return details.reason === 'self_harm' ? t.moderation.selfHarm : t.moderation.unsafe;
+}
@@ -0,0 +1,66 @@
+import { PrintFormat, PrintOrderStatus } from '@/models';
+import { calculateDiscount } from './promo-code';
+
+/**
+ * Printed book pricing and order status rules
+ * The order dialog shows the same total the API routes charge, the server never takes
+ * a price from the request.
+ */
+
+export const PRINT_CURRENCY = 'ILS';
+
+// Prices in agorot so totals add up without floating point rounding
+export const PRINT_FORMAT_PRICES: Record<PrintFormat, number> = {
+  hardcover: 14900,
+  softcover: 9900,
+};
+
+// One flat rate per order, the books ship together
+export const PRINT_SHIPPING_PRICE = 3000;
+
+// Same bound as PrintOrderCreateRequestSchema
+export const MAX_PRINT_QUANTITY = 10;
+
+export interface PrintOrderTotal {
+  currency: string;
+  unitPrice: string;
+  itemTotal: string;
+  // Taken off the items by a percent_off promo code, "0.00" without one
+  discount: string;
+  shipping: string;
+  total: string;
+}
+
+// "149.00", the amount format PayPal expects
+export const formatPrintAmount = (minorUnits: number): string => (minorUnits / 100).toFixed(2);
+
+// "149.00" back to 14900
+export const parsePrintAmount = (amount: string): number => Math.round(Number(amount) * 100) || 0;
+
+/**
+ * @param percentOff Percentage of a percent_off promo code, applied to the books only
+ */
+export function calculatePrintOrderTotal(format: PrintFormat, quantity: number, percentOff = 0): PrintOrderTotal {
+  const unitPrice = PRINT_FORMAT_PRICES[format];
+  const itemTotal = unitPrice * quantity;
+  const discount = calculateDiscount(itemTotal, percentOff);
+  return {
+    currency: PRINT_CURRENCY,
+    unitPrice: formatPrintAmount(unitPrice),
+    itemTotal: formatPrintAmount(itemTotal),
+    discount: formatPrintAmount(discount),
+    shipping: formatPrintAmount(PRINT_SHIPPING_PRICE),
+    total: formatPrintAmount(itemTotal - discount + PRINT_SHIPPING_PRICE),
+  };
+}
+
+// Each status can only move to the next one
+const NEXT_STATUS: Record<PrintOrderStatus, PrintOrderStatus | null> = {
+  [PrintOrderStatus.CREATED]: PrintOrderStatus.PAID,
+  [PrintOrderStatus.PAID]: PrintOrderStatus.SENT_TO_PRINTER,
+  [PrintOrderStatus.SENT_TO_PRINTER]: PrintOrderStatus.SHIPPED,
+  [PrintOrderStatus.SHIPPED]: null,
+};
+
+export const canTransitionPrintOrder = (from: PrintOrderStatus, to: PrintOrderStatus): boolean =>
+  NEXT_STATUS[from] === to;
@@ -0,0 +1,124 @@
+import type { PromoCode, PromoCodeRedemption, PromoCodeType } from '@/models';
+import type { Translation } from '@/app/translations/types';
+
+/**
+ * Promo codes
+ * free_credits codes are redeemed from the dashboard and add credits to the balance,
+ * percent_off codes are entered at checkout and take a percentage off the items (not shipping).
+ * Every account can use a code once. The API routes run these checks again in the redemption
+ * transaction (src/app/services/firestore.server.ts).
+ * A percent_off code is reserved for an order when the order is saved and confirmed when it is
+ * paid, an unpaid reservation holds its slot for PROMO_CODE_RESERVATION_MS.
+ */
+
+// An unpaid checkout holds its promo code this long, then the slot can go to another checkout
+export const PROMO_CODE_RESERVATION_MS = 3 * 60 * 60 * 1000;
+
+// Error code returned by the API routes
+export const PROMO_CODE_REJECTED = 'promo-code-rejected';
+
+export type PromoCodeRejectionReason = 'not_found' | 'inactive' | 'expired' | 'exhausted' | 'already_redeemed' | 'wrong_type';
+
+export interface PromoCodeRejectedDetails {
+  reason: PromoCodeRejectionReason;
+}
+
+/**
+ * Thrown when a promo code cannot be used
+ */
+export class PromoCodeRejectedError extends Error {
+  readonly code = PROMO_CODE_REJECTED;
+
+  constructor(public readonly details: PromoCodeRejectedDetails) {
+    super(`Promo code rejected: ${details.reason}`);
+    this.name = 'PromoCodeRejectedError';
+  }
+}
+
+// A percent_off code accepted at checkout
+export interface CheckoutDiscount {
+  code: string;
+  percentOff: number;
+}
+
+// Codes are stored and compared in upper case
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Check whether a promo code can be used now
+ * @param alreadyRedeemed Whether the account used the code before
+ * @param type The kind of code the caller expects, e.g. percent_off at checkout
+ */
+export function checkPromoCode(
+  promo: Pick<PromoCode, 'type' | 'active' | 'expiresAt' | 'maxRedemptions' | 'redemptionCount'> | null,
+  type: PromoCodeType,
+  alreadyRedeemed: boolean,
+  now: Date = new Date()
+): PromoCodeRejectedDetails | null {
+  if (!promo) {
+    return { reason: 'not_found' };
+  }
+  if (promo.type !== type) {
+    return { reason: 'wrong_type' };
+  }
+  if (!promo.active) {
+    return { reason: 'inactive' };
+  }
+  if (promo.expiresAt && new Date(promo.expiresAt).getTime() <= now.getTime()) {
+    return { reason: 'expired' };
+  }
+  if (typeof promo.maxRedemptions === 'number' && promo.redemptionCount >= promo.maxRedemptions) {
+    return { reason: 'exhausted' };
+  }
+  if (alreadyRedeemed) {
+    return { reason: 'already_redeemed' };
+  }
+  return null;
+}
+
+/**
+ * Check a percent_off code for a new checkout of an account
+ * A reservation the account holds for an unpaid order moves to the new order, so it is not a use,
+ * and the slot of an expired reservation of another account can be taken over.
+ * @param redemption The account's use of the code, if any
+ * @param expiredReservation Whether another account holds an expired reservation of the code
+ */
+export function checkCheckoutPromoCode(
+  promo: Pick<PromoCode, 'type' | 'active' | 'expiresAt' | 'maxRedemptions' | 'redemptionCount'> | null,
+  redemption: Pick<PromoCodeRedemption, 'status'> | null,
+  expiredReservation: boolean,
+  now: Date = new Date()
+): PromoCodeRejectedDetails | null {
+  const ownReservation = redemption?.status === 'reserved';
+  const freedSlots = (ownReservation ? 1 : 0) + (expiredReservation ? 1 : 0);
+  const available = promo && { ...promo, redemptionCount: promo.redemptionCount - freedSlots };
+  return checkPromoCode(available, 'percent_off', !!redemption && !ownReservation, now);
+}
+
+/**
+ * Discount of a percent_off code, in minor units, rounded to the nearest agora
+ */
+export const calculateDiscount = (itemTotal: number, percentOff: number): number =>
+  Math.round(itemTotal * Math.min(100, Math.max(0, percentOff)) / 100);
+
+/**
+ * Read the promo code details from an error returned by the API client
+ * Returns null for any other error
+ */
+export function getPromoCodeRejectedDetails(error: unknown): PromoCodeRejectedDetails | null {
+  if (error instanceof PromoCodeRejectedError) {
+    return error.details;
+  }
+  if (error && typeof error === 'object' && (error as { error?: unknown }).error === PROMO_CODE_REJECTED) {
+    const details = (error as { details?: Partial<PromoCodeRejectedDetails> }).details;
+    return { reason: details?.reason || 'not_found' };
+  }
+  return null;
+}
+
+/**
+ * Localized message for a rejected promo code
+ */
+export function getPromoCodeRejectedMessage(details: PromoCodeRejectedDetails, t: Translation): string {
+  return t.promoCode.rejected[details.reason];
+}
@@ -0,0 +1,49 @@
+import type { Translation } from '@/app/translations/types';
+import { QUOTA_EXCEEDED, QuotaExceededDetails } from '@/constants/quota';
+
+/**
+ * Account quotas (Account.kids_limit and Account.story_per_kid_limit)
+ * The checks themselves live in src/constants/quota.ts, shared with the API routes
+ * (src/app/services/quota.server.ts) and synced to the Firebase functions.
+ * This file adds the error and messages the browser shows.
+ */
+
+export { QUOTA_EXCEEDED, checkKidsQuota, checkStoryQuota } from '@/constants/quota';
+export type { QuotaType, QuotaExceededDetails } from '@/constants/quota';
+
+/**
+ * Thrown when an account is over one of its limits
+ */
+export class QuotaExceededError extends Error {
+  readonly code = QUOTA_EXCEEDED;
+
+  constructor(public readonly details: QuotaExceededDetails) {
+    super(`Quota exceeded: ${details.quota} limit is ${details.limit} (used ${details.used})`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Read the quota details from an error thrown by the API client or FunctionClientAPI
+ * Returns null for any other error
+ */
+export function getQuotaExceededDetails(error: unknown): QuotaExceededDetails | null {
+  if (error instanceof QuotaExceededError) {
+    return error.details;
+  }
+  if (error && typeof error === 'object' && (error as { error?: unknown }).error === QUOTA_EXCEEDED) {
+    const details = (error as { details?: Partial<QuotaExceededDetails> }).details;
+    if (details && (details.quota === 'kids' || details.quota === 'stories_per_kid') && typeof details.limit === 'number') {
+      return { quota: details.quota, limit: details.limit, used: details.used ?? details.limit };
+    }
+  }
+  return null;
+}
+
+/**
+ * Localized message for a quota error
+ */
+export function getQuotaExceededMessage(details: QuotaExceededDetails, t: Translation): string {
+  const template = details.quota === 'kids' ? t.quota.kidsLimitReached : t.quota.storiesLimitReached;
+  return template.replace('{limit}', String(details.limit));
+}
@@ -0,0 +1,98 @@
+import type { Translation } from '@/app/translations/types';
+
+/**
+ * Daily rate limits on the expensive AI endpoints
+ * A sliding 24 hour window per account and per IP, enforced in the Next API routes
+ * (src/app/services/rate-limit.server.ts) and in the Firebase functions
+ * (functions/src/lib/rate-limit.ts mirrors this file). Accounts with a role are exempt.
+ */
+
+// Error code returned by the API routes and carried in the details of the functions error
+export const RATE_LIMITED = 'rate-limited';
+
+export const RATE_LIMIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type RateLimitAction = 'stories' | 'images' | 'ai_requests';
+
+export interface RateLimitedDetails {
+  action: RateLimitAction;
+  limit: number;
+  // Seconds until the next request is allowed
+  retryAfter: number;
+}
+
+/**
+ * Thrown when an account or IP is over its daily limit
+ */
+export class RateLimitedError extends Error {
+  readonly code = RATE_LIMITED;
+
+  constructor(public readonly details: RateLimitedDetails) {
+    super(`Rate limited: ${details.action} limit is ${details.limit} a day, retry after ${details.retryAfter}s`);
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Keep only the hits inside the window, oldest first
+ */
+export function slideWindow(hits: unknown, now: number): number[] {
+  if (!Array.isArray(hits)) {
+    return [];
+  }
+  return hits
+    .filter((hit): hit is number => typeof hit === 'number' && hit > now - RATE_LIMIT_WINDOW_MS && hit <= now)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Seconds until another hit fits in the window, or null when it fits now
+ * @param hits Hits inside the window, oldest first (see slideWindow)
+ */
+export function getRetryAfterSeconds(hits: number[], limit: number, now: number): number | null {
+  if (hits.length < limit) {
+    return null;
+  }
+  // The window frees up once enough of the oldest hits expire to drop below the limit
+  const expiringHit = hits[hits.length - limit];
+  return Math.max(1, Math.ceil((expiringHit + RATE_LIMIT_WINDOW_MS - now) / 1000));
+}
+
+/**
+ * Document ID of a counter, e.g. account_{uid}_stories or ip_{ip}_images
+ */
+export function rateLimitKey(kind: 'account' | 'ip', id: string, action: RateLimitAction): string {
+  return `${kind}_${id.replace(/[^\w.:-]/g, '_')}_${action}`;
+}
+
+/**
+ * Read the rate limit details from an error thrown by the API client or FunctionClientAPI
+ * Returns null for any other error
+ */
+export function getRateLimitedDetails(error: unknown): RateLimitedDetails | null {
+  if (error instanceof RateLimitedError) {
+    return error.details;
+  }
+  if (error && typeof error === 'object' && (error as { error?: unknown }).error === RATE_LIMITED) {
+    const details = (error as { details?: Partial<RateLimitedDetails> }).details;
+    if (details && typeof details.retryAfter === 'number') {
+      return {
+        action: details.action || 'ai_requests',
+        limit: details.limit ?? 0,
+        retryAfter: details.retryAfter,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Localized message for a rate limit error, with the wait rounded up to minutes or hours
+ */
+export function getRateLimitedMessage(details: RateLimitedDetails, t: Translation): string {
+  const minutes = Math.max(1, Math.ceil(details.retryAfter / 60));
+  const time = minutes < 60
+    ? t.rateLimit.minutes.replace('{count}', String(minutes))
+    : t.rateLimit.hours.replace('{count}', String(Math.ceil(minutes / 60)));
+  return t.rateLimit.tryAgainIn.replace('{time}', time);
+}
@@ -0,0 +1,83 @@
+import type { KidShareInvitation, KidShareInvitationStatus } from '@/models';
+import type { Translation } from '@/app/translations/types';
+
+/**
+ * Kid share invitations
+ * Sharing a kid invites the email instead of granting access at once. The invited account accepts
+ * or declines from the signed link in the invitation email or from the inbox on its dashboard.
+ * Accepting adds the share (users_{env}/{kidId}/sharedWith) and emails the account that invited.
+ */
+
+// Error code returned by the invitation API routes
+export const SHARE_INVITATION_UNAVAILABLE = 'share-invitation-unavailable';
+
+// Days an invitation can be answered
+export const SHARE_INVITATION_TTL_DAYS = 14;
+
+export type ShareInvitationUnavailableReason =
+  | 'not_found'
+  | 'expired'
+  | 'already_responded'
+  | 'wrong_account';
+
+export interface ShareInvitationUnavailableDetails {
+  reason: ShareInvitationUnavailableReason;
+}
+
+/**
+ * Current status of an invitation, a pending one is expired once expiresAt passes
+ */
+export function getInvitationStatus(
+  invitation: Pick<KidShareInvitation, 'status' | 'expiresAt'>,
+  now: Date = new Date()
+): KidShareInvitationStatus {
+  if (invitation.status === 'pending' && new Date(invitation.expiresAt).getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return invitation.status;
+}
+
+/**
+ * Check whether the account signed in with an email can answer an invitation
+ */
+export function checkInvitationResponse(
+  invitation: Pick<KidShareInvitation, 'status' | 'expiresAt' | 'email'> | null,
+  email: string | null,
+  now: Date = new Date()
+): ShareInvitationUnavailableDetails | null {
+  if (!invitation) {
+    return { reason: 'not_found' };
+  }
+  const status = getInvitationStatus(invitation, now);
+  if (status === 'expired') {
+    return { reason: 'expired' };
+  }
+  if (status !== 'pending') {
+    return { reason: 'already_responded' };
+  }
+  if (!email || email.toLowerCase() !== invitation.email) {
+    return { reason: 'wrong_account' };
+  }
+  return null;
+}
+
+export const getInvitationUrl = (origin: string, token: string): string => `${origin}/invitations/${token}`;
+
+/**
+ * Read the invitation details from an error returned by the API client
+ * Returns null for any other error
+ */
+export function getShareInvitationUnavailableDetails(error: unknown): ShareInvitationUnavailableDetails | null {
+  if (error && typeof error === 'object' && (error as { error?: unknown }).error === SHARE_INVITATION_UNAVAILABLE) {
+    const details = (error as { details?: Partial<ShareInvitationUnavailableDetails> }).details;
+    return { reason: details?.reason || 'not_found' };
+  }
+  return null;
+}
+
+/**
+ * Localized message for an invitation that cannot be answered
+ */
+export function getShareInvitationUnavailableMessage(details: ShareInvitationUnavailableDetails, t: Translation): string {
+  return t.shareInvitations.unavailable[details.reason];
+}
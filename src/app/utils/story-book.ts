@@ -0,0 +1,149 @@
+import { PageType, Story, StoryGraph, StoryGraphNode, StoryPage, Language } from "@/models";
+import { extractStoryChoices } from "@/app/stories/components/utils/storyChoiceUtils";
+
+/**
+ * Printed book layout of a story, shared by the PDF and EPUB exports
+ *
+ * Reading order becomes page order: the cover, the pages up to the first decision, then one
+ * page per choice. Each choice points to the page number its path starts on, as in a
+ * choose-your-path book, and the paths follow one after the other, each ending on its own page.
+ * Flat stories are laid out through the same graph as branching ones, built from the pages and
+ * choices the reader shows (Story.getPagesByType, extractStoryChoices).
+ */
+
+export interface BookPage {
+  // 1-based, as printed on the page
+  pageNumber: number;
+  kind: 'cover' | 'page' | 'choice';
+  text: string;
+  imageUrl: string | null;
+  // Page the reader continues on when it is not the next printed page
+  turnTo: number | null;
+  // Last page of a path
+  ending: boolean;
+}
+
+export interface StoryBook {
+  title: string;
+  language: Language;
+  pages: BookPage[];
+}
+
+// Graph nodes reference pages by their index in story.pages
+const pageIndexes = (story: Story, pages: StoryPage[]): number[] =>
+  pages.map(page => story.pages.indexOf(page)).filter(index => index >= 0);
+
+// Flat stories as a graph: cover, shared pages, then the good and bad choice each leading to its path
+const buildFlatGraph = (story: Story): StoryGraph => {
+  const nodes: Record<string, StoryGraphNode> = {};
+  const chain = (prefix: string, pageNums: number[]): string | null => {
+    pageNums.forEach((pageNum, index) => {
+      nodes[`${prefix}-${index}`] = {
+        id: `${prefix}-${index}`,
+        pageNum,
+        next: index < pageNums.length - 1 ? `${prefix}-${index + 1}` : null,
+        ending: index === pageNums.length - 1,
+      };
+    });
+    return pageNums.length > 0 ? `${prefix}-0` : null;
+  };
+
+  const shared = pageIndexes(story, [
+    ...Story.getPagesByType(story, PageType.COVER).slice(0, 1),
+    ...Story.getPagesByType(story, PageType.NORMAL),
+  ]);
+  const startNodeId = chain('shared', shared) || 'shared-0';
+  const goodStart = chain('good', pageIndexes(story, Story.getPagesByType(story, PageType.GOOD)));
+  const badStart = chain('bad', pageIndexes(story, Story.getPagesByType(story, PageType.BAD)));
+
+  const lastShared = nodes[`shared-${shared.length - 1}`];
+  const storyChoices = extractStoryChoices(story);
+  if (lastShared && storyChoices) {
+    const choices = [
+      { kind: 'good' as const, choicePage: storyChoices.goodChoice, targetNodeId: goodStart },
+      { kind: 'bad' as const, choicePage: storyChoices.badChoice, targetNodeId: badStart },
+    ].filter(choice => choice.targetNodeId !== null);
+
+    if (choices.length > 0) {
+      lastShared.ending = false;
+      lastShared.choices = choices.map(choice => ({
+        id: choice.kind,
+        label: choice.choicePage?.storyText || '',
+        targetNodeId: choice.targetNodeId!,
+        choicePageNum: choice.choicePage ? story.pages.indexOf(choice.choicePage) : undefined,
+        kind: choice.kind,
+      }));
+    }
+  }
+
+  return { startNodeId, nodes };
+};
+
+/**
+ * Hebrew when the title or any page has Hebrew characters, English otherwise
+ */
+export const getStoryLanguage = (story: Story): Language =>
+  [story.title, ...story.pages.map(page => page.storyText)].some(text => /[\u0590-\u05FF]/.test(text || '')) ? 'he' : 'en';
+
+/**
+ * Lay the story out as a printed book
+ */
+export const buildStoryBook = (story: Story): StoryBook => {
+  const graph = Story.isBranching(story) && story.graph ? story.graph : buildFlatGraph(story);
+  const pages: Array<Omit<BookPage, 'turnTo'> & { turnToNodeId: string | null }> = [];
+  const nodePageNumbers = new Map<string, number>();
+
+  const addPage = (kind: BookPage['kind'], page: StoryPage | undefined, text: string, turnToNodeId: string | null = null) => {
+    pages.push({
+      pageNumber: pages.length + 1,
+      kind,
+      text,
+      imageUrl: page?.selectedImageUrl || null,
+      turnToNodeId,
+      ending: false,
+    });
+    return pages[pages.length - 1];
+  };
+
+  // Each path is printed as a run of pages, paths reached by choices are queued behind it
+  const queue = [graph.startNodeId];
+  while (queue.length > 0) {
+    let nodeId: string | null | undefined = queue.shift()!;
+
+    while (nodeId && graph.nodes[nodeId] && !nodePageNumbers.has(nodeId)) {
+      const node: StoryGraphNode = graph.nodes[nodeId];
+      const page = story.pages[node.pageNum];
+      const bookPage = addPage(page?.pageType === PageType.COVER ? 'cover' : 'page', page, page?.storyText || '');
+      nodePageNumbers.set(nodeId, bookPage.pageNumber);
+
+      if (node.choices && node.choices.length > 0) {
+        node.choices.forEach(choice => {
+          const choicePage = typeof choice.choicePageNum === 'number' ? story.pages[choice.choicePageNum] : undefined;
+          addPage('choice', choicePage, choicePage?.storyText || choice.label, choice.targetNodeId);
+          queue.push(choice.targetNodeId);
+        });
+        break;
+      }
+
+      if (node.ending || !node.next) {
+        bookPage.ending = true;
+        break;
+      }
+
+      // Paths that join an earlier path send the reader back to it
+      if (nodePageNumbers.has(node.next)) {
+        bookPage.turnToNodeId = node.next;
+      }
+      nodeId = node.next;
+    }
+  }
+
+  return {
+    title: story.title,
+    language: getStoryLanguage(story),
+    pages: pages.map(({ turnToNodeId, ...page }) => ({
+      ...page,
+      turnTo: turnToNodeId ? nodePageNumbers.get(turnToNodeId) ?? null : null,
+    })),
+  };
+};
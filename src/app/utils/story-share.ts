@@ -0,0 +1,107 @@
+import type { Story, StoryShareLink } from '@/models';
+import type { Translation } from '@/app/translations/types';
+
+/**
+ * Public share links
+ * A link opens one story read-only without signing in, until it expires or the owner revokes it.
+ * Readers get a copy of the story without the kid, the account and the parent's notes
+ * (see toSharedStory), the link token is the only thing that grants access.
+ */
+
+// Error code returned by the shared story API route
+export const SHARE_LINK_UNAVAILABLE = 'share-link-unavailable';
+
+// Header carrying the passcode of a protected link, so it stays out of URLs and logs
+export const SHARE_PASSCODE_HEADER = 'x-share-passcode';
+
+// Shortest passcode a new link accepts
+export const SHARE_PASSCODE_MIN_LENGTH = 8;
+
+// Passcode attempts per link and IP a day
+export const SHARE_PASSCODE_ATTEMPTS_PER_DAY = 30;
+
+// Passcode attempts per link a day from all IPs together, the IP comes from a header a reader can change
+export const SHARE_LINK_PASSCODE_ATTEMPTS_PER_DAY = 100;
+
+export type ShareLinkUnavailableReason =
+  | 'not_found'
+  | 'revoked'
+  | 'expired'
+  | 'passcode_required'
+  | 'wrong_passcode'
+  | 'too_many_attempts';
+
+export interface ShareLinkUnavailableDetails {
+  reason: ShareLinkUnavailableReason;
+}
+
+/**
+ * Check whether a share link can be opened now, before its passcode is checked
+ */
+export function checkShareLink(
+  link: Pick<StoryShareLink, 'expiresAt' | 'revokedAt'> | null,
+  now: Date = new Date()
+): ShareLinkUnavailableDetails | null {
+  if (!link) {
+    return { reason: 'not_found' };
+  }
+  if (link.revokedAt) {
+    return { reason: 'revoked' };
+  }
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime()) {
+    return { reason: 'expired' };
+  }
+  return null;
+}
+
+/**
+ * Copy of a story for share link readers
+ * Drops the kid and account references, the parent's notes about the kid, the image prompts
+ * (they describe the kid's appearance), the unused image candidates and the page history.
+ */
+export function toSharedStory(story: Story): Story {
+  return {
+    id: story.id,
+    kidId: '',
+    accountId: '',
+    userId: '',
+    title: story.title,
+    problemDescription: '',
+    advantages: '',
+    disadvantages: '',
+    status: story.status,
+    graph: story.graph || null,
+    pages: story.pages.map(page => ({
+      pageType: page.pageType,
+      pageNum: page.pageNum,
+      storyText: page.storyText,
+      selectedImageUrl: page.selectedImageUrl || null,
+      imagePrompt: '',
+      audioUrl: page.audioUrl || null,
+      wordTimings: page.wordTimings || null,
+    })),
+    createdAt: story.createdAt,
+    lastUpdated: story.lastUpdated,
+  };
+}
+
+export const getShareLinkUrl = (origin: string, token: string): string => `${origin}/shared/${token}`;
+
+/**
+ * Read the share link details from an error returned by the API client
+ * Returns null for any other error
+ */
+export function getShareLinkUnavailableDetails(error: unknown): ShareLinkUnavailableDetails | null {
+  if (error && typeof error === 'object' && (error as { error?: unknown }).error === SHARE_LINK_UNAVAILABLE) {
+    const details = (error as { details?: Partial<ShareLinkUnavailableDetails> }).details;
+    return { reason: details?.reason || 'not_found' };
+  }
+  return null;
+}
+
+/**
+ * Localized message for a share link that cannot be opened
+ */
+export function getShareLinkUnavailableMessage(details: ShareLinkUnavailableDetails, t: Translation): string {
+  return t.shareLinks.unavailable[details.reason];
+}
@@ -34,6 +34,11 @@ exports.EMAIL_TEMPLATES = {
     SHARE_KID_HE: '1bfc1847-733d-4ccb-853c-03d0f3dba81e',
     STORY_READY_EN: 'cdde88b2-fc1b-4d74-9c91-f5446b5a2f0f',
     STORY_READY_HE: 'cdec5dd2-6eea-4420-b5b1-c1a022a8396f',
+    // Template aliases until the upload prints their UUIDs, Resend looks a template up by either
+    KID_INVITATION_EN: 'KID_INVITATION_EN',
+    KID_INVITATION_HE: 'KID_INVITATION_HE',
+    KID_INVITATION_ACCEPTED_EN: 'KID_INVITATION_ACCEPTED_EN',
+    KID_INVITATION_ACCEPTED_HE: 'KID_INVITATION_ACCEPTED_HE',
 };
 /**
  * Available variable names for each template (for runtime validation)
@@ -43,6 +48,10 @@ exports.TEMPLATE_VARIABLES = {
     SHARE_KID_EN: ['SHARE_URL'],
     STORY_READY_EN: ['STORY_URL', 'STORY_TITLE'],
     STORY_READY_HE: ['STORY_URL', 'STORY_TITLE'],
+    KID_INVITATION_EN: ['INVITE_URL', 'INVITER_NAME', 'KID_NAME'],
+    KID_INVITATION_HE: ['INVITE_URL', 'INVITER_NAME', 'KID_NAME'],
+    KID_INVITATION_ACCEPTED_EN: ['INVITEE_EMAIL', 'KID_NAME', 'DASHBOARD_URL'],
+    KID_INVITATION_ACCEPTED_HE: ['INVITEE_EMAIL', 'KID_NAME', 'DASHBOARD_URL'],
 };
 /**
  * Mapping from template category + language to specific template ID
@@ -57,6 +66,14 @@ const TEMPLATE_CATEGORY_MAP = {
         en: 'STORY_READY_EN',
         he: 'STORY_READY_HE',
     },
+    KID_INVITATION: {
+        en: 'KID_INVITATION_EN',
+        he: 'KID_INVITATION_HE',
+    },
+    KID_INVITATION_ACCEPTED: {
+        en: 'KID_INVITATION_ACCEPTED_EN',
+        he: 'KID_INVITATION_ACCEPTED_HE',
+    },
     // Add new template mappings here:
     // WELCOME: {
     //   en: 'WELCOME_EN',
@@ -32,6 +32,11 @@ export const EMAIL_TEMPLATES = {
   SHARE_KID_HE: '1bfc1847-733d-4ccb-853c-03d0f3dba81e',
   STORY_READY_EN: 'cdde88b2-fc1b-4d74-9c91-f5446b5a2f0f',
   STORY_READY_HE: 'cdec5dd2-6eea-4420-b5b1-c1a022a8396f',
+  // Template aliases until the upload prints their UUIDs, Resend looks a template up by either
+  KID_INVITATION_EN: 'KID_INVITATION_EN',
+  KID_INVITATION_HE: 'KID_INVITATION_HE',
+  KID_INVITATION_ACCEPTED_EN: 'KID_INVITATION_ACCEPTED_EN',
+  KID_INVITATION_ACCEPTED_HE: 'KID_INVITATION_ACCEPTED_HE',
 } as const;
 
 export type EmailTemplateId = keyof typeof EMAIL_TEMPLATES;
@@ -55,6 +60,24 @@ export interface StoryReadyTemplateVariables {
   STORY_TITLE: string;
 }
 
+/**
+ * Variables for Kid Invitation templates (Hebrew and English)
+ */
+export interface KidInvitationTemplateVariables {
+  INVITE_URL: string;
+  INVITER_NAME: string;
+  KID_NAME: string;
+}
+
+/**
+ * Variables for Kid Invitation Accepted templates (Hebrew and English)
+ */
+export interface KidInvitationAcceptedTemplateVariables {
+  INVITEE_EMAIL: string;
+  KID_NAME: string;
+  DASHBOARD_URL: string;
+}
+
 /**
  * Maps each template ID to its specific variables type
  */
@@ -63,6 +86,10 @@ export interface TemplateVariablesMap {
   SHARE_KID_EN: ShareKidTemplateVariables;
   STORY_READY_EN: StoryReadyTemplateVariables;
   STORY_READY_HE: StoryReadyTemplateVariables;
+  KID_INVITATION_EN: KidInvitationTemplateVariables;
+  KID_INVITATION_HE: KidInvitationTemplateVariables;
+  KID_INVITATION_ACCEPTED_EN: KidInvitationAcceptedTemplateVariables;
+  KID_INVITATION_ACCEPTED_HE: KidInvitationAcceptedTemplateVariables;
 }
 
 /**
@@ -73,6 +100,10 @@ export const TEMPLATE_VARIABLES: Record<EmailTemplateId, string[]> = {
   SHARE_KID_EN: ['SHARE_URL'],
   STORY_READY_EN: ['STORY_URL', 'STORY_TITLE'],
   STORY_READY_HE: ['STORY_URL', 'STORY_TITLE'],
+  KID_INVITATION_EN: ['INVITE_URL', 'INVITER_NAME', 'KID_NAME'],
+  KID_INVITATION_HE: ['INVITE_URL', 'INVITER_NAME', 'KID_NAME'],
+  KID_INVITATION_ACCEPTED_EN: ['INVITEE_EMAIL', 'KID_NAME', 'DASHBOARD_URL'],
+  KID_INVITATION_ACCEPTED_HE: ['INVITEE_EMAIL', 'KID_NAME', 'DASHBOARD_URL'],
 };
 
 // ============================================
@@ -86,6 +117,8 @@ export const TEMPLATE_VARIABLES: Record<EmailTemplateId, string[]> = {
 export type EmailTemplateCategory = 
   | 'SHARE_KID'
   | 'STORY_READY'
+  | 'KID_INVITATION'
+  | 'KID_INVITATION_ACCEPTED'
   // Add more template categories here as you create them:
   // | 'WELCOME'
   // | 'PASSWORD_RESET'
@@ -104,6 +137,14 @@ const TEMPLATE_CATEGORY_MAP: Record<EmailTemplateCategory, Record<'en' | 'he', E
     en: 'STORY_READY_EN',
     he: 'STORY_READY_HE',
   },
+  KID_INVITATION: {
+    en: 'KID_INVITATION_EN',
+    he: 'KID_INVITATION_HE',
+  },
+  KID_INVITATION_ACCEPTED: {
+    en: 'KID_INVITATION_ACCEPTED_EN',
+    he: 'KID_INVITATION_ACCEPTED_HE',
+  },
   // Add new template mappings here:
   // WELCOME: {
   //   en: 'WELCOME_EN',
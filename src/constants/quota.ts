@@ -0,0 +1,50 @@
+/**
+ * Account Quota Constants - Single Source of Truth
+ *
+ * The checks of Account.kids_limit and Account.story_per_kid_limit, shared by the browser,
+ * the Next API routes (src/app/services/quota.server.ts) and the Firebase functions.
+ * A missing limit means the account is unlimited.
+ *
+ * Copied to functions/src/constants/quota.ts by `npm run sync:constants`, so keep this file
+ * free of imports.
+ */
+
+// Error code returned by the API routes and carried in the details of the functions error
+export const QUOTA_EXCEEDED = 'quota-exceeded';
+
+export type QuotaType = 'kids' | 'stories_per_kid';
+
+export interface QuotaExceededDetails {
+  quota: QuotaType;
+  limit: number;
+  used: number;
+}
+
+function checkLimit(quota: QuotaType, limit: number | undefined | null, used: number): QuotaExceededDetails | null {
+  if (typeof limit !== 'number' || used < limit) {
+    return null;
+  }
+  return { quota, limit, used };
+}
+
+/**
+ * Check whether the account may add another kid
+ * @param kidsCount Number of kids the account already has
+ */
+export function checkKidsQuota(
+  account: { kids_limit?: number | null } | null | undefined,
+  kidsCount: number
+): QuotaExceededDetails | null {
+  return checkLimit('kids', account?.kids_limit, kidsCount);
+}
+
+/**
+ * Check whether the account may create another story for the kid
+ * Uses stories_created, so deleting stories does not free up the quota
+ */
+export function checkStoryQuota(
+  account: { story_per_kid_limit?: number | null } | null | undefined,
+  kid: { stories_created?: number | null } | null | undefined
+): QuotaExceededDetails | null {
+  return checkLimit('stories_per_kid', account?.story_per_kid_limit, kid?.stories_created || 0);
+}